@@ -0,0 +1,279 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { CheckpointRecorder, loadResumeCandidates, loadResumeResults } from './checkpoint-recorder'
+import { isFetchSuccess, type FetchResult } from './parallel-controller'
+import {
+  clearStagedImages,
+  getStagedCandidates,
+  getStagedImages,
+  stageCandidates,
+  stageImage,
+} from '../lib/staging-store'
+import type { ImageCandidate, ProcessingCheckpoint } from '../shared/types'
+
+const mockChrome = {
+  storage: {
+    session: {
+      set: vi.fn(),
+      remove: vi.fn(),
+    },
+  },
+}
+
+global.chrome = mockChrome as unknown as typeof chrome
+
+const TAB_ID = 7
+
+const imageA: ImageCandidate = { url: 'https://example.com/a.jpg', source: 'img' }
+const imageB: ImageCandidate = { url: 'https://example.com/b.jpg', source: 'img' }
+const imageC: ImageCandidate = { url: 'https://example.com/c.jpg', source: 'css-bg' }
+const inlineImage: ImageCandidate = {
+  url: `data:image/png;base64,${'A'.repeat(1000)}`,
+  source: 'img',
+}
+
+const pages: Array<{ url: string; candidates: ImageCandidate[] }> = [
+  { url: 'https://example.com/list?page=1', candidates: [imageA, imageB] },
+  { url: 'https://example.com/list?page=2', candidates: [imageC] },
+]
+
+const success = async (candidate: ImageCandidate, hash: string): Promise<FetchResult> => ({
+  candidate,
+  blob: await new Response(hash).blob(),
+  hash,
+  contentType: 'image/jpeg',
+})
+
+/**
+ * 最後に保存されたチェックポイント
+ */
+const lastSavedCheckpoint = (): ProcessingCheckpoint => {
+  const calls = mockChrome.storage.session.set.mock.calls as Array<[Record<string, unknown>]>
+  const checkpoints = calls.flatMap(([items]) =>
+    items[`checkpoint_${TAB_ID}`] ? [items[`checkpoint_${TAB_ID}`] as ProcessingCheckpoint] : []
+  )
+  const checkpoint = checkpoints[checkpoints.length - 1]
+  if (!checkpoint) throw new Error('No checkpoint saved')
+  return checkpoint
+}
+
+describe('CheckpointRecorder', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockChrome.storage.session.set.mockResolvedValue(undefined)
+    mockChrome.storage.session.remove.mockResolvedValue(undefined)
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(async () => {
+    await clearStagedImages(TAB_ID)
+    vi.restoreAllMocks()
+  })
+
+  it('開始時にページ区切り付きのチェックポイントと処理中フラグを保存すること', async () => {
+    const recorder = new CheckpointRecorder(TAB_ID, pages)
+
+    await recorder.start()
+
+    expect(lastSavedCheckpoint()).toMatchObject({
+      tabId: TAB_ID,
+      url: 'https://example.com/list?page=1',
+      candidates: pages.flatMap((page) => page.candidates),
+      completedIndices: [],
+      phase: 'fetching',
+      pages: [
+        { url: 'https://example.com/list?page=1', candidateCount: 2 },
+        { url: 'https://example.com/list?page=2', candidateCount: 1 },
+      ],
+    })
+    expect(mockChrome.storage.session.set).toHaveBeenCalledWith({ activeProcessing: true })
+  })
+
+  it('チェックポイントにはdata: URLの本体を含めず、候補一覧はIndexedDBに保存すること', async () => {
+    const inlinePages = [{ url: 'https://example.com/', candidates: [imageA, inlineImage] }]
+    const recorder = new CheckpointRecorder(TAB_ID, inlinePages)
+    await recorder.start()
+
+    await recorder.record(1, { candidate: inlineImage, error: 'UNKNOWN', message: 'broken' })
+    await recorder.setPhase('zipping')
+
+    const checkpoint = lastSavedCheckpoint()
+    expect(checkpoint.candidates.map((candidate) => candidate.url)).toEqual([
+      'https://example.com/a.jpg',
+      'data:image/png;base64,',
+    ])
+    expect(checkpoint.failedCandidates.map((failed) => failed.url)).toEqual([
+      'data:image/png;base64,',
+    ])
+    expect(await getStagedCandidates(TAB_ID)).toEqual([imageA, inlineImage])
+  })
+
+  it('成功した画像を一時保存し、失敗画像とあわせて完了として記録すること', async () => {
+    const recorder = new CheckpointRecorder(TAB_ID, pages)
+    await recorder.start()
+
+    await recorder.record(0, await success(imageA, 'hash-a'))
+    await recorder.record(2, {
+      candidate: imageC,
+      error: 'HTTP_ERROR',
+      message: 'HTTP 404',
+    })
+    await recorder.setPhase('zipping')
+
+    const checkpoint = lastSavedCheckpoint()
+    expect(checkpoint.completedIndices).toEqual([0, 2])
+    expect(checkpoint.failedCandidates).toMatchObject([
+      { url: 'https://example.com/c.jpg', errorType: 'HTTP_ERROR', source: 'css-bg' },
+    ])
+    expect(checkpoint.phase).toBe('zipping')
+
+    const staged = await getStagedImages(TAB_ID)
+    expect(staged.map((image) => [image.index, image.hash])).toEqual([[0, 'hash-a']])
+  })
+
+  it('一時保存に失敗した画像も完了として記録し、再開時に取得し直すこと', async () => {
+    const recorder = new CheckpointRecorder(TAB_ID, pages)
+    await recorder.start()
+
+    // Blobの読み出しに失敗させて一時保存を失敗させる
+    const result = await success(imageA, 'hash-a')
+    if (isFetchSuccess(result)) {
+      vi.spyOn(result.blob, 'arrayBuffer').mockRejectedValue(new Error('quota exceeded'))
+    }
+    await recorder.record(0, result)
+    await recorder.setPhase('zipping')
+
+    const checkpoint = lastSavedCheckpoint()
+    expect(checkpoint.completedIndices).toEqual([0])
+    expect(checkpoint.failedCandidates).toEqual([])
+    expect(console.warn).toHaveBeenCalled()
+    expect(await getStagedImages(TAB_ID)).toHaveLength(0)
+    expect((await loadResumeResults(checkpoint)).has(0)).toBe(false)
+  })
+
+  it('終了時にチェックポイント・一時保存画像・処理中フラグを削除すること', async () => {
+    const recorder = new CheckpointRecorder(TAB_ID, pages)
+    await recorder.start()
+    await recorder.record(0, await success(imageA, 'hash-a'))
+
+    await recorder.finish(false)
+    // 終了後の記録は無視される
+    await recorder.record(1, await success(imageB, 'hash-b'))
+
+    expect(mockChrome.storage.session.remove).toHaveBeenCalledWith(`checkpoint_${TAB_ID}`)
+    expect(mockChrome.storage.session.set).toHaveBeenLastCalledWith({ activeProcessing: false })
+    expect(await getStagedImages(TAB_ID)).toHaveLength(0)
+  })
+
+  it('他の収集が処理中の場合は処理中フラグを残すこと', async () => {
+    const recorder = new CheckpointRecorder(TAB_ID, pages)
+
+    await recorder.finish(true)
+
+    expect(mockChrome.storage.session.set).not.toHaveBeenCalledWith({ activeProcessing: false })
+  })
+
+  it('チェックポイントの保存に失敗しても収集を止めないこと', async () => {
+    mockChrome.storage.session.set.mockRejectedValue(new Error('session unavailable'))
+    const recorder = new CheckpointRecorder(TAB_ID, pages)
+
+    await expect(recorder.start()).resolves.toBeUndefined()
+    await expect(recorder.setPhase('zipping')).resolves.toBeUndefined()
+    expect(console.warn).toHaveBeenCalled()
+  })
+})
+
+describe('loadResumeCandidates', () => {
+  const checkpoint: ProcessingCheckpoint = {
+    tabId: TAB_ID,
+    url: 'https://example.com/',
+    candidates: [imageA, { ...inlineImage, url: 'data:image/png;base64,' }],
+    completedIndices: [],
+    failedCandidates: [],
+    lastCheckpointAt: Date.now(),
+    phase: 'fetching',
+  }
+
+  afterEach(async () => {
+    await clearStagedImages(TAB_ID)
+  })
+
+  it('IndexedDBに保存した候補一覧（data: URLを含む）を復元すること', async () => {
+    await stageCandidates(TAB_ID, [imageA, inlineImage])
+
+    expect(await loadResumeCandidates(checkpoint)).toEqual([imageA, inlineImage])
+  })
+
+  it('候補一覧が保存されていない場合はチェックポイントの候補を使用すること', async () => {
+    expect(await loadResumeCandidates(checkpoint)).toBe(checkpoint.candidates)
+  })
+})
+
+describe('loadResumeResults', () => {
+  afterEach(async () => {
+    await clearStagedImages(TAB_ID)
+  })
+
+  it('一時保存画像と失敗画像を復元し、一時保存のない完了済み候補は取得し直すこと', async () => {
+    const candidates = pages.flatMap((page) => page.candidates)
+    await stageImage(TAB_ID, 0, {
+      candidate: imageA,
+      blob: await new Response('restored').blob(),
+      hash: 'hash-a',
+      contentType: 'image/png',
+    })
+
+    const results = await loadResumeResults({
+      tabId: TAB_ID,
+      url: 'https://example.com/list?page=1',
+      candidates,
+      completedIndices: [0, 1, 2],
+      failedCandidates: [
+        {
+          url: 'https://example.com/c.jpg',
+          error: 'HTTP 404',
+          errorType: 'HTTP_ERROR',
+          retryCount: 0,
+          source: 'css-bg',
+        },
+      ],
+      lastCheckpointAt: Date.now(),
+      phase: 'fetching',
+    })
+
+    expect([...results.keys()].sort()).toEqual([0, 2])
+
+    const restored = results.get(0)
+    expect(restored && isFetchSuccess(restored)).toBe(true)
+    expect(restored).toMatchObject({ hash: 'hash-a', contentType: 'image/png' })
+    expect(restored && isFetchSuccess(restored) && restored.blob.size).toBe('restored'.length)
+
+    expect(results.get(2)).toEqual({
+      candidate: imageC,
+      error: 'HTTP_ERROR',
+      message: 'HTTP 404',
+    })
+  })
+
+  it('data: URLの失敗画像をヘッダー部分で照合して復元すること', async () => {
+    const results = await loadResumeResults({
+      tabId: TAB_ID,
+      url: 'https://example.com/',
+      candidates: [inlineImage],
+      completedIndices: [0],
+      failedCandidates: [
+        {
+          url: 'data:image/png;base64,',
+          error: 'broken',
+          errorType: 'UNKNOWN',
+          retryCount: 0,
+          source: 'img',
+        },
+      ],
+      lastCheckpointAt: Date.now(),
+      phase: 'fetching',
+    })
+
+    expect(results.get(0)).toEqual({ candidate: inlineImage, error: 'UNKNOWN', message: 'broken' })
+  })
+})
@@ -0,0 +1,273 @@
+/**
+ * 収集のチェックポイント記録
+ *
+ * Service Workerが停止しても収集を再開できるよう、取得済みの画像をIndexedDB（DiffSnapStaging）へ、
+ * 進捗（完了した候補の添字・失敗画像・フェーズ）をchrome.storage.sessionのチェックポイントへ保存します。
+ * 再開時はloadResumeResultsで取得済みの結果を復元し、残りの候補のみ取得します。
+ *
+ * chrome.storage.sessionの容量（10MB）を超えないよう、チェックポイントにはdata: URLの本体を含めません。
+ * 候補一覧は開始時にIndexedDBへも保存し、再開時はloadResumeCandidatesでそちらから復元します。
+ *
+ * 保存に失敗しても収集自体は止めません（警告のみ）。一時保存に失敗した画像も完了として記録し
+ * （今回の収集ではメモリ上の取得結果をZIPに含めます）、Service Workerが停止して再開した
+ * 場合のみ、一時保存が見つからない画像として取得し直します。
+ */
+
+import type { FailedImage, ImageCandidate, ProcessingCheckpoint } from '../shared/types'
+import { toFailedImage } from './collector'
+import { isFetchSuccess, type FetchResult } from './parallel-controller'
+import { clearCheckpoint, saveCheckpoint, setActiveProcessing } from './keep-alive'
+import {
+  clearStagedImages,
+  getStagedCandidates,
+  getStagedImages,
+  stageCandidates,
+  stageImage,
+} from '../lib/staging-store'
+
+/**
+ * チェックポイントを保存する最小間隔（ms）
+ */
+export const CHECKPOINT_SAVE_INTERVAL_MS = 1000
+
+/**
+ * チェックポイントに保存するURL（data: URLはヘッダー部分のみ）
+ */
+const toCheckpointUrl = (url: string): string =>
+  url.startsWith('data:') ? url.slice(0, url.indexOf(',') + 1) : url
+
+const toCheckpointCandidate = (candidate: ImageCandidate): ImageCandidate =>
+  candidate.url.startsWith('data:')
+    ? { ...candidate, url: toCheckpointUrl(candidate.url) }
+    : candidate
+
+const toCheckpointFailure = (failed: FailedImage): FailedImage =>
+  failed.url.startsWith('data:') ? { ...failed, url: toCheckpointUrl(failed.url) } : failed
+
+/**
+ * 1ページ分の候補
+ */
+interface CheckpointPageCandidates {
+  url: string
+  candidates: ImageCandidate[]
+}
+
+/**
+ * 1回の収集の進捗を記録するクラス
+ *
+ * 候補の添字は全ページの候補をページ順に連結したもの（ProcessingCheckpoint.candidates）の添字です。
+ */
+export class CheckpointRecorder {
+  private checkpoint: ProcessingCheckpoint
+  private candidates: ImageCandidate[]
+  private lastSavedAt = 0
+  private saveTimer?: ReturnType<typeof setTimeout>
+  private pendingSave?: Promise<void>
+  private finished = false
+
+  /**
+   * @param tabId - 収集を開始したタブID
+   * @param pages - ページごとの候補
+   * @param prefetched - 再開時に復元した取得結果（添字 → 結果）
+   */
+  constructor(
+    tabId: number,
+    pages: CheckpointPageCandidates[],
+    prefetched?: Map<number, FetchResult>
+  ) {
+    const restored = [...(prefetched ?? new Map<number, FetchResult>())]
+    this.candidates = pages.flatMap((page) => page.candidates)
+
+    this.checkpoint = {
+      tabId,
+      url: pages[0]?.url ?? '',
+      candidates: this.candidates.map(toCheckpointCandidate),
+      completedIndices: restored.map(([index]) => index),
+      failedCandidates: restored.flatMap(([, result]) =>
+        isFetchSuccess(result) ? [] : [toCheckpointFailure(toFailedImage(result))]
+      ),
+      lastCheckpointAt: 0,
+      phase: 'fetching',
+      pages: pages.map((page) => ({ url: page.url, candidateCount: page.candidates.length })),
+    }
+  }
+
+  /**
+   * 記録を開始（候補一覧・初回のチェックポイント・処理中フラグを保存）
+   *
+   * 新規の収集では、前回の収集で削除しきれなかった一時保存画像を先に削除します。
+   */
+  async start(): Promise<void> {
+    const { tabId } = this.checkpoint
+    if (this.checkpoint.completedIndices.length === 0) {
+      await clearStagedImages(tabId).catch((error: unknown) => {
+        console.warn('[CheckpointRecorder] Failed to clear staged images:', error)
+      })
+    }
+    await stageCandidates(tabId, this.candidates).catch((error: unknown) => {
+      console.warn('[CheckpointRecorder] Failed to stage candidates:', error)
+    })
+    await this.save()
+    await setActiveProcessing(true).catch((error: unknown) => {
+      console.warn('[CheckpointRecorder] Failed to set active processing:', error)
+    })
+  }
+
+  /**
+   * 1件の取得結果を記録
+   *
+   * 成功した画像は一時保存します。一時保存に失敗しても完了として記録します
+   * （再開時はloadResumeResultsが一時保存のない完了済み候補として取得し直します）。
+   *
+   * @param index - 候補の添字
+   * @param result - 取得結果
+   */
+  async record(index: number, result: FetchResult): Promise<void> {
+    if (this.finished) return
+
+    if (isFetchSuccess(result)) {
+      try {
+        await stageImage(this.checkpoint.tabId, index, {
+          candidate: result.candidate,
+          blob: result.blob,
+          hash: result.hash,
+          contentType: result.contentType,
+        })
+      } catch (error) {
+        console.warn('[CheckpointRecorder] Failed to stage image:', result.candidate.url, error)
+      }
+      // 一時保存中に収集が終了した場合は、削除済みのため記録しない
+      if (this.finished) return
+    } else {
+      this.checkpoint.failedCandidates.push(toCheckpointFailure(toFailedImage(result)))
+    }
+
+    this.checkpoint.completedIndices.push(index)
+    this.scheduleSave()
+  }
+
+  /**
+   * 全候補の取得後、ZIP生成フェーズに移行
+   */
+  async setPhase(phase: ProcessingCheckpoint['phase']): Promise<void> {
+    this.cancelScheduledSave()
+    this.checkpoint.phase = phase
+    await this.save()
+  }
+
+  /**
+   * 記録を終了（チェックポイントと一時保存した画像を削除）
+   *
+   * @param keepActive - 他の収集が処理中の場合はtrue（処理中フラグを残す）
+   */
+  async finish(keepActive: boolean): Promise<void> {
+    this.finished = true
+    this.cancelScheduledSave()
+    // 保存中のチェックポイントが削除後に書き込まれないよう待機
+    await this.pendingSave
+    const { tabId } = this.checkpoint
+
+    const results = await Promise.allSettled([
+      clearCheckpoint(tabId),
+      clearStagedImages(tabId),
+      keepActive ? Promise.resolve() : setActiveProcessing(false),
+    ])
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        console.warn('[CheckpointRecorder] Failed to clean up checkpoint:', result.reason)
+      }
+    }
+  }
+
+  /**
+   * 前回の保存から一定時間後にチェックポイントを保存（連続した取得をまとめる）
+   */
+  private scheduleSave(): void {
+    if (this.saveTimer) return
+
+    const delay = Math.max(0, this.lastSavedAt + CHECKPOINT_SAVE_INTERVAL_MS - Date.now())
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined
+      void this.save()
+    }, delay)
+  }
+
+  private cancelScheduledSave(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer)
+      this.saveTimer = undefined
+    }
+  }
+
+  private async save(): Promise<void> {
+    if (this.finished) return
+
+    this.lastSavedAt = Date.now()
+    this.checkpoint.lastCheckpointAt = this.lastSavedAt
+
+    const saving = saveCheckpoint({
+      ...this.checkpoint,
+      completedIndices: [...this.checkpoint.completedIndices],
+      failedCandidates: [...this.checkpoint.failedCandidates],
+    }).catch((error: unknown) => {
+      console.warn('[CheckpointRecorder] Failed to save checkpoint:', error)
+    })
+    this.pendingSave = saving
+    await saving
+  }
+}
+
+/**
+ * 再開する収集の候補一覧を復元
+ *
+ * IndexedDBに保存した候補一覧（data: URLを含む）を優先し、見つからない場合や件数が
+ * 一致しない場合はチェックポイントの候補を使用します（data: URLの候補は取得に失敗します）。
+ *
+ * @param checkpoint - 再開するチェックポイント
+ * @returns 全ページの候補（チェックポイントのcandidatesと同じ順序）
+ */
+export const loadResumeCandidates = async (
+  checkpoint: ProcessingCheckpoint
+): Promise<ImageCandidate[]> => {
+  const staged = await getStagedCandidates(checkpoint.tabId).catch((error: unknown) => {
+    console.warn('[loadResumeCandidates] Failed to restore staged candidates:', error)
+    return undefined
+  })
+  return staged?.length === checkpoint.candidates.length ? staged : checkpoint.candidates
+}
+
+/**
+ * チェックポイントから取得済みの結果を復元
+ *
+ * 一時保存した画像は成功として、失敗画像は失敗として復元します。
+ * 完了済みでも一時保存が見つからない候補は含めません（再開時に取得し直します）。
+ *
+ * @param checkpoint - 再開するチェックポイント（candidatesはloadResumeCandidatesで復元したもの）
+ * @returns 候補の添字 → 取得結果
+ */
+export const loadResumeResults = async (
+  checkpoint: ProcessingCheckpoint
+): Promise<Map<number, FetchResult>> => {
+  const results = new Map<number, FetchResult>()
+
+  for (const staged of await getStagedImages(checkpoint.tabId)) {
+    if (staged.index >= checkpoint.candidates.length) continue
+    results.set(staged.index, {
+      candidate: staged.candidate,
+      blob: new Blob([staged.data], { type: staged.contentType }),
+      hash: staged.hash,
+      contentType: staged.contentType,
+    })
+  }
+
+  const failedByUrl = new Map(checkpoint.failedCandidates.map((failed) => [failed.url, failed]))
+  for (const index of checkpoint.completedIndices) {
+    const candidate = checkpoint.candidates[index]
+    const failed = candidate && failedByUrl.get(toCheckpointUrl(candidate.url))
+    if (results.has(index) || !candidate || !failed) continue
+
+    results.set(index, { candidate, error: failed.errorType, message: failed.error })
+  }
+
+  return results
+}
@@ -280,6 +280,34 @@ describe('ImageCollector', () => {
       expect(snapshot?.width).toBe(0)
       expect(snapshot?.height).toBe(0)
     })
+
+    it('should prefer intrinsic dimensions decoded from image data', async () => {
+      const candidates: ImageCandidate[] = [
+        {
+          url: 'https://example.com/hero.png',
+          source: 'css-bg',
+          width: 320, // element box size, not the image size
+          height: 100,
+        },
+      ]
+
+      // PNG signature + IHDR chunk (1920x1080)
+      const png = new Uint8Array(33)
+      png.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+      png.set([0x00, 0x00, 0x00, 0x0d, 0x49, 0x48, 0x44, 0x52], 8)
+      new DataView(png.buffer).setUint32(16, 1920)
+      new DataView(png.buffer).setUint32(20, 1080)
+
+      global.fetch = vi.fn(
+        async () => new Response(png, { status: 200, headers: { 'Content-Type': 'image/png' } })
+      )
+
+      const result = await collector.collect(candidates)
+
+      const snapshot = result.images[0]?.snapshot
+      expect(snapshot?.width).toBe(1920)
+      expect(snapshot?.height).toBe(1080)
+    })
   })
 
   describe('Convenience Function', () => {
@@ -357,4 +385,247 @@ describe('ImageCollector', () => {
       expect(result.failed).toHaveLength(0)
     })
   })
+
+  describe('Fallback URL', () => {
+    it('should fall back to fallbackUrl when the original returns HTTP_ERROR', async () => {
+      const candidates: ImageCandidate[] = [
+        {
+          url: 'https://example.com/original.jpg',
+          source: 'img',
+          fallbackUrl: 'https://example.com/thumb.jpg',
+        },
+      ]
+
+      global.fetch = vi.fn(async (url) => {
+        if (url === 'https://example.com/original.jpg') {
+          return new Response(null, { status: 403 })
+        }
+        return new Response('thumbnail', {
+          status: 200,
+          headers: { 'Content-Type': 'image/jpeg' },
+        })
+      })
+
+      const result = await collector.collect(candidates)
+
+      expect(result.stats.fetched).toBe(1)
+      expect(result.stats.failed).toBe(0)
+      expect(result.images[0]?.snapshot.url).toBe('https://example.com/thumb.jpg')
+    })
+
+    it('should report the original failure when the fallback also fails', async () => {
+      const candidates: ImageCandidate[] = [
+        {
+          url: 'https://example.com/original.jpg',
+          source: 'img',
+          fallbackUrl: 'https://example.com/thumb.jpg',
+        },
+      ]
+
+      global.fetch = vi.fn(async () => new Response(null, { status: 404 }))
+
+      const result = await collector.collect(candidates)
+
+      expect(result.stats.failed).toBe(1)
+      expect(result.failed[0]).toMatchObject({
+        url: 'https://example.com/original.jpg',
+        errorType: 'HTTP_ERROR',
+        fallbackUrl: 'https://example.com/thumb.jpg',
+      })
+    })
+
+    it('should not use fallbackUrl for non-HTTP errors', async () => {
+      const candidates: ImageCandidate[] = [
+        {
+          url: 'https://example.com/original.jpg',
+          source: 'img',
+          fallbackUrl: 'https://example.com/thumb.jpg',
+        },
+      ]
+
+      const fetchMock = vi.fn(async () => {
+        throw new TypeError('Failed to fetch: CORS policy blocked')
+      })
+      global.fetch = fetchMock
+
+      const result = await collector.collect(candidates)
+
+      expect(result.failed[0]?.errorType).toBe('CORS')
+      expect(fetchMock).not.toHaveBeenCalledWith('https://example.com/thumb.jpg', expect.anything())
+    })
+
+    it('should fall back from a rewritten URL on any error type', async () => {
+      const candidates: ImageCandidate[] = [
+        {
+          url: 'https://example.com/photo.jpg',
+          source: 'img',
+          fallbackUrl: 'https://example.com/photo-300x200.jpg',
+          urlRewritten: true,
+        },
+      ]
+
+      global.fetch = vi.fn(async (url) => {
+        if (url === 'https://example.com/photo.jpg') {
+          throw new TypeError('Failed to fetch: CORS policy blocked')
+        }
+        return new Response('thumbnail', {
+          status: 200,
+          headers: { 'Content-Type': 'image/jpeg' },
+        })
+      })
+
+      const result = await collector.collect(candidates)
+
+      expect(result.stats.failed).toBe(0)
+      expect(result.images[0]?.snapshot.url).toBe('https://example.com/photo-300x200.jpg')
+    })
+
+    it('should fall back when a rewritten URL returns something other than an image', async () => {
+      const candidates: ImageCandidate[] = [
+        {
+          url: 'https://example.com/photo.jpg',
+          source: 'img',
+          fallbackUrl: 'https://example.com/photo.jpg?width=300',
+          urlRewritten: true,
+        },
+      ]
+
+      global.fetch = vi.fn(async (url) =>
+        url === 'https://example.com/photo.jpg'
+          ? new Response('<html>Not found</html>', {
+              status: 200,
+              headers: { 'Content-Type': 'text/html' },
+            })
+          : new Response('thumbnail', { status: 200, headers: { 'Content-Type': 'image/jpeg' } })
+      )
+
+      const result = await collector.collect(candidates)
+
+      expect(result.images[0]?.snapshot.url).toBe('https://example.com/photo.jpg?width=300')
+    })
+
+    it('should fall back when a rewritten URL returns an image smaller than the detected one', async () => {
+      const createPng = (width: number, height: number): Uint8Array<ArrayBuffer> => {
+        // PNG signature + IHDR chunk
+        const png = new Uint8Array(33)
+        png.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+        png.set([0x00, 0x00, 0x00, 0x0d, 0x49, 0x48, 0x44, 0x52], 8)
+        new DataView(png.buffer).setUint32(16, width)
+        new DataView(png.buffer).setUint32(20, height)
+        return png
+      }
+      const candidates: ImageCandidate[] = [
+        {
+          url: 'https://example.com/photo.png',
+          source: 'img',
+          width: 600,
+          height: 400,
+          fallbackUrl: 'https://example.com/photo.png?w=600',
+          urlRewritten: true,
+        },
+      ]
+
+      global.fetch = vi.fn(
+        async (url) =>
+          new Response(
+            url === 'https://example.com/photo.png' ? createPng(64, 64) : createPng(600, 400),
+            {
+              status: 200,
+              headers: { 'Content-Type': 'image/png' },
+            }
+          )
+      )
+
+      const result = await collector.collect(candidates)
+
+      expect(result.images[0]?.snapshot).toMatchObject({
+        url: 'https://example.com/photo.png?w=600',
+        width: 600,
+        height: 400,
+      })
+    })
+  })
+
+  describe('Retry', () => {
+    it('should recover images and increment retryCount for those still failing', async () => {
+      global.fetch = vi.fn(async (url) => {
+        if (url === 'https://example.com/still-broken.jpg') {
+          return new Response(null, { status: 503 })
+        }
+        return new Response('recovered', {
+          status: 200,
+          headers: { 'Content-Type': 'image/jpeg' },
+        })
+      })
+
+      const result = await collector.retryFailed([
+        {
+          url: 'https://example.com/flaky.jpg',
+          error: 'Timeout',
+          errorType: 'TIMEOUT',
+          retryCount: 0,
+          source: 'img',
+        },
+        {
+          url: 'https://example.com/still-broken.jpg',
+          error: 'HTTP 503',
+          errorType: 'HTTP_ERROR',
+          retryCount: 1,
+          source: 'css-bg',
+          alt: 'banner',
+        },
+      ])
+
+      expect(result.images.map((img) => img.candidate.url)).toEqual([
+        'https://example.com/flaky.jpg',
+      ])
+      expect(result.failed).toHaveLength(1)
+      expect(result.failed[0]).toMatchObject({
+        url: 'https://example.com/still-broken.jpg',
+        retryCount: 2,
+        source: 'css-bg',
+        alt: 'banner',
+      })
+    })
+  })
+
+  describe('Checkpoint', () => {
+    it('should reuse prefetched results and report only newly fetched candidates', async () => {
+      const restored: ImageCandidate = { url: 'https://example.com/restored.jpg', source: 'img' }
+      const remaining: ImageCandidate = { url: 'https://example.com/remaining.jpg', source: 'img' }
+      const candidates = [restored, remaining]
+      const prefetched = new Map([
+        [
+          0,
+          {
+            candidate: restored,
+            blob: new Blob(['restored'], { type: 'image/jpeg' }),
+            hash: 'restored-hash',
+            contentType: 'image/jpeg',
+          },
+        ],
+      ])
+
+      global.fetch = vi.fn(
+        async () =>
+          new Response('remaining', {
+            status: 200,
+            headers: { 'Content-Type': 'image/jpeg' },
+          })
+      )
+      const onFetched = vi.fn(async () => {})
+
+      const result = await new ImageCollector({ onFetched }).collect(candidates, prefetched)
+
+      expect(global.fetch).toHaveBeenCalledTimes(1)
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://example.com/remaining.jpg',
+        expect.anything()
+      )
+      expect(onFetched).toHaveBeenCalledTimes(1)
+      expect(onFetched).toHaveBeenCalledWith(1, expect.objectContaining({ candidate: remaining }))
+      expect(result.images.map((img) => img.hash)).toContain('restored-hash')
+      expect(result.stats.fetched).toBe(2)
+    })
+  })
 })
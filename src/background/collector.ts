@@ -6,10 +6,24 @@
  * - Hash-based deduplication
  * - Progress notification to Popup
  * - Error handling and retry coordination
+ * - Fallback to alternate URLs (e.g. gallery thumbnails) on HTTP errors, and to the
+ *   detected URL when a rewritten URL fails or returns a mismatching image
+ * - Intrinsic dimensions from decoded image data
+ * - Cancellation via AbortSignal
+ * - Per-image hook and prefetched results for checkpoint/resume
+ * - Optional page context fallback (source tab's cookies/referrer) for failed fetches
  */
 
-import { ParallelController, isFetchSuccess, type FetchResult } from './parallel-controller'
+import {
+  ParallelController,
+  isFetchSuccess,
+  type FetchFailure,
+  type FetchResult,
+  type FetchSuccess,
+  type PageFetcher,
+} from './parallel-controller'
 import type { ImageCandidate, ImageSnapshot, StateUpdateMessage, FailedImage } from '@/shared/types'
+import { getImageDimensions } from '@/lib/image-dimensions'
 
 export interface CollectionProgress {
   total: number
@@ -41,6 +55,45 @@ export interface CollectionResult {
 export interface CollectorOptions {
   onProgress?: (progress: CollectionProgress) => void
   tabId?: number
+  signal?: AbortSignal // Cancels queued/active fetches; collect() then rejects with its reason
+  onFetched?: (index: number, result: FetchResult) => Promise<void> // Each candidate as it settles (for checkpoints)
+  pageFetch?: PageFetcher // Re-fetch CORS/HTTP/network failures in the source page
+}
+
+/**
+ * Convert a fetch failure to a FailedImage, keeping the candidate's metadata
+ */
+export const toFailedImage = (result: FetchFailure): FailedImage => ({
+  url: result.candidate.url,
+  error: result.message ?? result.error,
+  errorType: result.error,
+  retryCount: 0,
+  source: result.candidate.source,
+  width: result.candidate.width,
+  height: result.candidate.height,
+  alt: result.candidate.alt,
+  fallbackUrl: result.candidate.fallbackUrl,
+  urlRewritten: result.candidate.urlRewritten,
+})
+
+/**
+ * Whether a rewritten URL answered with something other than the detected image
+ *
+ * A rewrite rule that does not fit the host can still return 200 with an error page,
+ * a placeholder or a smaller rendition. The response is rejected when it is not an
+ * image, or when an <img> candidate (sized by the detected image's intrinsic size)
+ * comes back smaller than what the page displayed.
+ */
+const isRewriteMismatch = async (result: FetchSuccess): Promise<boolean> => {
+  const { candidate, blob, contentType } = result
+  if (contentType !== 'image/unknown' && !contentType.startsWith('image/')) return true
+  if (candidate.source !== 'img' || !candidate.width || !candidate.height) return false
+
+  const dimensions = await getImageDimensions(blob)
+  return (
+    dimensions !== null &&
+    (dimensions.width < candidate.width || dimensions.height < candidate.height)
+  )
 }
 
 /**
@@ -57,7 +110,7 @@ export class ImageCollector {
   private options: CollectorOptions
 
   constructor(options: CollectorOptions = {}) {
-    this.controller = new ParallelController()
+    this.controller = new ParallelController({ pageFetch: options.pageFetch })
     this.options = options
   }
 
@@ -94,25 +147,80 @@ export class ImageCollector {
 
   /**
    * Create ImageSnapshot from fetch result
+   *
+   * Dimensions come from the decoded blob. DOM hints (display size, or the
+   * element box for css-bg) are only used when the data cannot be decoded.
    */
-  private createSnapshot(result: FetchResult): ImageSnapshot | null {
+  private async createSnapshot(result: FetchResult): Promise<ImageSnapshot | null> {
     if (!isFetchSuccess(result)) {
       return null
     }
 
-    const { candidate, hash } = result
+    const { candidate, hash, blob } = result
+    const dimensions = await getImageDimensions(blob)
 
     return {
       hash,
       url: candidate.url,
-      width: candidate.width ?? 0,
-      height: candidate.height ?? 0,
+      width: dimensions?.width ?? candidate.width ?? 0,
+      height: dimensions?.height ?? candidate.height ?? 0,
       alt: candidate.alt,
       context: undefined, // Will be populated in Phase 2
+      provenance: candidate.provenance,
       firstSeenAt: Date.now(),
     }
   }
 
+  /**
+   * Fetch a candidate, retrying with its fallbackUrl when the preferred URL fails
+   *
+   * A candidate whose preferred URL (e.g. a gallery original) returns an HTTP error
+   * is fetched again from fallbackUrl (e.g. the thumbnail). Other error types are
+   * not retried for gallery links since the fallback usually shares the same host
+   * and policy. A URL produced by a rewrite rule is only a guess, so it falls back to
+   * the detected URL on any error and on a mismatching response (isRewriteMismatch).
+   * If the fallback also fails, the original result is reported.
+   */
+  private async fetchWithFallback(candidate: ImageCandidate): Promise<FetchResult> {
+    const { signal } = this.options
+    const result = await this.controller.fetchImage(candidate, signal)
+    if (!candidate.fallbackUrl) return result
+
+    const rewritten = candidate.urlRewritten === true
+    const needsFallback = isFetchSuccess(result)
+      ? rewritten && (await isRewriteMismatch(result))
+      : rewritten || result.error === 'HTTP_ERROR'
+    if (!needsFallback) return result
+
+    const fallbackResult = await this.controller.fetchImage(
+      { ...candidate, url: candidate.fallbackUrl, fallbackUrl: undefined, urlRewritten: undefined },
+      signal
+    )
+    return isFetchSuccess(fallbackResult) ? fallbackResult : result
+  }
+
+  /**
+   * Fetch all candidates in parallel, reusing prefetched results
+   *
+   * onFetched runs as each candidate settles (after its fallback), so progress can
+   * be persisted before the whole batch finishes. Results keep candidate order.
+   */
+  private async fetchCandidates(
+    candidates: ImageCandidate[],
+    prefetched?: Map<number, FetchResult>
+  ): Promise<FetchResult[]> {
+    return Promise.all(
+      candidates.map(async (candidate, index) => {
+        const known = prefetched?.get(index)
+        if (known) return known
+
+        const result = await this.fetchWithFallback(candidate)
+        await this.options.onFetched?.(index, result)
+        return result
+      })
+    )
+  }
+
   /**
    * Collect images with deduplication
    *
@@ -121,8 +229,15 @@ export class ImageCollector {
    * 2. As results arrive, deduplicate by hash
    * 3. Report progress after each batch
    * 4. Return deduplicated images and failure list
+   *
+   * @param candidates - Images to fetch
+   * @param prefetched - Results from an earlier, interrupted run, keyed by candidate index
+   * @throws The signal's reason when cancelled via options.signal
    */
-  async collect(candidates: ImageCandidate[]): Promise<CollectionResult> {
+  async collect(
+    candidates: ImageCandidate[],
+    prefetched?: Map<number, FetchResult>
+  ): Promise<CollectionResult> {
     const total = candidates.length
 
     // Early return for empty input
@@ -145,11 +260,13 @@ export class ImageCollector {
     // Initial progress
     await this.notifyProgress({ total, completed, failed, deduplicated, failedImages: [] })
 
-    // Fetch all images in parallel
-    const results = await this.controller.fetchAll(candidates)
+    // Fetch all images in parallel (with thumbnail fallback on HTTP errors)
+    const results = await this.fetchCandidates(candidates, prefetched)
 
     // Process results
     for (const result of results) {
+      this.options.signal?.throwIfAborted()
+
       if (isFetchSuccess(result)) {
         const { candidate, blob, hash, contentType } = result
 
@@ -158,7 +275,7 @@ export class ImageCollector {
           deduplicated++
         } else {
           // Create snapshot
-          const snapshot = this.createSnapshot(result)
+          const snapshot = await this.createSnapshot(result)
 
           if (snapshot) {
             hashMap.set(hash, {
@@ -174,17 +291,7 @@ export class ImageCollector {
         completed++
       } else {
         // Fetch failed - FailedImageオブジェクトを作成（全メタデータを保持）
-        const failedImage: FailedImage = {
-          url: result.candidate.url,
-          error: result.message ?? result.error,
-          errorType: result.error,
-          retryCount: 0,
-          source: result.candidate.source,
-          width: result.candidate.width,
-          height: result.candidate.height,
-          alt: result.candidate.alt,
-        }
-        failureList.push(failedImage)
+        failureList.push(toFailedImage(result))
         completed++
         failed++
       }
@@ -226,6 +333,9 @@ export class ImageCollector {
   /**
    * Retry failed image fetches
    *
+   * Images that fail again keep their original metadata with retryCount
+   * incremented, so the caller can replace the previous entries.
+   *
    * @param failedImages - Images that failed to fetch (with metadata)
    * @returns Collection result for retry attempt
    */
@@ -238,9 +348,20 @@ export class ImageCollector {
       width: failed.width,
       height: failed.height,
       alt: failed.alt,
+      fallbackUrl: failed.fallbackUrl,
+      urlRewritten: failed.urlRewritten,
     }))
 
-    return this.collect(candidates)
+    const result = await this.collect(candidates)
+    const retryCounts = new Map(failedImages.map((failed) => [failed.url, failed.retryCount]))
+
+    return {
+      ...result,
+      failed: result.failed.map((failed) => ({
+        ...failed,
+        retryCount: (retryCounts.get(failed.url) ?? 0) + 1,
+      })),
+    }
   }
 
   /**
@@ -7,7 +7,7 @@
  * @module background/diff-engine
  */
 
-import type { ImageSnapshot } from '../shared/types'
+import type { ImageProvenance, ImageSnapshot } from '../shared/types'
 import { getRecord, saveRecord, cleanupOldRecords as dbCleanupOldRecords } from '../lib/db'
 import { makeRecordId, extractQueryHashFromRecordId } from '../lib/url-utils'
 import { hashBlob } from '../lib/hasher'
@@ -34,6 +34,7 @@ export interface ImageWithData {
   height: number
   alt?: string
   context?: string
+  provenance?: ImageProvenance
 }
 
 /**
@@ -85,6 +86,7 @@ export const computeDiff = async (
           height: img.height,
           alt: img.alt,
           context: img.context,
+          provenance: img.provenance,
           firstSeenAt: now,
         } satisfies ImageSnapshot
       })
@@ -124,6 +126,7 @@ export const computeDiff = async (
               height: img.height,
               alt: img.alt,
               context: img.context,
+              provenance: img.provenance,
               firstSeenAt: now,
             } satisfies ImageSnapshot,
           }
@@ -139,6 +142,7 @@ export const computeDiff = async (
             height: img.height,
             alt: img.alt,
             context: img.context,
+            provenance: img.provenance,
             firstSeenAt: now,
           } satisfies ImageSnapshot,
         }
@@ -0,0 +1,196 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { buildRequestHeaders, clearHeaderRules, installHeaderRules } from './header-rules'
+import manifest from '../../public/manifest.json'
+
+// セッションルールを保持するdeclarativeNetRequestのモック
+let sessionRules: chrome.declarativeNetRequest.Rule[] = []
+
+const mockChrome = {
+  declarativeNetRequest: {
+    HeaderOperation: { SET: 'set' },
+    RuleActionType: { MODIFY_HEADERS: 'modifyHeaders' },
+    ResourceType: { XMLHTTPREQUEST: 'xmlhttprequest', OTHER: 'other' },
+    getSessionRules: vi.fn(async () => sessionRules),
+    updateSessionRules: vi.fn(async (options: chrome.declarativeNetRequest.UpdateRuleOptions) => {
+      sessionRules = sessionRules
+        .filter((rule) => !options.removeRuleIds?.includes(rule.id))
+        .concat(options.addRules ?? [])
+    }),
+  },
+  permissions: {
+    contains: vi.fn(async (_permissions: chrome.permissions.Permissions) => true),
+  },
+}
+
+global.chrome = mockChrome as unknown as typeof chrome
+
+describe('header-rules', () => {
+  beforeEach(() => {
+    sessionRules = []
+    vi.clearAllMocks()
+    mockChrome.permissions.contains.mockResolvedValue(true)
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  describe('buildRequestHeaders', () => {
+    it('既定ではRefererのみ収集元ページに設定する', () => {
+      expect(buildRequestHeaders('https://shop.example.com/item/1')).toEqual([
+        { header: 'Referer', operation: 'set', value: 'https://shop.example.com/item/1' },
+      ])
+    })
+
+    it('ドメインプロファイルの設定でOrigin・User-Agentを追加し、Refererを外せる', () => {
+      expect(
+        buildRequestHeaders('https://shop.example.com/item/1', {
+          referer: false,
+          origin: true,
+          userAgent: ' Mozilla/5.0 Test ',
+        })
+      ).toEqual([
+        { header: 'Origin', operation: 'set', value: 'https://shop.example.com' },
+        { header: 'User-Agent', operation: 'set', value: 'Mozilla/5.0 Test' },
+      ])
+    })
+  })
+
+  describe('installHeaderRules', () => {
+    it('manifestでルールを適用するホストへのアクセス権を宣言している', () => {
+      expect(manifest.permissions).toContain('declarativeNetRequestWithHostAccess')
+      expect(manifest.host_permissions).toEqual(
+        expect.arrayContaining(['http://*/*', 'https://*/*'])
+      )
+    })
+
+    it('画像ホストへの拡張機能のリクエストに限定したルールを追加し、削除できる', async () => {
+      const remove = await installHeaderRules('https://shop.example.com/item/1', [
+        { url: 'https://img.cdn.example.net/a.jpg' },
+        {
+          url: 'https://img.cdn.example.net/b.jpg',
+          fallbackUrl: 'https://thumbs.example.org/b.jpg',
+        },
+        { url: 'data:image/png;base64,AAAA' },
+      ])
+
+      expect(sessionRules).toHaveLength(1)
+      expect(sessionRules[0]).toMatchObject({
+        id: 1,
+        action: {
+          type: 'modifyHeaders',
+          requestHeaders: [
+            { header: 'Referer', operation: 'set', value: 'https://shop.example.com/item/1' },
+          ],
+        },
+        condition: {
+          requestDomains: ['img.cdn.example.net', 'thumbs.example.org'],
+          tabIds: [-1],
+          resourceTypes: ['xmlhttprequest', 'other'],
+        },
+      })
+
+      await remove()
+
+      expect(sessionRules).toHaveLength(0)
+    })
+
+    it('同時に追加したルールには別々のIDを割り当てる', async () => {
+      const [removeFirst] = await Promise.all([
+        installHeaderRules('https://a.example.com/', [{ url: 'https://img.a.example.com/1.jpg' }]),
+        installHeaderRules('https://b.example.com/', [{ url: 'https://img.b.example.com/1.jpg' }]),
+      ])
+
+      expect(sessionRules.map((rule) => rule.id)).toEqual([1, 2])
+
+      await removeFirst()
+
+      expect(sessionRules.map((rule) => rule.id)).toEqual([2])
+    })
+
+    it('アクセス権のないホストはルールの対象から外す', async () => {
+      mockChrome.permissions.contains.mockImplementation(
+        async ({ origins }: chrome.permissions.Permissions) =>
+          !origins?.includes('*://blocked.example.org/*')
+      )
+
+      await installHeaderRules('https://a.example.com/', [
+        { url: 'https://img.a.example.com/1.jpg' },
+        { url: 'https://blocked.example.org/2.jpg' },
+      ])
+
+      expect(mockChrome.permissions.contains).toHaveBeenCalledWith({
+        origins: ['*://img.a.example.com/*'],
+      })
+      expect(sessionRules[0]?.condition.requestDomains).toEqual(['img.a.example.com'])
+    })
+
+    it('同時に実行中の収集が別のRefererで対象にしているホストは上書きしない', async () => {
+      const removeFirst = await installHeaderRules('https://a.example.com/', [
+        { url: 'https://cdn.example.net/1.jpg' },
+      ])
+      await installHeaderRules('https://b.example.com/', [
+        { url: 'https://cdn.example.net/2.jpg' },
+        { url: 'https://img.b.example.com/3.jpg' },
+      ])
+      // 同じRefererの収集はホストを共有できる
+      await installHeaderRules('https://a.example.com/', [{ url: 'https://cdn.example.net/4.jpg' }])
+
+      expect(sessionRules.map((rule) => [rule.priority, rule.condition.requestDomains])).toEqual([
+        [1, ['cdn.example.net']],
+        [1, ['img.b.example.com']],
+        [1, ['cdn.example.net']],
+      ])
+
+      await removeFirst()
+      const removeLater = await installHeaderRules('https://b.example.com/', [
+        { url: 'https://img.b.example.com/5.jpg' },
+      ])
+      await removeLater()
+
+      expect(sessionRules.map((rule) => rule.condition.requestDomains)).toEqual([
+        ['img.b.example.com'],
+        ['cdn.example.net'],
+      ])
+    })
+
+    it('対象ホストや設定するヘッダーがない場合はルールを追加しない', async () => {
+      await installHeaderRules('https://a.example.com/', [{ url: 'blob:https://a.example.com/x' }])
+      await installHeaderRules(
+        'https://a.example.com/',
+        [{ url: 'https://img.a.example.com/1.jpg' }],
+        {
+          referer: false,
+        }
+      )
+
+      expect(mockChrome.declarativeNetRequest.updateSessionRules).not.toHaveBeenCalled()
+    })
+
+    it('ルールを追加できない場合は警告して取得を続ける', async () => {
+      mockChrome.declarativeNetRequest.updateSessionRules.mockRejectedValueOnce(
+        new Error('Missing host permission')
+      )
+
+      const remove = await installHeaderRules('https://a.example.com/', [
+        { url: 'https://img.a.example.com/1.jpg' },
+      ])
+
+      expect(console.warn).toHaveBeenCalled()
+      await expect(remove()).resolves.toBeUndefined()
+    })
+  })
+
+  describe('clearHeaderRules', () => {
+    it('残っているルールをすべて削除する', async () => {
+      await installHeaderRules('https://a.example.com/', [
+        { url: 'https://img.a.example.com/1.jpg' },
+      ])
+      await installHeaderRules('https://b.example.com/', [
+        { url: 'https://img.b.example.com/1.jpg' },
+      ])
+
+      await clearHeaderRules()
+
+      expect(sessionRules).toHaveLength(0)
+    })
+  })
+})
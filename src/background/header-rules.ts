@@ -0,0 +1,215 @@
+/**
+ * 画像取得時のリクエストヘッダー書き換え（declarativeNetRequestのセッションルール）
+ *
+ * 多くの画像ホストはRefererが掲載ページと一致しないとHTTP 403を返します（ホットリンク対策）。
+ * 収集の実行中だけ、その収集の画像ホストへの拡張機能自身のリクエストに対して
+ * Referer（設定により Origin・User-Agent）を収集元ページに合わせるルールを追加し、
+ * 終了時に削除します。
+ *
+ * ルールはタブに属さないリクエスト（Service Workerのfetch）のみに適用され、
+ * ユーザーの閲覧には影響しません。declarativeNetRequestWithHostAccessのルールはホストへの
+ * アクセス権（manifestのhost_permissions）がある場合のみ適用されるため、ユーザーがサイトへの
+ * アクセスを制限したホストはルールの対象から外します。
+ *
+ * 同時に実行中の収集どうしでRefererを上書きしないよう、1つのホストには同じヘッダーの
+ * ルールしか追加しません（別のヘッダーのルールが対象にしているホストは、後から開始した
+ * 収集のルールから外します）。
+ */
+
+import type { RequestHeaderOverrides } from '../shared/types'
+
+/**
+ * タブに属さないリクエスト（chrome.tabs.TAB_ID_NONE）
+ */
+const TAB_ID_NONE = -1
+
+/**
+ * ルールの優先度（ホストが重複するルールは追加しないため、すべて同じ優先度）
+ */
+const RULE_PRIORITY = 1
+
+/**
+ * ルールIDの割り当てを直列化（同時に開始した収集でIDが重複しないように）
+ */
+let pendingUpdate: Promise<unknown> = Promise.resolve()
+
+const serialize = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = pendingUpdate.then(task)
+  pendingUpdate = run.catch(() => undefined)
+  return run
+}
+
+/**
+ * 取得対象の画像URL（候補・失敗画像）
+ */
+interface ImageUrls {
+  url: string
+  fallbackUrl?: string
+}
+
+/**
+ * 画像ホスト一覧（代替URLのホストを含む、data: / blob: URLは対象外）
+ */
+const collectHosts = (images: ImageUrls[]): string[] => {
+  const hosts = new Set<string>()
+  const urls = images.flatMap((image) =>
+    image.fallbackUrl ? [image.url, image.fallbackUrl] : [image.url]
+  )
+  for (const href of urls) {
+    try {
+      const url = new URL(href)
+      if (url.protocol === 'http:' || url.protocol === 'https:') {
+        hosts.add(url.hostname)
+      }
+    } catch {
+      // 不正なURLは無視
+    }
+  }
+  return Array.from(hosts)
+}
+
+/**
+ * アクセス権のあるホストのみに絞り込み
+ */
+const filterPermittedHosts = async (hosts: string[]): Promise<string[]> => {
+  const permitted = await Promise.all(
+    hosts.map((host) => chrome.permissions.contains({ origins: [`*://${host}/*`] }))
+  )
+  return hosts.filter((_, i) => permitted[i])
+}
+
+/**
+ * 別のヘッダーを設定する既存のルールが対象にしているホスト
+ */
+const collectClaimedHosts = (
+  rules: chrome.declarativeNetRequest.Rule[],
+  requestHeaders: chrome.declarativeNetRequest.ModifyHeaderInfo[]
+): Set<string> => {
+  const toKey = (headers: chrome.declarativeNetRequest.ModifyHeaderInfo[] = []) =>
+    headers
+      .map(({ header, operation, value }) => `${header}:${operation}:${value ?? ''}`)
+      .join('\n')
+  const headers = toKey(requestHeaders)
+  return new Set(
+    rules
+      .filter((rule) => toKey(rule.action.requestHeaders) !== headers)
+      .flatMap((rule) => rule.condition.requestDomains ?? [])
+  )
+}
+
+/**
+ * 設定するリクエストヘッダーを作成
+ *
+ * @param pageUrl - 収集元ページのURL
+ * @param overrides - ドメインプロファイルのヘッダー設定
+ */
+export const buildRequestHeaders = (
+  pageUrl: string,
+  overrides: RequestHeaderOverrides = {}
+): chrome.declarativeNetRequest.ModifyHeaderInfo[] => {
+  const set = chrome.declarativeNetRequest.HeaderOperation.SET
+  const headers: chrome.declarativeNetRequest.ModifyHeaderInfo[] = []
+
+  if (overrides.referer ?? true) {
+    headers.push({ header: 'Referer', operation: set, value: pageUrl })
+  }
+  if (overrides.origin) {
+    headers.push({ header: 'Origin', operation: set, value: new URL(pageUrl).origin })
+  }
+  const userAgent = overrides.userAgent?.trim()
+  if (userAgent) {
+    headers.push({ header: 'User-Agent', operation: set, value: userAgent })
+  }
+
+  return headers
+}
+
+/**
+ * 収集中のヘッダー書き換えルールを追加します
+ *
+ * ルールの追加に失敗した場合は警告のみで、ヘッダーなしで取得を続けます。
+ * アクセス権のないホスト・他の収集が別のヘッダーで対象にしているホストはルールから外します。
+ *
+ * @param pageUrl - 収集元ページのURL
+ * @param images - 取得する画像（画像ホストの抽出に使用）
+ * @param overrides - ドメインプロファイルのヘッダー設定
+ * @returns 追加したルールを削除する関数
+ */
+export const installHeaderRules = async (
+  pageUrl: string,
+  images: ImageUrls[],
+  overrides?: RequestHeaderOverrides
+): Promise<() => Promise<void>> => {
+  const noop = async () => {}
+
+  const hosts = collectHosts(images)
+  if (hosts.length === 0) return noop
+
+  try {
+    const requestHeaders = buildRequestHeaders(pageUrl, overrides)
+    if (requestHeaders.length === 0) return noop
+
+    const permittedHosts = await filterPermittedHosts(hosts)
+    if (permittedHosts.length < hosts.length) {
+      console.warn(
+        `[installHeaderRules] No host access for ${hosts.length - permittedHosts.length} host(s)`
+      )
+    }
+
+    const ruleId = await serialize(async () => {
+      const existing = await chrome.declarativeNetRequest.getSessionRules()
+      const claimed = collectClaimedHosts(existing, requestHeaders)
+      const requestDomains = permittedHosts.filter((host) => !claimed.has(host))
+      if (requestDomains.length === 0) return undefined
+
+      const id = existing.reduce((max, rule) => Math.max(max, rule.id), 0) + 1
+      await chrome.declarativeNetRequest.updateSessionRules({
+        addRules: [
+          {
+            id,
+            priority: RULE_PRIORITY,
+            action: {
+              type: chrome.declarativeNetRequest.RuleActionType.MODIFY_HEADERS,
+              requestHeaders,
+            },
+            condition: {
+              requestDomains,
+              tabIds: [TAB_ID_NONE],
+              resourceTypes: [
+                chrome.declarativeNetRequest.ResourceType.XMLHTTPREQUEST,
+                chrome.declarativeNetRequest.ResourceType.OTHER,
+              ],
+            },
+          },
+        ],
+      })
+      return id
+    })
+    if (ruleId === undefined) return noop
+
+    return () =>
+      serialize(() =>
+        chrome.declarativeNetRequest.updateSessionRules({ removeRuleIds: [ruleId] })
+      ).catch((error: unknown) => {
+        console.warn('[installHeaderRules] Failed to remove header rule:', error)
+      })
+  } catch (error) {
+    console.warn('[installHeaderRules] Failed to add header rule:', error)
+    return noop
+  }
+}
+
+/**
+ * 残っているヘッダー書き換えルールをすべて削除します
+ *
+ * セッションルールはService Workerの停止後も残るため、起動時に前回の収集の分を削除します。
+ */
+export const clearHeaderRules = async (): Promise<void> => {
+  await serialize(async () => {
+    const existing = await chrome.declarativeNetRequest.getSessionRules()
+    if (existing.length === 0) return
+    await chrome.declarativeNetRequest.updateSessionRules({
+      removeRuleIds: existing.map((rule) => rule.id),
+    })
+  })
+}
@@ -2,9 +2,10 @@
 // Manifest V3 compliant
 
 import type { ContentToBackgroundMessage, PopupToBackgroundMessage } from '../shared/types'
-import { initKeepAlive, handleKeepAliveAlarm } from './keep-alive'
-import { handleMessage } from './message-router'
+import { initKeepAlive, handleKeepAliveAlarm, registerResumeHandler } from './keep-alive'
+import { handleMessage, resumeCollection } from './message-router'
 import { initLicenseChecker, handleLicenseCheckAlarm } from './license-validator'
+import { clearHeaderRules } from './header-rules'
 
 console.log('DiffSnap background service worker initialized')
 
@@ -31,6 +32,14 @@ initWithRetry().catch((err) => {
   // 致命的エラー: Service Workerは30秒で停止する可能性あり
 })
 
+// Service Worker再起動時、チェックポイントから収集を再開
+registerResumeHandler(resumeCollection)
+
+// 停止前の収集で残ったヘッダー書き換えルールを削除（再開した収集は追加し直す）
+clearHeaderRules().catch((err) => {
+  console.error('Failed to clear header rules:', err)
+})
+
 // License checker初期化
 initLicenseChecker().catch((err) => {
   console.error('License checker initialization failed:', err)
@@ -8,6 +8,9 @@ import {
   showCompleteBadge,
   showErrorBadge,
   clearBadge,
+  registerResumeHandler,
+  resumeProcessingIfNeeded,
+  setActiveProcessing,
 } from './keep-alive'
 import type { ProcessingCheckpoint } from '../shared/types'
 
@@ -131,6 +134,57 @@ describe('keep-alive', () => {
     })
   })
 
+  describe('setActiveProcessing', () => {
+    it('should store the flag in session storage', async () => {
+      mockChrome.storage.session.set.mockResolvedValue(undefined)
+
+      await setActiveProcessing(true)
+
+      expect(mockChrome.storage.session.set).toHaveBeenCalledWith({ activeProcessing: true })
+    })
+  })
+
+  describe('resumeProcessingIfNeeded', () => {
+    const checkpoint = (lastCheckpointAt: number): ProcessingCheckpoint => ({
+      tabId: 123,
+      url: 'https://example.com',
+      candidates: [
+        { url: 'https://example.com/1.jpg', source: 'img' },
+        { url: 'https://example.com/2.jpg', source: 'img' },
+      ],
+      completedIndices: [0],
+      failedCandidates: [],
+      lastCheckpointAt,
+      phase: 'fetching',
+    })
+
+    it('should pass a recent checkpoint to the registered resume handler', async () => {
+      const handler = vi.fn(async () => {})
+      registerResumeHandler(handler)
+      const recent = checkpoint(Date.now())
+      mockChrome.storage.session.get.mockResolvedValue({ checkpoint_123: recent })
+
+      await resumeProcessingIfNeeded()
+
+      expect(handler).toHaveBeenCalledWith(recent)
+    })
+
+    it('should remove an expired checkpoint without resuming', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+      const handler = vi.fn(async () => {})
+      registerResumeHandler(handler)
+      mockChrome.storage.session.get.mockResolvedValue({
+        checkpoint_123: checkpoint(Date.now() - 120000),
+      })
+      mockChrome.storage.session.remove.mockResolvedValue(undefined)
+
+      await resumeProcessingIfNeeded()
+
+      expect(handler).not.toHaveBeenCalled()
+      expect(mockChrome.storage.session.remove).toHaveBeenCalledWith('checkpoint_123')
+    })
+  })
+
   describe('updateBadge', () => {
     it('should clear badge when total is 0', async () => {
       mockChrome.action.setBadgeText.mockResolvedValue(undefined)
@@ -2,6 +2,7 @@
 // MV3 Service Workerの30秒休止問題への対応
 
 import type { ProcessingCheckpoint } from '../shared/types'
+import { clearStagedImages } from '../lib/staging-store'
 
 const KEEP_ALIVE_ALARM = 'keep-alive'
 const CLEAR_BADGE_ALARM = 'clear-badge'
@@ -9,6 +10,23 @@ const KEEP_ALIVE_INTERVAL_MINUTES = 0.5 // 30秒ごと
 const CLEAR_BADGE_DELAY_MINUTES = 0.05 // 3秒（0.05分）
 const CHECKPOINT_TTL_MS = 60000 // 1分以内なら再開可能
 
+/**
+ * チェックポイントから収集を再開する処理（orchestratorが登録）
+ */
+type ResumeHandler = (checkpoint: ProcessingCheckpoint) => Promise<void>
+
+let resumeHandler: ResumeHandler | undefined
+
+/**
+ * チェックポイントからの再開処理を登録
+ *
+ * Service Workerの再起動後、Keep-Aliveアラームで有効なチェックポイントが見つかると呼ばれます。
+ * 処理中のタブに対しても呼ばれるため、handler側で重複実行を避けてください。
+ */
+export const registerResumeHandler = (handler: ResumeHandler): void => {
+  resumeHandler = handler
+}
+
 /**
  * Keep-Alive機構の初期化
  */
@@ -29,9 +47,7 @@ export const initKeepAlive = async (): Promise<void> => {
  */
 export const handleKeepAliveAlarm = async (alarm: chrome.alarms.Alarm): Promise<void> => {
   if (alarm.name === KEEP_ALIVE_ALARM) {
-    // TODO(Issue#11): orchestrator実装時にactiveProcessingフラグを設定/解除
-    // 現在: フラグ未設定（常にfalse）
-    // Issue#11後: orchestrator起動時にtrue、完了/エラー時にfalseを設定
+    // orchestratorが収集開始時にtrue、全収集の終了時にfalseを設定
     const { activeProcessing } = await chrome.storage.session.get(['activeProcessing'])
 
     if (activeProcessing) {
@@ -48,6 +64,15 @@ export const handleKeepAliveAlarm = async (alarm: chrome.alarms.Alarm): Promise<
   }
 }
 
+/**
+ * 収集処理中フラグを設定
+ *
+ * chrome.storage.sessionに保存するため、Service Workerが再起動しても参照できます。
+ */
+export const setActiveProcessing = async (active: boolean): Promise<void> => {
+  await chrome.storage.session.set({ activeProcessing: active })
+}
+
 /**
  * チェックポイント保存
  */
@@ -100,6 +125,9 @@ export const resumeProcessingIfNeeded = async (): Promise<void> => {
       if (elapsed < 0 || elapsed >= CHECKPOINT_TTL_MS) {
         console.warn(`Removing checkpoint: ${key}, elapsed=${elapsed}ms`)
         await chrome.storage.session.remove(key)
+        await clearStagedImages(checkpoint.tabId).catch((error: unknown) => {
+          console.warn(`Failed to clear staged images: ${key}`, error)
+        })
         continue
       }
 
@@ -114,9 +142,7 @@ export const resumeProcessingIfNeeded = async (): Promise<void> => {
 
 /**
  * チェックポイントから処理を再開
- * TODO(Issue#11): orchestrator実装時に実際の処理再開ロジックを実装
- * 現在: 再開状態をタブIDで分離保存（orchestratorが参照予定）
- * Issue#11後: orchestrator起動時に該当タブのresumeCheckpointを読み込み、実際の処理を再開
+ * 登録済みの再開処理（orchestrator）に残りの候補の取得とZIP生成を委ねます。
  */
 const resumeFromCheckpoint = async (checkpoint: ProcessingCheckpoint): Promise<void> => {
   const { candidates, completedIndices, tabId } = checkpoint
@@ -126,11 +152,11 @@ const resumeFromCheckpoint = async (checkpoint: ProcessingCheckpoint): Promise<v
 
   console.log(`Resuming: ${remaining.length} images remaining (tabId: ${tabId})`)
 
-  // TODO(Issue#11): 実際の再開処理はorchestrator実装時に追加
-  // 複数タブ対応: タブIDでキーを分離
-  await chrome.storage.session.set({
-    [`resumeCheckpoint_${tabId}`]: checkpoint,
-  })
+  if (!resumeHandler) {
+    console.warn('No resume handler registered')
+    return
+  }
+  await resumeHandler(checkpoint)
 }
 
 /**
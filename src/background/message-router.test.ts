@@ -13,7 +13,12 @@ import {
   sendZipReady,
   sendToContent,
   activeCollections,
+  failedRuns,
+  resumeCollection,
 } from './message-router'
+import { createZip } from './zipper'
+import { getStagedImages, stageCandidates, stageImage } from '../lib/staging-store'
+import { getAllRecords } from '../lib/db'
 import type { RunState } from '../shared/types'
 import type {
   ImagesDetectedMessage,
@@ -26,6 +31,17 @@ import type {
   ImageCandidate,
 } from '../shared/types'
 
+// jsdomのBlob/FileReaderはfetchが返すBlobと互換性がないため、ZIP生成はモックする
+vi.mock('./zipper', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./zipper')>()),
+  createZip: vi.fn(async (_images: unknown[], options: { zipFilename?: string }) => ({
+    blob: await new Response('zip').blob(),
+    filename: `${options.zipFilename ?? 'images'}.zip`,
+    size: 3,
+    fileCount: 1,
+  })),
+}))
+
 describe('Message Router', () => {
   let mockSendResponse: ReturnType<typeof vi.fn>
   let mockSender: chrome.runtime.MessageSender
@@ -47,6 +63,7 @@ describe('Message Router', () => {
   afterEach(() => {
     // テスト間で状態をクリーンアップ
     activeCollections.clear()
+    failedRuns.clear()
   })
 
   describe('Content Script Messages', () => {
@@ -122,6 +139,135 @@ describe('Message Router', () => {
       })
     })
 
+    it('should wait for every frame before starting collection', () => {
+      const tabId = 123
+
+      activeCollections.set(tabId, {
+        tabId,
+        url: 'https://example.com',
+        candidates: [],
+        options: {
+          enableScroll: false,
+          maxScrollDepth: 20,
+          scrollTimeout: 15000,
+        },
+        startedAt: Date.now(),
+        pendingFrameIds: new Set([0, 4]),
+      })
+
+      // 子フレームが先に報告
+      handleMessage(
+        {
+          type: 'IMAGES_DETECTED',
+          candidates: [
+            { url: 'https://widget.example.net/gallery.jpg', source: 'img' },
+            { url: 'https://example.com/shared.jpg', source: 'css-bg' },
+          ],
+        },
+        {
+          tab: { id: tabId },
+          frameId: 4,
+          url: 'https://widget.example.net/embed',
+        } as chrome.runtime.MessageSender,
+        mockSendResponse
+      )
+
+      expect(chrome.tabs.get).not.toHaveBeenCalled()
+
+      // トップフレームの報告で全フレームが揃う
+      handleMessage(
+        {
+          type: 'IMAGES_DETECTED',
+          candidates: [{ url: 'https://example.com/shared.jpg', source: 'img' }],
+        },
+        {
+          tab: { id: tabId },
+          frameId: 0,
+          url: 'https://example.com/',
+        } as chrome.runtime.MessageSender,
+        mockSendResponse
+      )
+
+      expect(chrome.tabs.get).toHaveBeenCalledWith(tabId)
+
+      const state = activeCollections.get(tabId)
+      expect(state?.candidates).toEqual([
+        { url: 'https://example.com/shared.jpg', source: 'img', frameUrl: 'https://example.com/' },
+        {
+          url: 'https://widget.example.net/gallery.jpg',
+          source: 'iframe',
+          frameUrl: 'https://widget.example.net/embed',
+        },
+      ])
+    })
+
+    it('should start collection after timeout when a frame never reports', () => {
+      vi.useFakeTimers()
+      const tabId = 123
+
+      activeCollections.set(tabId, {
+        tabId,
+        url: 'https://example.com',
+        candidates: [],
+        options: {
+          enableScroll: false,
+          maxScrollDepth: 20,
+          scrollTimeout: 15000,
+        },
+        startedAt: Date.now(),
+        pendingFrameIds: new Set([0, 7]),
+      })
+
+      handleMessage(
+        {
+          type: 'IMAGES_DETECTED',
+          candidates: [{ url: 'https://example.com/a.jpg', source: 'img' }],
+        },
+        { tab: { id: tabId }, frameId: 0 } as chrome.runtime.MessageSender,
+        mockSendResponse
+      )
+
+      expect(chrome.tabs.get).not.toHaveBeenCalled()
+
+      vi.advanceTimersByTime(3000)
+
+      expect(chrome.tabs.get).toHaveBeenCalledWith(tabId)
+      vi.useRealTimers()
+    })
+
+    it('should treat DETECTION_ERROR from a frame as an empty result', () => {
+      const tabId = 123
+
+      activeCollections.set(tabId, {
+        tabId,
+        url: 'https://example.com',
+        candidates: [],
+        options: {
+          enableScroll: false,
+          maxScrollDepth: 20,
+          scrollTimeout: 15000,
+        },
+        startedAt: Date.now(),
+        pendingFrameIds: new Set([0, 2]),
+      })
+
+      handleMessage(
+        {
+          type: 'IMAGES_DETECTED',
+          candidates: [{ url: 'https://example.com/a.jpg', source: 'img' }],
+        },
+        { tab: { id: tabId }, frameId: 0 } as chrome.runtime.MessageSender,
+        mockSendResponse
+      )
+      handleMessage(
+        { type: 'DETECTION_ERROR', error: 'boom' },
+        { tab: { id: tabId }, frameId: 2 } as chrome.runtime.MessageSender,
+        mockSendResponse
+      )
+
+      expect(chrome.tabs.get).toHaveBeenCalledWith(tabId)
+    })
+
     it('should handle SCROLL_COMPLETE message', () => {
       const message: ScrollCompleteMessage = {
         type: 'SCROLL_COMPLETE',
@@ -184,6 +330,7 @@ describe('Message Router', () => {
         storage: {
           sync: {
             get: vi.fn().mockResolvedValue({ namingTemplate: '{date}-{domain}-{index}' }),
+            set: vi.fn().mockResolvedValue(undefined),
           },
           local: {
             get: vi.fn().mockResolvedValue({}),
@@ -221,9 +368,85 @@ describe('Message Router', () => {
       })
     })
 
-    it('should handle RETRY_FAILED message', () => {
+    it('should send START_SCROLL to every frame of the tab', async () => {
+      const tabId = 555
+      vi.mocked(chrome.tabs.get).mockResolvedValue({
+        id: tabId,
+        url: 'https://example.com',
+      } as chrome.tabs.Tab)
+      ;(chrome as unknown as { webNavigation: unknown }).webNavigation = {
+        getAllFrames: vi.fn().mockResolvedValue([{ frameId: 0 }, { frameId: 3 }]),
+      }
+
+      handleMessage(
+        {
+          type: 'START_COLLECTION',
+          tabId,
+          options: { enableScroll: false, maxScrollDepth: 20, scrollTimeout: 15000 },
+        },
+        mockSender,
+        mockSendResponse
+      )
+
+      await vi.waitFor(() => {
+        expect(chrome.tabs.sendMessage).toHaveBeenCalledTimes(2)
+      })
+
+      expect(chrome.tabs.sendMessage).toHaveBeenCalledWith(
+        tabId,
+        expect.objectContaining({ type: 'START_SCROLL' }),
+        { frameId: 0 }
+      )
+      expect(chrome.tabs.sendMessage).toHaveBeenCalledWith(
+        tabId,
+        expect.objectContaining({ type: 'START_SCROLL' }),
+        { frameId: 3 }
+      )
+      expect(activeCollections.get(tabId)?.pendingFrameIds).toEqual(new Set([0, 3]))
+    })
+
+    it('should pass detection settings from the domain profile in START_SCROLL', async () => {
+      const tabId = 556
+      vi.mocked(chrome.tabs.get).mockResolvedValue({
+        id: tabId,
+        url: 'https://video.example.com/watch',
+      } as chrome.tabs.Tab)
+      ;(chrome.storage.sync.get as ReturnType<typeof vi.fn>).mockResolvedValue({
+        config: {
+          domainProfiles: [
+            { domain: 'example.com', captureVideoFrames: true, cssScanBudget: 2000 },
+          ],
+        },
+      })
+
+      handleMessage(
+        {
+          type: 'START_COLLECTION',
+          tabId,
+          options: { enableScroll: false, maxScrollDepth: 20, scrollTimeout: 15000 },
+        },
+        mockSender,
+        mockSendResponse
+      )
+
+      await vi.waitFor(() => {
+        expect(chrome.tabs.sendMessage).toHaveBeenCalledWith(
+          tabId,
+          expect.objectContaining({
+            type: 'START_SCROLL',
+            options: expect.objectContaining({ captureVideoFrames: true, cssScanBudget: 2000 }),
+          }),
+          { frameId: 0 }
+        )
+      })
+    })
+
+    it('should handle RETRY_FAILED message', async () => {
+      global.fetch = vi.fn().mockResolvedValue(new Response(null, { status: 503 }))
+
       const message: RetryFailedMessage = {
         type: 'RETRY_FAILED',
+        tabId: 123,
         failedImages: [
           {
             url: 'https://example.com/image1.jpg',
@@ -250,6 +473,444 @@ describe('Message Router', () => {
         message: 'Retry request received',
         retryCount: 2,
       })
+
+      await vi.waitFor(() => {
+        expect(chrome.runtime.sendMessage).toHaveBeenCalledWith(
+          expect.objectContaining({
+            type: 'STATE_UPDATE',
+            state: expect.objectContaining({ status: 'complete' }),
+          })
+        )
+      })
+    })
+
+    it('should download recovered images and keep the rest in the failed list', async () => {
+      const failedImage = (url: string) => ({
+        url,
+        error: 'HTTP 503',
+        errorType: 'HTTP_ERROR' as const,
+        retryCount: 0,
+        source: 'img' as const,
+      })
+      failedRuns.set(123, {
+        url: 'https://example.com/gallery',
+        failed: [
+          failedImage('https://example.com/recovered.jpg'),
+          failedImage('https://example.com/broken.jpg'),
+          failedImage('https://example.com/not-retried.jpg'),
+        ],
+      })
+      global.fetch = vi.fn(async (url) =>
+        url === 'https://example.com/recovered.jpg'
+          ? new Response('image', { status: 200, headers: { 'Content-Type': 'image/jpeg' } })
+          : new Response(null, { status: 503 })
+      )
+
+      handleMessage(
+        {
+          type: 'RETRY_FAILED',
+          tabId: 123,
+          failedImages: [
+            failedImage('https://example.com/recovered.jpg'),
+            failedImage('https://example.com/broken.jpg'),
+          ],
+        },
+        mockSender,
+        mockSendResponse
+      )
+
+      await vi.waitFor(() => {
+        expect(chrome.downloads.download).toHaveBeenCalledWith(
+          expect.objectContaining({ filename: 'images-retry.zip' })
+        )
+      })
+      await vi.waitFor(() => {
+        expect(chrome.runtime.sendMessage).toHaveBeenCalledWith({
+          type: 'ZIP_READY',
+          downloadId: 12345,
+        })
+      })
+
+      const remaining = failedRuns.get(123)?.failed
+      expect(remaining?.map((failed) => [failed.url, failed.retryCount])).toEqual([
+        ['https://example.com/not-retried.jpg', 0],
+        ['https://example.com/broken.jpg', 1],
+      ])
+      expect(chrome.runtime.sendMessage).toHaveBeenCalledWith({
+        type: 'STATE_UPDATE',
+        state: expect.objectContaining({ status: 'complete', completed: 1, failed: remaining }),
+      })
+    })
+
+    it('should drop recovered images from the failed list while the retry is running', async () => {
+      const failedImage = (url: string) => ({
+        url,
+        error: 'HTTP 503',
+        errorType: 'HTTP_ERROR' as const,
+        retryCount: 0,
+        source: 'img' as const,
+      })
+      const images = [
+        failedImage('https://example.com/recovered.jpg'),
+        failedImage('https://example.com/broken.jpg'),
+      ]
+      failedRuns.set(123, { url: 'https://example.com/gallery', failed: images })
+      global.fetch = vi.fn(async (url) =>
+        url === 'https://example.com/recovered.jpg'
+          ? new Response('image', { status: 200, headers: { 'Content-Type': 'image/jpeg' } })
+          : new Response(null, { status: 503 })
+      )
+
+      handleMessage(
+        { type: 'RETRY_FAILED', tabId: 123, failedImages: images },
+        mockSender,
+        mockSendResponse
+      )
+
+      await vi.waitFor(() => {
+        expect(chrome.runtime.sendMessage).toHaveBeenCalledWith({
+          type: 'ZIP_READY',
+          downloadId: 12345,
+        })
+      })
+
+      const fetchingUpdates = (chrome.runtime.sendMessage as ReturnType<typeof vi.fn>).mock.calls
+        .map(([message]) => message as { type: string; state?: RunState })
+        .filter((message) => message.state?.status === 'fetching')
+        .map(({ state }) => [state?.completed, state?.failed.map((failed) => failed.url)])
+      // 取得完了ごとに通知し、回復した画像は失敗一覧から外す
+      expect(fetchingUpdates[0]).toEqual([
+        0,
+        ['https://example.com/recovered.jpg', 'https://example.com/broken.jpg'],
+      ])
+      expect(fetchingUpdates).toContainEqual([2, ['https://example.com/broken.jpg']])
+    })
+
+    it('should not retry when the free plan limit is reached', async () => {
+      ;(chrome.storage.sync.get as ReturnType<typeof vi.fn>).mockResolvedValue({
+        config: { tier: 'free', monthlyCount: 500, monthlyResetAt: Date.now() + 86_400_000 },
+      })
+      ;(chrome as unknown as { notifications: unknown }).notifications = {
+        create: vi.fn().mockResolvedValue('notification'),
+      }
+      ;(chrome.runtime as unknown as { getURL: unknown }).getURL = vi.fn((path: string) => path)
+      const fetchMock = vi.fn()
+      global.fetch = fetchMock
+
+      handleMessage(
+        {
+          type: 'RETRY_FAILED',
+          tabId: 123,
+          failedImages: [
+            {
+              url: 'https://example.com/image1.jpg',
+              error: 'HTTP 503',
+              errorType: 'HTTP_ERROR',
+              retryCount: 0,
+              source: 'img',
+            },
+          ],
+        },
+        mockSender,
+        mockSendResponse
+      )
+
+      await vi.waitFor(() => {
+        expect(chrome.runtime.sendMessage).toHaveBeenCalledWith({
+          type: 'STATE_UPDATE',
+          state: expect.objectContaining({ status: 'error' }),
+        })
+      })
+      expect(chrome.notifications.create).toHaveBeenCalled()
+      expect(fetchMock).not.toHaveBeenCalled()
+    })
+
+    it('should add recovered images to the diff ledger on the Pro plan', async () => {
+      ;(chrome.storage.local.get as ReturnType<typeof vi.fn>).mockResolvedValue({
+        lastVerification: {
+          tier: 'pro',
+          expiresAt: Date.now() + 86_400_000,
+          verifiedAt: Date.now(),
+        },
+      })
+      failedRuns.set(123, { url: 'https://ledger.example.com/gallery', failed: [] })
+      global.fetch = vi.fn(
+        async () =>
+          new Response('image', { status: 200, headers: { 'Content-Type': 'image/jpeg' } })
+      )
+
+      handleMessage(
+        {
+          type: 'RETRY_FAILED',
+          tabId: 123,
+          failedImages: [
+            {
+              url: 'https://ledger.example.com/recovered.jpg',
+              error: 'HTTP 503',
+              errorType: 'HTTP_ERROR',
+              retryCount: 0,
+              source: 'img',
+            },
+          ],
+        },
+        mockSender,
+        mockSendResponse
+      )
+
+      await vi.waitFor(() => {
+        expect(chrome.runtime.sendMessage).toHaveBeenCalledWith({
+          type: 'ZIP_READY',
+          downloadId: 12345,
+        })
+      })
+
+      const record = (await getAllRecords()).find(
+        (item) => item.url === 'https://ledger.example.com/gallery'
+      )
+      expect(record?.images.map((image) => image.url)).toEqual([
+        'https://ledger.example.com/recovered.jpg',
+      ])
+    })
+
+    it('should reject RETRY_FAILED while a collection is running on the tab', () => {
+      activeCollections.set(123, {
+        tabId: 123,
+        url: 'https://example.com',
+        candidates: [],
+        options: { enableScroll: false, maxScrollDepth: 20, scrollTimeout: 15000 },
+        startedAt: Date.now(),
+      })
+
+      handleMessage(
+        {
+          type: 'RETRY_FAILED',
+          tabId: 123,
+          failedImages: [
+            {
+              url: 'https://example.com/image1.jpg',
+              error: 'Timeout',
+              errorType: 'TIMEOUT',
+              retryCount: 0,
+              source: 'img',
+            },
+          ],
+        },
+        mockSender,
+        mockSendResponse
+      )
+
+      expect(mockSendResponse).toHaveBeenCalledWith({
+        status: 'ERROR',
+        error: 'Collection already in progress',
+      })
+    })
+
+    it('should cancel a collection that is still detecting', () => {
+      const abortController = new AbortController()
+      activeCollections.set(123, {
+        tabId: 123,
+        url: 'https://example.com',
+        candidates: [],
+        options: { enableScroll: true, maxScrollDepth: 20, scrollTimeout: 15000 },
+        startedAt: Date.now(),
+        pendingFrameIds: new Set([0]),
+        abortController,
+      })
+
+      handleMessage({ type: 'CANCEL_COLLECTION', tabId: 123 }, mockSender, mockSendResponse)
+
+      expect(mockSendResponse).toHaveBeenCalledWith({
+        status: 'OK',
+        message: 'Collection cancelled',
+      })
+      expect(abortController.signal.aborted).toBe(true)
+      expect(activeCollections.has(123)).toBe(false)
+      expect(chrome.tabs.sendMessage).toHaveBeenCalledWith(123, { type: 'CANCEL_DETECTION' })
+      expect(chrome.runtime.sendMessage).toHaveBeenCalledWith({
+        type: 'STATE_UPDATE',
+        state: expect.objectContaining({ tabId: 123, status: 'idle' }),
+      })
+    })
+
+    it('should stop fetching and skip the download when cancelled during collection', async () => {
+      // 中止されるまで応答しないfetch
+      global.fetch = vi.fn(
+        (_url: RequestInfo | URL, init?: RequestInit) =>
+          new Promise<Response>((_resolve, reject) => {
+            init?.signal?.addEventListener('abort', () =>
+              reject(new DOMException('Aborted', 'AbortError'))
+            )
+          })
+      )
+      activeCollections.set(123, {
+        tabId: 123,
+        url: 'https://example.com',
+        candidates: [],
+        options: { enableScroll: false, maxScrollDepth: 20, scrollTimeout: 15000 },
+        startedAt: Date.now(),
+        abortController: new AbortController(),
+      })
+
+      handleMessage(
+        {
+          type: 'IMAGES_DETECTED',
+          candidates: [{ url: 'https://example.com/a.jpg', source: 'img' }],
+        },
+        { tab: { id: 123 }, frameId: 0 } as chrome.runtime.MessageSender,
+        vi.fn()
+      )
+      await vi.waitFor(() => {
+        expect(global.fetch).toHaveBeenCalled()
+      })
+
+      handleMessage({ type: 'CANCEL_COLLECTION', tabId: 123 }, mockSender, mockSendResponse)
+
+      await vi.waitFor(() => {
+        expect(activeCollections.has(123)).toBe(false)
+      })
+      expect(chrome.runtime.sendMessage).toHaveBeenLastCalledWith({
+        type: 'STATE_UPDATE',
+        state: expect.objectContaining({ tabId: 123, status: 'idle' }),
+      })
+      expect(chrome.downloads.download).not.toHaveBeenCalled()
+    })
+
+    it('should resume from a checkpoint and fetch only the remaining candidates', async () => {
+      const restored: ImageCandidate = { url: 'https://example.com/restored.jpg', source: 'img' }
+      const candidates: ImageCandidate[] = [
+        restored,
+        { url: 'https://example.com/remaining.jpg', source: 'img' },
+      ]
+      await stageImage(123, 0, {
+        candidate: restored,
+        blob: await new Response('restored').blob(),
+        hash: 'restored-hash',
+        contentType: 'image/jpeg',
+      })
+      global.fetch = vi.fn(
+        async () =>
+          new Response('remaining', { status: 200, headers: { 'Content-Type': 'image/jpeg' } })
+      )
+
+      await resumeCollection({
+        tabId: 123,
+        url: 'https://example.com',
+        candidates,
+        completedIndices: [0],
+        failedCandidates: [],
+        lastCheckpointAt: Date.now(),
+        phase: 'fetching',
+      })
+
+      await vi.waitFor(() => {
+        expect(chrome.runtime.sendMessage).toHaveBeenCalledWith({
+          type: 'ZIP_READY',
+          downloadId: 12345,
+        })
+      })
+      await vi.waitFor(() => {
+        expect(activeCollections.has(123)).toBe(false)
+      })
+
+      expect(global.fetch).toHaveBeenCalledTimes(1)
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://example.com/remaining.jpg',
+        expect.anything()
+      )
+      const zippedImages = vi.mocked(createZip).mock.lastCall?.[0]
+      expect(zippedImages?.map((img) => img.hash)).toContain('restored-hash')
+      expect(zippedImages).toHaveLength(2)
+      await vi.waitFor(async () => {
+        expect(await getStagedImages(123)).toHaveLength(0)
+      })
+    })
+
+    it('should clear the checkpoint before releasing the tab', async () => {
+      const heldDuringClear: boolean[] = []
+      ;(chrome.storage as unknown as { session: unknown }).session = {
+        set: vi.fn().mockResolvedValue(undefined),
+        remove: vi.fn(async () => {
+          heldDuringClear.push(activeCollections.has(123))
+        }),
+      }
+      global.fetch = vi.fn(
+        async () =>
+          new Response('image', { status: 200, headers: { 'Content-Type': 'image/jpeg' } })
+      )
+
+      await resumeCollection({
+        tabId: 123,
+        url: 'https://example.com',
+        candidates: [{ url: 'https://example.com/a.jpg', source: 'img' }],
+        completedIndices: [],
+        failedCandidates: [],
+        lastCheckpointAt: Date.now(),
+        phase: 'fetching',
+      })
+
+      await vi.waitFor(() => {
+        expect(activeCollections.has(123)).toBe(false)
+      })
+      expect(chrome.storage.session.remove).toHaveBeenCalledWith('checkpoint_123')
+      expect(heldDuringClear).toEqual([true])
+    })
+
+    it('should resume data URL candidates from the staged candidate list', async () => {
+      const inline: ImageCandidate = { url: 'data:image/png;base64,iVBORw0KGgo=', source: 'img' }
+      await stageCandidates(123, [inline])
+      global.fetch = vi.fn(
+        async () =>
+          new Response('inline', { status: 200, headers: { 'Content-Type': 'image/png' } })
+      )
+
+      await resumeCollection({
+        tabId: 123,
+        url: 'https://example.com',
+        candidates: [{ ...inline, url: 'data:image/png;base64,' }],
+        completedIndices: [],
+        failedCandidates: [],
+        lastCheckpointAt: Date.now(),
+        phase: 'fetching',
+      })
+
+      await vi.waitFor(() => {
+        expect(activeCollections.has(123)).toBe(false)
+      })
+      expect(vi.mocked(global.fetch).mock.calls[0]?.[0]).toBe(inline.url)
+    })
+
+    it('should not resume a tab whose collection is still running', async () => {
+      activeCollections.set(123, {
+        tabId: 123,
+        url: 'https://example.com',
+        candidates: [],
+        options: { enableScroll: false, maxScrollDepth: 20, scrollTimeout: 15000 },
+        startedAt: Date.now(),
+        orchestrationStarted: true,
+      })
+      global.fetch = vi.fn()
+
+      await resumeCollection({
+        tabId: 123,
+        url: 'https://example.com',
+        candidates: [{ url: 'https://example.com/a.jpg', source: 'img' }],
+        completedIndices: [],
+        failedCandidates: [],
+        lastCheckpointAt: Date.now(),
+        phase: 'fetching',
+      })
+
+      expect(global.fetch).not.toHaveBeenCalled()
+      expect(chrome.runtime.sendMessage).not.toHaveBeenCalled()
+    })
+
+    it('should reject CANCEL_COLLECTION without an active collection', () => {
+      handleMessage({ type: 'CANCEL_COLLECTION', tabId: 123 }, mockSender, mockSendResponse)
+
+      expect(mockSendResponse).toHaveBeenCalledWith({
+        status: 'ERROR',
+        error: 'No active collection',
+      })
     })
 
     it('should handle CHECK_DIFF message', () => {
@@ -268,6 +929,327 @@ describe('Message Router', () => {
     })
   })
 
+  describe('Live Collection', () => {
+    const tabId = 321
+
+    beforeEach(() => {
+      global.chrome = {
+        runtime: {
+          sendMessage: vi.fn().mockResolvedValue(undefined),
+        },
+        tabs: {
+          get: vi.fn().mockResolvedValue({ id: tabId, url: 'https://example.com' }),
+          sendMessage: vi.fn().mockResolvedValue(undefined),
+        },
+      } as unknown as typeof chrome
+
+      activeCollections.set(tabId, {
+        tabId,
+        url: 'https://example.com',
+        candidates: [],
+        options: {
+          enableScroll: false,
+          maxScrollDepth: 20,
+          scrollTimeout: 15000,
+          liveMode: true,
+        },
+        startedAt: Date.now(),
+      })
+    })
+
+    const sender = { tab: { id: tabId }, frameId: 0 } as chrome.runtime.MessageSender
+
+    it('should keep collecting IMAGES_ADDED batches until stopped', () => {
+      handleMessage(
+        {
+          type: 'IMAGES_DETECTED',
+          candidates: [{ url: 'https://example.com/a.jpg', source: 'img' }],
+        },
+        sender,
+        mockSendResponse
+      )
+
+      // ライブモードでは初回検出後も収集を開始しない
+      expect(chrome.tabs.get).not.toHaveBeenCalled()
+
+      handleMessage(
+        {
+          type: 'IMAGES_ADDED',
+          candidates: [
+            { url: 'https://example.com/a.jpg', source: 'img' },
+            { url: 'https://example.com/b.jpg', source: 'img' },
+          ],
+        },
+        sender,
+        mockSendResponse
+      )
+
+      expect(mockSendResponse).toHaveBeenLastCalledWith({ status: 'OK', received: 2 })
+      expect(activeCollections.get(tabId)?.candidates.map((c) => c.url)).toEqual([
+        'https://example.com/a.jpg',
+        'https://example.com/b.jpg',
+      ])
+      expect(chrome.runtime.sendMessage).toHaveBeenLastCalledWith({
+        type: 'STATE_UPDATE',
+        state: expect.objectContaining({ status: 'detecting', total: 2 }),
+      })
+    })
+
+    it('should report the live flag on GET_COLLECTION_STATE until stopped', () => {
+      handleMessage(
+        {
+          type: 'IMAGES_DETECTED',
+          candidates: [{ url: 'https://example.com/a.jpg', source: 'img' }],
+        },
+        sender,
+        mockSendResponse
+      )
+
+      handleMessage({ type: 'GET_COLLECTION_STATE', tabId }, mockSender, mockSendResponse)
+      expect(mockSendResponse).toHaveBeenLastCalledWith({
+        status: 'OK',
+        state: expect.objectContaining({ tabId, status: 'detecting', total: 1, live: true }),
+      })
+
+      handleMessage({ type: 'STOP_LIVE_COLLECTION', tabId }, mockSender, mockSendResponse)
+      handleMessage({ type: 'GET_COLLECTION_STATE', tabId }, mockSender, mockSendResponse)
+      expect(mockSendResponse).toHaveBeenLastCalledWith({
+        status: 'OK',
+        state: expect.objectContaining({ live: false }),
+      })
+
+      handleMessage({ type: 'GET_COLLECTION_STATE', tabId: 999 }, mockSender, mockSendResponse)
+      expect(mockSendResponse).toHaveBeenLastCalledWith({ status: 'OK', state: undefined })
+    })
+
+    it('should stop live detection and start collection on STOP_LIVE_COLLECTION', () => {
+      handleMessage(
+        {
+          type: 'IMAGES_DETECTED',
+          candidates: [{ url: 'https://example.com/a.jpg', source: 'img' }],
+        },
+        sender,
+        mockSendResponse
+      )
+
+      const result = handleMessage(
+        { type: 'STOP_LIVE_COLLECTION', tabId },
+        mockSender,
+        mockSendResponse
+      )
+
+      expect(result).toBe(true)
+      expect(mockSendResponse).toHaveBeenLastCalledWith({
+        status: 'OK',
+        message: 'Live collection stopped',
+      })
+      expect(chrome.tabs.sendMessage).toHaveBeenCalledWith(tabId, {
+        type: 'STOP_LIVE_DETECTION',
+      })
+      expect(chrome.tabs.get).toHaveBeenCalledWith(tabId)
+
+      // 停止後の追加分は受け付けない
+      handleMessage(
+        {
+          type: 'IMAGES_ADDED',
+          candidates: [{ url: 'https://example.com/late.jpg', source: 'img' }],
+        },
+        sender,
+        mockSendResponse
+      )
+      expect(mockSendResponse).toHaveBeenLastCalledWith({
+        status: 'ERROR',
+        error: 'Collection already started',
+      })
+    })
+
+    it('should reject IMAGES_ADDED without live collection', () => {
+      activeCollections.clear()
+
+      handleMessage(
+        {
+          type: 'IMAGES_ADDED',
+          candidates: [{ url: 'https://example.com/a.jpg', source: 'img' }],
+        },
+        sender,
+        mockSendResponse
+      )
+
+      expect(mockSendResponse).toHaveBeenCalledWith({
+        status: 'ERROR',
+        error: 'No live collection',
+      })
+    })
+  })
+
+  describe('Pagination', () => {
+    const tabId = 700
+    const crawlTabId = 701
+    let onUpdated: ((id: number, info: chrome.tabs.TabChangeInfo) => void) | undefined
+
+    beforeEach(() => {
+      onUpdated = undefined
+      global.chrome = {
+        runtime: {
+          sendMessage: vi.fn().mockResolvedValue(undefined),
+          getURL: vi.fn((path: string) => path),
+        },
+        notifications: {
+          create: vi.fn().mockResolvedValue('notification'),
+        },
+        tabs: {
+          get: vi.fn().mockResolvedValue({ id: tabId, url: 'https://example.com/list' }),
+          // 作成したタブの読込完了を通知
+          create: vi.fn(async () => {
+            setTimeout(() => onUpdated?.(crawlTabId, { status: 'complete' }), 0)
+            return { id: crawlTabId }
+          }),
+          remove: vi.fn().mockResolvedValue(undefined),
+          sendMessage: vi.fn().mockResolvedValue(undefined),
+          onUpdated: {
+            addListener: vi.fn((listener: typeof onUpdated) => {
+              onUpdated = listener
+            }),
+            removeListener: vi.fn(),
+          },
+        },
+        webNavigation: {
+          getAllFrames: vi.fn().mockResolvedValue([{ frameId: 0 }]),
+        },
+      } as unknown as typeof chrome
+
+      activeCollections.set(tabId, {
+        tabId,
+        url: 'https://example.com/list',
+        candidates: [],
+        options: {
+          enableScroll: false,
+          maxScrollDepth: 20,
+          scrollTimeout: 15000,
+          maxPages: 3,
+        },
+        startedAt: Date.now(),
+        pendingFrameIds: new Set([0]),
+      })
+    })
+
+    it('should crawl the next page in a background tab and record results per page', async () => {
+      handleMessage(
+        {
+          type: 'IMAGES_DETECTED',
+          candidates: [{ url: 'https://example.com/a.jpg', source: 'img' }],
+          nextPageUrl: 'https://example.com/list?page=2',
+        },
+        {
+          tab: { id: tabId },
+          frameId: 0,
+          url: 'https://example.com/list',
+        } as chrome.runtime.MessageSender,
+        mockSendResponse
+      )
+
+      await vi.waitFor(() => {
+        expect(chrome.tabs.sendMessage).toHaveBeenCalledWith(
+          crawlTabId,
+          expect.objectContaining({ type: 'START_SCROLL' }),
+          { frameId: 0 }
+        )
+      })
+      expect(chrome.tabs.create).toHaveBeenCalledWith({
+        url: 'https://example.com/list?page=2',
+        active: false,
+        openerTabId: tabId,
+      })
+
+      // 2ページ目の「次へ」は訪問済みのページを指すため巡回を終了
+      handleMessage(
+        {
+          type: 'IMAGES_DETECTED',
+          candidates: [{ url: 'https://example.com/b.jpg', source: 'img' }],
+          nextPageUrl: 'https://example.com/list',
+        },
+        {
+          tab: { id: crawlTabId },
+          frameId: 0,
+          url: 'https://example.com/list?page=2',
+        } as chrome.runtime.MessageSender,
+        mockSendResponse
+      )
+
+      const state = activeCollections.get(tabId)
+      expect(state?.orchestrationStarted).toBe(true)
+      expect(state?.pages).toEqual([
+        {
+          url: 'https://example.com/list',
+          candidates: [
+            {
+              url: 'https://example.com/a.jpg',
+              source: 'img',
+              frameUrl: 'https://example.com/list',
+            },
+          ],
+        },
+      ])
+      expect(state?.url).toBe('https://example.com/list?page=2')
+      expect(state?.candidates).toHaveLength(1)
+      expect(chrome.tabs.remove).toHaveBeenCalledWith(crawlTabId)
+      expect(chrome.tabs.get).not.toHaveBeenCalled()
+    })
+
+    it('should wait for the content script of the next page before requesting detection', async () => {
+      vi.mocked(chrome.tabs.sendMessage).mockRejectedValueOnce(
+        new Error('Could not establish connection. Receiving end does not exist.')
+      )
+
+      handleMessage(
+        {
+          type: 'IMAGES_DETECTED',
+          candidates: [{ url: 'https://example.com/a.jpg', source: 'img' }],
+          nextPageUrl: 'https://example.com/list?page=2',
+        },
+        { tab: { id: tabId }, frameId: 0 } as chrome.runtime.MessageSender,
+        mockSendResponse
+      )
+
+      await vi.waitFor(() => {
+        expect(chrome.tabs.sendMessage).toHaveBeenCalledWith(
+          crawlTabId,
+          expect.objectContaining({ type: 'START_SCROLL' }),
+          { frameId: 0 }
+        )
+      })
+      expect(vi.mocked(chrome.tabs.sendMessage).mock.calls.slice(0, 2)).toEqual([
+        [crawlTabId, { type: 'PING' }, { frameId: 0 }],
+        [crawlTabId, { type: 'PING' }, { frameId: 0 }],
+      ])
+      expect(activeCollections.get(tabId)?.orchestrationStarted).toBeFalsy()
+    })
+
+    it('should finish with the crawled pages when the next page cannot be opened', async () => {
+      vi.mocked(chrome.tabs.create).mockRejectedValue(new Error('No tab'))
+      const state = activeCollections.get(tabId)
+
+      handleMessage(
+        {
+          type: 'IMAGES_DETECTED',
+          candidates: [{ url: 'https://example.com/a.jpg', source: 'img' }],
+          nextPageUrl: 'https://example.com/list?page=2',
+        },
+        { tab: { id: tabId }, frameId: 0 } as chrome.runtime.MessageSender,
+        mockSendResponse
+      )
+
+      await vi.waitFor(() => {
+        expect(chrome.tabs.get).toHaveBeenCalledWith(tabId)
+      })
+      expect(state?.pages).toEqual([])
+      expect(state?.url).toBe('https://example.com/list')
+      expect(chrome.notifications.create).toHaveBeenCalledWith(
+        expect.objectContaining({ title: 'DiffSnap - ページ送りを中断しました' })
+      )
+    })
+  })
+
   describe('Special Messages', () => {
     it('should handle PING message', () => {
       const message = { type: 'PING' as const }
@@ -5,9 +5,24 @@
  * 適切なハンドラに振り分けます。
  *
  * メッセージフロー:
- * - Content → Background: 画像検出、スクロール完了、エラー通知
- * - Popup → Background: 収集開始、リトライ、差分チェック
+ * - Content → Background: 画像検出、ライブ検出の追加分、スクロール完了、エラー通知
+ * - Popup → Background: 収集開始、ライブ検出停止、中止、リトライ、差分チェック
  * - Background → Popup: 状態更新、差分結果、ZIP準備完了
+ *
+ * ページ送り収集では、次ページを同じタブまたはバックグラウンドタブで順に開いて検出し、
+ * 全ページの結果を1回の収集・1つのZIP（ページごとのフォルダ）にまとめます。
+ *
+ * リトライでは直近の収集で失敗した画像を再取得し、回復した画像を追加のZIPとして保存します。
+ *
+ * 中止はAbortSignalで検出（スクロール）・画像取得・ZIP生成を打ち切り、ダウンロードせずidleに戻します。
+ *
+ * 画像の取得中は、画像ホストへのリクエストのRefererを収集元ページに合わせます（ホットリンク対策）。
+ *
+ * ドメインプロファイルで有効な場合、Backgroundで取得できなかった画像を収集元タブのページ内
+ * （Cookie・Referer付き）で取得し直します。
+ *
+ * 収集中は進捗と取得済みの画像をチェックポイントに保存し、Service Workerが停止した場合は
+ * Keep-Aliveアラームで再起動した後に残りの候補から再開します。
  */
 
 import type {
@@ -19,12 +34,23 @@ import type {
   ImageSnapshot,
   ImageCandidate,
   CollectionOptions,
+  DomainProfile,
+  FailedImage,
+  ProcessingCheckpoint,
+  UserConfig,
 } from '../shared/types'
-import { ImageCollector, type CollectionResult } from './collector'
+import { ImageCollector, type CollectedImage, type CollectionResult } from './collector'
+import { CheckpointRecorder, loadResumeCandidates, loadResumeResults } from './checkpoint-recorder'
+import { isFetchSuccess, type FetchResult, type PageFetcher } from './parallel-controller'
+import { fetchInPage } from './page-fetcher'
+import { installHeaderRules } from './header-rules'
 import { computeDiff, updateRecord, type ImageWithData } from './diff-engine'
-import { createZip } from './zipper'
+import { createPagedZip, createZip, type CreateZipResult, type ZipPage } from './zipper'
 import { checkTier, checkFreeLimit } from './license-validator'
 import { getAllRecords, clearDatabase } from '../lib/db'
+import { filterExcludedSources, loadDomainProfile, meetsMinWidth } from '../lib/domain-profile'
+import { applyUrlRewrites } from '../lib/url-rewrite'
+import { navigateTab, openBackgroundTab } from './tab-navigator'
 
 /**
  * メッセージハンドラの型定義
@@ -44,30 +70,473 @@ interface CollectionState {
   candidates: ImageCandidate[]
   options: CollectionOptions
   startedAt: number
+  frameResults?: Map<number, ImageCandidate[]> // frameId → そのフレームの検出結果
+  pendingFrameIds?: Set<number> // 検出結果待ちのframeId（未設定ならトップフレームのみ）
+  frameWaitTimer?: ReturnType<typeof setTimeout> // トップフレーム報告後の待機タイマー
+  orchestrationStarted?: boolean
+  domainProfile?: DomainProfile // 収集対象ページに一致したドメインプロファイル
+  liveStopped?: boolean // ライブモードでユーザーが停止を要求済み
+  pages?: PageCandidates[] // ページ送りで検出済みのページ（現在のページを除く、巡回順）
+  nextPageUrl?: string // 現在のページでトップフレームが見つけた次ページのURL
+  crawlTabId?: number // ページ送りで使用中のバックグラウンドタブ
+  abortController?: AbortController // 収集の中止用
+  lastState?: RunState // 最後にPopupへ通知した状態（Popupを開き直したときの復元用）
+}
+
+/**
+ * 1ページ分の検出結果
+ */
+interface PageCandidates {
+  url: string
+  candidates: ImageCandidate[]
 }
 
 // 進行中の収集を管理するMap (テスト用にexport)
 export const activeCollections = new Map<number, CollectionState>()
 
+/**
+ * 完了した収集の失敗画像（リトライ用）
+ */
+interface FailedRun {
+  url: string // 収集したページURL（リトライZIPのファイル名に使用）
+  failed: FailedImage[]
+  retrying?: boolean // リトライ実行中
+}
+
+// タブごとの直近の失敗画像を管理するMap (テスト用にexport)
+export const failedRuns = new Map<number, FailedRun>()
+
+/**
+ * トップフレーム報告後、残りのフレームを待つ最大時間（ms）
+ * 応答しないフレーム（クラッシュ、遅延ロード等）で収集が止まらないようにする
+ */
+const FRAME_WAIT_TIMEOUT_MS = 3000
+
+/**
+ * ページ送り収集が有効か（ライブモード・選択モードでは1ページのみ）
+ */
+const isPaginated = (options: CollectionOptions): boolean =>
+  (options.maxPages ?? 1) > 1 && !options.liveMode && !options.selectionMode
+
+/**
+ * 送信元タブの収集状態を取得
+ *
+ * ページ送りのバックグラウンドタブから届いたメッセージは、収集を開始したタブの状態に紐付けます。
+ *
+ * @param senderTabId - メッセージ送信元のタブID
+ * @returns 収集を開始したタブIDと収集状態
+ */
+const findCollection = (
+  senderTabId: number
+): { tabId: number; state: CollectionState } | undefined => {
+  const state = activeCollections.get(senderTabId)
+  if (state) return { tabId: senderTabId, state }
+
+  for (const [tabId, candidate] of activeCollections) {
+    if (candidate.crawlTabId === senderTabId) return { tabId, state: candidate }
+  }
+  return undefined
+}
+
+/**
+ * タブ内のフレームID一覧を取得
+ *
+ * webNavigation APIが使えない場合はトップフレームのみ
+ *
+ * @param tabId - 対象タブID
+ * @returns frameIdの配列（トップフレームは0）
+ */
+const listFrameIds = async (tabId: number): Promise<number[]> => {
+  try {
+    const frames = await chrome.webNavigation.getAllFrames({ tabId })
+    if (!frames || frames.length === 0) return [0]
+    return frames.map((frame) => frame.frameId)
+  } catch (error) {
+    console.warn('[listFrameIds] Failed to enumerate frames:', error)
+    return [0]
+  }
+}
+
+/**
+ * フレームの検出結果に出自情報を付与
+ *
+ * 子フレーム由来の候補は'iframe'ソースとして扱い、ユーザーが除外できるようにする
+ *
+ * @param candidates - フレームから受信した候補
+ * @param frameId - 送信元frameId
+ * @param frameUrl - 送信元フレームのURL
+ * @returns 出自情報付きの候補
+ */
+const tagFrameCandidates = (
+  candidates: ImageCandidate[],
+  frameId: number,
+  frameUrl: string | undefined
+): ImageCandidate[] => {
+  return candidates.map((candidate) => ({
+    ...candidate,
+    source: frameId === 0 ? candidate.source : 'iframe',
+    frameUrl,
+  }))
+}
+
+/**
+ * 全フレームの検出結果を1つの候補配列に統合（URL重複はframeIdの小さい方を優先）
+ */
+const mergeFrameCandidates = (frameResults: Map<number, ImageCandidate[]>): ImageCandidate[] => {
+  const merged = new Map<string, ImageCandidate>()
+  const frameIds = Array.from(frameResults.keys()).sort((a, b) => a - b)
+
+  for (const frameId of frameIds) {
+    for (const candidate of frameResults.get(frameId) ?? []) {
+      if (!merged.has(candidate.url)) {
+        merged.set(candidate.url, candidate)
+      }
+    }
+  }
+
+  return Array.from(merged.values())
+}
+
+/**
+ * ライブ検出で追加された候補をフレームの検出結果に追記
+ *
+ * @param state - 収集状態
+ * @param frameId - 報告元frameId
+ * @param candidates - 出自情報付きの追加候補
+ */
+const appendFrameCandidates = (
+  state: CollectionState,
+  frameId: number,
+  candidates: ImageCandidate[]
+): void => {
+  state.frameResults ??= new Map()
+  const existing = state.frameResults.get(frameId) ?? []
+  state.frameResults.set(frameId, [...existing, ...candidates])
+  state.candidates = mergeFrameCandidates(state.frameResults)
+}
+
+/**
+ * ライブ検出中の候補数をPopupに通知
+ */
+const sendLiveProgress = async (tabId: number, state: CollectionState): Promise<void> => {
+  await sendStateUpdate({
+    tabId,
+    status: 'detecting',
+    total: state.candidates.length,
+    completed: 0,
+    failed: [],
+    zipSize: 0,
+    live: true,
+  })
+}
+
+/**
+ * 進行中の収集の現在の状態
+ *
+ * 未通知の場合は検出中として返します（ライブ検出は停止の要求前のみliveを設定）。
+ */
+const getCollectionState = (tabId: number, state: CollectionState): RunState =>
+  state.lastState ?? {
+    tabId,
+    status: 'detecting',
+    total: state.candidates.length,
+    completed: 0,
+    failed: [],
+    zipSize: 0,
+    live: Boolean(state.options.liveMode && !state.liveStopped && !state.orchestrationStarted),
+  }
+
+/**
+ * フレームの検出結果を記録し、全フレームが揃ったら収集を開始
+ *
+ * @param tabId - 対象タブID
+ * @param state - 収集状態
+ * @param frameId - 報告元frameId
+ * @param candidates - 出自情報付きの候補（エラー時は空配列）
+ */
+const recordFrameResult = (
+  tabId: number,
+  state: CollectionState,
+  frameId: number,
+  candidates: ImageCandidate[]
+): void => {
+  state.frameResults ??= new Map()
+  state.frameResults.set(frameId, candidates)
+  state.pendingFrameIds?.delete(frameId)
+  state.candidates = mergeFrameCandidates(state.frameResults)
+
+  const allReported = !state.pendingFrameIds || state.pendingFrameIds.size === 0
+
+  if (allReported) {
+    startOrchestration(tabId, state)
+  } else if (frameId === 0 && !state.frameWaitTimer) {
+    // トップフレームが揃った時点で残りのフレームに猶予を与える
+    state.frameWaitTimer = setTimeout(() => {
+      console.warn('[recordFrameResult] Timed out waiting for frames:', [
+        ...(state.pendingFrameIds ?? []),
+      ])
+      startOrchestration(tabId, state)
+    }, FRAME_WAIT_TIMEOUT_MS)
+  }
+}
+
+/**
+ * 統合済み候補で収集オーケストレーションを開始（1回のみ）
+ *
+ * ライブモードでは停止要求があるまで開始せず、候補数の通知のみ行います。
+ */
+const startOrchestration = (tabId: number, state: CollectionState): void => {
+  if (state.orchestrationStarted) return
+
+  if (state.frameWaitTimer) {
+    clearTimeout(state.frameWaitTimer)
+    state.frameWaitTimer = undefined
+  }
+
+  if (state.options.liveMode && !state.liveStopped) {
+    void sendLiveProgress(tabId, state)
+    return
+  }
+
+  // ページ送り: 次ページがあれば現在のページを確定して巡回を続ける
+  if (shouldCrawlNextPage(state)) {
+    void crawlNextPage(tabId, state)
+    return
+  }
+
+  state.orchestrationStarted = true
+
+  if (state.crawlTabId !== undefined) {
+    chrome.tabs.remove(state.crawlTabId).catch((err) => {
+      console.warn('[startOrchestration] Failed to close pagination tab:', err)
+    })
+  }
+
+  // 巡回済みのページがあれば現在のページURLは記録済み（遷移先のタブURLは参照できない場合がある）
+  const currentUrl: Promise<string> = state.pages?.length
+    ? Promise.resolve(state.url)
+    : chrome.tabs.get(tabId).then((tab) => {
+        if (!tab.url) {
+          throw new Error('Tab URL not available')
+        }
+        return tab.url
+      })
+
+  currentUrl
+    .then((url) => {
+      // 非同期で収集開始
+      // ドメインプロファイルで除外されたソース（meta等）を取り除き、
+      // CDNのリサイズ指定を外した元画像URLに書き換える
+      const pages = [...(state.pages ?? []), { url, candidates: state.candidates }].map((page) => ({
+        url: page.url,
+        candidates: applyUrlRewrites(
+          filterExcludedSources(page.candidates, state.domainProfile),
+          state.domainProfile
+        ),
+      }))
+      orchestrateCollection(
+        tabId,
+        pages,
+        state.options,
+        state.domainProfile,
+        state.abortController?.signal
+      ).catch((err) => {
+        console.error('[IMAGES_DETECTED] Orchestration failed:', err)
+      })
+    })
+    .catch((err) => {
+      console.error('[IMAGES_DETECTED] Failed to get tab:', err)
+      activeCollections.delete(tabId)
+    })
+}
+
+/**
+ * 次ページへ進むか判定（最大ページ数未満、かつ未訪問のURL）
+ */
+const shouldCrawlNextPage = (state: CollectionState): boolean => {
+  if (!isPaginated(state.options) || !state.nextPageUrl) return false
+
+  const visited = [...(state.pages ?? []).map((page) => page.url), state.url]
+  return visited.length < (state.options.maxPages ?? 1) && !visited.includes(state.nextPageUrl)
+}
+
+/**
+ * 次ページを読み込めず巡回を打ち切ったことを通知
+ *
+ * @param pageNumber - 読み込めなかったページの番号（1始まり）
+ * @param url - 読み込めなかったページのURL
+ */
+const notifyPageFailure = async (pageNumber: number, url: string): Promise<void> => {
+  try {
+    await chrome.notifications.create({
+      type: 'basic',
+      iconUrl: chrome.runtime.getURL('icons/icon128.png'),
+      title: 'DiffSnap - ページ送りを中断しました',
+      message: `${pageNumber}ページ目を読み込めませんでした（${url}）。${pageNumber - 1}ページ目までの画像をダウンロードします。`,
+      priority: 2,
+    })
+  } catch (error) {
+    console.error('[notifyPageFailure] Failed to show notification:', error)
+  }
+}
+
+/**
+ * 現在のページの検出結果を確定し、次ページを開いて検出を依頼
+ *
+ * 次ページを開けなかった場合は、通知したうえでそれまでのページで収集を開始します。
+ *
+ * @param tabId - 収集を開始したタブID
+ * @param state - 収集状態
+ */
+const crawlNextPage = async (tabId: number, state: CollectionState): Promise<void> => {
+  const nextUrl = state.nextPageUrl as string
+  const page: PageCandidates = { url: state.url, candidates: state.candidates }
+
+  // 次ページ用に検出状態をリセット
+  state.pages = [...(state.pages ?? []), page]
+  state.url = nextUrl
+  state.candidates = []
+  state.frameResults = undefined
+  state.pendingFrameIds = undefined
+  state.nextPageUrl = undefined
+
+  console.log(`[crawlNextPage] Page ${state.pages.length + 1}:`, nextUrl)
+
+  await sendStateUpdate({
+    tabId,
+    status: 'detecting',
+    total: state.pages.reduce((sum, p) => sum + p.candidates.length, 0),
+    completed: 0,
+    failed: [],
+    zipSize: 0,
+  })
+
+  try {
+    let targetTabId = tabId
+    if (state.options.paginationTab === 'same') {
+      await navigateTab(tabId, nextUrl)
+    } else if (state.crawlTabId !== undefined) {
+      await navigateTab(state.crawlTabId, nextUrl)
+      targetTabId = state.crawlTabId
+    } else {
+      state.crawlTabId = await openBackgroundTab(nextUrl, tabId)
+      targetTabId = state.crawlTabId
+    }
+
+    // 読込待ちの間に中止された
+    if (state.abortController?.signal.aborted) return
+
+    await requestDetection(tabId, targetTabId, state)
+  } catch (error) {
+    if (state.abortController?.signal.aborted) return
+
+    console.error('[crawlNextPage] Failed to open next page, finishing with crawled pages:', error)
+    void notifyPageFailure(state.pages.length + 1, nextUrl)
+
+    // 開けなかったページは含めず、直前のページを現在のページに戻して収集開始
+    state.pages = state.pages.slice(0, -1)
+    state.url = page.url
+    state.candidates = page.candidates
+    startOrchestration(tabId, state)
+  }
+}
+
+/**
+ * タブ内の全フレームのContent Scriptに画像検出（START_SCROLL）を依頼
+ *
+ * @param tabId - 収集を開始したタブID（収集状態のキー）
+ * @param targetTabId - 検出を行うタブID（ページ送りのバックグラウンドタブ等）
+ * @param state - 収集状態
+ * @throws トップフレームへの送信に失敗した場合
+ */
+const requestDetection = async (
+  tabId: number,
+  targetTabId: number,
+  state: CollectionState
+): Promise<void> => {
+  const { options, domainProfile: profile } = state
+
+  const frameIds = await listFrameIds(targetTabId)
+  state.pendingFrameIds = new Set(frameIds)
+
+  const startMessage: BackgroundToContentMessage = {
+    type: 'START_SCROLL',
+    options: {
+      enableScroll: options.enableScroll,
+      maxDepth: options.maxScrollDepth,
+      timeout: options.scrollTimeout,
+      captureVideoFrames: options.captureVideoFrames ?? profile?.captureVideoFrames,
+      cssScanBudget: options.cssScanBudget ?? profile?.cssScanBudget,
+      harvestStylesheets: profile?.harvestStylesheets ?? true,
+      scrollContainer: profile?.scrollContainer,
+      scrollMode: profile?.scrollMode,
+      interactionRecipes: profile?.interactionRecipes,
+      liveMode: options.liveMode,
+      selectionMode: options.selectionMode,
+      pagination: isPaginated(options)
+        ? {
+            nextPageSelector: profile?.nextPageSelector,
+            pageUrlPattern: profile?.pageUrlPattern,
+          }
+        : undefined,
+    },
+  }
+
+  await Promise.all(
+    frameIds.map(async (frameId) => {
+      try {
+        await sendToContent(targetTabId, startMessage, frameId)
+      } catch (err) {
+        // トップフレームへの送信失敗は収集全体の失敗
+        if (frameId === 0) throw err
+        // Content Script未注入のフレーム（chrome://、サンドボックス等）は待機対象外
+        console.warn(`[requestDetection] Frame ${frameId} unreachable:`, err)
+        state.pendingFrameIds?.delete(frameId)
+        if (state.frameResults?.has(0) && state.pendingFrameIds?.size === 0) {
+          startOrchestration(tabId, state)
+        }
+      }
+    })
+  )
+}
+
 /**
  * 収集オーケストレーター
  *
  * フロー:
  * 1. ライセンス検証（tier確認）
  * 2. Free制限チェック
- * 3. 画像収集（並列fetch + 去重）
- * 4. 差分計算（Proのみ）
- * 5. ZIP生成
+ * 3. 画像収集（ページごとに並列fetch + 去重、実寸による最小幅フィルタ）
+ * 4. 差分計算（Proのみ、ページURLごとの台帳）
+ * 5. ZIP生成（複数ページの場合はページごとのフォルダ）
  * 6. ダウンロード実行
  * 7. 完了通知
+ *
+ * 中止された場合は台帳の更新・ダウンロードを行わず、idleを通知して終了します。
+ *
+ * 取得結果は1件ごとにチェックポイントへ記録し、終了時（完了・中止・エラー）に削除します。
+ * 台帳の更新はダウンロード後に行うため、ZIP生成中に停止しても再開時に同じ差分が得られます。
+ *
+ * @param tabId - 収集を開始したタブID
+ * @param pages - ページごとの候補（ページ送りなしの場合は1ページ）
+ * @param signal - 収集の中止シグナル
+ * @param prefetched - 再開時に復元した取得結果（全ページを連結した候補の添字 → 結果）
  */
 const orchestrateCollection = async (
   tabId: number,
-  url: string,
-  candidates: ImageCandidate[],
-  _options: CollectionOptions
+  pages: PageCandidates[],
+  _options: CollectionOptions,
+  profile?: DomainProfile,
+  signal?: AbortSignal,
+  prefetched?: Map<number, FetchResult>
 ): Promise<void> => {
+  const candidates = pages.flatMap((page) => page.candidates)
+  const url = pages[0]?.url ?? ''
+  const recorder = new CheckpointRecorder(tabId, pages, prefetched)
+
   try {
+    signal?.throwIfAborted()
+
     // ステップ1: ライセンス検証
     await sendStateUpdate({
       tabId,
@@ -82,29 +551,17 @@ const orchestrateCollection = async (
     console.log(`[orchestrateCollection] User tier: ${tier}`)
 
     // ステップ2: Free制限チェック
-    if (tier === 'free') {
-      const withinLimit = await checkFreeLimit(candidates.length)
-      if (!withinLimit) {
-        // 制限超過通知
-        await chrome.notifications.create({
-          type: 'basic',
-          iconUrl: chrome.runtime.getURL('icons/icon128.png'),
-          title: 'DiffSnap - Free制限到達',
-          message: '今月の無料枠(500枚)を超えています。Proプランで無制限にご利用いただけます。',
-          priority: 2,
-        })
-
-        await sendStateUpdate({
-          tabId,
-          status: 'error',
-          total: candidates.length,
-          completed: 0,
-          failed: [],
-          zipSize: 0,
-        })
-        console.warn('[orchestrateCollection] Free tier limit exceeded')
-        return
-      }
+    if (!(await checkPlanLimit(tier, candidates.length))) {
+      await sendStateUpdate({
+        tabId,
+        status: 'error',
+        total: candidates.length,
+        completed: 0,
+        failed: [],
+        zipSize: 0,
+      })
+      console.warn('[orchestrateCollection] Free tier limit exceeded')
+      return
     }
 
     // ステップ3: 画像収集
@@ -117,58 +574,125 @@ const orchestrateCollection = async (
       zipSize: 0,
     })
 
-    const collector = new ImageCollector({ tabId })
-    const collectionResult: CollectionResult = await collector.collect(candidates)
+    await recorder.start()
 
-    console.log(`[orchestrateCollection] Collection complete:`, {
-      fetched: collectionResult.stats.fetched,
-      failed: collectionResult.stats.failed,
-      deduplicated: collectionResult.stats.deduplicated,
-    })
+    // ページごとに収集（差分台帳・ZIPフォルダはページ単位）
+    // チェックポイントの添字は全ページを連結した候補の添字
+    const collectedPages: ZipPage[] = []
+    const collectionResults: CollectionResult[] = []
+    let pageOffset = 0
+    for (const page of pages) {
+      const offset = pageOffset
+      pageOffset += page.candidates.length
+
+      const collector = new ImageCollector({
+        tabId,
+        signal,
+        pageFetch: pageFetcherFor(tabId, profile),
+        onFetched: (index, result) => recorder.record(offset + index, result),
+      })
+
+      // 取得中のみ、このページの画像ホストへのRefererをページURLに合わせる
+      const removeHeaderRules = await installHeaderRules(
+        page.url,
+        page.candidates,
+        profile?.requestHeaders
+      )
+      let collectionResult: CollectionResult
+      try {
+        collectionResult = await collector.collect(
+          page.candidates,
+          slicePrefetched(prefetched, offset, page.candidates.length)
+        )
+      } finally {
+        await removeHeaderRules()
+      }
+      collectionResults.push(collectionResult)
+
+      console.log(`[orchestrateCollection] Collection complete:`, {
+        page: page.url,
+        fetched: collectionResult.stats.fetched,
+        failed: collectionResult.stats.failed,
+        deduplicated: collectionResult.stats.deduplicated,
+      })
+
+      // ドメインプロファイルの最小幅フィルタ（デコード済みの実寸で判定）
+      collectedPages.push({
+        pageUrl: page.url,
+        images: collectionResult.images.filter((img) => meetsMinWidth(img.snapshot.width, profile)),
+      })
+    }
+
+    const fetchedCount = collectionResults.reduce((sum, r) => sum + r.stats.fetched, 0)
+    const failedImages = collectionResults.flatMap((r) => r.failed)
+
+    // 全候補の取得完了（以降に停止した場合は再開時に取得せずZIP生成へ進む）
+    await recorder.setPhase('zipping')
 
     // ステップ4: 差分計算（Proのみ）
-    let imagesToZip = collectionResult.images
+    // 中止後は台帳を更新しない
+    signal?.throwIfAborted()
+    let pagesToZip = collectedPages
+    const recordUpdates: Array<{ pageUrl: string; newImages: ImageSnapshot[] }> = []
 
     if (tier === 'pro') {
       console.log(`[orchestrateCollection] Computing diff (Pro feature)`)
 
-      const imagesWithData: ImageWithData[] = collectionResult.images.map((img) => ({
-        blob: img.blob,
-        url: img.snapshot.url,
-        width: img.snapshot.width,
-        height: img.snapshot.height,
-        alt: img.snapshot.alt,
-        context: img.snapshot.context,
-      }))
+      const newSnapshots: ImageSnapshot[] = []
+      const existingSnapshots: ImageSnapshot[] = []
+      let isFirstVisit = true
+      pagesToZip = []
+
+      // ページURLごとに差分を計算し、台帳を更新
+      for (const page of collectedPages) {
+        const diffResult = await computeDiff(page.pageUrl, page.images.map(toImageWithData))
+        newSnapshots.push(...diffResult.newImages)
+        existingSnapshots.push(...diffResult.existingImages)
+        isFirstVisit &&= diffResult.isFirstVisit
+
+        // 新規画像のみをZIPに含める
+        pagesToZip.push({
+          pageUrl: page.pageUrl,
+          images: page.images.filter((img) =>
+            diffResult.newImages.some((newImg) => newImg.hash === img.hash)
+          ),
+        })
 
-      const diffResult = await computeDiff(url, imagesWithData)
+        // 台帳更新はダウンロード後（新規画像を保存）
+        recordUpdates.push({ pageUrl: page.pageUrl, newImages: diffResult.newImages })
 
-      // 差分結果をPopupに通知
-      await sendDiffResult(diffResult.newImages, diffResult.existingImages, diffResult.isFirstVisit)
+        console.log(`[orchestrateCollection] Diff complete:`, {
+          page: page.pageUrl,
+          new: diffResult.newImages.length,
+          existing: diffResult.existingImages.length,
+          isFirstVisit: diffResult.isFirstVisit,
+        })
+      }
 
-      // 新規画像のみをZIPに含める
-      imagesToZip = collectionResult.images.filter((img) =>
-        diffResult.newImages.some((newImg) => newImg.hash === img.hash)
-      )
+      // 差分結果をPopupに通知
+      await sendDiffResult(newSnapshots, existingSnapshots, isFirstVisit)
+    }
 
-      // 台帳更新（新規画像を保存）
-      await updateRecord(url, diffResult.newImages)
+    // 複数ページに現れる画像（ロゴ等）は最初のページにのみ含める
+    pagesToZip = dedupeAcrossPages(pagesToZip)
+    const imagesToZip = pagesToZip.flatMap((page) => page.images)
 
-      console.log(`[orchestrateCollection] Diff complete:`, {
-        new: diffResult.newImages.length,
-        existing: diffResult.existingImages.length,
-        isFirstVisit: diffResult.isFirstVisit,
-      })
+    // リトライ用に失敗画像を記録
+    if (failedImages.length > 0) {
+      failedRuns.set(tabId, { url, failed: failedImages })
+    } else {
+      failedRuns.delete(tabId)
     }
 
     // 画像がない場合は終了
     if (imagesToZip.length === 0) {
+      await applyRecordUpdates(recordUpdates)
       await sendStateUpdate({
         tabId,
         status: 'complete',
         total: candidates.length,
-        completed: collectionResult.stats.fetched,
-        failed: collectionResult.failed,
+        completed: fetchedCount,
+        failed: failedImages,
         zipSize: 0,
       })
       console.log('[orchestrateCollection] No images to zip')
@@ -180,49 +704,39 @@ const orchestrateCollection = async (
       tabId,
       status: 'zipping',
       total: candidates.length,
-      completed: collectionResult.stats.fetched,
-      failed: collectionResult.failed,
+      completed: fetchedCount,
+      failed: failedImages,
       zipSize: 0,
     })
 
-    // 設定からファイル名テンプレートを取得（デフォルトは"default"）
-    const config = await chrome.storage.sync.get(['namingTemplate'])
-    const template = config.namingTemplate ?? '{date}-{domain}-{w}x{h}-{index}'
-
-    const zipResult = await createZip(imagesToZip, {
-      template,
+    const zipOptions = {
+      ...(await loadZipSettings()),
       pageUrl: url,
       zipFilename: 'images',
-    })
+      signal,
+    }
+    const zipResult =
+      pages.length > 1
+        ? await createPagedZip(pagesToZip, zipOptions)
+        : await createZip(imagesToZip, zipOptions)
 
     console.log(`[orchestrateCollection] ZIP created:`, {
       fileCount: zipResult.fileCount,
       size: zipResult.size,
     })
 
-    // ステップ6: ダウンロード実行
-    // Note: Service WorkerではURL.createObjectURL()が使えないため、Data URLを使用
-    const arrayBuffer = await zipResult.blob.arrayBuffer()
-    const base64 = btoa(
-      Array.from(new Uint8Array(arrayBuffer), (byte) =>
-        String.fromCharCode(byte)
-      ).join('')
-    )
-    const dataUrl = `data:application/zip;base64,${base64}`
-
-    const downloadId = await chrome.downloads.download({
-      url: dataUrl,
-      filename: zipResult.filename,
-      saveAs: true,
-    })
+    // ステップ6: ダウンロード実行（中止後は途中のZIPを保存しない）
+    signal?.throwIfAborted()
+    const downloadId = await downloadZip(zipResult)
+    await applyRecordUpdates(recordUpdates)
 
     // ステップ7: 完了通知
     await sendStateUpdate({
       tabId,
       status: 'complete',
       total: candidates.length,
-      completed: collectionResult.stats.fetched,
-      failed: collectionResult.failed,
+      completed: fetchedCount,
+      failed: failedImages,
       zipSize: zipResult.size,
     })
 
@@ -230,6 +744,12 @@ const orchestrateCollection = async (
 
     console.log(`[orchestrateCollection] Collection orchestration complete`)
   } catch (error) {
+    if (signal?.aborted) {
+      console.log('[orchestrateCollection] Collection cancelled')
+      await sendCancelled(tabId)
+      return
+    }
+
     console.error('[orchestrateCollection] Error:', error)
 
     await sendStateUpdate({
@@ -241,11 +761,409 @@ const orchestrateCollection = async (
       zipSize: 0,
     })
   } finally {
-    // 収集状態をクリーンアップ
+    // チェックポイントを削除してから収集状態を解除（削除前に同じタブの再開が始まらないように）
+    const othersRunning = [...activeCollections].some(
+      ([id, s]) => id !== tabId && s.orchestrationStarted
+    )
+    await recorder.finish(othersRunning)
     activeCollections.delete(tabId)
   }
 }
 
+/**
+ * Freeプランの月間上限を確認し、超過時は通知を表示
+ *
+ * @param tier - ユーザーのプラン
+ * @param imageCount - 今回取得する画像数（上限内なら月間の利用数に加算）
+ * @returns 上限内（またはPro）ならtrue
+ */
+const checkPlanLimit = async (tier: 'free' | 'pro', imageCount: number): Promise<boolean> => {
+  if (tier !== 'free' || (await checkFreeLimit(imageCount))) return true
+
+  await chrome.notifications.create({
+    type: 'basic',
+    iconUrl: chrome.runtime.getURL('icons/icon128.png'),
+    title: 'DiffSnap - Free制限到達',
+    message: '今月の無料枠(500枚)を超えています。Proプランで無制限にご利用いただけます。',
+    priority: 2,
+  })
+  return false
+}
+
+/**
+ * 収集した画像を差分計算の入力に変換
+ */
+const toImageWithData = (img: CollectedImage): ImageWithData => ({
+  blob: img.blob,
+  url: img.snapshot.url,
+  width: img.snapshot.width,
+  height: img.snapshot.height,
+  alt: img.snapshot.alt,
+  context: img.snapshot.context,
+  provenance: img.snapshot.provenance,
+})
+
+/**
+ * ドメインプロファイルでページ内取得が有効な場合、収集元タブで取得し直す関数を返す
+ */
+const pageFetcherFor = (tabId: number, profile?: DomainProfile): PageFetcher | undefined =>
+  profile?.pageContextFetch
+    ? (candidate, signal) => fetchInPage(tabId, candidate, signal)
+    : undefined
+
+/**
+ * 再開時の取得結果から1ページ分を取り出す（添字はページ内の添字に変換）
+ */
+const slicePrefetched = (
+  prefetched: Map<number, FetchResult> | undefined,
+  offset: number,
+  count: number
+): Map<number, FetchResult> | undefined => {
+  if (!prefetched) return undefined
+
+  const pageResults = new Map<number, FetchResult>()
+  for (const [index, result] of prefetched) {
+    if (index >= offset && index < offset + count) {
+      pageResults.set(index - offset, result)
+    }
+  }
+  return pageResults
+}
+
+/**
+ * 差分計算で得た新規画像をページURLごとの台帳に保存
+ */
+const applyRecordUpdates = async (
+  updates: Array<{ pageUrl: string; newImages: ImageSnapshot[] }>
+): Promise<void> => {
+  for (const update of updates) {
+    await updateRecord(update.pageUrl, update.newImages)
+  }
+}
+
+/**
+ * チェックポイントから収集を再開
+ *
+ * Service Workerの再起動後にKeep-Aliveから呼ばれます。取得済みの画像は一時保存から復元し、
+ * 残りの候補のみ取得してZIP生成・ダウンロードまで続けます（収集の開始後に返ります）。
+ * 同じタブで収集が進行中の場合は何もしません。
+ *
+ * @param checkpoint - 再開するチェックポイント
+ */
+export const resumeCollection = async (checkpoint: ProcessingCheckpoint): Promise<void> => {
+  const { tabId } = checkpoint
+  if (activeCollections.has(tabId)) return
+
+  // 状態を予約（検出は完了済みのため、検出用のオプションは使用しない）
+  const state: CollectionState = {
+    tabId,
+    url: checkpoint.url,
+    candidates: [],
+    options: { enableScroll: false, maxScrollDepth: 0, scrollTimeout: 0 },
+    startedAt: Date.now(),
+    orchestrationStarted: true,
+    abortController: new AbortController(),
+  }
+  activeCollections.set(tabId, state)
+
+  // data: URLを含む候補一覧を一時保存から復元
+  const restored: ProcessingCheckpoint = {
+    ...checkpoint,
+    candidates: await loadResumeCandidates(checkpoint),
+  }
+
+  // チェックポイントの候補をページごとに分割
+  const pages: PageCandidates[] = []
+  let offset = 0
+  for (const page of restored.pages ?? [
+    { url: restored.url, candidateCount: restored.candidates.length },
+  ]) {
+    pages.push({
+      url: page.url,
+      candidates: restored.candidates.slice(offset, offset + page.candidateCount),
+    })
+    offset += page.candidateCount
+  }
+  state.candidates = pages[pages.length - 1]?.candidates ?? []
+
+  const prefetched = await loadResumeResults(restored).catch((error: unknown) => {
+    console.warn('[resumeCollection] Failed to restore staged images:', error)
+    return new Map<number, FetchResult>()
+  })
+  const profile = await loadDomainProfile(checkpoint.url)
+
+  console.log(`[resumeCollection] Resuming collection:`, {
+    tabId,
+    restored: prefetched.size,
+    total: checkpoint.candidates.length,
+  })
+
+  // 他のタブの再開を待たせないよう、完了を待たずに返す
+  orchestrateCollection(
+    tabId,
+    pages,
+    state.options,
+    profile,
+    state.abortController?.signal,
+    prefetched
+  ).catch((err) => {
+    console.error('[resumeCollection] Orchestration failed:', err)
+  })
+}
+
+/**
+ * 中止した収集の状態（idle）をPopupに通知
+ */
+const sendCancelled = async (tabId: number): Promise<void> => {
+  await sendStateUpdate({
+    tabId,
+    status: 'idle',
+    total: 0,
+    completed: 0,
+    failed: [],
+    zipSize: 0,
+  })
+}
+
+/**
+ * 進行中の収集を中止
+ *
+ * 検出中であればContent Scriptのスクロール・検出を止めてここで終了します。
+ * 収集処理（orchestrateCollection）の開始後は、処理側が中止を検知して後始末します。
+ *
+ * @param tabId - 収集を開始したタブID
+ * @param state - 収集状態
+ */
+const cancelCollection = (tabId: number, state: CollectionState): void => {
+  state.abortController?.abort()
+
+  if (state.frameWaitTimer) {
+    clearTimeout(state.frameWaitTimer)
+    state.frameWaitTimer = undefined
+  }
+
+  // 全フレームのスクロール・検出・ライブ検出を停止（未注入フレームへの送信失敗は無視）
+  sendToContent(tabId, { type: 'CANCEL_DETECTION' }).catch((err) => {
+    console.warn('[cancelCollection] Failed to cancel detection:', err)
+  })
+
+  if (state.crawlTabId !== undefined) {
+    chrome.tabs.remove(state.crawlTabId).catch((err) => {
+      console.warn('[cancelCollection] Failed to close pagination tab:', err)
+    })
+  }
+
+  if (!state.orchestrationStarted) {
+    activeCollections.delete(tabId)
+    void sendCancelled(tabId)
+  }
+}
+
+/**
+ * 設定からZIP生成のオプションを読み込み
+ *
+ * - template: ファイル名テンプレート（デフォルトは"default"）
+ * - manifest: 出自情報のmanifest.jsonを含めるか（設定画面で有効にした場合のみ）
+ */
+const loadZipSettings = async (): Promise<{ template: string; manifest: boolean }> => {
+  const stored = await chrome.storage.sync.get(['namingTemplate', 'config'])
+  const config = stored.config as Partial<UserConfig> | undefined
+
+  return {
+    template: stored.namingTemplate ?? '{date}-{domain}-{w}x{h}-{index}',
+    manifest: config?.includeManifest ?? false,
+  }
+}
+
+/**
+ * 生成したZIPをダウンロード
+ *
+ * Note: Service WorkerではURL.createObjectURL()が使えないため、Data URLを使用
+ *
+ * @returns ダウンロードID
+ */
+const downloadZip = async (zipResult: CreateZipResult): Promise<number> => {
+  const arrayBuffer = await zipResult.blob.arrayBuffer()
+  const base64 = btoa(
+    Array.from(new Uint8Array(arrayBuffer), (byte) =>
+      String.fromCharCode(byte)
+    ).join('')
+  )
+  const dataUrl = `data:application/zip;base64,${base64}`
+
+  return chrome.downloads.download({
+    url: dataUrl,
+    filename: zipResult.filename,
+    saveAs: true,
+  })
+}
+
+/**
+ * 失敗した画像を再取得し、回復した画像を追加のZIPとして保存
+ *
+ * Popupの失敗リストは取得できた画像から順に外し、最後に再試行しなかった画像に
+ * 今回も失敗した画像（retryCount加算済み）を加えたものに更新します。
+ * 通常の収集と同じく、Freeプランの月間上限を確認し、Proプランでは差分台帳を更新します。
+ *
+ * @param tabId - 収集を実行したタブID
+ * @param failedImages - 再試行する画像
+ */
+const retryFailedImages = async (tabId: number, failedImages: FailedImage[]): Promise<void> => {
+  const run: FailedRun = failedRuns.get(tabId) ?? { url: '', failed: failedImages }
+  const retryUrls = new Set(failedImages.map((failed) => failed.url))
+  const untouched = run.failed.filter((failed) => !retryUrls.has(failed.url))
+  const total = failedImages.length
+
+  run.retrying = true
+  failedRuns.set(tabId, run)
+
+  try {
+    const tier = await checkTier()
+    if (!(await checkPlanLimit(tier, total))) {
+      await sendStateUpdate({
+        tabId,
+        status: 'error',
+        total,
+        completed: 0,
+        failed: run.failed,
+        zipSize: 0,
+      })
+      console.warn('[retryFailedImages] Free tier limit exceeded')
+      return
+    }
+
+    await sendStateUpdate({
+      tabId,
+      status: 'fetching',
+      total,
+      completed: 0,
+      failed: run.failed,
+      zipSize: 0,
+    })
+
+    // ページURLが不明な場合（Service Worker再起動後）は現在のタブURLを使用
+    const pageUrl = run.url || ((await chrome.tabs.get(tabId)).url ?? '')
+    const profile = await loadDomainProfile(pageUrl)
+
+    // 取得できた画像から順に失敗一覧から外し、Popupに進捗を通知
+    let settled = 0
+    const recovered = new Set<string>()
+    const collector = new ImageCollector({
+      pageFetch: pageFetcherFor(tabId, profile),
+      onFetched: async (index, fetchResult) => {
+        settled++
+        const failed = failedImages[index]
+        if (failed && isFetchSuccess(fetchResult)) {
+          recovered.add(failed.url)
+          run.failed = run.failed.filter((image) => !recovered.has(image.url))
+        }
+        await sendStateUpdate({
+          tabId,
+          status: 'fetching',
+          total,
+          completed: settled,
+          failed: run.failed,
+          zipSize: 0,
+        })
+      },
+    })
+    const removeHeaderRules = await installHeaderRules(
+      pageUrl,
+      failedImages,
+      profile?.requestHeaders
+    )
+    const result = await collector.retryFailed(failedImages).finally(removeHeaderRules)
+    run.failed = [...untouched, ...result.failed]
+
+    console.log(`[retryFailedImages] Retry complete:`, {
+      recovered: result.stats.fetched,
+      failed: result.stats.failed,
+    })
+
+    // 差分計算（Proのみ）: 台帳にない画像のみZIPに含め、ダウンロード後に台帳へ追加
+    let imagesToZip = result.images
+    const recordUpdates: Array<{ pageUrl: string; newImages: ImageSnapshot[] }> = []
+    if (tier === 'pro' && result.images.length > 0) {
+      const diffResult = await computeDiff(pageUrl, result.images.map(toImageWithData))
+      const newHashes = new Set(diffResult.newImages.map((snapshot) => snapshot.hash))
+      imagesToZip = result.images.filter((img) => newHashes.has(img.hash))
+      recordUpdates.push({ pageUrl, newImages: diffResult.newImages })
+    }
+
+    if (imagesToZip.length === 0) {
+      await applyRecordUpdates(recordUpdates)
+      await sendStateUpdate({
+        tabId,
+        status: 'complete',
+        total,
+        completed: result.stats.fetched,
+        failed: run.failed,
+        zipSize: 0,
+      })
+      return
+    }
+
+    await sendStateUpdate({
+      tabId,
+      status: 'zipping',
+      total,
+      completed: result.stats.fetched,
+      failed: run.failed,
+      zipSize: 0,
+    })
+
+    const zipResult = await createZip(imagesToZip, {
+      ...(await loadZipSettings()),
+      pageUrl,
+      zipFilename: 'images-retry',
+    })
+    const downloadId = await downloadZip(zipResult)
+    await applyRecordUpdates(recordUpdates)
+
+    await sendStateUpdate({
+      tabId,
+      status: 'complete',
+      total,
+      completed: result.stats.fetched,
+      failed: run.failed,
+      zipSize: zipResult.size,
+    })
+
+    await sendZipReady(downloadId)
+  } catch (error) {
+    console.error('[retryFailedImages] Error:', error)
+
+    await sendStateUpdate({
+      tabId,
+      status: 'error',
+      total,
+      completed: 0,
+      failed: run.failed,
+      zipSize: 0,
+    })
+  } finally {
+    run.retrying = false
+    if (run.failed.length === 0) {
+      failedRuns.delete(tabId)
+    }
+  }
+}
+
+/**
+ * 複数ページに現れる画像を最初のページにのみ残す（ハッシュで判定）
+ */
+const dedupeAcrossPages = (pages: ZipPage[]): ZipPage[] => {
+  const seenHashes = new Set<string>()
+  return pages.map((page) => ({
+    pageUrl: page.pageUrl,
+    images: page.images.filter((img) => {
+      if (seenHashes.has(img.hash)) return false
+      seenHashes.add(img.hash)
+      return true
+    }),
+  }))
+}
+
 /**
  * Content Scriptからのメッセージハンドラ
  */
@@ -271,37 +1189,97 @@ const handleContentMessage: MessageHandler<ContentToBackgroundMessage> = (
         return true
       }
 
-      console.log('Received IMAGES_DETECTED from tab:', tabId, 'count:', message.candidates.length)
+      const frameId = sender.frameId ?? 0
+
+      console.log(
+        'Received IMAGES_DETECTED from tab:',
+        tabId,
+        'frame:',
+        frameId,
+        'count:',
+        message.candidates.length
+      )
 
-      // 既存の収集状態を取得
-      const existingState = activeCollections.get(tabId)
-      if (!existingState) {
+      // 既存の収集状態を取得（ページ送りのバックグラウンドタブは収集元タブの状態）
+      const collection = findCollection(tabId)
+      if (!collection) {
         console.warn('Received IMAGES_DETECTED without active collection')
         sendResponse({ status: 'ERROR', error: 'No active collection' })
         return true
       }
 
-      // 候補を更新
-      existingState.candidates = message.candidates
+      const { tabId: collectionTabId, state: existingState } = collection
+      if (existingState.orchestrationStarted) {
+        console.warn('IMAGES_DETECTED arrived after collection started, frame:', frameId)
+        sendResponse({ status: 'ERROR', error: 'Collection already started' })
+        return true
+      }
 
-      // 収集オーケストレーションを開始
-      chrome.tabs
-        .get(tabId)
-        .then((tab) => {
-          if (!tab.url) {
-            throw new Error('Tab URL not available')
-          }
-          // 非同期で収集開始（レスポンスはすぐ返す）
-          orchestrateCollection(tabId, tab.url, message.candidates, existingState.options).catch(
-            (err) => {
-              console.error('[IMAGES_DETECTED] Orchestration failed:', err)
-            }
-          )
-        })
-        .catch((err) => {
-          console.error('[IMAGES_DETECTED] Failed to get tab:', err)
-          activeCollections.delete(tabId)
-        })
+      // フレームごとの結果として記録（全フレーム揃い次第、収集開始）
+      const frameUrl = sender.url ?? sender.tab?.url
+      if (frameId === 0) {
+        existingState.nextPageUrl = message.nextPageUrl
+        // 巡回先のページはリダイレクト後の実際のURLで記録
+        if (existingState.pages?.length && frameUrl) {
+          existingState.url = frameUrl
+        }
+      }
+      recordFrameResult(
+        collectionTabId,
+        existingState,
+        frameId,
+        tagFrameCandidates(message.candidates, frameId, frameUrl)
+      )
+
+      sendResponse({ status: 'OK', received: message.candidates.length })
+      return true
+    }
+
+    case 'IMAGES_ADDED': {
+      if (!message.candidates || !Array.isArray(message.candidates)) {
+        console.error('Invalid IMAGES_ADDED message:', message)
+        sendResponse({ status: 'ERROR', error: 'Invalid candidates field' })
+        return true
+      }
+
+      if (!tabId) {
+        console.error('IMAGES_ADDED: tabId is undefined')
+        sendResponse({ status: 'ERROR', error: 'Invalid sender' })
+        return true
+      }
+
+      const state = activeCollections.get(tabId)
+      if (!state?.options.liveMode) {
+        console.warn('Received IMAGES_ADDED without live collection')
+        sendResponse({ status: 'ERROR', error: 'No live collection' })
+        return true
+      }
+
+      if (state.orchestrationStarted) {
+        console.warn('IMAGES_ADDED arrived after collection started')
+        sendResponse({ status: 'ERROR', error: 'Collection already started' })
+        return true
+      }
+
+      const frameId = sender.frameId ?? 0
+      const frameUrl = sender.url ?? sender.tab?.url
+      appendFrameCandidates(
+        state,
+        frameId,
+        tagFrameCandidates(message.candidates, frameId, frameUrl)
+      )
+
+      console.log(
+        'Received IMAGES_ADDED from tab:',
+        tabId,
+        'frame:',
+        frameId,
+        'count:',
+        message.candidates.length,
+        'total:',
+        state.candidates.length
+      )
+      void sendLiveProgress(tabId, state)
 
       sendResponse({ status: 'OK', received: message.candidates.length })
       return true
@@ -330,6 +1308,12 @@ const handleContentMessage: MessageHandler<ContentToBackgroundMessage> = (
     case 'DETECTION_ERROR': {
       console.error('Detection error from tab:', tabId, 'error:', message.error)
 
+      // 失敗したフレームは空の結果として扱い、他フレームの収集を継続
+      const collection = tabId !== undefined ? findCollection(tabId) : undefined
+      if (collection && !collection.state.orchestrationStarted) {
+        recordFrameResult(collection.tabId, collection.state, sender.frameId ?? 0, [])
+      }
+
       // TODO: Issue #13でエラーハンドリング実装
       sendResponse({ status: 'OK' })
       return true
@@ -376,6 +1360,7 @@ const handlePopupMessage: MessageHandler<PopupToBackgroundMessage> = (
         candidates: [],
         options,
         startedAt: Date.now(),
+        abortController: new AbortController(),
       })
 
       // 非同期処理を開始
@@ -392,15 +1377,16 @@ const handlePopupMessage: MessageHandler<PopupToBackgroundMessage> = (
             state.url = tab.url
           }
 
-          // Content Scriptに画像検出を依頼
-          await sendToContent(tabId, {
-            type: 'START_SCROLL',
-            options: {
-              enableScroll: options.enableScroll,
-              maxDepth: options.maxScrollDepth,
-              timeout: options.scrollTimeout,
-            },
-          })
+          // ドメインプロファイルの検出設定を反映
+          const profile = await loadDomainProfile(tab.url)
+          if (state) {
+            state.domainProfile = profile
+          }
+
+          // 全フレームのContent Scriptに画像検出を依頼（準備中に中止された場合を除く）
+          if (state && !state.abortController?.signal.aborted) {
+            await requestDetection(tabId, tabId, state)
+          }
         })
         .catch(async (err) => {
           console.error('[START_COLLECTION] Failed:', err)
@@ -425,19 +1411,91 @@ const handlePopupMessage: MessageHandler<PopupToBackgroundMessage> = (
     }
 
     case 'RETRY_FAILED': {
+      const { tabId, failedImages } = message
+
       console.log('RETRY_FAILED request:', {
-        count: message.failedImages.length,
-        failedImages: message.failedImages,
+        tabId,
+        count: failedImages.length,
+        failedImages,
       })
 
-      // Issue #17: エラーハンドリング実装完了
-      // UIからの再試行リクエストを受信
-      // 実際の収集処理はIssue #13のCollectorオーケストレーター実装時に統合
-      // 現在は受信確認のみ（Collector.retryFailed()メソッドは実装済み）
+      if (failedImages.length === 0) {
+        sendResponse({ status: 'ERROR', error: 'No failed images to retry' })
+        return true
+      }
+
+      if (activeCollections.has(tabId) || failedRuns.get(tabId)?.retrying) {
+        sendResponse({ status: 'ERROR', error: 'Collection already in progress' })
+        return true
+      }
+
+      // 非同期で再取得（進捗・結果はSTATE_UPDATEで通知）
+      void retryFailedImages(tabId, failedImages)
+
       sendResponse({
         status: 'OK',
         message: 'Retry request received',
-        retryCount: message.failedImages.length,
+        retryCount: failedImages.length,
+      })
+      return true
+    }
+
+    case 'STOP_LIVE_COLLECTION': {
+      const { tabId } = message
+      const state = activeCollections.get(tabId)
+
+      console.log('STOP_LIVE_COLLECTION request:', { tabId })
+
+      if (!state?.options.liveMode || state.liveStopped) {
+        sendResponse({ status: 'ERROR', error: 'No live collection' })
+        return true
+      }
+
+      state.liveStopped = true
+      if (state.lastState) state.lastState = { ...state.lastState, live: false }
+
+      // 全フレームの監視を停止（未注入フレームへの送信失敗は無視）
+      sendToContent(tabId, { type: 'STOP_LIVE_DETECTION' }).catch((err) => {
+        console.warn('[STOP_LIVE_COLLECTION] Failed to stop live detection:', err)
+      })
+
+      // 蓄積した候補で収集開始
+      startOrchestration(tabId, state)
+
+      sendResponse({
+        status: 'OK',
+        message: 'Live collection stopped',
+      })
+      return true
+    }
+
+    case 'GET_COLLECTION_STATE': {
+      const { tabId } = message
+      const state = activeCollections.get(tabId)
+
+      sendResponse({
+        status: 'OK',
+        state: state && getCollectionState(tabId, state),
+      })
+      return true
+    }
+
+    case 'CANCEL_COLLECTION': {
+      const { tabId } = message
+      const state = activeCollections.get(tabId)
+
+      console.log('CANCEL_COLLECTION request:', { tabId })
+
+      if (!state) {
+        sendResponse({ status: 'ERROR', error: 'No active collection' })
+        return true
+      }
+
+      cancelCollection(tabId, state)
+
+      sendResponse({
+        status: 'OK',
+        message: 'Collection cancelled',
       })
       return true
     }
@@ -559,6 +1617,7 @@ export const handleMessage = (
   // Content Scriptからのメッセージ
   if (
     message.type === 'IMAGES_DETECTED' ||
+    message.type === 'IMAGES_ADDED' ||
     message.type === 'SCROLL_COMPLETE' ||
     message.type === 'SCROLL_TIMEOUT' ||
     message.type === 'DETECTION_ERROR'
@@ -570,6 +1629,9 @@ export const handleMessage = (
   if (
     message.type === 'START_COLLECTION' ||
     message.type === 'RETRY_FAILED' ||
+    message.type === 'STOP_LIVE_COLLECTION' ||
+    message.type === 'GET_COLLECTION_STATE' ||
+    message.type === 'CANCEL_COLLECTION' ||
     message.type === 'CHECK_DIFF' ||
     message.type === 'VERIFY_LICENSE' ||
     message.type === 'CLEANUP_DATA'
@@ -596,6 +1658,9 @@ export const handleMessage = (
  * await sendStateUpdate({ status: 'collecting', progress: 50 })
  */
 export const sendStateUpdate = async (state: RunState): Promise<void> => {
+  const collection = activeCollections.get(state.tabId)
+  if (collection) collection.lastState = state
+
   const message: BackgroundToPopupMessage = {
     type: 'STATE_UPDATE',
     state,
@@ -684,6 +1749,7 @@ export const sendZipReady = async (downloadId: number): Promise<void> => {
  *
  * @param tabId - 送信先のタブID
  * @param message - 送信するメッセージ（BackgroundToContentMessage型）
+ * @param frameId - 送信先のframeId（省略時はタブ内の全フレーム）
  * @throws メッセージ送信に失敗した場合
  *
  * @example
@@ -691,10 +1757,15 @@ export const sendZipReady = async (downloadId: number): Promise<void> => {
  */
 export const sendToContent = async (
   tabId: number,
-  message: BackgroundToContentMessage
+  message: BackgroundToContentMessage,
+  frameId?: number
 ): Promise<void> => {
   try {
-    await chrome.tabs.sendMessage(tabId, message)
+    if (frameId === undefined) {
+      await chrome.tabs.sendMessage(tabId, message)
+    } else {
+      await chrome.tabs.sendMessage(tabId, message, { frameId })
+    }
     console.log('Message sent to content script:', { tabId, type: message.type })
   } catch (error) {
     console.error('Failed to send message to content script:', error)
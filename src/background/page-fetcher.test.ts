@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { fetchInPage } from './page-fetcher'
+import { isFetchSuccess } from './parallel-controller'
+import type { ImageCandidate, PageFetchResponse } from '../shared/types'
+
+/**
+ * chrome.tabs.connectが返すポートのモック
+ */
+const createMockPort = () => {
+  const messageListeners: Array<(message: PageFetchResponse) => void> = []
+  const disconnectListeners: Array<() => void> = []
+
+  return {
+    port: {
+      postMessage: vi.fn(),
+      disconnect: vi.fn(),
+      onMessage: {
+        addListener: (listener: (message: PageFetchResponse) => void) =>
+          messageListeners.push(listener),
+      },
+      onDisconnect: { addListener: (listener: () => void) => disconnectListeners.push(listener) },
+    },
+    emit: (message: PageFetchResponse) => messageListeners.forEach((listener) => listener(message)),
+    disconnectFromPage: () => disconnectListeners.forEach((listener) => listener()),
+  }
+}
+
+const candidate: ImageCandidate = { url: 'https://members.example.com/photo.jpg', source: 'img' }
+
+describe('fetchInPage', () => {
+  let mock: ReturnType<typeof createMockPort>
+
+  beforeEach(() => {
+    mock = createMockPort()
+    global.chrome = {
+      tabs: { connect: vi.fn(() => mock.port) },
+      runtime: {},
+    } as unknown as typeof chrome
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('分割して受信したバイト列を連結し、ハッシュ化すること', async () => {
+    const promise = fetchInPage(7, candidate)
+
+    expect(chrome.tabs.connect).toHaveBeenCalledWith(7, { name: 'page-fetch', frameId: 0 })
+    expect(mock.port.postMessage).toHaveBeenCalledWith({ type: 'PAGE_FETCH', url: candidate.url })
+
+    mock.emit({ type: 'PAGE_FETCH_CHUNK', data: btoa('ima') })
+    mock.emit({ type: 'PAGE_FETCH_CHUNK', data: btoa('ge') })
+    mock.emit({ type: 'PAGE_FETCH_DONE', contentType: 'image/jpeg', via: 'fetch' })
+
+    const result = await promise
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode('image'))
+    const expectedHash = Array.from(new Uint8Array(digest))
+      .map((b) => b.toString(16).padStart(2, '0'))
+      .join('')
+
+    expect(isFetchSuccess(result)).toBe(true)
+    expect(result).toMatchObject({ candidate, hash: expectedHash, contentType: 'image/jpeg' })
+    expect(isFetchSuccess(result) && result.blob.size).toBe(5)
+    expect(mock.port.disconnect).toHaveBeenCalled()
+  })
+
+  it('ページ内で取得できなかった場合は失敗を返すこと', async () => {
+    const promise = fetchInPage(7, candidate)
+
+    mock.emit({ type: 'PAGE_FETCH_ERROR', message: 'HTTP 401' })
+
+    await expect(promise).resolves.toEqual({
+      candidate,
+      error: 'CORS',
+      message: 'Page fetch failed: HTTP 401',
+    })
+  })
+
+  it('Content Scriptがないタブ（応答前の切断）では失敗を返すこと', async () => {
+    const promise = fetchInPage(7, candidate)
+
+    mock.disconnectFromPage()
+
+    await expect(promise).resolves.toMatchObject({ candidate, error: 'CORS' })
+  })
+
+  it('中止された場合はシグナルのreasonで拒否し、ポートを切断すること', async () => {
+    const abortController = new AbortController()
+    const promise = fetchInPage(7, candidate, abortController.signal)
+
+    abortController.abort()
+
+    await expect(promise).rejects.toMatchObject({ name: 'AbortError' })
+    expect(mock.port.disconnect).toHaveBeenCalled()
+  })
+
+  it('応答がない場合はタイムアウトで失敗を返すこと', async () => {
+    vi.useFakeTimers()
+    try {
+      const promise = fetchInPage(7, candidate, undefined, 1000)
+
+      vi.advanceTimersByTime(1000)
+
+      await expect(promise).resolves.toMatchObject({
+        error: 'CORS',
+        message: 'Page fetch failed: timed out',
+      })
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+})
@@ -0,0 +1,130 @@
+/**
+ * ページ内での画像取得（Background側）
+ *
+ * Service Workerからの取得に失敗した画像を、収集元タブのContent Scriptに取得し直してもらいます。
+ * ページのCookie・Refererが付くため、ログインが必要なサイトやReferer・CORS制限のある画像も
+ * 取得できます。バイト列はポートで分割して受信し、ここでハッシュ化します。
+ *
+ * 対象はトップフレームのみです（iframe内のページのCookieは使用しません）。
+ */
+
+import {
+  PAGE_FETCH_PORT,
+  type ImageCandidate,
+  type PageFetchRequest,
+  type PageFetchResponse,
+} from '../shared/types'
+import { sha256 } from '../lib/hasher'
+import type { FetchResult } from './parallel-controller'
+
+/**
+ * ページ内取得の最大待機時間（ms）
+ */
+export const PAGE_FETCH_TIMEOUT_MS = 30000
+
+/**
+ * Base64文字列をバイト列に変換
+ */
+const fromBase64 = (data: string): Uint8Array => {
+  const binary = atob(data)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+/**
+ * 分割受信したバイト列を連結
+ */
+const concatChunks = (chunks: Uint8Array[]): Uint8Array<ArrayBuffer> => {
+  const bytes = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0))
+  let offset = 0
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset)
+    offset += chunk.length
+  }
+  return bytes
+}
+
+/**
+ * 収集元タブのページ内で画像を取得します
+ *
+ * Content Scriptが注入されていないタブ・閉じられたタブでは失敗を返します。
+ *
+ * @param tabId - 収集元タブID
+ * @param candidate - 取得する候補
+ * @param signal - 中止シグナル
+ * @param timeout - 最大待機時間（ms）
+ * @returns 取得結果（失敗時のエラー種別は'CORS'）
+ * @throws 中止された場合、シグナルのreason
+ */
+export const fetchInPage = (
+  tabId: number,
+  candidate: ImageCandidate,
+  signal?: AbortSignal,
+  timeout = PAGE_FETCH_TIMEOUT_MS
+): Promise<FetchResult> =>
+  new Promise((resolve, reject) => {
+    signal?.throwIfAborted()
+
+    const port = chrome.tabs.connect(tabId, { name: PAGE_FETCH_PORT, frameId: 0 })
+    const chunks: Uint8Array[] = []
+    let settled = false
+    let received = false // PAGE_FETCH_DONEを受信済み（ハッシュ化中の切断は無視）
+
+    const finish = (settle: () => void) => {
+      if (settled) return
+      settled = true
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', onAbort)
+      port.disconnect()
+      settle()
+    }
+
+    const fail = (message: string) =>
+      finish(() => resolve({ candidate, error: 'CORS', message: `Page fetch failed: ${message}` }))
+
+    const onAbort = () => finish(() => reject(signal?.reason))
+    signal?.addEventListener('abort', onAbort, { once: true })
+
+    const timer = setTimeout(() => fail('timed out'), timeout)
+
+    port.onMessage.addListener((message: PageFetchResponse) => {
+      if (message.type === 'PAGE_FETCH_CHUNK') {
+        chunks.push(fromBase64(message.data))
+      } else if (message.type === 'PAGE_FETCH_ERROR') {
+        fail(message.message)
+      } else {
+        received = true
+        const bytes = concatChunks(chunks)
+        if (bytes.length === 0) {
+          fail('empty response')
+          return
+        }
+
+        const { contentType, via } = message
+        sha256(bytes)
+          .then((hash) => {
+            finish(() =>
+              resolve({
+                candidate,
+                blob: new Blob([bytes], { type: contentType }),
+                hash,
+                contentType,
+              })
+            )
+            console.log(`[fetchInPage] Recovered via ${via}:`, candidate.url)
+          })
+          .catch((error: unknown) => fail(error instanceof Error ? error.message : String(error)))
+      }
+    })
+
+    // Content Scriptがない・タブが閉じられた場合は応答前に切断される
+    port.onDisconnect.addListener(() => {
+      if (!received) fail(chrome.runtime.lastError?.message ?? 'page disconnected')
+    })
+
+    const request: PageFetchRequest = { type: 'PAGE_FETCH', url: candidate.url }
+    port.postMessage(request)
+  })
@@ -306,6 +306,23 @@ describe('ParallelController', () => {
     })
   })
 
+  describe('Blob URLs', () => {
+    it('should fail blob: URLs without fetching or retrying', async () => {
+      global.fetch = vi.fn()
+
+      const result = await controller.fetchImage({
+        url: 'blob:https://example.com/3f1c2a9e',
+        source: 'img',
+      })
+
+      expect(global.fetch).not.toHaveBeenCalled()
+      expect(isFetchSuccess(result)).toBe(false)
+      if (!isFetchSuccess(result)) {
+        expect(result.error).toBe('CORS')
+      }
+    })
+  })
+
   describe('Reset Functionality', () => {
     it('should reset controller state', async () => {
       const candidates: ImageCandidate[] = [
@@ -365,4 +382,107 @@ describe('ParallelController', () => {
       }
     })
   })
+
+  describe('Cancellation', () => {
+    it('should abort active fetches and drop queued ones', async () => {
+      const candidates: ImageCandidate[] = Array.from({ length: 20 }, (_, i) => ({
+        url: `https://example${i % 10}.com/image${i}.jpg`,
+        source: 'img' as const,
+      }))
+
+      // Never resolves until aborted
+      global.fetch = vi.fn(
+        (_url: RequestInfo | URL, init?: RequestInit) =>
+          new Promise<Response>((_resolve, reject) => {
+            init?.signal?.addEventListener('abort', () =>
+              reject(new DOMException('Aborted', 'AbortError'))
+            )
+          })
+      )
+
+      const abortController = new AbortController()
+      const promise = controller.fetchAll(candidates, abortController.signal)
+      await new Promise((resolve) => setTimeout(resolve, 10))
+      expect(controller.getStats().globalActive).toBe(8)
+
+      abortController.abort()
+
+      await expect(promise).rejects.toMatchObject({ name: 'AbortError' })
+      await new Promise((resolve) => setTimeout(resolve, 0))
+      expect(global.fetch).toHaveBeenCalledTimes(8)
+      expect(controller.getStats().globalActive).toBe(0)
+    })
+
+    it('should stop waiting for retry backoff when aborted', async () => {
+      global.fetch = vi.fn(async () => {
+        throw new TypeError('Failed to fetch')
+      })
+
+      const abortController = new AbortController()
+      const promise = controller.fetchImage(
+        { url: 'https://example.com/flaky.jpg', source: 'img' },
+        abortController.signal
+      )
+      await new Promise((resolve) => setTimeout(resolve, 10))
+      abortController.abort()
+
+      await expect(promise).rejects.toMatchObject({ name: 'AbortError' })
+      expect(global.fetch).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('Page Context Fallback', () => {
+    const candidate: ImageCandidate = { url: 'https://intranet.example.com/a.jpg', source: 'img' }
+
+    it('should re-fetch failed images through pageFetch', async () => {
+      global.fetch = vi.fn(async () => new Response(null, { status: 403 }))
+      const recovered = {
+        candidate,
+        blob: new Blob(['image']),
+        hash: 'page-hash',
+        contentType: 'image/jpeg',
+      }
+      const pageFetch = vi.fn(async () => recovered)
+      const abortController = new AbortController()
+
+      const result = await new ParallelController({ pageFetch }).fetchImage(
+        candidate,
+        abortController.signal
+      )
+
+      expect(result).toBe(recovered)
+      expect(pageFetch).toHaveBeenCalledWith(candidate, abortController.signal)
+    })
+
+    it('should report the background failure when the page fetch also fails', async () => {
+      global.fetch = vi.fn(async () => new Response(null, { status: 403 }))
+      const pageFetch = vi.fn(async () => ({
+        candidate,
+        error: 'CORS' as const,
+        message: 'Page fetch failed: HTTP 403',
+      }))
+
+      const result = await new ParallelController({ pageFetch }).fetchImage(candidate)
+
+      expect(result).toMatchObject({ error: 'HTTP_ERROR', message: 'HTTP 403' })
+    })
+
+    it('should not use pageFetch for successful fetches or data URLs', async () => {
+      global.fetch = vi.fn(
+        async () =>
+          new Response('image', { status: 200, headers: { 'Content-Type': 'image/jpeg' } })
+      )
+      const pageFetch = vi.fn()
+      const pageController = new ParallelController({ pageFetch })
+
+      await pageController.fetchImage(candidate)
+      const invalidDataUrl = await pageController.fetchImage({
+        url: 'data:text/plain;base64,aGVsbG8=',
+        source: 'img',
+      })
+
+      expect(isFetchSuccess(invalidDataUrl)).toBe(false)
+      expect(pageFetch).not.toHaveBeenCalled()
+    })
+  })
 })
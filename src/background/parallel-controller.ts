@@ -8,6 +8,14 @@
  * Retry logic:
  * - Max 3 retries
  * - Exponential backoff: 1s, 2s, 4s
+ *
+ * Cancellation:
+ * - An optional AbortSignal stops queued fetches, active fetches and retry backoff.
+ *   fetchAll then rejects with the signal's reason instead of reporting failures.
+ *
+ * Page context fallback:
+ * - An optional pageFetch re-fetches CORS/HTTP/network failures inside the source page
+ *   (with its cookies and referrer), holding the same slot as the background fetch.
  */
 
 import type { ImageCandidate } from '@/shared/types'
@@ -30,11 +38,41 @@ export type FetchErrorType = 'TIMEOUT' | 'CORS' | 'HTTP_ERROR' | 'NETWORK' | 'UN
 
 export type FetchResult = FetchSuccess | FetchFailure
 
+/**
+ * Fetch a candidate from another context (e.g. the source page)
+ *
+ * Failures are reported as FetchFailure; rejects only with the signal's reason.
+ */
+export type PageFetcher = (candidate: ImageCandidate, signal?: AbortSignal) => Promise<FetchResult>
+
+export interface ParallelControllerOptions {
+  pageFetch?: PageFetcher // Fallback for failures the page's credentials may fix
+}
+
+// Background failures worth retrying in the page (auth, referrer checks, CORS)
+const PAGE_FETCH_ERRORS: ReadonlySet<FetchErrorType> = new Set(['CORS', 'HTTP_ERROR', 'NETWORK'])
+
 // Type guard
 export const isFetchSuccess = (result: FetchResult): result is FetchSuccess => {
   return 'blob' in result
 }
 
+/**
+ * Wait for the given time, rejecting early with the signal's reason on abort
+ */
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+
 // Parallel controller class
 export class ParallelController {
   private globalActiveCount = 0
@@ -52,6 +90,12 @@ export class ParallelController {
   private readonly DOMAIN_LIMIT = 2
   private readonly FETCH_TIMEOUT = 30000 // 30s
 
+  private readonly options: ParallelControllerOptions
+
+  constructor(options: ParallelControllerOptions = {}) {
+    this.options = options
+  }
+
   /**
    * Extract domain from URL (MVP: hostname as-is)
    * Phase 2: CDN mapping support
@@ -82,9 +126,14 @@ export class ParallelController {
    *
    * After await (line 107), another task might have taken the slot, hence the
    * while loop retries. This is not a race condition but intentional retry logic.
+   *
+   * On abort, waiters leave their queues without taking a slot, so queued
+   * fetches don't depend on active ones releasing theirs.
    */
-  private async waitAndAcquireSlot(domain: string): Promise<void> {
+  private async waitAndAcquireSlot(domain: string, signal?: AbortSignal): Promise<void> {
     while (true) {
+      signal?.throwIfAborted()
+
       // Try immediate acquisition (atomic: no await between check and acquire)
       if (
         this.globalActiveCount < this.GLOBAL_LIMIT &&
@@ -98,17 +147,13 @@ export class ParallelController {
       const promises: Promise<void>[] = []
 
       if (this.globalActiveCount >= this.GLOBAL_LIMIT) {
-        promises.push(new Promise<void>((resolve) => this.globalQueue.push(resolve)))
+        promises.push(this.enqueue(this.globalQueue, signal))
       }
 
       if ((this.domainCounts.get(domain) ?? 0) >= this.DOMAIN_LIMIT) {
-        promises.push(
-          new Promise<void>((resolve) => {
-            const queue = this.domainQueues.get(domain) ?? []
-            queue.push(resolve)
-            this.domainQueues.set(domain, queue)
-          })
-        )
+        const queue = this.domainQueues.get(domain) ?? []
+        this.domainQueues.set(domain, queue)
+        promises.push(this.enqueue(queue, signal))
       }
 
       // Wait for constraints to be satisfied
@@ -117,6 +162,25 @@ export class ParallelController {
     }
   }
 
+  /**
+   * Add a waiter to a queue; on abort it is removed and rejects with the signal's reason
+   */
+  private enqueue(queue: Array<() => void>, signal?: AbortSignal): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        const index = queue.indexOf(wake)
+        if (index !== -1) queue.splice(index, 1)
+        reject(signal?.reason)
+      }
+      const wake = () => {
+        signal?.removeEventListener('abort', onAbort)
+        resolve()
+      }
+      queue.push(wake)
+      signal?.addEventListener('abort', onAbort, { once: true })
+    })
+  }
+
   /**
    * Acquire slot (increment counters) - private, only called by waitAndAcquireSlot
    */
@@ -158,8 +222,13 @@ export class ParallelController {
 
   /**
    * Fetch single image with timeout
+   *
+   * Throws the signal's reason when cancelled (a timeout is reported as TIMEOUT).
    */
-  private async fetchImageOnce(candidate: ImageCandidate): Promise<FetchResult> {
+  private async fetchImageOnce(
+    candidate: ImageCandidate,
+    signal?: AbortSignal
+  ): Promise<FetchResult> {
     const { url } = candidate
 
     // Handle data URLs
@@ -167,9 +236,21 @@ export class ParallelController {
       return this.fetchDataUrl(candidate)
     }
 
-    // Fetch with timeout
+    // blob: URLs only resolve inside the document that created them (origin-bound,
+    // so treated as CORS and not retried); the content script converts them to data URLs
+    if (url.startsWith('blob:')) {
+      return {
+        candidate,
+        error: 'CORS',
+        message: 'blob: URL is not accessible from the background',
+      }
+    }
+
+    // Fetch with timeout (also aborted when the caller cancels)
     const controller = new AbortController()
     const timeoutId = setTimeout(() => controller.abort(), this.FETCH_TIMEOUT)
+    const abortFetch = () => controller.abort()
+    signal?.addEventListener('abort', abortFetch)
 
     try {
       const response = await fetch(url, {
@@ -204,6 +285,9 @@ export class ParallelController {
     } catch (err) {
       clearTimeout(timeoutId)
 
+      // Cancelled by the caller, not a timeout
+      signal?.throwIfAborted()
+
       if (err instanceof Error) {
         // AbortError indicates timeout
         if (err.name === 'AbortError') {
@@ -225,6 +309,8 @@ export class ParallelController {
         error: 'UNKNOWN',
         message: err instanceof Error ? err.message : String(err),
       }
+    } finally {
+      signal?.removeEventListener('abort', abortFetch)
     }
   }
 
@@ -234,7 +320,8 @@ export class ParallelController {
   private async fetchDataUrl(candidate: ImageCandidate): Promise<FetchResult> {
     try {
       // Validate data URL format first
-      if (!candidate.url.match(/^data:image\/[a-z]+;base64,/i)) {
+      // Allow compound subtypes such as image/svg+xml
+      if (!candidate.url.match(/^data:image\/[a-z0-9.+-]+;base64,/i)) {
         return {
           candidate,
           error: 'HTTP_ERROR',
@@ -302,11 +389,15 @@ export class ParallelController {
   /**
    * Fetch with retry logic (exponential backoff)
    */
-  private async fetchWithRetry(candidate: ImageCandidate, maxRetries = 3): Promise<FetchResult> {
+  private async fetchWithRetry(
+    candidate: ImageCandidate,
+    signal?: AbortSignal,
+    maxRetries = 3
+  ): Promise<FetchResult> {
     let lastResult: FetchResult | null = null
 
     for (let attempt = 0; attempt < maxRetries; attempt++) {
-      const result = await this.fetchImageOnce(candidate)
+      const result = await this.fetchImageOnce(candidate, signal)
 
       if (isFetchSuccess(result)) {
         return result
@@ -322,7 +413,7 @@ export class ParallelController {
       // Exponential backoff: 1s, 2s, 4s
       if (attempt < maxRetries - 1) {
         const delay = Math.pow(2, attempt) * 1000
-        await new Promise((resolve) => setTimeout(resolve, delay))
+        await sleep(delay, signal)
       }
     }
 
@@ -330,17 +421,37 @@ export class ParallelController {
     return lastResult as FetchResult
   }
 
+  /**
+   * Re-fetch a failed candidate through options.pageFetch
+   *
+   * data: URLs are skipped (their failures are malformed input). If the page fetch
+   * also fails, the background failure is reported.
+   */
+  private async fetchFromPage(failure: FetchFailure, signal?: AbortSignal): Promise<FetchResult> {
+    const { pageFetch } = this.options
+    const { candidate } = failure
+    if (!pageFetch || !PAGE_FETCH_ERRORS.has(failure.error) || candidate.url.startsWith('data:')) {
+      return failure
+    }
+
+    const result = await pageFetch(candidate, signal)
+    return isFetchSuccess(result) ? result : failure
+  }
+
   /**
    * Fetch image with concurrency control and retry
+   *
+   * @throws The signal's reason when cancelled
    */
-  async fetchImage(candidate: ImageCandidate): Promise<FetchResult> {
+  async fetchImage(candidate: ImageCandidate, signal?: AbortSignal): Promise<FetchResult> {
     const domain = this.extractDomain(candidate.url)
 
     // Wait for and acquire slot atomically
-    await this.waitAndAcquireSlot(domain)
+    await this.waitAndAcquireSlot(domain, signal)
 
     try {
-      return await this.fetchWithRetry(candidate)
+      const result = await this.fetchWithRetry(candidate, signal)
+      return isFetchSuccess(result) ? result : await this.fetchFromPage(result, signal)
     } finally {
       // Release slot
       this.releaseSlot(domain)
@@ -350,9 +461,11 @@ export class ParallelController {
   /**
    * Fetch multiple images in parallel with concurrency control
    * The concurrency is handled by fetchImage's waitForSlot mechanism
+   *
+   * @throws The signal's reason when cancelled
    */
-  async fetchAll(candidates: ImageCandidate[]): Promise<FetchResult[]> {
-    return Promise.all(candidates.map((candidate) => this.fetchImage(candidate)))
+  async fetchAll(candidates: ImageCandidate[], signal?: AbortSignal): Promise<FetchResult[]> {
+    return Promise.all(candidates.map((candidate) => this.fetchImage(candidate, signal)))
   }
 
   /**
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { openBackgroundTab, waitForContentScript } from './tab-navigator'
+
+let onUpdated: ((id: number, info: chrome.tabs.TabChangeInfo) => void) | undefined
+
+const mockChrome = {
+  tabs: {
+    create: vi.fn(async () => {
+      setTimeout(() => onUpdated?.(5, { status: 'complete' }), 0)
+      return { id: 5 }
+    }),
+    remove: vi.fn(),
+    sendMessage: vi.fn(),
+    onUpdated: {
+      addListener: vi.fn((listener: typeof onUpdated) => {
+        onUpdated = listener
+      }),
+      removeListener: vi.fn(),
+    },
+  },
+}
+
+global.chrome = mockChrome as unknown as typeof chrome
+
+const notInjected = new Error('Could not establish connection. Receiving end does not exist.')
+
+describe('tab-navigator', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    onUpdated = undefined
+    mockChrome.tabs.remove.mockResolvedValue(undefined)
+    mockChrome.tabs.sendMessage.mockResolvedValue({ status: 'READY' })
+  })
+
+  describe('waitForContentScript', () => {
+    it('Content Scriptが応答するまで確認し直す', async () => {
+      mockChrome.tabs.sendMessage
+        .mockRejectedValueOnce(notInjected)
+        .mockRejectedValueOnce(notInjected)
+
+      await waitForContentScript(5, [0, 0, 0])
+
+      expect(mockChrome.tabs.sendMessage).toHaveBeenCalledTimes(3)
+      expect(mockChrome.tabs.sendMessage).toHaveBeenCalledWith(5, { type: 'PING' }, { frameId: 0 })
+    })
+
+    it('再確認の回数を超えても応答がなければエラーにする', async () => {
+      mockChrome.tabs.sendMessage.mockRejectedValue(notInjected)
+
+      await expect(waitForContentScript(5, [0, 0])).rejects.toThrow(
+        'Content script not ready: Could not establish connection'
+      )
+      expect(mockChrome.tabs.sendMessage).toHaveBeenCalledTimes(3)
+    })
+  })
+
+  describe('openBackgroundTab', () => {
+    it('読込完了後にContent Scriptの応答を待ってからタブIDを返す', async () => {
+      mockChrome.tabs.sendMessage.mockRejectedValueOnce(notInjected)
+
+      await expect(openBackgroundTab('https://example.com/list?page=2', 1)).resolves.toBe(5)
+
+      expect(mockChrome.tabs.sendMessage).toHaveBeenCalledTimes(2)
+      expect(mockChrome.tabs.remove).not.toHaveBeenCalled()
+    })
+  })
+})
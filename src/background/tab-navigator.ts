@@ -0,0 +1,144 @@
+/**
+ * ページ送り収集用のタブ操作
+ *
+ * 次ページを同じタブ、またはバックグラウンドタブで開き、読込完了まで待機します。
+ * 読込完了（status: 'complete'）の時点ではdocument_idleのContent Scriptがまだ注入されて
+ * いない場合があるため、トップフレームのContent Scriptが応答するまで待ってから返します。
+ */
+
+import type { BackgroundToContentMessage } from '../shared/types'
+
+/**
+ * ページの読込完了を待つ最大時間（ms）
+ */
+export const PAGE_LOAD_TIMEOUT_MS = 30000
+
+/**
+ * Content Scriptの応答を確認し直すまでの間隔（ms、回数分）
+ */
+export const CONTENT_SCRIPT_RETRY_DELAYS_MS = [100, 250, 500, 1000, 2000]
+
+/**
+ * タブを開く（または遷移させる）操作を行い、そのタブの読込完了を待機
+ *
+ * 作成直後のタブIDは操作の完了まで分からないため、先にリスナーを登録し、
+ * ID確定前に届いた完了通知も記録しておきます。
+ *
+ * @param open - タブを開く操作（chrome.tabs.create / update）
+ * @param timeout - 最大待機時間（ms）
+ * @returns 読込が完了したタブのID
+ */
+const loadPage = (open: () => Promise<chrome.tabs.Tab>, timeout: number): Promise<number> =>
+  new Promise((resolve, reject) => {
+    let targetTabId: number | undefined
+    const completedTabIds = new Set<number>()
+
+    const finish = (error?: unknown) => {
+      chrome.tabs.onUpdated.removeListener(handleUpdated)
+      clearTimeout(timer)
+      if (error !== undefined || targetTabId === undefined) {
+        reject(error instanceof Error ? error : new Error(String(error ?? 'Tab not available')))
+      } else {
+        resolve(targetTabId)
+      }
+    }
+
+    const handleUpdated = (tabId: number, changeInfo: chrome.tabs.TabChangeInfo) => {
+      if (changeInfo.status !== 'complete') return
+      if (targetTabId === undefined) {
+        completedTabIds.add(tabId)
+      } else if (tabId === targetTabId) {
+        finish()
+      }
+    }
+
+    chrome.tabs.onUpdated.addListener(handleUpdated)
+    const timer = setTimeout(() => finish(new Error('Timed out loading page')), timeout)
+
+    open()
+      .then((tab) => {
+        targetTabId = tab.id
+        if (targetTabId === undefined) {
+          finish(new Error('Tab not available'))
+        } else if (completedTabIds.has(targetTabId)) {
+          finish()
+        }
+      })
+      .catch(finish)
+  })
+
+/**
+ * トップフレームのContent Scriptが応答するまで待機します
+ *
+ * 応答がなければ間隔を広げながら確認し直します。
+ *
+ * @param tabId - 対象タブID
+ * @param retryDelays - 確認し直すまでの間隔（ms、回数分）
+ * @throws 全ての再確認で応答がなかった場合
+ */
+export const waitForContentScript = async (
+  tabId: number,
+  retryDelays: number[] = CONTENT_SCRIPT_RETRY_DELAYS_MS
+): Promise<void> => {
+  const ping: BackgroundToContentMessage = { type: 'PING' }
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await chrome.tabs.sendMessage(tabId, ping, { frameId: 0 })
+      return
+    } catch (error) {
+      const delay = retryDelays[attempt]
+      if (delay === undefined) {
+        const reason = error instanceof Error ? error.message : String(error)
+        throw new Error(`Content script not ready: ${reason}`)
+      }
+      await new Promise((resolve) => setTimeout(resolve, delay))
+    }
+  }
+}
+
+/**
+ * 既存のタブを指定URLへ遷移させ、読込完了とContent Scriptの応答を待機します
+ *
+ * @param tabId - 遷移させるタブID
+ * @param url - 遷移先URL
+ * @param timeout - 最大待機時間（ms）
+ * @throws 遷移に失敗した場合、タイムアウトした場合、またはContent Scriptが応答しない場合
+ */
+export const navigateTab = async (
+  tabId: number,
+  url: string,
+  timeout = PAGE_LOAD_TIMEOUT_MS
+): Promise<void> => {
+  await loadPage(() => chrome.tabs.update(tabId, { url }) as Promise<chrome.tabs.Tab>, timeout)
+  await waitForContentScript(tabId)
+}
+
+/**
+ * 指定URLを非アクティブなタブで開き、読込完了とContent Scriptの応答を待機します
+ *
+ * Content Scriptが応答しない場合は、作成したタブを閉じます。
+ *
+ * @param url - 開くURL
+ * @param openerTabId - 収集を開始したタブID（タブの並び順に使用）
+ * @param timeout - 最大待機時間（ms）
+ * @returns 作成したタブID
+ * @throws タブの作成に失敗した場合、タイムアウトした場合、またはContent Scriptが応答しない場合
+ */
+export const openBackgroundTab = async (
+  url: string,
+  openerTabId: number,
+  timeout = PAGE_LOAD_TIMEOUT_MS
+): Promise<number> => {
+  const tabId = await loadPage(
+    () => chrome.tabs.create({ url, active: false, openerTabId }),
+    timeout
+  )
+  try {
+    await waitForContentScript(tabId)
+  } catch (error) {
+    await chrome.tabs.remove(tabId).catch(() => undefined)
+    throw error
+  }
+  return tabId
+}
@@ -6,12 +6,15 @@
  * - Filename template application
  * - Filename deduplication
  * - Size limit enforcement (1GB)
+ * - manifest.json with provenance
+ * - Multi-page ZIP with a folder per page
  * - Error handling
  * - Download functionality
  */
 
-import { describe, it, expect } from 'vitest'
-import { createZip, ZipError, ZIP_SIZE_LIMIT } from './zipper'
+import { describe, it, expect, vi } from 'vitest'
+import JSZip from 'jszip'
+import { createZip, createPagedZip, ZipError, ZIP_SIZE_LIMIT, MANIFEST_FILENAME } from './zipper'
 import type { CollectedImage } from './collector'
 import type { ImageSnapshot } from '@/shared/types'
 
@@ -107,6 +110,82 @@ describe('createZip', () => {
     expect(result.size).toBeGreaterThan(0)
   })
 
+  it('should add manifest.json with provenance when requested', async () => {
+    const fileSpy = vi.spyOn(JSZip.prototype, 'file')
+    const image = createMockImage({
+      snapshot: {
+        url: 'https://example.com/image.jpg',
+        hash: 'abc123',
+        width: 800,
+        height: 600,
+        alt: 'Test Image',
+        provenance: {
+          selector: '#gallery > img',
+          heading: 'Gallery',
+          documentIndex: 0,
+          sources: ['img', 'srcset'],
+        },
+        firstSeenAt: Date.now(),
+      },
+    })
+
+    const result = await createZip([image], {
+      template: '{heading}-{order}',
+      pageUrl: 'https://example.com/page',
+      manifest: true,
+    })
+
+    const manifestCall = fileSpy.mock.calls.find(([name]) => name === MANIFEST_FILENAME)
+    const manifest = JSON.parse(String(manifestCall?.[1])) as {
+      images: Array<{ filename: string; provenance?: unknown }>
+    }
+    expect(manifest.images).toEqual([
+      expect.objectContaining({
+        filename: 'Gallery-001.jpg',
+        url: 'https://example.com/image.jpg',
+        hash: 'abc123',
+        provenance: expect.objectContaining({ selector: '#gallery > img' }),
+      }),
+    ])
+    // manifestはfileCountに含めない
+    expect(result.fileCount).toBe(1)
+
+    fileSpy.mockRestore()
+  })
+
+  it('should record data: URLs in manifest.json without their payload', async () => {
+    const fileSpy = vi.spyOn(JSZip.prototype, 'file')
+    const dataUrl = `data:image/svg+xml;base64,${'A'.repeat(1000)}`
+    const image = createMockImage({
+      snapshot: { url: dataUrl, hash: 'svg1', width: 24, height: 24, firstSeenAt: Date.now() },
+    })
+
+    await createZip([image], {
+      template: '{index}',
+      pageUrl: 'https://example.com/page',
+      manifest: true,
+    })
+
+    const manifestCall = fileSpy.mock.calls.find(([name]) => name === MANIFEST_FILENAME)
+    const manifest = JSON.parse(String(manifestCall?.[1])) as { images: Array<{ url: string }> }
+    expect(manifest.images[0]?.url).toBe('data:image/svg+xml;base64,…')
+
+    fileSpy.mockRestore()
+  })
+
+  it('should not add manifest.json unless requested', async () => {
+    const fileSpy = vi.spyOn(JSZip.prototype, 'file')
+
+    await createZip([createMockImage()], {
+      template: '{index}',
+      pageUrl: 'https://example.com/page',
+    })
+
+    expect(fileSpy.mock.calls.some(([name]) => name === MANIFEST_FILENAME)).toBe(false)
+
+    fileSpy.mockRestore()
+  })
+
   it('should deconflict duplicate filenames', async () => {
     // Create 3 images with identical metadata (would generate same filename)
     const images = [createMockImage(), createMockImage(), createMockImage()]
@@ -140,6 +219,19 @@ describe('createZip', () => {
     }
   })
 
+  it('should stop compressing when aborted during generation', async () => {
+    const abortController = new AbortController()
+
+    const promise = createZip([createMockImage()], {
+      template: '{domain}-{index}',
+      pageUrl: 'https://example.com/page',
+      signal: abortController.signal,
+    })
+    abortController.abort()
+
+    await expect(promise).rejects.toMatchObject({ code: 'ZIP_CANCELLED' })
+  })
+
   it('should throw error when size exceeds 1GB limit', async () => {
     // Create a large blob that exceeds 1GB
     const largeBlob = new Blob([new ArrayBuffer(ZIP_SIZE_LIMIT + 1)])
@@ -286,6 +378,70 @@ describe('createZip', () => {
   })
 })
 
+describe('createPagedZip', () => {
+  it('should store each page in its own folder with per-page filenames', async () => {
+    const fileSpy = vi.spyOn(JSZip.prototype, 'file')
+    const pages = [
+      { pageUrl: 'https://example.com/list?page=1', images: [createMockImage()] },
+      { pageUrl: 'https://example.com/list?page=2', images: [] },
+      {
+        pageUrl: 'https://shop.example.net/list?page=3',
+        images: [createMockImage({ hash: 'def456' }), createMockImage({ hash: 'ghi789' })],
+      },
+    ]
+
+    const result = await createPagedZip(pages, {
+      template: '{domain}-{index}',
+      pageUrl: 'https://example.com/list?page=1',
+      manifest: true,
+    })
+
+    const filenames = fileSpy.mock.calls.map(([name]) => name)
+    expect(filenames).toEqual([
+      'page-001/example.com-001.jpg',
+      'page-003/shop.example.net-001.jpg',
+      'page-003/shop.example.net-002.jpg',
+      MANIFEST_FILENAME,
+    ])
+    expect(result.fileCount).toBe(3)
+
+    const manifestCall = fileSpy.mock.calls.find(([name]) => name === MANIFEST_FILENAME)
+    const manifest = JSON.parse(String(manifestCall?.[1])) as {
+      images: Array<{ filename: string; pageUrl?: string }>
+    }
+    expect(manifest.images[1]).toEqual(
+      expect.objectContaining({
+        filename: 'page-003/shop.example.net-001.jpg',
+        pageUrl: 'https://shop.example.net/list?page=3',
+      })
+    )
+
+    fileSpy.mockRestore()
+  })
+
+  it('should throw error when no page has images', async () => {
+    await expect(
+      createPagedZip([{ pageUrl: 'https://example.com/', images: [] }], {
+        template: '{index}',
+        pageUrl: 'https://example.com/',
+      })
+    ).rejects.toMatchObject({ code: 'EMPTY_IMAGES' })
+  })
+
+  it('should throw ZIP_CANCELLED when the signal is aborted', async () => {
+    const abortController = new AbortController()
+    abortController.abort()
+
+    await expect(
+      createPagedZip([{ pageUrl: 'https://example.com/', images: [createMockImage()] }], {
+        template: '{index}',
+        pageUrl: 'https://example.com/',
+        signal: abortController.signal,
+      })
+    ).rejects.toMatchObject({ code: 'ZIP_CANCELLED' })
+  })
+})
+
 describe('ZipError', () => {
   it('should create ZipError with code', () => {
     const error = new ZipError('Test error', 'TEST_CODE')
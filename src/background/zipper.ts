@@ -5,12 +5,16 @@
  * - Create ZIP files from collected images with JSZip
  * - Apply filename templates and deduplication
  * - Size limit enforcement (1GB)
+ * - Optional manifest.json with per-image provenance
+ * - Multi-page runs with one folder per page
+ * - Cancellation via AbortSignal (stops adding files and compressing)
  *
  * @module background/zipper
  */
 
 import JSZip from 'jszip'
 import type { CollectedImage } from './collector'
+import type { ImageProvenance } from '@/shared/types'
 import { makeFilename, deconflict } from '@/lib/filename'
 
 /**
@@ -55,6 +59,76 @@ export interface CreateZipOptions {
    * @default "images"
    */
   zipFilename?: string
+
+  /**
+   * Include manifest.json describing each file (URL, hash, size, provenance)
+   * @default false
+   */
+  manifest?: boolean
+
+  /**
+   * Cancels generation; the ZIP is rejected with ZipError ZIP_CANCELLED
+   */
+  signal?: AbortSignal
+}
+
+/**
+ * Manifest filename written at the ZIP root
+ */
+export const MANIFEST_FILENAME = 'manifest.json'
+
+/**
+ * Manifest entry for a single image in the ZIP
+ */
+export interface ManifestEntry {
+  filename: string
+  pageUrl?: string
+  url: string
+  hash: string
+  width: number
+  height: number
+  alt?: string
+  provenance?: ImageProvenance
+}
+
+/**
+ * URL recorded in manifest.json
+ *
+ * data: URLs (inline SVG, canvas, video frames) are cut down to their header: the image
+ * itself is already in the ZIP, and the payload can run to megabytes.
+ *
+ * @example toManifestUrl('data:image/png;base64,iVBORw0...') // => 'data:image/png;base64,…'
+ */
+export const toManifestUrl = (url: string): string => {
+  if (!url.startsWith('data:')) return url
+
+  const comma = url.indexOf(',')
+  return `${comma === -1 ? 'data:' : url.slice(0, comma + 1)}…`
+}
+
+/**
+ * Images collected from one page of a multi-page run
+ */
+export interface ZipPage {
+  pageUrl: string
+  images: CollectedImage[]
+}
+
+/**
+ * Folder name for the page at the given position (1-based, zero-padded)
+ *
+ * @example pageFolderName(1) // => "page-001"
+ */
+export const pageFolderName = (pageNumber: number): string =>
+  `page-${String(pageNumber).padStart(3, '0')}`
+
+/**
+ * Images to add under a single folder ('' for the ZIP root)
+ */
+interface ZipGroup {
+  folder: string
+  pageUrl: string
+  images: CollectedImage[]
 }
 
 /**
@@ -82,6 +156,126 @@ export interface CreateZipResult {
   size: number
 }
 
+/**
+ * Throw ZIP_CANCELLED if the signal has been aborted
+ */
+const throwIfCancelled = (signal?: AbortSignal): void => {
+  if (signal?.aborted) {
+    throw new ZipError('ZIP generation cancelled', 'ZIP_CANCELLED', signal.reason)
+  }
+}
+
+/**
+ * Compress the ZIP, pausing the JSZip worker when the signal is aborted
+ */
+const generateBlob = (zip: JSZip, signal?: AbortSignal): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const stream = zip.generateInternalStream({
+      type: 'blob',
+      compression: 'DEFLATE',
+      compressionOptions: {
+        level: 6,
+      },
+    })
+
+    const onAbort = () => {
+      stream.pause()
+      reject(new ZipError('ZIP generation cancelled', 'ZIP_CANCELLED', signal?.reason))
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+
+    stream
+      .accumulate()
+      .then(resolve, reject)
+      .finally(() => signal?.removeEventListener('abort', onAbort))
+  })
+
+/**
+ * Add image groups to a new ZIP and generate the blob
+ *
+ * Filenames are deconflicted per folder, and the size limit applies to the whole ZIP.
+ */
+const buildZip = async (
+  groups: ZipGroup[],
+  options: CreateZipOptions
+): Promise<{ blob: Blob; fileCount: number }> => {
+  const zip = new JSZip()
+  const manifestEntries: ManifestEntry[] = []
+  let cumulativeSize = 0
+  let fileCount = 0
+
+  for (const group of groups) {
+    const existingFilenames = new Set<string>()
+    const prefix = group.folder ? `${group.folder}/` : ''
+
+    // Add each image to ZIP
+    for (let i = 0; i < group.images.length; i++) {
+      throwIfCancelled(options.signal)
+
+      const image = group.images[i]
+      if (!image) continue
+
+      // Generate filename from template
+      let filename = makeFilename(options.template, image.snapshot, i + 1, group.pageUrl)
+
+      // Deconflict filename
+      filename = deconflict(filename, existingFilenames)
+      existingFilenames.add(filename)
+
+      // Check cumulative size BEFORE adding to ZIP
+      const nextSize = cumulativeSize + image.blob.size
+      if (nextSize > ZIP_SIZE_LIMIT) {
+        throw new ZipError(
+          `ZIP size would exceed limit of ${ZIP_SIZE_LIMIT} bytes (1GB)`,
+          'ZIP_SIZE_LIMIT_EXCEEDED'
+        )
+      }
+
+      // Add file to ZIP
+      zip.file(prefix + filename, image.blob)
+      cumulativeSize = nextSize
+      fileCount++
+
+      manifestEntries.push({
+        filename: prefix + filename,
+        pageUrl: group.folder ? group.pageUrl : undefined,
+        url: toManifestUrl(image.snapshot.url),
+        hash: image.hash,
+        width: image.snapshot.width,
+        height: image.snapshot.height,
+        alt: image.snapshot.alt,
+        provenance: image.snapshot.provenance,
+      })
+    }
+  }
+
+  if (fileCount === 0) {
+    throw new ZipError('No images to create ZIP', 'EMPTY_IMAGES')
+  }
+
+  if (options.manifest) {
+    const manifest = {
+      pageUrl: options.pageUrl,
+      images: manifestEntries,
+    }
+    zip.file(MANIFEST_FILENAME, JSON.stringify(manifest, null, 2))
+  }
+
+  // Generate ZIP blob
+  throwIfCancelled(options.signal)
+  try {
+    const blob = await generateBlob(zip, options.signal)
+    return { blob, fileCount }
+  } catch (error) {
+    if (error instanceof ZipError) throw error
+    throw new ZipError(
+      `Failed to generate ZIP: ${error instanceof Error ? error.message : String(error)}`,
+      'ZIP_GENERATION_FAILED',
+      error
+    )
+  }
+}
+
 /**
  * Create ZIP file from collected images
  *
@@ -92,8 +286,9 @@ export interface CreateZipResult {
  *    - Check for name collisions and deconflict
  *    - Check cumulative size (throw if > 1GB)
  *    - Add to ZIP
- * 3. Generate ZIP blob with DEFLATE compression (level 6)
- * 4. Return result
+ * 3. Add manifest.json when requested
+ * 4. Generate ZIP blob with DEFLATE compression (level 6)
+ * 5. Return result
  *
  * @param images - Collected images with blobs and metadata
  * @param options - ZIP generation options
@@ -101,6 +296,7 @@ export interface CreateZipResult {
  * @throws {ZipError} EMPTY_IMAGES - When images array is empty
  * @throws {ZipError} ZIP_SIZE_LIMIT_EXCEEDED - When size exceeds 1GB
  * @throws {ZipError} ZIP_GENERATION_FAILED - When ZIP generation fails
+ * @throws {ZipError} ZIP_CANCELLED - When options.signal is aborted
  */
 export const createZip = async (
   images: CollectedImage[],
@@ -110,60 +306,52 @@ export const createZip = async (
     throw new ZipError('No images to create ZIP', 'EMPTY_IMAGES')
   }
 
-  const zip = new JSZip()
-  const existingFilenames = new Set<string>()
-  let cumulativeSize = 0
+  const { blob, fileCount } = await buildZip(
+    [{ folder: '', pageUrl: options.pageUrl, images }],
+    options
+  )
 
-  // Add each image to ZIP
-  for (let i = 0; i < images.length; i++) {
-    const image = images[i]
-    if (!image) continue
-
-    // Generate filename from template
-    let filename = makeFilename(options.template, image.snapshot, i + 1, options.pageUrl)
-
-    // Deconflict filename
-    filename = deconflict(filename, existingFilenames)
-    existingFilenames.add(filename)
-
-    // Check cumulative size BEFORE adding to ZIP
-    const nextSize = cumulativeSize + image.blob.size
-    if (nextSize > ZIP_SIZE_LIMIT) {
-      throw new ZipError(
-        `ZIP size would exceed limit of ${ZIP_SIZE_LIMIT} bytes (1GB)`,
-        'ZIP_SIZE_LIMIT_EXCEEDED'
-      )
-    }
+  const zipFilename = `${options.zipFilename ?? 'images'}.zip`
 
-    // Add file to ZIP
-    zip.file(filename, image.blob)
-    cumulativeSize = nextSize
+  return {
+    blob,
+    filename: zipFilename,
+    fileCount,
+    size: blob.size,
   }
+}
 
-  // Generate ZIP blob
-  let blob: Blob
-  try {
-    blob = await zip.generateAsync({
-      type: 'blob',
-      compression: 'DEFLATE',
-      compressionOptions: {
-        level: 6,
-      },
-    })
-  } catch (error) {
-    throw new ZipError(
-      `Failed to generate ZIP: ${error instanceof Error ? error.message : String(error)}`,
-      'ZIP_GENERATION_FAILED',
-      error
-    )
-  }
+/**
+ * Create one ZIP from a multi-page run, with a folder per page
+ *
+ * Pages are stored as "page-001/", "page-002/", ... in crawl order. Template variables
+ * that depend on the page (e.g. {domain}) use each page's own URL, and {index} restarts
+ * in every folder. Pages without images get no folder.
+ *
+ * @param pages - Collected images grouped by page, in crawl order
+ * @param options - ZIP generation options (pageUrl is the first page of the run)
+ * @returns ZIP generation result
+ * @throws {ZipError} EMPTY_IMAGES - When no page has images
+ * @throws {ZipError} ZIP_SIZE_LIMIT_EXCEEDED - When size exceeds 1GB
+ * @throws {ZipError} ZIP_GENERATION_FAILED - When ZIP generation fails
+ * @throws {ZipError} ZIP_CANCELLED - When options.signal is aborted
+ */
+export const createPagedZip = async (
+  pages: ZipPage[],
+  options: CreateZipOptions
+): Promise<CreateZipResult> => {
+  const groups = pages.map((page, index) => ({
+    folder: pageFolderName(index + 1),
+    pageUrl: page.pageUrl,
+    images: page.images,
+  }))
 
-  const zipFilename = `${options.zipFilename ?? 'images'}.zip`
+  const { blob, fileCount } = await buildZip(groups, options)
 
   return {
     blob,
-    filename: zipFilename,
-    fileCount: images.length,
+    filename: `${options.zipFilename ?? 'images'}.zip`,
+    fileCount,
     size: blob.size,
   }
 }
@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { isBlobUrl, resolveBlobUrls } from './blob-resolver'
+import type { ImageCandidate } from '../shared/types'
+
+const BLOB_URL = 'blob:http://localhost:3000/3f1c2a9e-0000-4000-8000-000000000000'
+
+describe('blob-resolver', () => {
+  const originalFetch = global.fetch
+
+  afterEach(() => {
+    global.fetch = originalFetch
+    vi.restoreAllMocks()
+    document.body.innerHTML = ''
+  })
+
+  it('blob: URLを判定する', () => {
+    expect(isBlobUrl(BLOB_URL)).toBe(true)
+    expect(isBlobUrl('https://example.com/a.jpg')).toBe(false)
+  })
+
+  it('blob: URLをページ内でfetchしてdata URLに置き換える', async () => {
+    global.fetch = vi.fn(async () => ({
+      blob: async () => new Blob(['png-bytes'], { type: 'image/png' }),
+    })) as unknown as typeof fetch
+
+    const candidates: ImageCandidate[] = [
+      { url: BLOB_URL, source: 'img', alt: 'edited' },
+      { url: 'https://example.com/a.jpg', source: 'img' },
+    ]
+
+    const resolved = await resolveBlobUrls(candidates)
+
+    expect(global.fetch).toHaveBeenCalledWith(BLOB_URL)
+    expect(resolved).toEqual([
+      { url: `data:image/png;base64,${btoa('png-bytes')}`, source: 'img', alt: 'edited' },
+      { url: 'https://example.com/a.jpg', source: 'img' },
+    ])
+  })
+
+  it('fetchできないblob: URLは描画済みの<img>をcanvas経由で変換する', async () => {
+    global.fetch = vi.fn(async () => {
+      throw new TypeError('Failed to fetch')
+    }) as unknown as typeof fetch
+
+    const img = document.createElement('img')
+    img.src = BLOB_URL
+    Object.defineProperty(img, 'complete', { value: true })
+    Object.defineProperty(img, 'naturalWidth', { value: 40 })
+    Object.defineProperty(img, 'naturalHeight', { value: 30 })
+    document.body.appendChild(img)
+
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue({
+      drawImage: vi.fn(),
+    } as unknown as CanvasRenderingContext2D)
+    vi.spyOn(HTMLCanvasElement.prototype, 'toDataURL').mockReturnValue(
+      'data:image/png;base64,Y2FudmFz'
+    )
+
+    const resolved = await resolveBlobUrls([{ url: BLOB_URL, source: 'img' }])
+
+    expect(resolved).toEqual([{ url: 'data:image/png;base64,Y2FudmFz', source: 'img' }])
+  })
+
+  it('読み取れないblob: URLは除外する', async () => {
+    global.fetch = vi.fn(async () => {
+      throw new TypeError('Failed to fetch')
+    }) as unknown as typeof fetch
+
+    const resolved = await resolveBlobUrls([
+      { url: BLOB_URL, source: 'css-bg' },
+      { url: 'https://example.com/a.jpg', source: 'img' },
+    ])
+
+    expect(resolved.map((c) => c.url)).toEqual(['https://example.com/a.jpg'])
+  })
+})
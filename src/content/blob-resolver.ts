@@ -0,0 +1,124 @@
+/**
+ * blob: URLの画像をページ内で読み取るユーティリティ
+ *
+ * blob: URL（URL.createObjectURLで作成されたURL）は作成したドキュメント内でしか
+ * 参照できず、Service Workerからはfetchできません。ビューアや画像エディタ等の
+ * blob: URLで描画される画像は、Content Script側でdata URLに変換してから
+ * Backgroundへ渡します（data URLは通常の候補と同様にハッシュ化・ZIP化されます）。
+ *
+ * 読み取り順:
+ * 1. 同一ドキュメントからfetch(blob:)
+ * 2. 失効済み（revokeObjectURL後）等で失敗した場合、描画済みの<img>をcanvas経由でPNG化
+ */
+
+import { querySelectorAllDeep } from './dom-walker'
+import type { ImageCandidate } from '../shared/types'
+
+/**
+ * data URLとして送信するBlobの最大サイズ（メッセージサイズ上限対策）
+ */
+export const MAX_INLINE_BLOB_BYTES = 25 * 1024 * 1024
+
+/**
+ * blob: URLかどうかを判定します
+ */
+export const isBlobUrl = (url: string): boolean => url.startsWith('blob:')
+
+/**
+ * Blobをdata URLに変換
+ */
+const readAsDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error ?? new Error('FileReader error'))
+    reader.readAsDataURL(blob)
+  })
+
+/**
+ * blob: URLをページ内でfetchしてdata URLに変換
+ *
+ * 画像以外のMIMEタイプ（type未指定のBlob等）はcanvas経由の変換に任せます。
+ */
+const fetchBlobUrl = async (url: string): Promise<string | null> => {
+  try {
+    const response = await fetch(url)
+    const blob = await response.blob()
+
+    if (blob.size === 0 || blob.size > MAX_INLINE_BLOB_BYTES) return null
+    if (!blob.type.startsWith('image/')) return null
+
+    return await readAsDataUrl(blob)
+  } catch (error) {
+    // revokeObjectURL済みのURLはfetchに失敗する
+    if (import.meta.env.DEV) {
+      console.debug('[blob-resolver] Failed to fetch blob URL:', url, error)
+    }
+    return null
+  }
+}
+
+/**
+ * blob: URLを表示中の<img>をcanvasに描画してPNGのdata URLに変換
+ */
+const captureImageElement = (url: string): string | null => {
+  const img = querySelectorAllDeep<HTMLImageElement>('img').find(
+    (el) => (el.currentSrc || el.src) === url && el.complete && el.naturalWidth > 0
+  )
+  if (!img) return null
+
+  try {
+    const canvas = document.createElement('canvas')
+    canvas.width = img.naturalWidth
+    canvas.height = img.naturalHeight
+
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return null
+
+    ctx.drawImage(img, 0, 0)
+    const dataUrl = canvas.toDataURL('image/png')
+    return dataUrl.startsWith('data:image/') ? dataUrl : null
+  } catch (error) {
+    if (import.meta.env.DEV) {
+      console.debug('[blob-resolver] Failed to capture image element:', url, error)
+    }
+    return null
+  }
+}
+
+/**
+ * 候補のblob: URLをdata URLに置き換えます
+ *
+ * 読み取れなかったblob: URLの候補は、Backgroundでも取得できないため除外します。
+ * blob: URL以外の候補はそのまま返します。
+ *
+ * @param candidates - 検出された画像候補
+ * @returns blob: URLを解決した候補
+ *
+ * @example
+ * await resolveBlobUrls([{ url: 'blob:https://example.com/3f1c…', source: 'img' }])
+ * // => [{ url: 'data:image/png;base64,…', source: 'img' }]
+ */
+export const resolveBlobUrls = async (candidates: ImageCandidate[]): Promise<ImageCandidate[]> => {
+  if (!candidates.some((candidate) => isBlobUrl(candidate.url))) {
+    return candidates
+  }
+
+  const resolved = await Promise.all(
+    candidates.map(async (candidate) => {
+      if (!isBlobUrl(candidate.url)) return candidate
+
+      const dataUrl = (await fetchBlobUrl(candidate.url)) ?? captureImageElement(candidate.url)
+      if (!dataUrl) {
+        if (import.meta.env.DEV) {
+          console.debug('[blob-resolver] Unresolvable blob URL skipped:', candidate.url)
+        }
+        return null
+      }
+
+      return { ...candidate, url: dataUrl }
+    })
+  )
+
+  return resolved.filter((candidate): candidate is ImageCandidate => candidate !== null)
+}
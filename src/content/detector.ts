@@ -1,16 +1,40 @@
 /**
  * 画像検出エンジン
  *
- * MVP実装: 5種類の画像ソースを検出
- * 1. <img>要素
+ * 9種類の画像ソースを検出
+ * 1. <img>要素（data-src等の遅延読み込み属性、<noscript>フォールバック、リンク先の原寸画像含む）
  * 2. <picture>要素
  * 3. srcset属性（最大解像度選択）
- * 4. CSS background-image（主要セレクタのみ、最大500要素）
+ * 4. CSS background-image（全要素＋::before/::after、image-set()対応、走査上限あり、data-bg）
  * 5. <canvas>要素（toDataURL変換）
+ * 6. インラインSVG / <img src="*.svg">（自己完結した.svgに変換）
+ * 7. <video>要素（poster画像、オプションで現在フレーム）
+ * 8. スタイルシート内のurl()（未適用のルール含む、notRendered付きのcss-bg）
+ * 9. ページメタデータ（Open Graph, Twitterカード, アイコン, JSON-LD）
+ *
+ * 全検出関数はopenなshadow root内も走査します（dom-walker参照）。
+ * detectImagesは各候補に出自情報（provenance）を付与します。
+ * 大規模なDOM向けに、時間予算ごとに制御を返すdetectImagesIncrementalを提供します。
  */
 
-import type { ImageCandidate } from '../shared/types'
+import type { ImageCandidate, ImageSource } from '../shared/types'
 import { normalizeUrl } from '../lib/url-utils'
+import {
+  closestComposed,
+  createDeepQuery,
+  findShadowRoots,
+  getComposedParent,
+  querySelectorAllDeep,
+  type DeepQuery,
+  type SearchRoot,
+} from './dom-walker'
+import {
+  buildProvenance,
+  compareDocumentOrder,
+  createHeadingLocator,
+  createSelectorPathResolver,
+} from './provenance'
+import { createTimeSlicer } from './time-slicer'
 
 /**
  * srcset属性のディスクリプタ種別
@@ -22,6 +46,132 @@ interface SrcsetCandidate {
   density?: number // 密度ディスクリプタ（Xx）
 }
 
+/**
+ * 検出オプション
+ */
+export interface DetectOptions {
+  captureVideoFrames?: boolean // 再生中/一時停止中の<video>の現在フレームをPNGとして取得
+  captureCanvas?: boolean // <canvas>の内容をPNGとして取得（デフォルトtrue、ライブ検出では無効）
+  cssScanBudget?: number // CSS背景走査で調べる要素数の上限（デフォルト: DEFAULT_CSS_SCAN_BUDGET）
+  harvestStylesheets?: boolean // スタイルシートのurl()を収集（デフォルトtrue、ドメインプロファイルで切替）
+  root?: Element // 検出対象を指定要素の部分木に限定（選択モード用、メタデータ/スタイルシートは対象外）
+}
+
+/**
+ * CSS背景走査のデフォルト要素数上限
+ */
+export const DEFAULT_CSS_SCAN_BUDGET = 500
+
+/**
+ * 候補 → 検出元の要素（detectImagesで出自情報を作るために使用）
+ */
+const candidateElements = new WeakMap<ImageCandidate, Element>()
+
+/**
+ * 検出元の要素を関連付けて候補を追加します
+ */
+const pushCandidate = (
+  candidates: ImageCandidate[],
+  element: Element,
+  candidate: ImageCandidate
+): void => {
+  candidateElements.set(candidate, element)
+  candidates.push(candidate)
+}
+
+/**
+ * 描画されないためCSS背景走査から除外するタグ
+ */
+const NON_RENDERED_TAGS = new Set([
+  'HEAD',
+  'TITLE',
+  'META',
+  'LINK',
+  'BASE',
+  'STYLE',
+  'SCRIPT',
+  'NOSCRIPT',
+  'TEMPLATE',
+  'SOURCE',
+  'TRACK',
+  'BR',
+  'WBR',
+])
+
+/**
+ * 遅延読み込みライブラリ（lazysizes, lozad, jQuery Lazy等）が実URLを保持する属性
+ */
+const LAZY_SRC_ATTRIBUTES = ['data-src', 'data-lazy-src', 'data-original']
+const LAZY_SRCSET_ATTRIBUTES = ['data-srcset', 'data-lazy-srcset']
+const LAZY_BG_ATTRIBUTES = ['data-bg', 'data-background', 'data-background-image']
+
+/**
+ * 遅延読み込み用の全属性（ライブ検出で属性変化を監視する対象）
+ */
+export const LAZY_IMAGE_ATTRIBUTES = [
+  ...LAZY_SRC_ATTRIBUTES,
+  ...LAZY_SRCSET_ATTRIBUTES,
+  ...LAZY_BG_ATTRIBUTES,
+]
+
+/**
+ * ギャラリー/ズームライブラリが原寸画像のURLを保持する属性
+ */
+const ORIGINAL_IMAGE_ATTRIBUTES = ['data-full', 'data-zoom-image']
+
+/**
+ * 画像リソースとみなすパス拡張子
+ */
+const IMAGE_EXTENSION_PATTERN = /\.(?:jpe?g|png|gif|webp|avif|bmp|tiff?|svg|heic)$/i
+
+/**
+ * スタイルシート走査で画像URLを読み取るプロパティ（ロングハンドのみ）
+ *
+ * background等のショートハンドはCSSOM上でロングハンドに展開されるため対象外です。
+ */
+const STYLESHEET_IMAGE_PROPERTIES = [
+  'background-image',
+  'content',
+  'list-style-image',
+  'border-image-source',
+  'mask-image',
+  '-webkit-mask-image',
+]
+
+/**
+ * ::before / ::after を描画しない置換要素
+ */
+const REPLACED_TAGS = new Set([
+  'IMG',
+  'INPUT',
+  'VIDEO',
+  'AUDIO',
+  'CANVAS',
+  'IFRAME',
+  'EMBED',
+  'OBJECT',
+  'SELECT',
+  'TEXTAREA',
+])
+
+const SVG_NS = 'http://www.w3.org/2000/svg'
+const XLINK_NS = 'http://www.w3.org/1999/xlink'
+
+/**
+ * URLがSVGファイルを指すか判定します
+ *
+ * @param url - 正規化済みURL
+ * @returns SVGファイルならtrue
+ */
+const isSvgUrl = (url: string): boolean => {
+  if (url.startsWith('data:')) {
+    return url.startsWith('data:image/svg+xml')
+  }
+
+  // 正規化済みURLのためURLのパースは省略（クエリ・フラグメントを除いたパスで判定）
+  return /\.svg$/i.test(url.split(/[?#]/, 1)[0] ?? '')
+}
+
 /**
  * 画像周辺のコンテキスト情報を抽出します
  *
@@ -42,8 +192,8 @@ const extractContext = (element: Element): string => {
     return title.trim().slice(0, 50)
   }
 
-  // 3. figcaption要素（親がfigureの場合）
-  const parentFigure = element.closest('figure')
+  // 3. figcaption要素（親がfigureの場合、Shadow境界・slotを越えて探索）
+  const parentFigure = closestComposed(element, 'figure')
   if (parentFigure) {
     const figcaption = parentFigure.querySelector('figcaption')
     if (figcaption?.textContent?.trim()) {
@@ -51,17 +201,18 @@ const extractContext = (element: Element): string => {
     }
   }
 
-  // 4. 祖先要素のテキストノード（3階層まで）
+  // 4. 祖先要素のテキストノード（composed tree上で3階層まで）
   let currentElement: Element | null = element
   for (let i = 0; i < 3; i++) {
-    currentElement = currentElement?.parentElement
+    currentElement = currentElement ? getComposedParent(currentElement) : null
     if (!currentElement) break
 
-    // テキストノードを収集
-    const textNodes = Array.from(currentElement.childNodes)
-      .filter((node) => node.nodeType === Node.TEXT_NODE)
-      .map((node) => node.textContent?.trim() ?? '')
-      .filter((text) => text.length > 0)
+    // テキストノードを収集（NodeListの配列化は子が多い要素で遅いため兄弟を辿る）
+    const textNodes: string[] = []
+    for (let node = currentElement.firstChild; node; node = node.nextSibling) {
+      const text = node.nodeType === Node.TEXT_NODE ? (node.textContent?.trim() ?? '') : ''
+      if (text.length > 0) textNodes.push(text)
+    }
 
     if (textNodes.length > 0) {
       const context = textNodes.join(' ').replace(/\s+/g, ' ')
@@ -75,89 +226,287 @@ const extractContext = (element: Element): string => {
   return ''
 }
 
+/**
+ * 遅延読み込み属性から実画像のURLを取得します
+ *
+ * 優先順位: data-srcset系（最大解像度）> data-src / data-lazy-src / data-original
+ *
+ * @param element - <img>または<source>要素
+ * @param baseUrl - ベースURL
+ * @returns 実画像のURL、遅延読み込み属性がない場合は空文字列
+ */
+const getLazyImageUrl = (element: Element, baseUrl: string): string => {
+  for (const attribute of LAZY_SRCSET_ATTRIBUTES) {
+    const srcset = element.getAttribute(attribute)
+    const url = srcset ? extractSrcset(srcset, baseUrl) : ''
+    if (url) return url
+  }
+
+  for (const attribute of LAZY_SRC_ATTRIBUTES) {
+    const src = element.getAttribute(attribute)?.trim()
+    const url = src ? normalizeUrl(src, baseUrl) : ''
+    if (url) return url
+  }
+
+  return ''
+}
+
+/**
+ * width/height属性を数値として取得します
+ *
+ * @returns 正の整数値、未指定または不正な場合はundefined
+ */
+const getDimensionAttribute = (element: Element, name: 'width' | 'height'): number | undefined => {
+  const value = Number.parseInt(element.getAttribute(name) ?? '', 10)
+  return value > 0 ? value : undefined
+}
+
+/**
+ * URLが画像ファイルを指すか（パスの拡張子で）判定します
+ */
+const isImageResourceUrl = (url: string): boolean => {
+  try {
+    return IMAGE_EXTENSION_PATTERN.test(new URL(url).pathname)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * サムネイル<img>に対応する原寸画像のURLを取得します
+ *
+ * 優先順位:
+ * 1. <img>またはリンクのdata-full / data-zoom-image属性
+ * 2. <img>を囲む<a href>が画像ファイルを指す場合のhref
+ *
+ * @param img - サムネイルの<img>要素
+ * @param baseUrl - ベースURL
+ * @returns 原寸画像のURL、見つからない場合は空文字列
+ */
+const findOriginalImageUrl = (img: HTMLImageElement, baseUrl: string): string => {
+  const anchor = closestComposed(img, 'a[href]')
+
+  for (const element of [img, anchor]) {
+    if (!element) continue
+    for (const attribute of ORIGINAL_IMAGE_ATTRIBUTES) {
+      const value = element.getAttribute(attribute)?.trim()
+      const url = value ? normalizeUrl(value, baseUrl) : ''
+      if (url) return url
+    }
+  }
+
+  const href = anchor?.getAttribute('href')?.trim()
+  const url = href ? normalizeUrl(href, baseUrl) : ''
+  return url && isImageResourceUrl(url) ? url : ''
+}
+
 /**
  * <img>要素から画像候補を検出します
  *
+ * 遅延読み込みライブラリの属性（data-src, data-srcset等）がある場合は、
+ * プレースホルダーのsrcより実画像のURLを優先します。
+ *
+ * ギャラリーのサムネイル（<a href="original.jpg"><img></a>等）は原寸画像のURLを
+ * 候補とし、サムネイルのURLはfallbackUrlとして保持します。
+ *
  * @param baseUrl - ベースURL（相対URL解決用）
+ * @param root - 走査ルート（デフォルト: document）
  * @returns 画像候補の配列
  */
-export const detectImgElements = (baseUrl: string): ImageCandidate[] => {
+export const detectImgElements = (
+  baseUrl: string,
+  root: SearchRoot = document
+): ImageCandidate[] => {
   const candidates: ImageCandidate[] = []
-  const images = document.querySelectorAll('img')
 
-  for (const img of images) {
-    // currentSrc > src の優先順位
-    const rawUrl = img.currentSrc || img.src
-    if (!rawUrl || rawUrl.trim() === '') continue
+  for (const img of querySelectorAllDeep<HTMLImageElement>('img', root)) {
+    scanImgElement(img, baseUrl, candidates)
+  }
 
-    const url = normalizeUrl(rawUrl, baseUrl)
-    // 空のURLまたはbaseURLと同じ場合はスキップ（<img src="">対策）
-    if (!url || url === baseUrl) continue
+  return candidates
+}
 
-    candidates.push({
-      url,
-      source: 'img',
-      width: img.naturalWidth > 0 ? img.naturalWidth : img.width > 0 ? img.width : undefined,
-      height: img.naturalHeight > 0 ? img.naturalHeight : img.height > 0 ? img.height : undefined,
-      alt: img.alt && img.alt.trim() !== '' ? img.alt : extractContext(img),
+/**
+ * 1つの<img>を候補に追加します
+ */
+const scanImgElement = (
+  img: HTMLImageElement,
+  baseUrl: string,
+  candidates: ImageCandidate[]
+): void => {
+  // currentSrc > src の優先順位
+  const rawUrl = img.currentSrc || img.src
+  const currentUrl = rawUrl && rawUrl.trim() !== '' ? normalizeUrl(rawUrl, baseUrl) : ''
+  const lazyUrl = getLazyImageUrl(img, baseUrl)
+
+  const url = lazyUrl || currentUrl
+  // 空のURLまたはbaseURLと同じ場合はスキップ（<img src="">対策）
+  if (!url || url === baseUrl) return
+
+  const alt = img.alt && img.alt.trim() !== '' ? img.alt : extractContext(img)
+
+  const originalUrl = findOriginalImageUrl(img, baseUrl)
+  if (originalUrl && originalUrl !== url) {
+    // サムネイルの寸法は原寸と異なるため記録しない
+    pushCandidate(candidates, img, {
+      url: originalUrl,
+      source: isSvgUrl(originalUrl) ? 'svg' : 'img',
+      alt,
+      fallbackUrl: url,
     })
+    return
   }
 
-  return candidates
+  // 未読み込みの遅延画像はnaturalWidth等がプレースホルダーの値なので属性値を使用
+  const isLazyPending = lazyUrl !== '' && lazyUrl !== currentUrl
+
+  pushCandidate(candidates, img, {
+    url,
+    // <img src="*.svg">はSVGとして扱う
+    source: isSvgUrl(url) ? 'svg' : 'img',
+    width: isLazyPending
+      ? getDimensionAttribute(img, 'width')
+      : img.naturalWidth > 0
+        ? img.naturalWidth
+        : img.width > 0
+          ? img.width
+          : undefined,
+    height: isLazyPending
+      ? getDimensionAttribute(img, 'height')
+      : img.naturalHeight > 0
+        ? img.naturalHeight
+        : img.height > 0
+          ? img.height
+          : undefined,
+    alt,
+  })
 }
 
 /**
- * <picture>要素から画像候補を検出します
+ * <noscript>内のフォールバック<img>から画像候補を検出します
+ *
+ * JavaScript有効時、<noscript>の中身はDOMではなく文字列として保持されるため、
+ * DOMParserで不活性なドキュメントとしてパースします（画像の読み込みは発生しません）。
  *
  * @param baseUrl - ベースURL
+ * @param root - 走査ルート（デフォルト: document）
  * @returns 画像候補の配列
  */
-export const detectPictureElements = (baseUrl: string): ImageCandidate[] => {
+export const detectNoscriptImages = (
+  baseUrl: string,
+  root: SearchRoot = document
+): ImageCandidate[] => {
   const candidates: ImageCandidate[] = []
-  const pictures = document.querySelectorAll('picture')
+  const parser = new DOMParser()
 
-  for (const picture of pictures) {
-    // picture内のimg要素
-    const img = picture.querySelector('img')
-    if (!img) continue
+  for (const noscript of querySelectorAllDeep<HTMLElement>('noscript', root)) {
+    scanNoscript(noscript, baseUrl, candidates, parser)
+  }
 
-    const rawUrl = img.currentSrc || img.src
-    if (!rawUrl) continue
+  return candidates
+}
+
+/**
+ * 1つの<noscript>内のフォールバック<img>を候補に追加します
+ */
+const scanNoscript = (
+  noscript: HTMLElement,
+  baseUrl: string,
+  candidates: ImageCandidate[],
+  parser: DOMParser
+): void => {
+  const html = noscript.innerHTML
+  if (!html.includes('<img')) return
+
+  const doc = parser.parseFromString(html, 'text/html')
+
+  for (const img of doc.querySelectorAll('img')) {
+    const srcset = img.getAttribute('srcset')
+    const src = img.getAttribute('src')?.trim()
 
-    const url = normalizeUrl(rawUrl, baseUrl)
-    if (!url) continue
+    const url =
+      getLazyImageUrl(img, baseUrl) ||
+      (srcset ? extractSrcset(srcset, baseUrl) : '') ||
+      (src ? normalizeUrl(src, baseUrl) : '')
+    if (!url || url === baseUrl) continue
 
-    candidates.push({
+    const alt = img.getAttribute('alt')?.trim() ?? ''
+
+    pushCandidate(candidates, noscript, {
       url,
-      source: 'picture',
-      width: img.naturalWidth > 0 ? img.naturalWidth : img.width > 0 ? img.width : undefined,
-      height: img.naturalHeight > 0 ? img.naturalHeight : img.height > 0 ? img.height : undefined,
-      alt: img.alt && img.alt.trim() !== '' ? img.alt : extractContext(picture),
+      source: isSvgUrl(url) ? 'svg' : 'img',
+      width: getDimensionAttribute(img, 'width'),
+      height: getDimensionAttribute(img, 'height'),
+      alt: alt !== '' ? alt : extractContext(noscript),
     })
+  }
+}
 
-    // source要素も走査
-    const sources = picture.querySelectorAll('source')
-    for (const source of sources) {
-      const srcset = source.srcset
-      if (!srcset) continue
-
-      // srcsetから最大解像度を選択
-      const bestUrl = extractSrcset(srcset, baseUrl)
-      if (bestUrl && bestUrl !== url) {
-        candidates.push({
-          url: bestUrl,
-          source: 'picture',
-          width: undefined,
-          height: undefined,
-          alt: img.alt && img.alt.trim() !== '' ? img.alt : extractContext(picture),
-        })
-      }
-    }
+/**
+ * <picture>要素から画像候補を検出します
+ *
+ * @param baseUrl - ベースURL
+ * @param root - 走査ルート（デフォルト: document）
+ * @returns 画像候補の配列
+ */
+export const detectPictureElements = (
+  baseUrl: string,
+  root: SearchRoot = document
+): ImageCandidate[] => {
+  const candidates: ImageCandidate[] = []
+
+  for (const picture of querySelectorAllDeep<HTMLPictureElement>('picture', root)) {
+    scanPictureElement(picture, baseUrl, candidates)
   }
 
   return candidates
 }
 
+/**
+ * 1つの<picture>（<img>と各<source>）を候補に追加します
+ */
+const scanPictureElement = (
+  picture: HTMLPictureElement,
+  baseUrl: string,
+  candidates: ImageCandidate[]
+): void => {
+  // picture内のimg要素
+  const img = picture.querySelector('img')
+  if (!img) return
+
+  const rawUrl = img.currentSrc || img.src
+  const url = getLazyImageUrl(img, baseUrl) || (rawUrl ? normalizeUrl(rawUrl, baseUrl) : '')
+  if (!url) return
+
+  pushCandidate(candidates, picture, {
+    url,
+    source: 'picture',
+    width: img.naturalWidth > 0 ? img.naturalWidth : img.width > 0 ? img.width : undefined,
+    height: img.naturalHeight > 0 ? img.naturalHeight : img.height > 0 ? img.height : undefined,
+    alt: img.alt && img.alt.trim() !== '' ? img.alt : extractContext(picture),
+  })
+
+  // source要素も走査
+  const sources = picture.querySelectorAll('source')
+  for (const source of sources) {
+    // srcsetから最大解像度を選択（遅延読み込みのdata-srcsetも対象）
+    const bestUrl = source.srcset
+      ? extractSrcset(source.srcset, baseUrl)
+      : getLazyImageUrl(source, baseUrl)
+    if (!bestUrl) continue
+
+    if (bestUrl !== url) {
+      pushCandidate(candidates, picture, {
+        url: bestUrl,
+        source: 'picture',
+        width: undefined,
+        height: undefined,
+        alt: img.alt && img.alt.trim() !== '' ? img.alt : extractContext(picture),
+      })
+    }
+  }
+}
+
 /**
  * srcset属性を解析して最大解像度のURLを抽出します
  *
@@ -227,239 +576,1581 @@ export const extractSrcset = (srcset: string, baseUrl: string): string => {
     candidates.push(candidate)
   }
 
-  if (candidates.length === 0) return ''
+  const bestCandidate = selectBestCandidate(candidates)
+  if (!bestCandidate) return ''
+
+  return normalizeUrl(bestCandidate.url, baseUrl)
+}
+
+/**
+ * srcset/image-setの候補から最大解像度の候補を選択します
+ *
+ * 優先度ルール: 幅ディスクリプタ優先 → 密度ディスクリプタの最大値 → 最初の候補
+ *
+ * @param candidates - パース済みの候補
+ * @returns 最大解像度の候補、候補がない場合はundefined
+ */
+const selectBestCandidate = (candidates: SrcsetCandidate[]): SrcsetCandidate | undefined => {
+  if (candidates.length === 0) return undefined
 
   // 優先度ルール: 幅ディスクリプタ優先
   const widthCandidates = candidates.filter((c) => c.width !== undefined)
   const densityCandidates = candidates.filter((c) => c.density !== undefined)
 
-  let bestCandidate: SrcsetCandidate | undefined
-
   if (widthCandidates.length > 0) {
     // 幅ディスクリプタの最大値
-    bestCandidate = widthCandidates.reduce((max, c) =>
-      (c.width ?? 0) > (max.width ?? 0) ? c : max
-    )
-  } else if (densityCandidates.length > 0) {
-    // 密度ディスクリプタの最大値
-    bestCandidate = densityCandidates.reduce((max, c) =>
-      (c.density ?? 0) > (max.density ?? 0) ? c : max
-    )
-  } else {
-    // フォールバック: 最初の候補
-    bestCandidate = candidates[0]
+    return widthCandidates.reduce((max, c) => ((c.width ?? 0) > (max.width ?? 0) ? c : max))
   }
 
-  if (!bestCandidate) return ''
+  if (densityCandidates.length > 0) {
+    // 密度ディスクリプタの最大値
+    return densityCandidates.reduce((max, c) => ((c.density ?? 0) > (max.density ?? 0) ? c : max))
+  }
 
-  return normalizeUrl(bestCandidate.url, baseUrl)
+  // フォールバック: 最初の候補
+  return candidates[0]
 }
 
 /**
- * CSS background-imageから画像候補を検出します
- *
- * パフォーマンス最適化:
- * - 主要セレクタのみ走査（最大500要素）
- * - セクション要素、カード要素、背景コンテナに限定
+ * 引用符と括弧の内側を無視して、トップレベルのカンマで分割します
  *
- * @param baseUrl - ベースURL
- * @returns 画像候補の配列
+ * @param value - CSSの値（例: "url(a.jpg), linear-gradient(red, blue)"）
+ * @returns 分割後の各要素（前後の空白を除去）
  */
-export const detectCSSBackgrounds = (baseUrl: string): ImageCandidate[] => {
-  const candidates: ImageCandidate[] = []
+const splitTopLevelCommas = (value: string): string[] => {
+  const parts: string[] = []
+  let depth = 0
+  let quote: string | null = null
+  let start = 0
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i]
+
+    if (quote) {
+      if (char === '\\') i++
+      else if (char === quote) quote = null
+      continue
+    }
 
-  // 主要セレクタ（パフォーマンス最適化）
-  const selectors = [
-    'section',
-    'article',
-    'div[class*="hero"]',
-    'div[class*="banner"]',
-    'div[class*="card"]',
-    'div[class*="item"]',
-    'div[class*="background"]',
-    'div[class*="cover"]',
-  ]
+    if (char === '"' || char === "'") quote = char
+    else if (char === '(') depth++
+    else if (char === ')') depth--
+    else if (char === ',' && depth === 0) {
+      parts.push(value.slice(start, i).trim())
+      start = i + 1
+    }
+  }
+
+  parts.push(value.slice(start).trim())
+  return parts.filter((part) => part.length > 0)
+}
+
+/**
+ * image-set()の解像度ディスクリプタ（x / dppx / dpi / dpcm）
+ */
+const IMAGE_SET_DESCRIPTOR_PATTERN = /^(\d*\.?\d+)(x|dppx|dpi|dpcm)$/i
 
-  let elementCount = 0
-  const MAX_ELEMENTS = 500
+/**
+ * image-set()エントリ先頭の画像URL（url()または文字列）
+ */
+const IMAGE_SET_URL_PATTERN =
+  /^(?:url\(\s*(?:"([^"]*)"|'([^']*)'|([^)\s]*))\s*\)|"([^"]*)"|'([^']*)')/i
 
-  for (const selector of selectors) {
-    if (elementCount >= MAX_ELEMENTS) break
+/**
+ * image-set() / -webkit-image-set() の中身をパースします
+ *
+ * 各エントリは `url(...)` または文字列と、任意の解像度ディスクリプタ・type()で構成されます。
+ * 解像度はすべてx（dppx）単位の密度に換算します。
+ *
+ * @param inner - image-set()の括弧内の文字列
+ * @returns パース済みの候補
+ *
+ * @example
+ * parseImageSet('url("a.jpg") 1x, url("a@2x.jpg") 2x')
+ * // => [{ url: 'a.jpg', density: 1 }, { url: 'a@2x.jpg', density: 2 }]
+ */
+const parseImageSet = (inner: string): SrcsetCandidate[] => {
+  const candidates: SrcsetCandidate[] = []
 
-    const elements = document.querySelectorAll(selector)
+  for (const entry of splitTopLevelCommas(inner)) {
+    // url("...") / url(...) / "..." のいずれか（グラデーション等のURL以外の画像は対象外）
+    const urlMatch = IMAGE_SET_URL_PATTERN.exec(entry)
+    if (!urlMatch) continue
 
-    for (const el of elements) {
-      if (elementCount >= MAX_ELEMENTS) break
-      elementCount++
+    const rawUrl = urlMatch[1] ?? urlMatch[2] ?? urlMatch[3] ?? urlMatch[4] ?? urlMatch[5]
+    if (!rawUrl) continue
 
-      const style = window.getComputedStyle(el)
-      const bgImage = style.backgroundImage
+    const rest = entry.slice(urlMatch[0].length)
 
-      if (!bgImage || bgImage === 'none') continue
+    // type("image/avif") は解像度に影響しないため除去
+    const tokens = rest
+      .replace(/type\([^)]*\)/gi, ' ')
+      .trim()
+      .split(/\s+/)
+    const descriptor = tokens.find((token) => IMAGE_SET_DESCRIPTOR_PATTERN.test(token)) ?? '1x'
+    const match = IMAGE_SET_DESCRIPTOR_PATTERN.exec(descriptor)
+    const value = Number.parseFloat(match?.[1] ?? '1')
+    const unit = (match?.[2] ?? 'x').toLowerCase()
 
-      // url()を正規表現で抽出（複数背景対応）
-      const urlPattern = /url\(['"]?([^'"()]+)['"]?\)/g
-      let match: RegExpExecArray | null
+    // 96dpi = 1dppx = 1x
+    const density = unit === 'dpi' ? value / 96 : unit === 'dpcm' ? (value * 2.54) / 96 : value
 
-      while ((match = urlPattern.exec(bgImage)) !== null) {
-        const rawUrl = match[1]
-        if (!rawUrl) continue
-
-        const url = normalizeUrl(rawUrl, baseUrl)
-        if (!url) continue
-
-        candidates.push({
-          url,
-          source: 'css-bg',
-          // 注意: 背景画像の実寸は取得不可能なため、要素のサイズを記録
-          // clientWidth/Heightは要素の表示サイズであり、画像の実寸ではない
-          width: el.clientWidth > 0 ? el.clientWidth : undefined,
-          height: el.clientHeight > 0 ? el.clientHeight : undefined,
-          alt: extractContext(el),
-        })
-      }
-    }
+    candidates.push({ url: rawUrl, descriptor, density })
   }
 
   return candidates
 }
 
 /**
- * <canvas>要素から画像候補を検出します
+ * CSSの画像値（background-image / content）から画像URLを抽出します
  *
- * toDataURL()を使用してcanvasの内容を画像化します。
- * CORS汚染されたcanvasはスキップします。
+ * - 複数レイヤー（カンマ区切り）に対応
+ * - image-set() / -webkit-image-set() は最大密度のエントリのみを採用
+ * - グラデーション等のURLを含まないレイヤーは無視
  *
- * @param baseUrl - ベースURL（未使用、シグネチャ統一のため）
- * @returns 画像候補の配列
+ * @param value - getComputedStyleで取得したCSS値
+ * @param baseUrl - ベースURL
+ * @returns 正規化済みのURL配列
+ *
+ * @example
+ * extractCssImageUrls('image-set(url("a.jpg") 1x, url("a@2x.jpg") 2x), url(b.png)', baseUrl)
+ * // => ['https://example.com/a@2x.jpg', 'https://example.com/b.png']
  */
-export const detectCanvasElements = (_baseUrl: string): ImageCandidate[] => {
-  const candidates: ImageCandidate[] = []
-  const canvases = document.querySelectorAll('canvas')
+export const extractCssImageUrls = (value: string, baseUrl: string): string[] => {
+  if (!value || value === 'none' || value === 'normal') return []
 
-  for (const canvas of canvases) {
-    try {
-      // canvas内容の有効性チェック
-      const ctx = canvas.getContext('2d')
-      if (!ctx) continue
-
-      // 空canvas（未描画）のチェック
-      // 1x1ピクセルをサンプリングして全ピクセルが透明または白/黒ならスキップ
-      if (canvas.width > 0 && canvas.height > 0) {
-        const imageData = ctx.getImageData(0, 0, 1, 1)
-        const isEmpty = imageData.data.every((value, index) =>
-          index % 4 === 3 ? value === 0 : value === 0 || value === 255
-        )
-        if (isEmpty) continue
-      }
+  const urls: string[] = []
 
-      // toDataURL()でcanvasの内容をdata URLに変換
-      // CORS汚染がある場合はエラーが発生
-      const dataUrl = canvas.toDataURL('image/png')
+  for (const layer of splitTopLevelCommas(value)) {
+    const imageSet = /^(?:-webkit-)?image-set\(([\s\S]*)\)$/i.exec(layer)
 
-      if (!dataUrl?.startsWith('data:')) continue
+    if (imageSet) {
+      const best = selectBestCandidate(parseImageSet(imageSet[1] ?? ''))
+      const url = best ? normalizeUrl(best.url, baseUrl) : ''
+      if (url) urls.push(url)
+      continue
+    }
 
-      candidates.push({
-        url: dataUrl,
-        source: 'canvas',
-        width: canvas.width || undefined,
-        height: canvas.height || undefined,
-        alt: extractContext(canvas),
-      })
-    } catch (error) {
-      // CORS汚染やその他のエラーはスキップ
-      if (import.meta.env.DEV) {
-        console.debug('[detectCanvasElements] Failed to extract canvas:', error)
-      }
+    // url()を正規表現で抽出
+    const urlPattern = /url\(['"]?([^'"()]+)['"]?\)/g
+    let match: RegExpExecArray | null
+
+    while ((match = urlPattern.exec(layer)) !== null) {
+      const rawUrl = match[1]
+      if (!rawUrl) continue
+
+      const url = normalizeUrl(rawUrl, baseUrl)
+      if (url) urls.push(url)
     }
   }
 
-  return candidates
+  return urls
 }
 
 /**
- * ページ内の全画像を検出します（メイン検出関数）
- *
- * 5種類の画像ソースを統合的に検出し、重複を除外します。
- *
- * @returns 検出された画像候補の配列（重複除外済み）
+ * 疑似要素（::before / ::after）の指定
  */
-export const detectImages = (): ImageCandidate[] => {
-  const baseUrl = window.location.href
+const PSEUDO_ELEMENT_PATTERN = /::?(?:before|after)\b/i
+
+/**
+ * CSSの値が画像を含みうるか（url() / image-set()、または実際の値が不明なvar()）
+ */
+const mayContainImage = (value: string | null | undefined): boolean =>
+  !!value && /url\(|image-set\(|var\(/i.test(value)
 
-  // 各検出関数を実行
-  const imgCandidates = detectImgElements(baseUrl)
-  const pictureCandidates = detectPictureElements(baseUrl)
-  const cssCandidates = detectCSSBackgrounds(baseUrl)
-  const canvasCandidates = detectCanvasElements(baseUrl)
+/**
+ * スタイルシートから集めた、画像を指定するルールのセレクタ
+ */
+interface CssImageSelectors {
+  background: string[] // background-imageに画像を指定するルール
+  pseudo: string[] // ::before / ::after に画像を指定するルール（疑似要素部分を除いたセレクタ）
+  unknown: boolean // 判定できないルールがある（クロスオリジン、ネストしたルール）
+}
 
-  // srcset検出（img要素のsrcset属性）
-  const srcsetCandidates: ImageCandidate[] = []
-  const images = document.querySelectorAll('img[srcset]')
+/**
+ * 疑似要素のセレクタから、疑似要素を生成する要素のセレクタを作成します
+ *
+ * @example
+ * toOriginatingSelector('.badge:hover::before') // => '.badge:hover'
+ * toOriginatingSelector('.list ::after') // => '.list *'
+ */
+const toOriginatingSelector = (selector: string): string => {
+  const stripped = selector.replace(new RegExp(PSEUDO_ELEMENT_PATTERN.source, 'gi'), '')
+  return /(?:^|[\s>+~])$/.test(stripped) ? `${stripped}*` : stripped
+}
 
-  for (const img of images) {
-    const srcset = img.getAttribute('srcset')
-    if (!srcset) continue
+/**
+ * CSSルールを再帰的に走査し、画像を指定するルールのセレクタを収集します
+ */
+const collectRuleImageSelectors = (rules: CSSRuleList, selectors: CssImageSelectors): void => {
+  // Note: フレーム間でCSSOMのクラスが異なるため、instanceofではなくプロパティの有無で判定
+  for (const rule of Array.from(rules)) {
+    if ('styleSheet' in rule) {
+      const imported = (rule as CSSImportRule).styleSheet
+      if (imported) collectSheetImageSelectors(imported, selectors)
+      continue
+    }
 
-    const url = extractSrcset(srcset, baseUrl)
-    if (!url) continue
+    if ('selectorText' in rule && 'style' in rule) {
+      const { selectorText, style } = rule as CSSStyleRule
+      const background =
+        mayContainImage(style.getPropertyValue('background-image')) ||
+        mayContainImage(style.getPropertyValue('background'))
+      const content = mayContainImage(style.getPropertyValue('content'))
+
+      for (const selector of splitTopLevelCommas(selectorText)) {
+        if (PSEUDO_ELEMENT_PATTERN.test(selector)) {
+          if (background || content) selectors.pseudo.push(toOriginatingSelector(selector))
+        } else if (background) {
+          selectors.background.push(selector)
+        }
+      }
+    }
 
-    const imgElement = img as HTMLImageElement
-    srcsetCandidates.push({
-      url,
-      source: 'srcset',
-      width:
-        imgElement.naturalWidth > 0
-          ? imgElement.naturalWidth
-          : imgElement.width > 0
-            ? imgElement.width
-            : undefined,
-      height:
-        imgElement.naturalHeight > 0
-          ? imgElement.naturalHeight
-          : imgElement.height > 0
-            ? imgElement.height
-            : undefined,
-      alt: imgElement.alt && imgElement.alt.trim() !== '' ? imgElement.alt : extractContext(img),
-    })
+    if ('cssRules' in rule) {
+      const children = (rule as CSSGroupingRule).cssRules
+      // ネストしたスタイルルールのセレクタは親ルールからの相対指定のため判定できない
+      if ('selectorText' in rule && children.length > 0) {
+        selectors.unknown = true
+        continue
+      }
+      collectRuleImageSelectors(children, selectors)
+    }
   }
+}
 
-  // 全候補を統合
-  const allCandidates = [
-    ...imgCandidates,
-    ...pictureCandidates,
-    ...srcsetCandidates,
-    ...cssCandidates,
-    ...canvasCandidates,
-  ]
+/**
+ * スタイルシート1枚から画像を指定するルールのセレクタを収集します
+ *
+ * クロスオリジンのスタイルシートはルールを読み取れないため、判定不能として扱います。
+ */
+const collectSheetImageSelectors = (sheet: CSSStyleSheet, selectors: CssImageSelectors): void => {
+  let rules: CSSRuleList
+  try {
+    rules = sheet.cssRules
+  } catch {
+    // SecurityError: クロスオリジンのスタイルシート
+    selectors.unknown = true
+    return
+  }
 
-  // 重複除外（URLをキーとしたMap使用）
-  const uniqueMap = new Map<string, ImageCandidate>()
+  collectRuleImageSelectors(rules, selectors)
+}
 
-  for (const candidate of allCandidates) {
-    const key = candidate.url
+/**
+ * セレクタ一覧から要素の判定関数を作成します
+ *
+ * 判定不能なルールがある場合、または解釈できないセレクタを含む場合は全要素を対象とします。
+ */
+const createSelectorMatcher = (
+  selectors: string[],
+  unknown: boolean
+): ((el: Element) => boolean) => {
+  if (unknown) return () => true
+  if (selectors.length === 0) return () => false
+
+  const joined = selectors.join(', ')
+  try {
+    document.createElement('div').matches(joined)
+  } catch {
+    return () => true
+  }
+  return (el) => el.matches(joined)
+}
 
-    if (!uniqueMap.has(key)) {
-      uniqueMap.set(key, candidate)
-    } else {
-      // 既存の候補とマージ（より詳細な情報を優先）
-      const existing = uniqueMap.get(key)
-      if (!existing) continue // 念のためガード追加（型安全性）
+/**
+ * 背景画像を持ちうる要素の判定
+ */
+interface CssImageFilter {
+  hasBackground: (el: Element) => boolean // 要素本体のbackground-imageを調べる必要がある
+  hasPseudoImage: (el: Element) => boolean // ::before / ::after を調べる必要がある
+}
 
-      // width/heightが未設定なら更新
-      if (!existing.width && candidate.width) {
-        existing.width = candidate.width
-      }
-      if (!existing.height && candidate.height) {
-        existing.height = candidate.height
+/**
+ * 背景画像を持ちうる要素の判定を作成します
+ *
+ * getComputedStyleはコストが大きいため、スタイルシート（ドキュメント・shadow rootごと）の
+ * 画像を指定するルールのセレクタ、またはインラインスタイルに一致する要素のみを対象にします。
+ * 疑似要素は、疑似要素に画像を指定するルールに一致する要素のみ調べます。
+ *
+ * shadow rootのホストやslotに割り当てられた要素は、:host / ::slotted() のルールで
+ * 外側から装飾されるため常に対象とします。
+ */
+const createCssImageFilter = (): CssImageFilter => {
+  // ルート（ドキュメント・shadow root）ごとの判定関数
+  const matchers = new Map<Node, Record<'background' | 'pseudo', (el: Element) => boolean>>()
+
+  const getMatchers = (el: Element) => {
+    const root = el.getRootNode()
+    const cached = matchers.get(root)
+    if (cached) return cached
+
+    const selectors: CssImageSelectors = { background: [], pseudo: [], unknown: false }
+    const sheets: CSSStyleSheet[] = []
+    if (root instanceof ShadowRoot) {
+      // shadow root内の<style>/<link>はdocument.styleSheetsに含まれないため個別に取得
+      for (const owner of root.querySelectorAll<HTMLStyleElement | HTMLLinkElement>(
+        'style, link[rel~="stylesheet"]'
+      )) {
+        if (owner.sheet) sheets.push(owner.sheet)
       }
+      sheets.push(...(root.adoptedStyleSheets ?? []))
+    } else if (root instanceof Document) {
+      sheets.push(...Array.from(root.styleSheets), ...(root.adoptedStyleSheets ?? []))
+    }
+    for (const sheet of sheets) {
+      collectSheetImageSelectors(sheet, selectors)
+    }
 
-      // altが未設定なら更新
-      if (!existing.alt && candidate.alt) {
-        existing.alt = candidate.alt
-      }
+    const created = {
+      background: createSelectorMatcher(selectors.background, selectors.unknown),
+      pseudo: createSelectorMatcher(selectors.pseudo, selectors.unknown),
+    }
+    matchers.set(root, created)
+    return created
+  }
+
+  const isStyledFromOutside = (el: Element) => el.shadowRoot !== null || el.assignedSlot !== null
+
+  return {
+    hasBackground: (el) =>
+      mayContainImage(el.getAttribute('style')) ||
+      isStyledFromOutside(el) ||
+      getMatchers(el).background(el),
+    hasPseudoImage: (el) =>
+      !REPLACED_TAGS.has(el.tagName.toUpperCase()) &&
+      (isStyledFromOutside(el) || getMatchers(el).pseudo(el)),
+  }
+}
+
+/**
+ * CSS background-imageから画像候補を検出します
+ *
+ * ドキュメント全体（shadow root含む）の要素を走査し、要素本体と
+ * ::before / ::after 疑似要素の計算済みスタイルを調べます。
+ * クラス名に依存しないため、素の<div>に置かれたヒーロー画像も検出できます。
+ *
+ * パフォーマンス:
+ * - 描画されない要素（script, style等）はスキップ
+ * - 画像を指定するルール・インラインスタイルに一致しない要素はスキップ（createCssImageFilter）
+ * - 走査要素数は options.cssScanBudget で上限設定（デフォルト500要素）
+ *
+ * @param baseUrl - ベースURL
+ * @param options - 検出オプション
+ * @returns 画像候補の配列
+ */
+export const detectCSSBackgrounds = (
+  baseUrl: string,
+  options: DetectOptions = {}
+): ImageCandidate[] => {
+  const candidates: ImageCandidate[] = []
+  const filter = createCssImageFilter()
+
+  for (const el of getCssScanTargets(options, filter)) {
+    scanCssBackground(el, baseUrl, candidates, filter)
+  }
+
+  return candidates
+}
+
+/**
+ * CSS背景走査の対象要素を列挙します（背景画像を持ちうる要素のみ、走査上限まで）
+ */
+const getCssScanTargets = (
+  options: DetectOptions,
+  filter: CssImageFilter,
+  { queryAll }: DeepQuery = createDeepQuery(options.root)
+): Element[] => {
+  const budget = options.cssScanBudget ?? DEFAULT_CSS_SCAN_BUDGET
+  const targets: Element[] = []
+
+  for (const el of queryAll('*')) {
+    if (targets.length >= budget) break
+    if (NON_RENDERED_TAGS.has(el.tagName.toUpperCase())) continue
+    if (!filter.hasBackground(el) && !filter.hasPseudoImage(el)) continue
+    targets.push(el)
+  }
+
+  return targets
+}
+
+/**
+ * 1要素の背景画像（要素本体 + 疑似要素）を候補に追加します
+ */
+const scanCssBackground = (
+  el: Element,
+  baseUrl: string,
+  candidates: ImageCandidate[],
+  filter: CssImageFilter
+): void => {
+  // 要素本体 + 疑似要素のURLを収集（同一要素内の重複は除外）
+  const urls = new Set(
+    filter.hasBackground(el)
+      ? extractCssImageUrls(window.getComputedStyle(el).backgroundImage, baseUrl)
+      : []
+  )
+
+  const pseudoElements = filter.hasPseudoImage(el) ? ['::before', '::after'] : []
+
+  for (const pseudo of pseudoElements) {
+    const pseudoStyle = window.getComputedStyle(el, pseudo)
+    // content: none / normal の疑似要素は描画されない
+    if (pseudoStyle.content === 'none' || pseudoStyle.content === 'normal') continue
+
+    for (const url of extractCssImageUrls(pseudoStyle.backgroundImage, baseUrl)) {
+      urls.add(url)
+    }
+    // content: url(...) で直接画像を描画する疑似要素
+    for (const url of extractCssImageUrls(pseudoStyle.content, baseUrl)) {
+      urls.add(url)
+    }
+  }
+
+  if (urls.size === 0) return
+
+  const alt = extractContext(el)
+
+  for (const url of urls) {
+    pushCandidate(candidates, el, {
+      url,
+      source: 'css-bg',
+      // 注意: 背景画像の実寸は取得不可能なため、要素のサイズを記録
+      // clientWidth/Heightは要素の表示サイズであり、画像の実寸ではない
+      width: el.clientWidth > 0 ? el.clientWidth : undefined,
+      height: el.clientHeight > 0 ? el.clientHeight : undefined,
+      alt,
+    })
+  }
+}
+
+/**
+ * 遅延読み込み用のdata属性（data-bg等）から背景画像候補を検出します
+ *
+ * 属性値はURLそのもの、またはurl(...)形式のどちらにも対応します。
+ *
+ * @param baseUrl - ベースURL
+ * @param root - 走査ルート（デフォルト: document）
+ * @returns 画像候補の配列
+ */
+export const detectLazyBackgrounds = (
+  baseUrl: string,
+  root: SearchRoot = document
+): ImageCandidate[] => {
+  const candidates: ImageCandidate[] = []
+
+  for (const el of querySelectorAllDeep(LAZY_BG_SELECTOR, root)) {
+    scanLazyBackground(el, baseUrl, candidates)
+  }
+
+  return candidates
+}
+
+/**
+ * 遅延読み込み用のdata属性を持つ要素のセレクタ
+ */
+const LAZY_BG_SELECTOR = LAZY_BG_ATTRIBUTES.map((attribute) => `[${attribute}]`).join(', ')
+
+/**
+ * 1要素の遅延読み込み用data属性の背景画像を候補に追加します
+ */
+const scanLazyBackground = (el: Element, baseUrl: string, candidates: ImageCandidate[]): void => {
+  for (const attribute of LAZY_BG_ATTRIBUTES) {
+    const value = el.getAttribute(attribute)?.trim()
+    if (!value) continue
+
+    const urls = /url\(|image-set\(/i.test(value)
+      ? extractCssImageUrls(value, baseUrl)
+      : [normalizeUrl(value, baseUrl)]
+
+    for (const url of urls) {
+      if (!url) continue
+
+      pushCandidate(candidates, el, {
+        url,
+        source: 'css-bg',
+        width: el.clientWidth > 0 ? el.clientWidth : undefined,
+        height: el.clientHeight > 0 ? el.clientHeight : undefined,
+        alt: extractContext(el),
+      })
+    }
+  }
+}
+
+/**
+ * CSSルールを再帰的に走査し、画像URLを収集します
+ *
+ * - @import → 読み込まれたスタイルシート（独自のhrefで解決）
+ * - @media / @supports / @layer / @container / ネストしたスタイルルール → 子ルール
+ * - スタイルルール → STYLESHEET_IMAGE_PROPERTIESの値
+ *
+ * @param rules - 走査するルール
+ * @param sheetBaseUrl - URL解決に使用するスタイルシートのURL
+ * @param urls - 収集先（重複除外用のSet）
+ */
+const collectRuleImageUrls = (rules: CSSRuleList, sheetBaseUrl: string, urls: Set<string>) => {
+  // Note: フレーム間でCSSOMのクラスが異なるため、instanceofではなくプロパティの有無で判定
+  for (const rule of Array.from(rules)) {
+    if ('styleSheet' in rule) {
+      // @import: styleSheetはロード失敗時にnull
+      const imported = (rule as CSSImportRule).styleSheet
+      if (imported) {
+        collectSheetImageUrls(imported, sheetBaseUrl, urls)
+      }
+      continue
+    }
+
+    if ('style' in rule) {
+      const style = (rule as CSSStyleRule).style
+      for (const property of STYLESHEET_IMAGE_PROPERTIES) {
+        const value = style.getPropertyValue(property)
+        if (!value) continue
+
+        // url(#id) はSVG内部参照（マスク等）のため除外
+        const withoutFragments = value.replace(/url\(\s*['"]?#[^)]*\)/g, '')
+        for (const url of extractCssImageUrls(withoutFragments, sheetBaseUrl)) {
+          urls.add(url)
+        }
+      }
+    }
+
+    // グルーピングルール（@media, @supports等）とネストしたルール
+    if ('cssRules' in rule) {
+      collectRuleImageUrls((rule as CSSGroupingRule).cssRules, sheetBaseUrl, urls)
+    }
+  }
+}
+
+/**
+ * スタイルシート1枚から画像URLを収集します
+ *
+ * 相対URLはページではなくスタイルシート自身のhrefを基準に解決します。
+ * クロスオリジンのスタイルシートはcssRulesへのアクセスが拒否されるためスキップします。
+ *
+ * @param sheet - スタイルシート
+ * @param fallbackBaseUrl - hrefを持たないスタイルシート（<style>要素等）の基準URL
+ * @param urls - 収集先（重複除外用のSet）
+ */
+const collectSheetImageUrls = (
+  sheet: CSSStyleSheet,
+  fallbackBaseUrl: string,
+  urls: Set<string>
+) => {
+  let rules: CSSRuleList
+  try {
+    rules = sheet.cssRules
+  } catch {
+    // SecurityError: クロスオリジンのスタイルシート
+    return
+  }
+
+  collectRuleImageUrls(rules, sheet.href ?? fallbackBaseUrl, urls)
+}
+
+/**
+ * スタイルシートに記述された画像URLを検出します
+ *
+ * hover状態、別のメディアクエリ、JavaScriptで付け外しされるクラス等、
+ * 現在は適用されていないルールの画像も拾うため、document.styleSheets
+ * （およびshadow root内・adoptedStyleSheets）を直接走査します。
+ *
+ * 検出結果はsource: 'css-bg'、notRendered: trueとして返します。
+ * 描画中の背景画像と重複した場合はdetectImagesの重複除外で描画側が優先されます。
+ *
+ * @param baseUrl - ベースURL（<style>要素のスタイルシート用）
+ * @returns 画像候補の配列
+ */
+export const detectStylesheetImages = (baseUrl: string): ImageCandidate[] => {
+  const candidates: ImageCandidate[] = []
+  const scanSheet = createStylesheetScanner(baseUrl)
+
+  for (const sheet of getPageStyleSheets(findShadowRoots())) {
+    scanSheet(sheet, candidates)
+  }
+
+  return candidates
+}
+
+/**
+ * ページ上の全スタイルシートを列挙します
+ *
+ * @param shadowRoots - ドキュメント配下のshadow root
+ */
+const getPageStyleSheets = (shadowRoots: ShadowRoot[]): CSSStyleSheet[] => {
+  const sheets: CSSStyleSheet[] = Array.from(document.styleSheets)
+
+  // shadow root内の<style>/<link>はdocument.styleSheetsに含まれないため個別に取得
+  for (const shadowRoot of shadowRoots) {
+    for (const owner of shadowRoot.querySelectorAll<HTMLStyleElement | HTMLLinkElement>(
+      'style, link[rel~="stylesheet"]'
+    )) {
+      if (owner.sheet) sheets.push(owner.sheet)
+    }
+  }
+
+  // Constructable Stylesheets（Lit等のWeb Componentsが使用）
+  for (const root of [document, ...shadowRoots]) {
+    sheets.push(...(root.adoptedStyleSheets ?? []))
+  }
+
+  return sheets
+}
+
+/**
+ * スタイルシート1枚ずつ画像URLを候補に追加する関数を作成します
+ *
+ * 複数のスタイルシートに記述された同一URLは最初の1件のみ追加します。
+ */
+const createStylesheetScanner = (baseUrl: string) => {
+  const seen = new Set<string>()
+
+  return (sheet: CSSStyleSheet, candidates: ImageCandidate[]): void => {
+    const urls = new Set<string>()
+    collectSheetImageUrls(sheet, baseUrl, urls)
+
+    for (const url of urls) {
+      if (seen.has(url)) continue
+      seen.add(url)
+      candidates.push({ url, source: 'css-bg', notRendered: true })
+    }
+  }
+}
+
+/**
+ * <canvas>要素から画像候補を検出します
+ *
+ * toDataURL()を使用してcanvasの内容を画像化します。
+ * CORS汚染されたcanvasはスキップします。
+ *
+ * @param baseUrl - ベースURL（未使用、シグネチャ統一のため）
+ * @param root - 走査ルート（デフォルト: document）
+ * @returns 画像候補の配列
+ */
+export const detectCanvasElements = (
+  _baseUrl: string,
+  root: SearchRoot = document
+): ImageCandidate[] => {
+  const candidates: ImageCandidate[] = []
+
+  for (const canvas of querySelectorAllDeep<HTMLCanvasElement>('canvas', root)) {
+    scanCanvas(canvas, candidates)
+  }
+
+  return candidates
+}
+
+/**
+ * 1つの<canvas>の内容をdata URLとして候補に追加します
+ */
+const scanCanvas = (canvas: HTMLCanvasElement, candidates: ImageCandidate[]): void => {
+  try {
+    // canvas内容の有効性チェック
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return
+
+    // 空canvas（未描画）のチェック
+    // 1x1ピクセルをサンプリングして全ピクセルが透明または白/黒ならスキップ
+    if (canvas.width > 0 && canvas.height > 0) {
+      const imageData = ctx.getImageData(0, 0, 1, 1)
+      const isEmpty = imageData.data.every((value, index) =>
+        index % 4 === 3 ? value === 0 : value === 0 || value === 255
+      )
+      if (isEmpty) return
+    }
+
+    // toDataURL()でcanvasの内容をdata URLに変換
+    // CORS汚染がある場合はエラーが発生
+    const dataUrl = canvas.toDataURL('image/png')
+
+    if (!dataUrl?.startsWith('data:')) return
+
+    pushCandidate(candidates, canvas, {
+      url: dataUrl,
+      source: 'canvas',
+      width: canvas.width || undefined,
+      height: canvas.height || undefined,
+      alt: extractContext(canvas),
+    })
+  } catch (error) {
+    // CORS汚染やその他のエラーはスキップ
+    if (import.meta.env.DEV) {
+      console.debug('[detectCanvasElements] Failed to extract canvas:', error)
+    }
+  }
+}
+
+/**
+ * <video>の現在フレームをPNGのdata URLに変換します
+ *
+ * クロスオリジンの動画を描画したcanvasは汚染されるため、
+ * toDataURL()がSecurityErrorを投げた場合はnullを返します。
+ *
+ * @param video - 対象の<video>要素
+ * @returns PNGのdata URL、取得できない場合はnull
+ */
+const captureVideoFrame = (video: HTMLVideoElement): string | null => {
+  // フレームデータが未読込（HAVE_CURRENT_DATA未満）または寸法不明ならスキップ
+  if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return null
+  if (video.videoWidth === 0 || video.videoHeight === 0) return null
+
+  try {
+    const canvas = document.createElement('canvas')
+    canvas.width = video.videoWidth
+    canvas.height = video.videoHeight
+
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return null
+
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height)
+
+    const dataUrl = canvas.toDataURL('image/png')
+    return dataUrl.startsWith('data:image/png') ? dataUrl : null
+  } catch (error) {
+    // CORS汚染（SecurityError）時はposterのみにフォールバック
+    if (import.meta.env.DEV) {
+      console.debug('[captureVideoFrame] Failed to capture frame:', error)
+    }
+    return null
+  }
+}
+
+/**
+ * <video>要素から画像候補を検出します
+ *
+ * - poster属性の画像
+ * - captureVideoFramesが有効な場合、現在フレーム（canvas経由のPNG）
+ *
+ * @param baseUrl - ベースURL
+ * @param options - 検出オプション
+ * @returns 画像候補の配列
+ */
+export const detectVideoElements = (
+  baseUrl: string,
+  options: DetectOptions = {}
+): ImageCandidate[] => {
+  const candidates: ImageCandidate[] = []
+  const videos = querySelectorAllDeep<HTMLVideoElement>('video', options.root ?? document)
+
+  for (const video of videos) {
+    scanVideo(video, baseUrl, options, candidates)
+  }
+
+  return candidates
+}
+
+/**
+ * 1つの<video>のposterと（有効な場合）現在フレームを候補に追加します
+ */
+const scanVideo = (
+  video: HTMLVideoElement,
+  baseUrl: string,
+  options: DetectOptions,
+  candidates: ImageCandidate[]
+): void => {
+  const width = video.videoWidth || video.width || undefined
+  const height = video.videoHeight || video.height || undefined
+  const alt = extractContext(video)
+
+  const rawPoster = video.getAttribute('poster')
+  if (rawPoster?.trim()) {
+    const url = normalizeUrl(rawPoster.trim(), baseUrl)
+    if (url && url !== baseUrl) {
+      pushCandidate(candidates, video, { url, source: 'video', width, height, alt })
+    }
+  }
+
+  if (options.captureVideoFrames) {
+    const frameUrl = captureVideoFrame(video)
+    if (frameUrl) {
+      pushCandidate(candidates, video, { url: frameUrl, source: 'video', width, height, alt })
+    }
+  }
+}
+
+/**
+ * SVG内の参照先ID（href="#id" / url(#id)）を抽出します
+ *
+ * @param element - 走査対象の要素
+ * @returns 参照されているIDの配列
+ */
+const collectSvgReferences = (element: Element): string[] => {
+  const ids: string[] = []
+  const nodes = [element, ...Array.from(element.querySelectorAll('*'))]
+
+  for (const node of nodes) {
+    const href = node.getAttribute('href') ?? node.getAttributeNS(XLINK_NS, 'href')
+    if (href?.startsWith('#')) {
+      ids.push(href.slice(1))
+    }
+
+    for (const attr of Array.from(node.attributes)) {
+      const urlRefPattern = /url\(\s*['"]?#([^'")\s]+)['"]?\s*\)/g
+      let match: RegExpExecArray | null
+      while ((match = urlRefPattern.exec(attr.value)) !== null) {
+        if (match[1]) ids.push(match[1])
+      }
+    }
+  }
+
+  return ids
+}
+
+/**
+ * 計算済みのfill/stroke色をクローンに書き込みます
+ *
+ * currentColorやCSSクラスで着色されたアイコンは、ページ外では色を失うため
+ * 明示的な属性として固定します。
+ *
+ * @param original - ページ上のSVG要素
+ * @param clone - シリアライズ用のクローン
+ */
+const inlineComputedPaint = (original: SVGSVGElement, clone: SVGSVGElement): void => {
+  const originals = [original, ...Array.from(original.querySelectorAll('*'))]
+  const clones = [clone, ...Array.from(clone.querySelectorAll('*'))]
+
+  originals.forEach((node, index) => {
+    const target = clones[index]
+    if (!target) return
+
+    const style = window.getComputedStyle(node)
+    for (const property of ['fill', 'stroke'] as const) {
+      const value = style.getPropertyValue(property)
+      if (value && !target.hasAttribute(property)) {
+        target.setAttribute(property, value)
+      }
+    }
+  })
+}
+
+/**
+ * インラインSVGを自己完結した.svgファイル文字列に変換します
+ *
+ * 処理:
+ * 1. 要素をクローンし、xmlns属性を付与
+ * 2. 計算済みfill/strokeを属性として固定
+ * 3. <use href="#id">やurl(#id)の参照先（<symbol>/<defs>内の要素）を
+ *    ドキュメントから探して<defs>に複製（参照先の参照も再帰的に解決）
+ *
+ * @param svg - インラインSVG要素
+ * @returns シリアライズ済みSVG文字列
+ */
+export const serializeInlineSvg = (svg: SVGSVGElement): string => {
+  const clone = svg.cloneNode(true) as SVGSVGElement
+  clone.setAttribute('xmlns', SVG_NS)
+
+  inlineComputedPaint(svg, clone)
+
+  // 参照先の解決（外部スプライトシートの<symbol>等）
+  const resolved = new Set<string>()
+  const pending = collectSvgReferences(clone)
+  let defs: Element | null = null
+
+  while (pending.length > 0) {
+    const id = pending.shift()
+    if (!id || resolved.has(id)) continue
+    resolved.add(id)
+
+    // クローン内に既に存在する参照はそのまま
+    if (Array.from(clone.querySelectorAll('[id]')).some((el) => el.id === id)) continue
+
+    // Web Component内のスプライトはshadow rootを優先して探す
+    const rootNode = svg.getRootNode()
+    const referenced =
+      (rootNode instanceof ShadowRoot ? rootNode.getElementById(id) : null) ??
+      document.getElementById(id)
+    if (referenced?.namespaceURI !== SVG_NS) continue
+
+    if (!defs) {
+      defs = document.createElementNS(SVG_NS, 'defs')
+      clone.insertBefore(defs, clone.firstChild)
+    }
+
+    const copy = referenced.cloneNode(true) as Element
+    defs.appendChild(copy)
+    pending.push(...collectSvgReferences(copy))
+  }
+
+  // 表示サイズが取れる場合はwidth/heightを固定（viewBoxのみのSVG対策）
+  const rect = svg.getBoundingClientRect()
+  if (!clone.hasAttribute('width') && rect.width > 0) {
+    clone.setAttribute('width', String(Math.round(rect.width)))
+  }
+  if (!clone.hasAttribute('height') && rect.height > 0) {
+    clone.setAttribute('height', String(Math.round(rect.height)))
+  }
+
+  return new XMLSerializer().serializeToString(clone)
+}
+
+/**
+ * SVG文字列をdata URLに変換します（UTF-8 → base64）
+ */
+const toSvgDataUrl = (markup: string): string => {
+  const bytes = new TextEncoder().encode(markup)
+  let binary = ''
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte)
+  }
+  return `data:image/svg+xml;base64,${btoa(binary)}`
+}
+
+/**
+ * SVGの寸法を取得します（表示サイズ → width/height属性 → viewBox）
+ */
+const getSvgDimensions = (svg: SVGSVGElement): { width?: number; height?: number } => {
+  const rect = svg.getBoundingClientRect()
+  if (rect.width > 0 && rect.height > 0) {
+    return { width: Math.round(rect.width), height: Math.round(rect.height) }
+  }
+
+  const width = Number.parseFloat(svg.getAttribute('width') ?? '')
+  const height = Number.parseFloat(svg.getAttribute('height') ?? '')
+  if (width > 0 && height > 0) {
+    return { width: Math.round(width), height: Math.round(height) }
+  }
+
+  const viewBox = svg
+    .getAttribute('viewBox')
+    ?.split(/[\s,]+/)
+    .map(Number)
+  if (viewBox?.length === 4 && (viewBox[2] ?? 0) > 0 && (viewBox[3] ?? 0) > 0) {
+    return { width: Math.round(viewBox[2] ?? 0), height: Math.round(viewBox[3] ?? 0) }
+  }
+
+  return {}
+}
+
+/**
+ * インラインSVGのうち、描画内容を持たないもの（スプライトシート）か判定します
+ */
+const isSpriteSheet = (svg: SVGSVGElement): boolean => {
+  return Array.from(svg.children).every((child) =>
+    ['defs', 'symbol', 'style', 'title', 'desc', 'metadata'].includes(child.localName)
+  )
+}
+
+/**
+ * インラインSVGから画像候補を検出します
+ *
+ * 各<svg>要素を自己完結した.svgファイル（data URL）に変換します。
+ * <img src="*.svg">はdetectImgElementsが'svg'ソースとして検出します。
+ *
+ * スキップ対象:
+ * - 他の<svg>内にネストされた<svg>（親と一緒に出力される）
+ * - <symbol>/<defs>のみのスプライトシート
+ *
+ * @param _baseUrl - ベースURL（未使用、シグネチャ統一のため）
+ * @param root - 走査ルート（デフォルト: document）
+ * @returns 画像候補の配列
+ */
+export const detectSvgElements = (
+  _baseUrl: string,
+  root: SearchRoot = document
+): ImageCandidate[] => {
+  const candidates: ImageCandidate[] = []
+
+  for (const svg of querySelectorAllDeep<SVGSVGElement>('svg', root)) {
+    scanSvgElement(svg, candidates)
+  }
+
+  return candidates
+}
+
+/**
+ * 1つのインラインSVGをdata URLとして候補に追加します（ネストしたSVG・スプライトシートは除く）
+ */
+const scanSvgElement = (svg: SVGSVGElement, candidates: ImageCandidate[]): void => {
+  if (svg.parentElement?.closest('svg')) return
+  if (isSpriteSheet(svg)) return
+
+  try {
+    const url = toSvgDataUrl(serializeInlineSvg(svg))
+    const { width, height } = getSvgDimensions(svg)
+    const title = svg.querySelector('title')?.textContent?.trim()
+
+    pushCandidate(candidates, svg, {
+      url,
+      source: 'svg',
+      width,
+      height,
+      alt: title ? title.slice(0, 50) : extractContext(svg),
+    })
+  } catch (error) {
+    if (import.meta.env.DEV) {
+      console.debug('[detectSvgElements] Failed to serialize svg:', error)
+    }
+  }
+}
+
+/**
+ * JSON-LDで画像URLを保持するプロパティ
+ */
+const JSON_LD_IMAGE_PROPERTIES = ['image', 'logo', 'thumbnailUrl']
+
+/**
+ * JSON-LDの寸法値（数値、"800"、"800px"、QuantitativeValue）を数値に変換します
+ */
+const parseJsonLdDimension = (value: unknown): number | undefined => {
+  if (typeof value === 'object' && value !== null && 'value' in value) {
+    return parseJsonLdDimension((value as { value: unknown }).value)
+  }
+  const parsed = typeof value === 'number' ? value : Number.parseInt(String(value ?? ''), 10)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined
+}
+
+/**
+ * JSON-LDの画像値（URL文字列、ImageObject、またはその配列）から候補を生成します
+ *
+ * @param value - imageプロパティ等の値
+ * @param alt - 親ノードのname/headline
+ * @param baseUrl - ベースURL
+ * @param candidates - 収集先
+ */
+const collectJsonLdImageValue = (
+  value: unknown,
+  alt: string | undefined,
+  baseUrl: string,
+  candidates: ImageCandidate[]
+) => {
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      collectJsonLdImageValue(item, alt, baseUrl, candidates)
+    }
+    return
+  }
+
+  if (typeof value === 'string') {
+    const url = normalizeUrl(value.trim(), baseUrl)
+    if (url) candidates.push({ url, source: 'meta', alt })
+    return
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    // ImageObject: { url | contentUrl, width, height, caption }
+    const imageObject = value as Record<string, unknown>
+    const rawUrl = imageObject.contentUrl ?? imageObject.url
+    if (typeof rawUrl !== 'string') return
+
+    const url = normalizeUrl(rawUrl.trim(), baseUrl)
+    if (!url) return
+
+    const caption = typeof imageObject.caption === 'string' ? imageObject.caption : undefined
+
+    candidates.push({
+      url,
+      source: 'meta',
+      width: parseJsonLdDimension(imageObject.width),
+      height: parseJsonLdDimension(imageObject.height),
+      alt: caption ?? alt,
+    })
+  }
+}
+
+/**
+ * JSON-LDノードを再帰的に走査し、画像プロパティを収集します
+ *
+ * Product.image, Article.image, Organization.logo等の型を問わず、
+ * @graphやoffers等のネストしたノードも対象とします。
+ */
+const collectJsonLdImages = (node: unknown, baseUrl: string, candidates: ImageCandidate[]) => {
+  if (Array.isArray(node)) {
+    for (const item of node) {
+      collectJsonLdImages(item, baseUrl, candidates)
+    }
+    return
+  }
+
+  if (typeof node !== 'object' || node === null) return
+
+  const record = node as Record<string, unknown>
+  const name = record.name ?? record.headline
+  const alt = typeof name === 'string' ? name.slice(0, 50) : undefined
+
+  for (const [key, value] of Object.entries(record)) {
+    if (JSON_LD_IMAGE_PROPERTIES.includes(key)) {
+      collectJsonLdImageValue(value, alt, baseUrl, candidates)
+    } else if (typeof value === 'object' && value !== null) {
+      collectJsonLdImages(value, baseUrl, candidates)
+    }
+  }
+}
+
+/**
+ * <link rel="icon" sizes="32x32">のsizes属性から最大サイズを取得します
+ */
+const parseIconSizes = (sizes: string | null): { width?: number; height?: number } => {
+  let best: { width?: number; height?: number } = {}
+
+  for (const token of (sizes ?? '').split(/\s+/)) {
+    const match = /^(\d+)x(\d+)$/i.exec(token)
+    if (!match) continue
+
+    const width = Number(match[1])
+    const height = Number(match[2])
+    if (width > (best.width ?? 0)) {
+      best = { width, height }
+    }
+  }
+
+  return best
+}
+
+/**
+ * ページメタデータから画像候補を検出します
+ *
+ * - Open Graph: og:image（og:image:url / og:image:secure_url、直後のog:image:width/height/alt）
+ * - Twitterカード: twitter:image（twitter:image:src、twitter:image:alt）
+ * - アイコン: <link rel="icon">, apple-touch-icon（sizes属性から寸法）
+ * - JSON-LD: schema.orgのimage / logo / thumbnailUrl（Product, Article等）
+ *
+ * シェア画像や商品画像はページ上の表示画像より高解像度なことが多いため、
+ * source: 'meta'として区別し、ドメインプロファイルで収集対象から外せるようにしています。
+ *
+ * @param baseUrl - ベースURL
+ * @returns 画像候補の配列
+ */
+export const detectMetadataImages = (baseUrl: string): ImageCandidate[] => {
+  const candidates: ImageCandidate[] = []
+  const scanMetadata = createMetadataScanner(baseUrl)
+
+  for (const el of getMetadataElements(querySelectorAllDeep)) {
+    scanMetadata(el, candidates)
+  }
+
+  return candidates
+}
+
+/**
+ * 画像メタデータを持つ要素を列挙します（<meta>、アイコンの<link>、JSON-LDの順）
+ *
+ * @param queryAll - shadow root対応の検索関数
+ */
+const getMetadataElements = (queryAll: DeepQuery['queryAll']): Element[] => [
+  ...queryAll<HTMLMetaElement>('meta[property], meta[name]'),
+  ...queryAll<HTMLLinkElement>(
+    'link[rel~="icon"], link[rel~="apple-touch-icon"], link[rel~="apple-touch-icon-precomposed"]'
+  ),
+  ...queryAll<HTMLScriptElement>('script[type="application/ld+json"]'),
+]
+
+/**
+ * メタデータ要素1つずつ画像候補を追加する関数を作成します
+ *
+ * og:image:width等は直前のog:imageに対する構造化プロパティ（OGP仕様）のため、
+ * 直前に追加したog:image / twitter:imageの候補を保持します。
+ */
+const createMetadataScanner = (baseUrl: string) => {
+  const pageTitle = document.title.trim().slice(0, 50) || undefined
+  let currentOg: ImageCandidate | undefined
+  let currentTwitter: ImageCandidate | undefined
+
+  // Open Graph / Twitterカード
+  const scanMeta = (meta: Element, candidates: ImageCandidate[]) => {
+    const key = (meta.getAttribute('property') ?? meta.getAttribute('name') ?? '').toLowerCase()
+    const content = meta.getAttribute('content')?.trim()
+    if (!content) return
+
+    switch (key) {
+      case 'og:image':
+      case 'og:image:url':
+      case 'og:image:secure_url': {
+        const url = normalizeUrl(content, baseUrl)
+        if (!url) break
+        // og:image直後のog:image:urlは同一画像の別表記
+        if (currentOg?.url === url) break
+        currentOg = { url, source: 'meta', alt: pageTitle }
+        candidates.push(currentOg)
+        break
+      }
+      case 'og:image:width':
+        if (currentOg) currentOg.width = parseJsonLdDimension(content)
+        break
+      case 'og:image:height':
+        if (currentOg) currentOg.height = parseJsonLdDimension(content)
+        break
+      case 'og:image:alt':
+        if (currentOg) currentOg.alt = content.slice(0, 50)
+        break
+      case 'twitter:image':
+      case 'twitter:image:src': {
+        const url = normalizeUrl(content, baseUrl)
+        if (!url) break
+        currentTwitter = { url, source: 'meta', alt: pageTitle }
+        candidates.push(currentTwitter)
+        break
+      }
+      case 'twitter:image:alt':
+        if (currentTwitter) currentTwitter.alt = content.slice(0, 50)
+        break
+    }
+  }
+
+  // アイコン
+  const scanIcon = (link: Element, candidates: ImageCandidate[]) => {
+    const href = link.getAttribute('href')?.trim()
+    const url = href ? normalizeUrl(href, baseUrl) : ''
+    if (!url) return
+
+    candidates.push({
+      url,
+      source: 'meta',
+      ...parseIconSizes(link.getAttribute('sizes')),
+      alt: pageTitle,
+    })
+  }
+
+  // JSON-LD
+  const scanJsonLd = (script: Element, candidates: ImageCandidate[]) => {
+    try {
+      collectJsonLdImages(JSON.parse(script.textContent ?? ''), baseUrl, candidates)
+    } catch (error) {
+      // 不正なJSON-LDはサイト側の問題のためスキップ
+      if (import.meta.env.DEV) {
+        console.debug('[detectMetadataImages] Invalid JSON-LD:', error)
+      }
+    }
+  }
+
+  return (el: Element, candidates: ImageCandidate[]): void => {
+    if (el.localName === 'meta') scanMeta(el, candidates)
+    else if (el.localName === 'link') scanIcon(el, candidates)
+    else scanJsonLd(el, candidates)
+  }
+}
+
+/**
+ * 1つの<img srcset>の最大解像度の画像を候補に追加します
+ */
+const scanSrcsetImage = (
+  img: HTMLImageElement,
+  baseUrl: string,
+  candidates: ImageCandidate[]
+): void => {
+  const srcset = img.getAttribute('srcset')
+  if (!srcset) return
+
+  const url = extractSrcset(srcset, baseUrl)
+  if (!url) return
+
+  pushCandidate(candidates, img, {
+    url,
+    source: 'srcset',
+    width: img.naturalWidth > 0 ? img.naturalWidth : img.width > 0 ? img.width : undefined,
+    height: img.naturalHeight > 0 ? img.naturalHeight : img.height > 0 ? img.height : undefined,
+    alt: img.alt && img.alt.trim() !== '' ? img.alt : extractContext(img),
+  })
+}
+
+/**
+ * 検出フェーズ（detectImagesの統合順）
+ */
+export type DetectionPhase =
+  | 'img'
+  | 'picture'
+  | 'srcset'
+  | 'noscript'
+  | 'css-bg'
+  | 'lazy-bg'
+  | 'canvas'
+  | 'svg'
+  | 'video'
+  | 'meta'
+  | 'stylesheet'
+
+/**
+ * 検出ステップ
+ *
+ * 各フェーズを走査単位（要素、スタイルシート）ごとの処理に分け、
+ * detectImagesIncrementalで途中に制御を返せるようにします。
+ */
+interface DetectionStep {
+  phase: DetectionPhase
+  /**
+   * 走査単位ごとの処理を列挙（フェーズの開始時に呼び出す）
+   */
+  tasks: () => Array<(candidates: ImageCandidate[]) => void>
+}
+
+/**
+ * 対象の列挙と1件の走査から検出ステップを作成
+ */
+const createStep = <T>(
+  phase: DetectionPhase,
+  targets: () => T[],
+  scan: (target: T, candidates: ImageCandidate[]) => void
+): DetectionStep => ({
+  phase,
+  tasks: () => targets().map((target) => (candidates) => scan(target, candidates)),
+})
+
+/**
+ * 統合順に並べた検出ステップを作成
+ *
+ * shadow rootの列挙は最初のステップで1回だけ行い、全ステップで共有します。
+ */
+const getDetectionSteps = (options: DetectOptions): DetectionStep[] => {
+  const baseUrl = window.location.href
+  const query = createDeepQuery(options.root)
+  const { queryAll } = query
+  const cssImageFilter = createCssImageFilter()
+  const parser = new DOMParser()
+
+  const steps: DetectionStep[] = [
+    createStep(
+      'img',
+      () => queryAll<HTMLImageElement>('img'),
+      (img, candidates) => scanImgElement(img, baseUrl, candidates)
+    ),
+    createStep(
+      'picture',
+      () => queryAll<HTMLPictureElement>('picture'),
+      (picture, candidates) => scanPictureElement(picture, baseUrl, candidates)
+    ),
+    createStep(
+      'srcset',
+      () => queryAll<HTMLImageElement>('img[srcset]'),
+      (img, candidates) => scanSrcsetImage(img, baseUrl, candidates)
+    ),
+    createStep(
+      'noscript',
+      () => queryAll<HTMLElement>('noscript'),
+      (noscript, candidates) => scanNoscript(noscript, baseUrl, candidates, parser)
+    ),
+    createStep(
+      'css-bg',
+      () => getCssScanTargets(options, cssImageFilter, query),
+      (el, candidates) => scanCssBackground(el, baseUrl, candidates, cssImageFilter)
+    ),
+    createStep(
+      'lazy-bg',
+      () => queryAll(LAZY_BG_SELECTOR),
+      (el, candidates) => scanLazyBackground(el, baseUrl, candidates)
+    ),
+    createStep(
+      'canvas',
+      () => ((options.captureCanvas ?? true) ? queryAll<HTMLCanvasElement>('canvas') : []),
+      (canvas, candidates) => scanCanvas(canvas, candidates)
+    ),
+    createStep(
+      'svg',
+      () => queryAll<SVGSVGElement>('svg'),
+      (svg, candidates) => scanSvgElement(svg, candidates)
+    ),
+    createStep(
+      'video',
+      () => queryAll<HTMLVideoElement>('video'),
+      (video, candidates) => scanVideo(video, baseUrl, options, candidates)
+    ),
+  ]
+
+  // 部分木に限定した検出ではページ全体に属するメタデータ/スタイルシートは対象外
+  if (!options.root) {
+    // ページ上に表示中の同一画像はそちらのソースを優先
+    steps.push(
+      createStep('meta', () => getMetadataElements(queryAll), createMetadataScanner(baseUrl))
+    )
+
+    // 未描画のため最後に追加（描画中の同一URLを優先）
+    if (options.harvestStylesheets ?? true) {
+      steps.push(
+        createStep(
+          'stylesheet',
+          () => getPageStyleSheets(query.getShadowRoots()),
+          createStylesheetScanner(baseUrl)
+        )
+      )
+    }
+  }
+
+  return steps
+}
+
+/**
+ * 検出結果の統合処理
+ */
+interface CandidateMerge {
+  tasks: Array<() => void> // 候補ごとの出自情報の付与
+  finish: () => ImageCandidate[] // 全tasksの実行後に呼び出し、統合結果を返す
+}
+
+/**
+ * 全検出結果の統合処理を作成します（URLで重複除外し、出自情報を付与）
+ *
+ * 出自情報の付与（セレクタパス・見出しの探索）は候補ごとのtasksに分け、
+ * detectImagesIncrementalで途中に制御を返せるようにします。
+ */
+const createCandidateMerge = (allCandidates: ImageCandidate[]): CandidateMerge => {
+  // 重複除外（URLをキーとしたMap使用）
+  const uniqueMap = new Map<string, ImageCandidate>()
+  // URLごとに検出したソースと最初に見つかった要素（出自情報用）
+  const sourcesByUrl = new Map<string, Set<ImageSource>>()
+  const elementByUrl = new Map<string, Element>()
+
+  for (const candidate of allCandidates) {
+    const key = candidate.url
+
+    const sources = sourcesByUrl.get(key) ?? new Set<ImageSource>()
+    sources.add(candidate.source)
+    sourcesByUrl.set(key, sources)
+
+    const element = candidateElements.get(candidate)
+    if (element && !elementByUrl.has(key)) {
+      elementByUrl.set(key, element)
+    }
+
+    if (!uniqueMap.has(key)) {
+      uniqueMap.set(key, candidate)
+    } else {
+      // 既存の候補とマージ（より詳細な情報を優先）
+      const existing = uniqueMap.get(key)
+      if (!existing) continue // 念のためガード追加（型安全性）
+
+      // width/heightが未設定なら更新
+      if (!existing.width && candidate.width) {
+        existing.width = candidate.width
+      }
+      if (!existing.height && candidate.height) {
+        existing.height = candidate.height
+      }
+
+      // altが未設定なら更新
+      if (!existing.alt && candidate.alt) {
+        existing.alt = candidate.alt
+      }
+    }
+  }
+
+  // 出自情報を付与（documentIndexは要素を持つ候補のドキュメント順）
+  const results = Array.from(uniqueMap.values())
+  const locateHeading = createHeadingLocator()
+  const resolveSelectorPath = createSelectorPathResolver()
+
+  return {
+    tasks: results.map((candidate) => () => {
+      const sources = Array.from(sourcesByUrl.get(candidate.url) ?? [candidate.source])
+      const element = elementByUrl.get(candidate.url)
+      candidate.provenance = element
+        ? buildProvenance(element, sources, locateHeading, resolveSelectorPath)
+        : { sources }
+    }),
+    finish: () => {
+      Array.from(elementByUrl.entries())
+        .sort(([, a], [, b]) => compareDocumentOrder(a, b))
+        .forEach(([url], index) => {
+          const provenance = uniqueMap.get(url)?.provenance
+          if (provenance) provenance.documentIndex = index
+        })
+
+      return results
+    },
+  }
+}
+
+/**
+ * 全検出結果を統合します（URLで重複除外し、出自情報を付与）
+ */
+const mergeCandidates = (allCandidates: ImageCandidate[]): ImageCandidate[] => {
+  const merge = createCandidateMerge(allCandidates)
+  for (const task of merge.tasks) {
+    task()
+  }
+  return merge.finish()
+}
+
+/**
+ * ページ内の全画像を検出します（メイン検出関数）
+ *
+ * 9種類の画像ソースを統合的に検出し、重複を除外します。
+ * 大規模なDOMではメインスレッドを占有するため、detectImagesIncrementalを使用してください。
+ *
+ * @param options - 検出オプション
+ * @returns 検出された画像候補の配列（重複除外済み）
+ */
+export const detectImages = (options: DetectOptions = {}): ImageCandidate[] => {
+  const allCandidates: ImageCandidate[] = []
+
+  for (const step of getDetectionSteps(options)) {
+    for (const task of step.tasks()) {
+      task(allCandidates)
+    }
+  }
+
+  return mergeCandidates(allCandidates)
+}
+
+/**
+ * 段階的検出の進捗
+ */
+export interface DetectionProgress {
+  phase: DetectionPhase
+  phaseIndex: number // 0始まり
+  phaseCount: number
+  processed: number // フェーズ内で処理済みの要素数
+  total: number // フェーズ内の要素数
+}
+
+/**
+ * 段階的検出オプション
+ */
+export interface IncrementalDetectOptions extends DetectOptions {
+  frameBudgetMs?: number // 制御を返すまでの時間予算（デフォルト: DEFAULT_FRAME_BUDGET_MS）
+  onProgress?: (progress: DetectionProgress) => void
+}
+
+/**
+ * ページ内の全画像を段階的に検出します
+ *
+ * detectImagesと同じ結果を返しますが、時間予算を使い切るたびにメインスレッドへ
+ * 制御を返すため、数万ノードのページでもタブが固まりません。
+ * 全フェーズを要素（スタイルシートの収集は1枚）単位で分割します。
+ *
+ * @param options - 検出オプション
+ * @returns 検出された画像候補の配列（重複除外済み）
+ *
+ * @example
+ * const candidates = await detectImagesIncremental({
+ *   onProgress: ({ phaseIndex, phaseCount }) => console.log(`${phaseIndex + 1}/${phaseCount}`),
+ * })
+ */
+export const detectImagesIncremental = async (
+  options: IncrementalDetectOptions = {}
+): Promise<ImageCandidate[]> => {
+  const slicer = createTimeSlicer(options.frameBudgetMs)
+  const steps = getDetectionSteps(options)
+  const allCandidates: ImageCandidate[] = []
+
+  for (const [phaseIndex, step] of steps.entries()) {
+    const report = (processed: number, total: number) =>
+      options.onProgress?.({
+        phase: step.phase,
+        phaseIndex,
+        phaseCount: steps.length,
+        processed,
+        total,
+      })
+
+    const tasks = step.tasks()
+    report(0, tasks.length)
+
+    for (const [index, task] of tasks.entries()) {
+      task(allCandidates)
+      if (slicer.shouldYield()) {
+        report(index + 1, tasks.length)
+        await slicer.yield()
+      }
+    }
+
+    if (slicer.shouldYield()) {
+      await slicer.yield()
+    }
+  }
+
+  const merge = createCandidateMerge(allCandidates)
+  for (const task of merge.tasks) {
+    task()
+    if (slicer.shouldYield()) {
+      await slicer.yield()
     }
   }
 
-  return Array.from(uniqueMap.values())
+  return merge.finish()
 }
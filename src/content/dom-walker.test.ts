@@ -0,0 +1,128 @@
+/**
+ * DOM走査ユーティリティのテスト
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  closestComposed,
+  createDeepQuery,
+  findShadowRoots,
+  getComposedParent,
+  querySelectorAllDeep,
+} from './dom-walker'
+
+/**
+ * openなshadow rootを持つホスト要素を作成
+ */
+const createHost = (parent: Element, tag: string, shadowHtml: string): HTMLElement => {
+  const host = document.createElement(tag)
+  parent.appendChild(host)
+  const shadow = host.attachShadow({ mode: 'open' })
+  shadow.innerHTML = shadowHtml
+  return host
+}
+
+describe('dom-walker', () => {
+  beforeEach(() => {
+    document.body.innerHTML = ''
+  })
+
+  describe('findShadowRoots', () => {
+    it('ネストしたshadow rootも列挙する', () => {
+      const outer = createHost(document.body, 'x-outer', '<div class="inner-slot"></div>')
+      const innerParent = outer.shadowRoot?.querySelector('.inner-slot')
+      if (!innerParent) throw new Error('inner parent not found')
+      createHost(innerParent, 'x-inner', '<img src="/deep.jpg">')
+
+      expect(findShadowRoots()).toHaveLength(2)
+    })
+
+    it('closedなshadow rootは対象外', () => {
+      const host = document.createElement('x-closed')
+      document.body.appendChild(host)
+      host.attachShadow({ mode: 'closed' }).innerHTML = '<img src="/hidden.jpg">'
+
+      expect(findShadowRoots()).toHaveLength(0)
+    })
+  })
+
+  describe('querySelectorAllDeep', () => {
+    it('ドキュメントとshadow rootの両方から要素を取得する', () => {
+      document.body.innerHTML = '<img src="/light.jpg">'
+      createHost(document.body, 'x-gallery', '<img src="/shadow.jpg">')
+
+      const images = querySelectorAllDeep<HTMLImageElement>('img')
+
+      expect(images.map((img) => img.getAttribute('src'))).toEqual(['/light.jpg', '/shadow.jpg'])
+    })
+
+    it('shadow rootがない場合はquerySelectorAllと同じ結果を返す', () => {
+      document.body.innerHTML = '<img src="/a.jpg"><img src="/b.jpg">'
+
+      expect(querySelectorAllDeep('img')).toEqual(Array.from(document.querySelectorAll('img')))
+    })
+
+    it('Elementを起点にした場合は起点自身と部分木のみ対象にする', () => {
+      document.body.innerHTML =
+        '<img src="/outside.jpg"><div id="scope"><img src="/inside.jpg"></div>'
+      const scope = document.getElementById('scope') as HTMLElement
+      const host = createHost(scope, 'x-card', '<img src="/card.jpg">')
+
+      expect(
+        querySelectorAllDeep<HTMLImageElement>('img', scope).map((img) => img.getAttribute('src'))
+      ).toEqual(['/inside.jpg', '/card.jpg'])
+      expect(querySelectorAllDeep('x-card', host)).toEqual([host])
+    })
+  })
+
+  describe('createDeepQuery', () => {
+    it('shadow rootの列挙を最初の検索の1回にまとめる', () => {
+      document.body.innerHTML = '<img src="/light.jpg"><canvas></canvas>'
+      createHost(document.body, 'x-gallery', '<img src="/shadow.jpg"><canvas></canvas>')
+      const createTreeWalker = vi.spyOn(document, 'createTreeWalker')
+
+      const { queryAll, getShadowRoots } = createDeepQuery()
+      const images = queryAll<HTMLImageElement>('img')
+      const canvases = queryAll('canvas')
+
+      expect(images.map((img) => img.getAttribute('src'))).toEqual(['/light.jpg', '/shadow.jpg'])
+      expect(canvases).toHaveLength(2)
+      expect(getShadowRoots()).toHaveLength(1)
+      // documentとshadow rootを1回ずつ走査
+      expect(createTreeWalker).toHaveBeenCalledTimes(2)
+
+      createTreeWalker.mockRestore()
+    })
+  })
+
+  describe('getComposedParent / closestComposed', () => {
+    it('shadow root直下の要素はホストを親とする', () => {
+      const host = createHost(document.body, 'x-card', '<img src="/a.jpg">')
+      const img = host.shadowRoot?.querySelector('img')
+      if (!img) throw new Error('img not found')
+
+      expect(getComposedParent(img)).toBe(host)
+    })
+
+    it('slotに割り当てられた要素は<slot>を親とする', () => {
+      const host = createHost(document.body, 'x-frame', '<figure><slot></slot></figure>')
+      const img = document.createElement('img')
+      host.appendChild(img)
+
+      const slot = host.shadowRoot?.querySelector('slot')
+      expect(getComposedParent(img)).toBe(slot)
+      expect(closestComposed(img, 'figure')).toBe(host.shadowRoot?.querySelector('figure'))
+    })
+
+    it('Shadow境界を越えて祖先を探す', () => {
+      document.body.innerHTML = '<figure id="outer"></figure>'
+      const figure = document.getElementById('outer')
+      if (!figure) throw new Error('figure not found')
+      const host = createHost(figure, 'x-img', '<img src="/a.jpg">')
+      const img = host.shadowRoot?.querySelector('img')
+      if (!img) throw new Error('img not found')
+
+      expect(closestComposed(img, 'figure')).toBe(figure)
+    })
+  })
+})
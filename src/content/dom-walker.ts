@@ -0,0 +1,153 @@
+/**
+ * DOM走査ユーティリティ（Shadow DOM対応）
+ *
+ * document.querySelectorAllはShadow境界で止まるため、Lit/Stencil等の
+ * Web Components内の画像を見落とします。このモジュールはopenなshadow rootへ
+ * 降りる検索と、slotを考慮した祖先（composed tree）の辿り方を提供します。
+ *
+ * Note: closedなshadow rootはページ側からも参照できないため対象外です。
+ */
+
+/**
+ * 検索対象となるルート（Document、ShadowRoot、または部分木の起点となるElement）
+ */
+export type SearchRoot = Document | ShadowRoot | Element
+
+/**
+ * ルート配下のopenなshadow rootを再帰的に列挙します
+ *
+ * @param root - 走査開始ルート
+ * @returns 見つかったshadow rootの配列（ネストしたものを含む、深さ優先順）
+ */
+export const findShadowRoots = (root: SearchRoot = document): ShadowRoot[] => {
+  const shadowRoots: ShadowRoot[] = []
+
+  // Elementを起点にした場合は自身のshadow rootも含める
+  if (root instanceof Element && root.shadowRoot) {
+    shadowRoots.push(root.shadowRoot, ...findShadowRoots(root.shadowRoot))
+  }
+
+  // querySelectorAll('*')の列挙より軽量なTreeWalkerで要素を辿る
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_ELEMENT)
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const { shadowRoot } = node as Element
+    if (shadowRoot) {
+      shadowRoots.push(shadowRoot, ...findShadowRoots(shadowRoot))
+    }
+  }
+
+  return shadowRoots
+}
+
+/**
+ * openなshadow rootを含めてセレクタに一致する要素を列挙します
+ *
+ * ドキュメント側の一致が先、shadow root内の一致が後に並びます。
+ * Elementを起点にした場合、起点自身も一致対象に含みます。
+ *
+ * @param selector - CSSセレクタ
+ * @param root - 走査開始ルート（デフォルト: document）
+ * @param shadowRoots - 列挙済みのrootのshadow root（省略時はrootから列挙）
+ * @returns 一致した要素の配列
+ *
+ * @example
+ * querySelectorAllDeep<HTMLImageElement>('img')
+ * // => <my-gallery>のshadow root内の<img>も含む
+ */
+export const querySelectorAllDeep = <E extends Element = Element>(
+  selector: string,
+  root: SearchRoot = document,
+  shadowRoots: ShadowRoot[] = findShadowRoots(root)
+): E[] => {
+  const roots: SearchRoot[] = [root, ...shadowRoots]
+  const self = root instanceof Element && root.matches(selector) ? [root as E] : []
+  return [...self, ...roots.flatMap((r) => Array.from(r.querySelectorAll<E>(selector)))]
+}
+
+/**
+ * 同じルートを繰り返し検索するための検索関数
+ */
+export interface DeepQuery {
+  /**
+   * querySelectorAllDeepと同じ結果を返す（shadow rootは再列挙しない）
+   */
+  queryAll: <E extends Element = Element>(selector: string) => E[]
+  /**
+   * ルート配下のopenなshadow root（最初の呼び出し時に列挙）
+   */
+  getShadowRoots: () => ShadowRoot[]
+}
+
+/**
+ * 同じルートを繰り返し検索する関数を作成します
+ *
+ * shadow rootの列挙（全要素の走査）を最初の検索時の1回にまとめます。
+ * 2回目以降の検索では、その後にアタッチされたshadow rootは対象外です。
+ *
+ * @param root - 走査開始ルート（デフォルト: document）
+ * @returns 検索関数
+ *
+ * @example
+ * const { queryAll } = createDeepQuery()
+ * const images = queryAll<HTMLImageElement>('img')
+ * const canvases = queryAll<HTMLCanvasElement>('canvas') // shadow rootは再列挙しない
+ */
+export const createDeepQuery = (root: SearchRoot = document): DeepQuery => {
+  let shadowRoots: ShadowRoot[] | undefined
+  const getShadowRoots = () => (shadowRoots ??= findShadowRoots(root))
+
+  return {
+    queryAll: <E extends Element = Element>(selector: string) =>
+      querySelectorAllDeep<E>(selector, root, getShadowRoots()),
+    getShadowRoots,
+  }
+}
+
+/**
+ * composed tree上の親要素を取得します
+ *
+ * - slotに割り当てられた要素 → 割り当て先の<slot>
+ * - shadow rootの直下の要素 → ホスト要素
+ * - それ以外 → parentElement
+ *
+ * @param element - 起点の要素
+ * @returns 親要素、存在しない場合はnull
+ */
+export const getComposedParent = (element: Element): Element | null => {
+  if (element.assignedSlot) {
+    return element.assignedSlot
+  }
+
+  if (element.parentElement) {
+    return element.parentElement
+  }
+
+  const parentNode = element.parentNode
+  if (parentNode instanceof ShadowRoot) {
+    return parentNode.host
+  }
+
+  return null
+}
+
+/**
+ * composed treeを遡ってセレクタに一致する最も近い祖先（自身を含む）を探します
+ *
+ * Element.closest()のShadow DOM対応版です。
+ *
+ * @param element - 起点の要素
+ * @param selector - CSSセレクタ
+ * @returns 一致した要素、見つからない場合はnull
+ */
+export const closestComposed = (element: Element, selector: string): Element | null => {
+  let current: Element | null = element
+
+  while (current) {
+    if (current.matches(selector)) {
+      return current
+    }
+    current = getComposedParent(current)
+  }
+
+  return null
+}
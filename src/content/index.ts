@@ -3,18 +3,42 @@
  * ページ側で実行され、画像を検出してBackgroundに送信します
  *
  * 機能:
- * - 画像検出エンジンの実行
+ * - 画像検出エンジンの実行（時間予算ごとに制御を返し、進捗をページ上に表示）
  * - BackgroundへのIMAGES_DETECTEDメッセージ送信
  * - 自動スクロール（無限スクロール対応）
+ * - 操作レシピ（もっと見る・カルーセル送り等）の実行と、操作ごとの検出結果の蓄積
+ * - ページ送り収集時の次ページURL検出
+ * - ライブ検出（DOM変化を監視し、追加画像をIMAGES_ADDEDで送信）
+ * - 選択モード（オーバーレイでユーザーが指定した範囲・画像のみ送信）
+ * - 収集の中止（CANCEL_DETECTIONでスクロール・検出を打ち切り、結果は送信しない）
+ * - blob: URLの画像をページ内で読み取り、data URLとして送信
+ * - Backgroundで取得できなかった画像をページ内（Cookie・Referer付き）で取得し、ポートで返送
+ *
+ * 全フレーム（all_frames）で実行され、BackgroundはframeIdごとに結果を集約します。
  */
 
-import { detectImages } from './detector'
+import { resolveBlobUrls } from './blob-resolver'
+import { detectImagesIncremental, type DetectionProgress, type DetectOptions } from './detector'
+import { runInteractionRecipes } from './interaction-runner'
 import { autoScroll } from './lazy-loader'
-import { showMaxDepthDialog, showScrollProgress, hideScrollProgress } from './scroll-ui'
+import { findNextPageUrl } from './pagination'
+import { handlePageFetchPort } from './page-fetcher'
+import { startLiveDetection } from './live-detector'
+import { collectSelectedCandidates, showSelectionOverlay } from './selection-ui'
+import {
+  showMaxDepthDialog,
+  showScrollProgress,
+  hideScrollProgress,
+  showDetectionProgress,
+} from './scroll-ui'
 import type {
   ImagesDetectedMessage,
+  ImagesAddedMessage,
   BackgroundToContentMessage,
   ImageCandidate,
+  InteractionRecipe,
+  PaginationRule,
+  ScrollMode,
   ScrollResult,
 } from '../shared/types'
 
@@ -39,10 +63,11 @@ const log = (...args: unknown[]) => {
 /**
  * IMAGES_DETECTEDメッセージを送信
  */
-const sendImagesDetected = (candidates: ImageCandidate[]): void => {
+const sendImagesDetected = (candidates: ImageCandidate[], nextPageUrl?: string): void => {
   const message: ImagesDetectedMessage = {
     type: 'IMAGES_DETECTED',
     candidates,
+    nextPageUrl,
   }
 
   chrome.runtime.sendMessage(message, (response) => {
@@ -54,6 +79,34 @@ const sendImagesDetected = (candidates: ImageCandidate[]): void => {
   })
 }
 
+/**
+ * IMAGES_ADDEDメッセージを送信（ライブ検出の差分バッチ）
+ */
+const sendImagesAdded = (candidates: ImageCandidate[]): void => {
+  const message: ImagesAddedMessage = {
+    type: 'IMAGES_ADDED',
+    candidates,
+  }
+
+  chrome.runtime.sendMessage(message, (response) => {
+    if (chrome.runtime.lastError) {
+      log('Failed to send IMAGES_ADDED:', chrome.runtime.lastError.message)
+    } else {
+      log('IMAGES_ADDED sent successfully, response:', response)
+    }
+  })
+}
+
+/**
+ * 実行中のライブ検出の停止関数
+ */
+let stopLiveDetection: (() => void) | undefined
+
+/**
+ * 実行中の検出の中止用コントローラー
+ */
+let detectionController: AbortController | undefined
+
 /**
  * SCROLL_COMPLETEメッセージを送信
  */
@@ -86,6 +139,19 @@ const sendDetectionError = (error: unknown): void => {
   )
 }
 
+/**
+ * 段階的検出の進捗をページ上のインジケーターに表示
+ */
+const reportDetectionProgress = ({
+  phaseIndex,
+  phaseCount,
+  processed,
+  total,
+}: DetectionProgress): void => {
+  const phaseProgress = total > 0 ? processed / total : 0
+  showDetectionProgress(((phaseIndex + phaseProgress) / phaseCount) * 100)
+}
+
 /**
  * 画像検出を実行（スクロール有無に応じて）
  *
@@ -96,17 +162,133 @@ const runDetection = async (options: {
   maxDepth?: number
   timeout?: number
   scrollDelay?: number
+  captureVideoFrames?: boolean
+  cssScanBudget?: number
+  harvestStylesheets?: boolean
+  liveMode?: boolean
+  selectionMode?: boolean
+  scrollContainer?: string
+  scrollMode?: ScrollMode
+  interactionRecipes?: InteractionRecipe[]
+  pagination?: PaginationRule
 }) => {
-  log('Starting image detection...', { enableScroll: options.enableScroll })
+  // 子フレーム（iframe）は検出のみ行い、スクロールはトップフレームに任せる
+  const isTopFrame = window.top === window
+  const enableScroll = isTopFrame && options.enableScroll
+
+  log('Starting image detection...', { enableScroll, isTopFrame })
+
+  const detectOptions: DetectOptions = {
+    captureVideoFrames: options.captureVideoFrames,
+    cssScanBudget: options.cssScanBudget,
+    harvestStylesheets: options.harvestStylesheets,
+  }
+
+  // 前回のライブ検出・検出処理が残っていれば停止
+  stopLiveDetection?.()
+  stopLiveDetection = undefined
+  detectionController?.abort()
+  const controller = new AbortController()
+  detectionController = controller
+  const { signal } = controller
+
+  // 操作レシピはトップフレームのページに対してのみ実行
+  const recipes = isTopFrame ? (options.interactionRecipes ?? []) : []
+
+  // 操作やスクロールで取り外された要素（カルーセルのスライド、仮想化リストの行等）の画像も残すため、
+  // ステップごとの検出結果を蓄積
+  const captured = new Map<string, ImageCandidate>()
+  const captureStep = async (): Promise<void> => {
+    for (const candidate of await detectImagesIncremental(detectOptions)) {
+      if (!captured.has(candidate.url)) captured.set(candidate.url, candidate)
+    }
+  }
+
+  // 最終検出の結果に、DOMから消えた蓄積済みの候補を追加
+  const withCaptured = (candidates: ImageCandidate[]): ImageCandidate[] => {
+    const urls = new Set(candidates.map((candidate) => candidate.url))
+    return [
+      ...candidates,
+      ...[...captured.values()].filter((candidate) => !urls.has(candidate.url)),
+    ]
+  }
+
+  // 選択モード: トップフレームでユーザーが選んだ要素のみ検出（子フレームは対象外）
+  const detect = async (): Promise<ImageCandidate[]> => {
+    if (!options.selectionMode) {
+      // 大規模なDOMでもタブが固まらないよう、時間予算ごとに制御を返しながら検出
+      const candidates = await detectImagesIncremental({
+        ...detectOptions,
+        onProgress: isTopFrame ? reportDetectionProgress : undefined,
+      })
+      return resolveBlobUrls(withCaptured(candidates))
+    }
+    if (!isTopFrame) return []
+
+    const selected = await showSelectionOverlay()
+    if (!selected) {
+      throw new Error('Selection cancelled')
+    }
+    return resolveBlobUrls(collectSelectedCandidates(selected, detectOptions))
+  }
+
+  // ページ送り収集: トップフレームが次ページのURLを報告（Backgroundが巡回）
+  const nextPage = (): string | undefined =>
+    isTopFrame && options.pagination
+      ? (findNextPageUrl(options.pagination) ?? undefined)
+      : undefined
+
+  // 中止された場合は以降の検出・送信を行わない
+  const isCancelled = (): boolean => {
+    if (signal.aborted) log('Detection cancelled')
+    return signal.aborted
+  }
+
+  const startLive = (initial: ImageCandidate[]) => {
+    // 選択モードはユーザーが選んだ範囲に限定するため、ページ全体の監視は行わない
+    if (!options.liveMode || options.selectionMode) return
+    log('Live detection started')
+    stopLiveDetection = startLiveDetection({
+      detectOptions,
+      knownUrls: initial.map((candidate) => candidate.url),
+      onBatch: (candidates) => {
+        log(`Live detection found ${candidates.length} new images`)
+        resolveBlobUrls(candidates)
+          .then((resolved) => {
+            if (resolved.length > 0) sendImagesAdded(resolved)
+          })
+          .catch((error) => log('Failed to resolve blob URLs:', error))
+      },
+    })
+  }
 
   try {
-    if (options.enableScroll) {
+    if (recipes.length > 0) {
+      log('Running interaction recipes...', recipes)
+      // スクロール無効時は各スクロール間のレシピもここで実行
+      await runInteractionRecipes(recipes, 'before-scroll', { onStep: captureStep, signal })
+      if (!enableScroll) {
+        await runInteractionRecipes(recipes, 'each-scroll', { onStep: captureStep, signal })
+      }
+    }
+
+    if (isCancelled()) return
+
+    if (enableScroll) {
       // スクロール有効: 自動スクロールしてから画像検出
       log('Auto-scroll enabled, starting scroll...')
       const result = await autoScroll({
         maxDepth: options.maxDepth ?? 20,
         timeout: options.timeout ?? 15000,
         scrollDelay: options.scrollDelay ?? 500,
+        scrollContainer: options.scrollContainer,
+        mode: options.scrollMode,
+        signal,
+        onStep: async () => {
+          await runInteractionRecipes(recipes, 'each-scroll', { onStep: captureStep, signal })
+          // steppedモード: 画面外で取り除かれる前に各ステップで検出
+          if (options.scrollMode === 'stepped') await captureStep()
+        },
         onProgress: (scrollCount, state) => {
           log(`Scroll progress: ${scrollCount}, state: ${state}`)
           showScrollProgress(scrollCount, options.maxDepth ?? 20)
@@ -122,26 +304,32 @@ const runDetection = async (options: {
 
       log('Auto-scroll completed:', result)
       hideScrollProgress()
+      if (isCancelled()) return
 
-      const candidates = detectImages()
+      const candidates = await detect()
       log(`Detected ${candidates.length} images after scrolling`)
+      if (isCancelled()) return
 
-      sendImagesDetected(candidates)
+      sendImagesDetected(candidates, nextPage())
       sendScrollComplete(result)
+      startLive(candidates)
     } else {
       // スクロール無効: 即座に画像検出
       log('Auto-scroll disabled, detecting images immediately...')
-      const candidates = detectImages()
+      const candidates = await detect()
       log(`Detected ${candidates.length} images without scrolling`)
+      if (isCancelled()) return
 
-      sendImagesDetected(candidates)
+      sendImagesDetected(candidates, nextPage())
       // スクロール無効時はSCROLL_COMPLETEを送信しない
+      startLive(candidates)
     }
   } catch (error) {
     log('Detection error:', error)
-    sendDetectionError(error)
+    if (!signal.aborted) sendDetectionError(error)
   } finally {
     hideScrollProgress()
+    if (detectionController === controller) detectionController = undefined
   }
 }
 
@@ -160,14 +348,54 @@ chrome.runtime.onMessage.addListener(
         maxDepth: message.options?.maxDepth ?? 20,
         timeout: message.options?.timeout ?? 15000,
         scrollDelay: message.options?.scrollDelay ?? 500,
+        captureVideoFrames: message.options?.captureVideoFrames ?? false,
+        cssScanBudget: message.options?.cssScanBudget,
+        harvestStylesheets: message.options?.harvestStylesheets ?? true,
+        liveMode: message.options?.liveMode ?? false,
+        selectionMode: message.options?.selectionMode ?? false,
+        scrollContainer: message.options?.scrollContainer,
+        scrollMode: message.options?.scrollMode,
+        interactionRecipes: message.options?.interactionRecipes,
+        pagination: message.options?.pagination,
       })
 
       sendResponse({ status: 'STARTED' })
       return true // 非同期チャネルを有効化
     }
 
+    if (message.type === 'PING') {
+      sendResponse({ status: 'READY' })
+      return false
+    }
+
+    if (message.type === 'STOP_LIVE_DETECTION') {
+      stopLiveDetection?.()
+      stopLiveDetection = undefined
+      log('Live detection stopped')
+
+      sendResponse({ status: 'STOPPED' })
+      return false
+    }
+
+    if (message.type === 'CANCEL_DETECTION') {
+      detectionController?.abort()
+      detectionController = undefined
+      stopLiveDetection?.()
+      stopLiveDetection = undefined
+      hideScrollProgress()
+      log('Detection cancelled')
+
+      sendResponse({ status: 'CANCELLED' })
+      return false
+    }
+
     return false
   }
 )
 
+/**
+ * Backgroundからのページ内取得（'page-fetch'ポート）
+ */
+chrome.runtime.onConnect.addListener(handlePageFetchPort)
+
 log('Content script loaded')
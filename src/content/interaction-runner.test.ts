@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { runInteractionRecipe, runInteractionRecipes } from './interaction-runner'
+import { detectImages } from './detector'
+
+/**
+ * クリックのたびに画像を1枚追加し、max回で自身を取り除く「もっと見る」ボタン
+ */
+const setupLoadMore = (max: number): HTMLButtonElement => {
+  document.body.innerHTML = '<ul id="list"></ul><button class="load-more">More</button>'
+  const button = document.querySelector('.load-more') as HTMLButtonElement
+  let loaded = 0
+  button.addEventListener('click', () => {
+    setTimeout(() => {
+      loaded++
+      const item = document.createElement('li')
+      item.className = 'item'
+      item.innerHTML = `<img src="https://example.com/item-${loaded}.jpg">`
+      document.getElementById('list')?.appendChild(item)
+      if (loaded >= max) button.remove()
+    }, 5)
+  })
+  return button
+}
+
+describe('interaction-runner', () => {
+  afterEach(() => {
+    document.body.innerHTML = ''
+    vi.restoreAllMocks()
+  })
+
+  it('対象がなくなるまで繰り返し、操作ごとにonStepを呼ぶ', async () => {
+    setupLoadMore(3)
+    const onStep = vi.fn(async () => {})
+
+    const steps = await runInteractionRecipe(
+      {
+        selector: '.load-more',
+        action: 'click',
+        repeat: 10,
+        waitFor: { type: 'selector', selector: '.item' },
+      },
+      { onStep }
+    )
+
+    expect(steps).toBe(3)
+    expect(onStep).toHaveBeenCalledTimes(3)
+    expect(document.querySelectorAll('.item')).toHaveLength(3)
+  })
+
+  it('待機条件がタイムアウトしたら繰り返しを打ち切る', async () => {
+    document.body.innerHTML = '<button class="next">Next</button>'
+    const onClick = vi.fn()
+    document.querySelector('.next')?.addEventListener('click', onClick)
+
+    const steps = await runInteractionRecipe(
+      { selector: '.next', action: 'click', repeat: 5, waitFor: { type: 'dom-change' } },
+      { waitTimeout: 20 }
+    )
+
+    expect(steps).toBe(1)
+    expect(onClick).toHaveBeenCalledTimes(1)
+  })
+
+  it('取り外されるスライドの画像もonStepで検出できる', async () => {
+    document.body.innerHTML = `
+      <div class="carousel"><img src="https://example.com/slide-1.jpg"></div>
+      <button class="next">Next</button>
+    `
+    let slide = 1
+    document.querySelector('.next')?.addEventListener('click', () => {
+      slide++
+      const carousel = document.querySelector('.carousel') as HTMLElement
+      carousel.innerHTML = `<img src="https://example.com/slide-${slide}.jpg">`
+    })
+    const seen = new Set(detectImages().map((c) => c.url))
+
+    await runInteractionRecipe(
+      { selector: '.next', action: 'click', repeat: 2, waitFor: { type: 'delay', ms: 0 } },
+      {
+        onStep: async () => {
+          detectImages().forEach((c) => seen.add(c.url))
+        },
+      }
+    )
+
+    expect([...seen]).toEqual([
+      'https://example.com/slide-1.jpg',
+      'https://example.com/slide-2.jpg',
+      'https://example.com/slide-3.jpg',
+    ])
+  })
+
+  it('hoverとfocusはイベントを発火する', async () => {
+    document.body.innerHTML = '<div class="menu"></div><input class="field">'
+    const onMouseOver = vi.fn()
+    document.querySelector('.menu')?.addEventListener('mouseover', onMouseOver)
+
+    await runInteractionRecipe({
+      selector: '.menu',
+      action: 'hover',
+      waitFor: { type: 'delay', ms: 0 },
+    })
+    await runInteractionRecipe({
+      selector: '.field',
+      action: 'focus',
+      waitFor: { type: 'delay', ms: 0 },
+    })
+
+    expect(onMouseOver).toHaveBeenCalledTimes(1)
+    expect(document.activeElement).toBe(document.querySelector('.field'))
+  })
+
+  it('無効化された要素と無効なセレクタは操作しない', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    document.body.innerHTML = '<button class="more" disabled>More</button>'
+
+    expect(await runInteractionRecipe({ selector: '.more', action: 'click' })).toBe(0)
+    expect(await runInteractionRecipe({ selector: '[', action: 'click' })).toBe(0)
+  })
+
+  it('中止されたら待機を切り上げ、以降の操作と検出を行わない', async () => {
+    const button = setupLoadMore(10)
+    const onClick = vi.fn()
+    button.addEventListener('click', onClick)
+    const controller = new AbortController()
+    const onStep = vi.fn(async () => {})
+
+    const running = runInteractionRecipes(
+      [{ selector: '.load-more', action: 'click', repeat: 10, waitFor: { type: 'dom-change' } }],
+      'before-scroll',
+      { onStep, signal: controller.signal, waitTimeout: 60_000 }
+    )
+    controller.abort()
+
+    expect(await running).toBe(1)
+    expect(onClick).toHaveBeenCalledTimes(1)
+    expect(onStep).not.toHaveBeenCalled()
+  })
+
+  it('指定したタイミングのレシピのみ実行する', async () => {
+    document.body.innerHTML = '<button class="a"></button><button class="b"></button>'
+    const clicked: string[] = []
+    document.querySelector('.a')?.addEventListener('click', () => clicked.push('a'))
+    document.querySelector('.b')?.addEventListener('click', () => clicked.push('b'))
+    const wait = { type: 'delay', ms: 0 } as const
+
+    await runInteractionRecipes(
+      [
+        { selector: '.a', action: 'click', waitFor: wait },
+        { selector: '.b', action: 'click', waitFor: wait, timing: 'each-scroll' },
+      ],
+      'each-scroll'
+    )
+
+    expect(clicked).toEqual(['b'])
+  })
+})
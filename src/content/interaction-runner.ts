@@ -0,0 +1,244 @@
+/**
+ * 操作レシピ実行モジュール
+ *
+ * 「もっと見る」ボタン、カルーセルの「次へ」、「すべての写真を表示」モーダル、
+ * 折りたたまれた<details>等、操作しないと表示されない画像を出現させるため、
+ * ドメインプロファイルに登録された操作（クリック・ホバー・フォーカス）を実行します。
+ *
+ * - 1回の操作ごとに待機条件を満たすまで待ち、onStepを呼ぶ（呼び出し側で検出を実行）
+ * - 対象要素が見つからない、または待機条件がタイムアウトしたら繰り返しを打ち切る
+ * - 収集が中止されたら待機を切り上げ、以降の操作を行わない
+ */
+
+import type {
+  InteractionAction,
+  InteractionRecipe,
+  InteractionTiming,
+  InteractionWait,
+} from '../shared/types'
+import { querySelectorAllDeep } from './dom-walker'
+
+/**
+ * 待機条件を指定しない場合の待機時間（ms）
+ */
+export const DEFAULT_INTERACTION_DELAY_MS = 500
+
+/**
+ * セレクタ・DOM変化の待機タイムアウト（ms）
+ */
+export const INTERACTION_WAIT_TIMEOUT_MS = 5000
+
+/**
+ * 操作レシピの実行オプション
+ */
+export interface InteractionOptions {
+  onStep?: () => Promise<void> // 操作1回ごとの待機後に呼ばれる（検出の実行等）
+  waitTimeout?: number // セレクタ・DOM変化の待機タイムアウト（ms）
+  signal?: AbortSignal // 収集の中止
+}
+
+/**
+ * ユーティリティ: 指定時間待機（中止された場合はその時点で解決）
+ */
+const delay = (ms: number, signal?: AbortSignal): Promise<void> => {
+  if (signal?.aborted) return Promise.resolve()
+
+  return new Promise((resolve) => {
+    const finish = () => {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', finish)
+      resolve()
+    }
+    const timer = setTimeout(finish, ms)
+    signal?.addEventListener('abort', finish, { once: true })
+  })
+}
+
+/**
+ * 操作可能な要素か（無効化・非表示の要素は対象外）
+ */
+const isInteractable = (element: Element): element is HTMLElement => {
+  if (!(element instanceof HTMLElement) || element.hidden) return false
+  if (element.getAttribute('aria-disabled') === 'true') return false
+  return !(element instanceof HTMLButtonElement && element.disabled)
+}
+
+/**
+ * 操作対象の要素を検索（無効なセレクタは警告してnull）
+ */
+const findTarget = (selector: string): HTMLElement | null => {
+  try {
+    return querySelectorAllDeep(selector).find(isInteractable) ?? null
+  } catch (error) {
+    console.warn('[interaction-runner] Invalid selector:', selector, error)
+    return null
+  }
+}
+
+/**
+ * 要素に対して操作を実行
+ */
+const performAction = (element: HTMLElement, action: InteractionAction): void => {
+  element.scrollIntoView?.({ block: 'center' })
+
+  switch (action) {
+    case 'click':
+      element.click()
+      break
+    case 'hover':
+      // ホバーで表示されるメニュー等はmouseover/mouseenterのどちらかを監視している
+      for (const type of ['mouseover', 'mouseenter', 'mousemove']) {
+        element.dispatchEvent(new MouseEvent(type, { bubbles: type !== 'mouseenter' }))
+      }
+      break
+    case 'focus':
+      element.focus()
+      break
+  }
+}
+
+/**
+ * セレクタに一致する要素数を取得（無効なセレクタは0）
+ */
+const countMatches = (selector: string): number => {
+  try {
+    return querySelectorAllDeep(selector).length
+  } catch {
+    return 0
+  }
+}
+
+/**
+ * DOMが条件を満たすまで待機
+ *
+ * @param isSatisfied - 変化のたびに評価する条件（未指定なら最初の変化で満たす）
+ * @param signal - 中止シグナル
+ * @returns 条件を満たせばtrue、タイムアウト・中止ならfalse
+ */
+const waitForMutation = (
+  timeout: number,
+  isSatisfied?: () => boolean,
+  signal?: AbortSignal
+): Promise<boolean> => {
+  if (isSatisfied?.()) return Promise.resolve(true)
+  if (signal?.aborted) return Promise.resolve(false)
+
+  return new Promise((resolve) => {
+    const observer = new MutationObserver(() => {
+      if (isSatisfied && !isSatisfied()) return
+      finish(true)
+    })
+
+    const timer = setTimeout(() => finish(false), timeout)
+    const onAbort = () => finish(false)
+    signal?.addEventListener('abort', onAbort, { once: true })
+
+    const finish = (satisfied: boolean) => {
+      observer.disconnect()
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', onAbort)
+      resolve(satisfied)
+    }
+
+    observer.observe(document.documentElement, {
+      childList: true,
+      subtree: true,
+      attributes: true,
+    })
+  })
+}
+
+/**
+ * 操作後の待機条件を満たすまで待機
+ *
+ * @param wait - 待機条件
+ * @param countBefore - 操作前の待機セレクタの一致数（selector条件の場合）
+ * @returns 条件を満たせばtrue、タイムアウトならfalse
+ */
+const waitForCondition = async (
+  wait: InteractionWait | undefined,
+  countBefore: number,
+  timeout: number,
+  signal?: AbortSignal
+): Promise<boolean> => {
+  if (!wait) {
+    await delay(DEFAULT_INTERACTION_DELAY_MS, signal)
+    return true
+  }
+
+  switch (wait.type) {
+    case 'delay':
+      await delay(wait.ms, signal)
+      return true
+    case 'selector':
+      return waitForMutation(timeout, () => countMatches(wait.selector) > countBefore, signal)
+    case 'dom-change':
+      return waitForMutation(timeout, undefined, signal)
+  }
+}
+
+/**
+ * 操作レシピを1件実行します
+ *
+ * @param recipe - 操作レシピ
+ * @param options - 実行オプション
+ * @returns 実行した操作の回数
+ *
+ * @example
+ * // 「もっと見る」を最大5回押し、押すたびに検出
+ * await runInteractionRecipe(
+ *   { selector: '.load-more', action: 'click', repeat: 5, waitFor: { type: 'selector', selector: '.item' } },
+ *   { onStep: captureImages }
+ * )
+ */
+export const runInteractionRecipe = async (
+  recipe: InteractionRecipe,
+  options: InteractionOptions = {}
+): Promise<number> => {
+  const { onStep, signal, waitTimeout = INTERACTION_WAIT_TIMEOUT_MS } = options
+  const repeat = Math.max(1, recipe.repeat ?? 1)
+  let steps = 0
+
+  while (steps < repeat && !signal?.aborted) {
+    const target = findTarget(recipe.selector)
+    if (!target) break
+
+    const countBefore =
+      recipe.waitFor?.type === 'selector' ? countMatches(recipe.waitFor.selector) : 0
+
+    performAction(target, recipe.action)
+    const satisfied = await waitForCondition(recipe.waitFor, countBefore, waitTimeout, signal)
+    steps++
+
+    // 中止後は検出しない
+    if (signal?.aborted) break
+    await onStep?.()
+
+    // 操作しても変化がない（読込完了・最後のスライド等）なら打ち切る
+    if (!satisfied) break
+  }
+
+  return steps
+}
+
+/**
+ * 指定したタイミングの操作レシピを順に実行します
+ *
+ * @param recipes - ドメインプロファイルの操作レシピ
+ * @param timing - 実行するタイミング（timing未指定のレシピは'before-scroll'扱い）
+ * @param options - 実行オプション
+ * @returns 実行した操作の合計回数
+ */
+export const runInteractionRecipes = async (
+  recipes: InteractionRecipe[],
+  timing: InteractionTiming,
+  options: InteractionOptions = {}
+): Promise<number> => {
+  let steps = 0
+  for (const recipe of recipes) {
+    if (options.signal?.aborted) break
+    if ((recipe.timing ?? 'before-scroll') !== timing) continue
+    steps += await runInteractionRecipe(recipe, options)
+  }
+  return steps
+}
@@ -1,5 +1,10 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
-import { autoScroll, getScrollStateMessage, type ScrollState } from './lazy-loader'
+import {
+  autoScroll,
+  findScrollContainer,
+  getScrollStateMessage,
+  type ScrollState,
+} from './lazy-loader'
 
 describe('lazy-loader', () => {
   // モック用のタイマー
@@ -237,6 +242,236 @@ describe('lazy-loader', () => {
       expect(onProgress).toHaveBeenCalled()
       expect(onProgress.mock.calls.length).toBeGreaterThan(0)
     })
+
+    it('onStepで追加された内容も高さ判定に含める', async () => {
+      // onStep（「もっと見る」のクリック等）でのみ高さが増えるドキュメント
+      let scrollHeight = 1000
+      Object.defineProperty(document.documentElement, 'scrollHeight', {
+        configurable: true,
+        get: () => scrollHeight,
+      })
+
+      window.scrollTo = vi.fn() as unknown as typeof window.scrollTo // オーバーロード型対応
+
+      const onStep = vi.fn(async (scrollCount: number) => {
+        if (scrollCount <= 2) scrollHeight += 500
+      })
+
+      const promise = autoScroll({ scrollDelay: 100, timeout: 10000, onStep })
+
+      for (let i = 0; i < 5; i++) {
+        await vi.advanceTimersByTimeAsync(100)
+      }
+
+      const result = await promise
+
+      expect(result.state).toBe('BOTTOM_REACHED')
+      expect(result.scrollCount).toBe(5)
+      expect(onStep).toHaveBeenCalledTimes(5)
+    })
+
+    it('中止されるとCANCELLEDで終了し、onStepを呼ばない', async () => {
+      // 高さが増え続ける無限スクロール
+      let scrollHeight = 1000
+      Object.defineProperty(document.documentElement, 'scrollHeight', {
+        configurable: true,
+        get: () => (scrollHeight += 500),
+      })
+      window.scrollTo = vi.fn() as unknown as typeof window.scrollTo // オーバーロード型対応
+
+      const abortController = new AbortController()
+      const onStep = vi.fn(async () => {})
+      const promise = autoScroll({
+        scrollDelay: 100,
+        timeout: 10000,
+        onStep,
+        signal: abortController.signal,
+      })
+
+      await vi.advanceTimersByTimeAsync(100)
+      abortController.abort()
+      await vi.advanceTimersByTimeAsync(100)
+
+      const result = await promise
+
+      expect(result.state).toBe('CANCELLED')
+      expect(result.scrollCount).toBe(2)
+      expect(onStep).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('steppedモード', () => {
+    const pageHeight = window.innerHeight * 3
+    let position = 0
+
+    beforeEach(() => {
+      position = 300 // ユーザーが少しスクロールした状態から開始
+      Object.defineProperty(document.documentElement, 'scrollHeight', {
+        configurable: true,
+        get: () => pageHeight,
+      })
+      vi.spyOn(window, 'scrollY', 'get').mockImplementation(() => position)
+      window.scrollTo = vi.fn((_x: number, y: number) => {
+        position = Math.min(y, pageHeight - window.innerHeight)
+      }) as unknown as typeof window.scrollTo
+    })
+
+    it('1画面ずつスクロールし、各ステップでonStepを呼ぶ', async () => {
+      const stepPositions: number[] = []
+      const onStep = vi.fn(async () => {
+        stepPositions.push(position)
+      })
+
+      const promise = autoScroll({ mode: 'stepped', timeout: 10000, onStep })
+      for (let i = 0; i < 4; i++) {
+        await vi.advanceTimersByTimeAsync(100)
+      }
+      const result = await promise
+
+      expect(result.state).toBe('BOTTOM_REACHED')
+      const bottom = pageHeight - window.innerHeight
+      expect(stepPositions).toEqual([300 + window.innerHeight, bottom, bottom, bottom])
+    })
+
+    it('終了後は開始時のスクロール位置へ戻す', async () => {
+      const promise = autoScroll({ mode: 'stepped', timeout: 10000 })
+      await vi.advanceTimersByTimeAsync(400)
+      await promise
+
+      expect(window.scrollTo).toHaveBeenLastCalledWith(0, 300)
+      expect(position).toBe(300)
+    })
+
+    it('表示中の画像の読込完了を待ってから次のステップへ進む', async () => {
+      document.body.innerHTML = '<img src="https://example.com/lazy.jpg">'
+      const img = document.querySelector('img') as HTMLImageElement
+      Object.defineProperty(img, 'complete', { configurable: true, get: () => false })
+
+      const onStep = vi.fn(async () => {})
+      const promise = autoScroll({ mode: 'stepped', timeout: 60000, maxDepth: 1, onStep })
+
+      await vi.advanceTimersByTimeAsync(1000)
+      expect(onStep).not.toHaveBeenCalled()
+
+      img.dispatchEvent(new Event('load'))
+      await vi.advanceTimersByTimeAsync(0)
+      await promise
+
+      expect(onStep).toHaveBeenCalledTimes(1)
+      document.body.innerHTML = ''
+    })
+
+    it('読込待ちがタイムアウトした画像のリスナーを外す', async () => {
+      document.body.innerHTML = '<img src="https://example.com/stalled.jpg">'
+      const img = document.querySelector('img') as HTMLImageElement
+      Object.defineProperty(img, 'complete', { configurable: true, get: () => false })
+      const addEventListener = vi.spyOn(img, 'addEventListener')
+
+      const promise = autoScroll({ mode: 'stepped', timeout: 60000, maxDepth: 1 })
+      await vi.advanceTimersByTimeAsync(5000)
+      await promise
+
+      const signals = addEventListener.mock.calls.map(
+        ([, , options]) => (options as AddEventListenerOptions).signal
+      )
+      expect(signals).toHaveLength(2)
+      expect(signals.every((signal) => signal?.aborted)).toBe(true)
+      document.body.innerHTML = ''
+    })
+  })
+
+  describe('スクロールコンテナ', () => {
+    // 要素のレイアウト値をモック
+    const mockLayout = (
+      element: Element,
+      layout: { scrollHeight: () => number; clientHeight: number; clientWidth: number }
+    ) => {
+      Object.defineProperty(element, 'scrollHeight', {
+        configurable: true,
+        get: layout.scrollHeight,
+      })
+      Object.defineProperty(element, 'clientHeight', {
+        configurable: true,
+        value: layout.clientHeight,
+      })
+      Object.defineProperty(element, 'clientWidth', {
+        configurable: true,
+        value: layout.clientWidth,
+      })
+    }
+
+    beforeEach(() => {
+      // ページ全体はスクロールしないアプリ型のレイアウト
+      Object.defineProperty(document.documentElement, 'scrollHeight', {
+        configurable: true,
+        get: () => window.innerHeight,
+      })
+      window.scrollTo = vi.fn() as unknown as typeof window.scrollTo // オーバーロード型対応
+    })
+
+    afterEach(() => {
+      document.body.innerHTML = ''
+    })
+
+    it('ページがスクロールしない場合は最大のスクロールコンテナをスクロールする', async () => {
+      document.body.innerHTML = `
+        <nav id="sidebar" style="overflow-y: auto"></nav>
+        <main id="feed" style="overflow-y: auto"></main>
+      `
+      const sidebar = document.getElementById('sidebar') as HTMLElement
+      const feed = document.getElementById('feed') as HTMLElement
+      mockLayout(sidebar, { scrollHeight: () => 2000, clientHeight: 700, clientWidth: 200 })
+      mockLayout(feed, { scrollHeight: () => 3000, clientHeight: 700, clientWidth: 800 })
+
+      const scrollPositions: number[] = []
+      Object.defineProperty(feed, 'scrollTop', {
+        configurable: true,
+        get: () => scrollPositions[scrollPositions.length - 1] ?? 0,
+        set: (value: number) => scrollPositions.push(value),
+      })
+
+      const promise = autoScroll({ scrollDelay: 100 })
+      for (let i = 0; i < 3; i++) {
+        await vi.advanceTimersByTimeAsync(100)
+      }
+      const result = await promise
+
+      expect(result.state).toBe('BOTTOM_REACHED')
+      expect(result.finalHeight).toBe(3000)
+      expect(scrollPositions).toEqual([3000, 3000, 3000, 0]) // 最下部へ3回 → 開始位置へ復帰
+      expect(window.scrollTo).not.toHaveBeenCalled()
+    })
+
+    it('セレクタ指定のコンテナを優先する', async () => {
+      document.body.innerHTML = '<div class="chat-log" style="overflow-y: scroll"></div>'
+      const chat = document.querySelector('.chat-log') as HTMLElement
+      let scrollHeight = 1000
+      mockLayout(chat, {
+        scrollHeight: () => (scrollHeight += 100),
+        clientHeight: 100,
+        clientWidth: 100,
+      })
+
+      const promise = autoScroll({
+        scrollContainer: '.chat-log',
+        maxDepth: 2,
+        scrollDelay: 100,
+        timeout: 10000,
+      })
+      await vi.advanceTimersByTimeAsync(300)
+      const result = await promise
+
+      expect(result.state).toBe('BOTTOM_REACHED') // コールバックなしの最大深度到達
+      expect(result.scrollCount).toBe(2)
+    })
+
+    it('小さなスクロール要素はコンテナとみなさない', () => {
+      document.body.innerHTML = '<pre style="overflow-y: auto"></pre>'
+      const pre = document.querySelector('pre') as HTMLElement
+      mockLayout(pre, { scrollHeight: () => 1000, clientHeight: 100, clientWidth: 300 })
+
+      expect(findScrollContainer()).toBeNull()
+    })
   })
 
   describe('getScrollStateMessage', () => {
@@ -8,10 +8,16 @@
  * - タイムアウト: デフォルト15秒
  * - スクロール待機: 500ms（コンテンツ読込待機）
  * - 最下部判定: 3回連続で高さ変化なし
- * - 終了後: トップへ自動復帰
+ * - 終了後: 開始時のスクロール位置へ復帰
+ * - スクロール対象: ページ全体、または内側のスクロールコンテナ（チャット、フィード列、モーダル等）
+ * - スクロール方式: 最下部へ一気に移動（jump）、または1画面ずつ移動して各ステップで検出（stepped）
+ *   steppedは画面外のノードを取り除く仮想化リスト（react-window等）や、
+ *   IntersectionObserverで読み込む画像を取りこぼさないためのモードです。
+ * - 中止: AbortSignalで中止するとCANCELLEDで終了（開始位置へは復帰）
  */
 
-import type { ScrollState, ScrollResult } from '../shared/types'
+import type { ScrollMode, ScrollState, ScrollResult } from '../shared/types'
+import { querySelectorAllDeep } from './dom-walker'
 
 // Re-export ScrollState for test files
 export type { ScrollState }
@@ -22,9 +28,13 @@ export type { ScrollState }
 export interface ScrollOptions {
   maxDepth?: number // 最大深度（デフォルト: 20画面）
   timeout?: number // タイムアウト（ms、デフォルト: 15000）
-  scrollDelay?: number // スクロール待機時間（ms、デフォルト: 500）
+  scrollDelay?: number // スクロール待機時間（ms、デフォルト: 500。jumpモードのみ）
   onProgress?: (scrollCount: number, state: ScrollState) => void // 進捗コールバック
   onMaxDepthReached?: () => Promise<'continue' | 'stop' | 'cancel'> // 最大深度到達時の処理
+  scrollContainer?: string // スクロール対象のCSSセレクタ（未指定なら自動判定）
+  mode?: ScrollMode // スクロール方式（デフォルト: 'jump'）
+  onStep?: (scrollCount: number) => Promise<void> // 各スクロールの読込待機後、高さ判定の前に呼ばれる（操作レシピ等）
+  signal?: AbortSignal // 収集の中止
 }
 
 /**
@@ -35,24 +45,165 @@ const delay = (ms: number): Promise<void> => {
 }
 
 /**
- * 現在のドキュメント高さを取得
+ * スクロール対象（ページ全体または内側のスクロールコンテナ）
  */
-const getDocumentHeight = (): number => {
-  return document.documentElement.scrollHeight
+interface ScrollTarget {
+  getHeight: () => number // スクロール可能な内容の高さ
+  getViewportHeight: () => number // 表示領域の高さ
+  getScrollTop: () => number
+  scrollTo: (top: number) => void
 }
 
 /**
- * ページ最下部にスクロール
+ * ページ全体（window）のスクロール対象
  */
-const scrollToBottom = (): void => {
-  window.scrollTo(0, document.documentElement.scrollHeight)
+const windowTarget: ScrollTarget = {
+  getHeight: () => document.documentElement.scrollHeight,
+  getViewportHeight: () => window.innerHeight,
+  getScrollTop: () => window.scrollY,
+  scrollTo: (top) => window.scrollTo(0, top),
 }
 
 /**
- * ページトップにスクロール
+ * 要素のスクロール対象
  */
-const scrollToTop = (): void => {
-  window.scrollTo(0, 0)
+const createElementTarget = (element: Element): ScrollTarget => ({
+  getHeight: () => element.scrollHeight,
+  getViewportHeight: () => element.clientHeight,
+  getScrollTop: () => element.scrollTop,
+  scrollTo: (top) => {
+    element.scrollTop = top
+  },
+})
+
+/**
+ * スクロール量がこれ以下の要素はスクロール可能とみなさない（px）
+ */
+const MIN_SCROLLABLE_OVERFLOW = 50
+
+/**
+ * コンテナとみなす最小の表示面積（ビューポートに対する割合）
+ */
+const MIN_CONTAINER_VIEWPORT_RATIO = 0.25
+
+/**
+ * 要素が縦方向にスクロール可能かを判定
+ */
+const isScrollableElement = (element: Element): boolean => {
+  if (element.scrollHeight - element.clientHeight <= MIN_SCROLLABLE_OVERFLOW) return false
+
+  const overflowY = window.getComputedStyle(element).overflowY
+  return overflowY === 'auto' || overflowY === 'scroll' || overflowY === 'overlay'
+}
+
+/**
+ * ページ全体が縦方向にスクロール可能かを判定
+ */
+const isWindowScrollable = (): boolean =>
+  document.documentElement.scrollHeight - window.innerHeight > MIN_SCROLLABLE_OVERFLOW
+
+/**
+ * 最も大きく表示されている内側のスクロールコンテナを検索します
+ *
+ * overflow-y: auto/scroll で実際にはみ出している要素のうち、表示面積が最大のものを返します。
+ * 面積がビューポートの25%未満の要素（小さなリスト、コードブロック等）は対象外です。
+ *
+ * @returns スクロールコンテナ、見つからない場合はnull
+ */
+export const findScrollContainer = (): Element | null => {
+  const viewportArea = window.innerWidth * window.innerHeight
+  let best: Element | null = null
+  let bestArea = viewportArea * MIN_CONTAINER_VIEWPORT_RATIO
+
+  for (const element of querySelectorAllDeep('*')) {
+    if (element === document.documentElement || element === document.body) continue
+    if (!isScrollableElement(element)) continue
+
+    const area = element.clientWidth * element.clientHeight
+    if (area >= bestArea) {
+      best = element
+      bestArea = area
+    }
+  }
+
+  return best
+}
+
+/**
+ * スクロール対象を決定します
+ *
+ * 1. セレクタ指定（ドメインプロファイル）に一致するスクロール可能な要素
+ * 2. ページ全体がスクロール可能ならwindow
+ * 3. 最も大きいスクロールコンテナ（アプリ型のページ）
+ * 4. いずれもなければwindow
+ *
+ * @param selector - スクロール対象のCSSセレクタ
+ */
+const resolveScrollTarget = (selector: string | undefined): ScrollTarget => {
+  if (selector) {
+    try {
+      const element = querySelectorAllDeep(selector).find(isScrollableElement)
+      if (element) return createElementTarget(element)
+    } catch (error) {
+      // 無効なセレクタは自動判定にフォールバック
+      console.warn('[lazy-loader] Invalid scroll container selector:', selector, error)
+    }
+  }
+
+  if (isWindowScrollable()) return windowTarget
+
+  const container = findScrollContainer()
+  return container ? createElementTarget(container) : windowTarget
+}
+
+/**
+ * steppedモード: スクロール後、IntersectionObserver等が画像のsrcを設定するまでの待機時間（ms）
+ */
+const STEP_SETTLE_MS = 100
+
+/**
+ * steppedモード: 表示中の画像の読込を待つ最大時間（ms）
+ */
+const STEP_IMAGE_LOAD_TIMEOUT_MS = 3000
+
+/**
+ * ビューポート内で読込中の画像を取得
+ */
+const getPendingImages = (): HTMLImageElement[] =>
+  querySelectorAllDeep<HTMLImageElement>('img').filter((img) => {
+    if (img.complete || !(img.currentSrc || img.src)) return false
+    const rect = img.getBoundingClientRect()
+    return rect.bottom >= 0 && rect.top <= window.innerHeight
+  })
+
+/**
+ * ビューポート内の画像の読込完了（またはエラー）を待機
+ *
+ * 固定のscrollDelayの代わりに使用し、読込が早ければすぐ次のステップへ進みます。
+ * 待機を終えたら（タイムアウトした場合も）画像に登録したリスナーを外します。
+ *
+ * @param timeout - 最大待機時間（ms）
+ */
+const waitForVisibleImages = async (timeout: number): Promise<void> => {
+  await delay(STEP_SETTLE_MS)
+
+  const pending = getPendingImages()
+  if (pending.length === 0) return
+
+  const listeners = new AbortController()
+  const loads = pending.map(
+    (img) =>
+      new Promise<void>((resolve) => {
+        const options = { once: true, signal: listeners.signal }
+        img.addEventListener('load', () => resolve(), options)
+        img.addEventListener('error', () => resolve(), options)
+      })
+  )
+  try {
+    await Promise.race([Promise.all(loads), delay(timeout)])
+  } finally {
+    listeners.abort()
+  }
 }
 
 /**
@@ -71,17 +222,26 @@ const evaluateScrollState = (params: {
   maxDepth: number
   elapsed: number
   timeout: number
+  atBottom: boolean // 表示領域が内容の末尾に達しているか
 }): { newState: ScrollState; newNoChangeCount: number } => {
-  const { currentHeight, previousHeight, noChangeCount, scrollCount, maxDepth, elapsed, timeout } =
-    params
+  const {
+    currentHeight,
+    previousHeight,
+    noChangeCount,
+    scrollCount,
+    maxDepth,
+    elapsed,
+    timeout,
+    atBottom,
+  } = params
 
   // a. タイムアウト判定（最優先）
   if (elapsed >= timeout) {
     return { newState: 'TIMEOUT_REACHED', newNoChangeCount: noChangeCount }
   }
 
-  // b. 最下部到達判定
-  if (currentHeight === previousHeight) {
+  // b. 最下部到達判定（末尾に達した状態で高さが変化しない）
+  if (atBottom && currentHeight === previousHeight) {
     const updatedNoChangeCount = noChangeCount + 1
     if (updatedNoChangeCount >= 3) {
       return { newState: 'BOTTOM_REACHED', newNoChangeCount: updatedNoChangeCount }
@@ -89,13 +249,13 @@ const evaluateScrollState = (params: {
     return { newState: 'SCROLLING', newNoChangeCount: updatedNoChangeCount }
   }
 
-  // 高さが変化した場合はnoChangeCountをリセット
+  // 高さが変化した（または末尾に達していない）場合はnoChangeCountをリセット
   const resetNoChangeCount = 0
 
   // c. 最大深度判定
   if (scrollCount >= maxDepth) {
-    // Note: b判定を通過済みのため、この時点でcurrentHeight !== previousHeightは保証されている
-    // つまり、高さが変化している = 無限スクロール継続中
+    // Note: b判定を通過済みのため、この時点で高さが変化している（無限スクロール継続中）か、
+    // steppedモードでまだ末尾に達していない
     return { newState: 'MAX_DEPTH_REACHED', newNoChangeCount: resetNoChangeCount }
   }
 
@@ -113,7 +273,13 @@ const evaluateScrollState = (params: {
  *    b. 最下部到達判定（3回連続変化なし）
  *    c. 最大深度判定（ユーザー選択）
  *    d. 継続
- * 3. 終了処理: トップ復帰
+ * 3. 終了処理: 開始時のスクロール位置へ復帰
+ *
+ * スクロール対象はresolveScrollTargetで決定します（ページ全体または内側のコンテナ）。
+ * onStepで読み込まれた内容も高さ判定に含まれます。
+ *
+ * steppedモードでは1画面ずつスクロールし、scrollDelayの代わりに表示中の画像の読込を待ちます。
+ * 各ステップのonStepで検出を行うことで、画面外で取り除かれるノードの画像も収集できます。
  *
  * @param options - スクロールオプション
  * @returns スクロール結果
@@ -125,33 +291,59 @@ export const autoScroll = async (options: ScrollOptions = {}): Promise<ScrollRes
     scrollDelay = 500,
     onProgress,
     onMaxDepthReached,
+    scrollContainer,
+    mode = 'jump',
+    onStep,
+    signal,
   } = options
 
+  const target = resolveScrollTarget(scrollContainer)
+  const initialScrollTop = target.getScrollTop()
+
   // 状態初期化
   let state: ScrollState = 'SCROLLING'
   let scrollCount = 0
   let noChangeCount = 0
-  let previousHeight = getDocumentHeight()
+  let previousHeight = target.getHeight()
   const startTime = Date.now()
   let currentMaxDepth = maxDepth // 動的に変更可能なmaxDepth
 
   // スクロールループ
   while (state === 'SCROLLING') {
-    // 1. 最下部にスクロール
-    scrollToBottom()
+    if (mode === 'stepped') {
+      // 1. 1画面分スクロール
+      target.scrollTo(target.getScrollTop() + target.getViewportHeight())
+
+      // 2. 表示中の画像の読込待機
+      await waitForVisibleImages(STEP_IMAGE_LOAD_TIMEOUT_MS)
+    } else {
+      // 1. 最下部にスクロール
+      target.scrollTo(target.getHeight())
 
-    // 2. コンテンツ読込待機
-    await delay(scrollDelay)
+      // 2. コンテンツ読込待機
+      await delay(scrollDelay)
+    }
 
     // 3. スクロール完了後にカウント増加
     scrollCount++
 
+    // スクロールの合間の処理（操作レシピ等）
+    if (!signal?.aborted) await onStep?.(scrollCount)
+
+    // 中止された場合は待機中のスクロールを打ち切る
+    if (signal?.aborted) {
+      state = 'CANCELLED'
+      break
+    }
+
     // 4. 進捗コールバック呼び出し
     onProgress?.(scrollCount, state)
 
     // 5. 現在の高さを取得
-    const currentHeight = getDocumentHeight()
+    const currentHeight = target.getHeight()
     const elapsed = Date.now() - startTime
+    const atBottom =
+      mode !== 'stepped' || target.getScrollTop() + target.getViewportHeight() >= currentHeight - 1
 
     // 6. スクロール状態を評価
     const evaluation = evaluateScrollState({
@@ -162,6 +354,7 @@ export const autoScroll = async (options: ScrollOptions = {}): Promise<ScrollRes
       maxDepth: currentMaxDepth,
       elapsed,
       timeout,
+      atBottom,
     })
 
     state = evaluation.newState
@@ -200,13 +393,13 @@ export const autoScroll = async (options: ScrollOptions = {}): Promise<ScrollRes
     previousHeight = currentHeight
   }
 
-  // 5. 終了処理: トップ復帰
-  scrollToTop()
+  // 5. 終了処理: 開始時の位置へ復帰
+  target.scrollTo(initialScrollTop)
 
   return {
     state,
     scrollCount,
-    finalHeight: getDocumentHeight(),
+    finalHeight: target.getHeight(),
     elapsed: Date.now() - startTime,
   }
 }
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { startLiveDetection } from './live-detector'
+import type { ImageCandidate } from '../shared/types'
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+const batchUrls = (onBatch: ReturnType<typeof vi.fn>, call: number): string[] =>
+  ((onBatch.mock.calls[call]?.[0] ?? []) as ImageCandidate[]).map((c) => c.url)
+
+const addImage = (src: string): HTMLImageElement => {
+  const img = document.createElement('img')
+  img.src = src
+  document.body.appendChild(img)
+  return img
+}
+
+describe('startLiveDetection', () => {
+  let stop: (() => void) | undefined
+
+  afterEach(() => {
+    stop?.()
+    stop = undefined
+    document.body.innerHTML = ''
+  })
+
+  it('追加された画像を差分バッチとして通知する', async () => {
+    addImage('https://example.com/initial.jpg')
+    const onBatch = vi.fn()
+
+    stop = startLiveDetection({
+      knownUrls: ['https://example.com/initial.jpg'],
+      intervalMs: 10,
+      onBatch,
+    })
+
+    addImage('https://example.com/feed-1.jpg')
+    addImage('https://example.com/feed-2.jpg')
+    await vi.waitFor(() => expect(onBatch).toHaveBeenCalled())
+    await wait(50)
+
+    expect(onBatch).toHaveBeenCalledTimes(1)
+    expect(batchUrls(onBatch, 0)).toEqual([
+      'https://example.com/feed-1.jpg',
+      'https://example.com/feed-2.jpg',
+    ])
+  })
+
+  it('送信済みのURLは再送しない', async () => {
+    const onBatch = vi.fn()
+    stop = startLiveDetection({ intervalMs: 10, onBatch })
+
+    addImage('https://example.com/a.jpg')
+    await vi.waitFor(() => expect(onBatch).toHaveBeenCalledTimes(1))
+    addImage('https://example.com/a.jpg')
+    addImage('https://example.com/b.jpg')
+    await vi.waitFor(() => expect(onBatch).toHaveBeenCalledTimes(2))
+    expect(batchUrls(onBatch, 1)).toEqual(['https://example.com/b.jpg'])
+  })
+
+  it('src属性の変更（遅延読み込みの差し替え）を検知する', async () => {
+    const img = addImage('https://example.com/placeholder.gif')
+    const onBatch = vi.fn()
+    stop = startLiveDetection({
+      knownUrls: ['https://example.com/placeholder.gif'],
+      intervalMs: 10,
+      onBatch,
+    })
+
+    img.src = 'https://example.com/real.jpg'
+    await vi.waitFor(() => expect(onBatch).toHaveBeenCalled())
+
+    expect(batchUrls(onBatch, 0)).toEqual(['https://example.com/real.jpg'])
+  })
+
+  it('<canvas>・<video>の現在フレームはバッチに含めない', async () => {
+    let frame = 0
+    const toDataURL = vi
+      .spyOn(HTMLCanvasElement.prototype, 'toDataURL')
+      .mockImplementation(() => `data:image/png;base64,frame${frame++}`)
+    const onBatch = vi.fn()
+    stop = startLiveDetection({
+      detectOptions: { captureVideoFrames: true },
+      intervalMs: 10,
+      onBatch,
+    })
+
+    const canvas = document.createElement('canvas')
+    canvas.width = 200
+    canvas.height = 200
+    document.body.appendChild(canvas)
+    addImage('https://example.com/a.jpg')
+    await vi.waitFor(() => expect(onBatch).toHaveBeenCalled())
+    canvas.setAttribute('class', 'redrawn')
+    await wait(50)
+
+    expect(onBatch).toHaveBeenCalledTimes(1)
+    expect(batchUrls(onBatch, 0)).toEqual(['https://example.com/a.jpg'])
+    expect(toDataURL).not.toHaveBeenCalled()
+    toDataURL.mockRestore()
+  })
+
+  it('停止後は通知しない', async () => {
+    const onBatch = vi.fn()
+    stop = startLiveDetection({ intervalMs: 10, onBatch })
+
+    addImage('https://example.com/a.jpg')
+    stop()
+    await wait(50)
+
+    expect(onBatch).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,133 @@
+/**
+ * ライブ検出（MutationObserverによる継続監視）
+ *
+ * 初回検出後に追加された画像（無限フィード、SPAのルート遷移、カルーセル等）を
+ * 拾うため、DOMの変化と画像のloadイベントを監視して検出を再実行し、
+ * 未送信の候補だけをバッチとして通知します。
+ *
+ * - 変化が続いても一定間隔で必ずバッチを送る（スロットリング）
+ * - 送信済みURLはセッション中保持し、同じ候補を二度送らない
+ * - 検出は段階的（detectImagesIncremental）に行い、長いフィードでもメインスレッドを塞がない
+ * - <canvas>・<video>の現在フレームは対象外（内容が変わるたびにURLが変わり、
+ *   アニメーションや再生中の動画で同じ画像のPNGを送り続けるため）
+ *
+ * Note: MutationObserverはshadow root内の変化を検知しないため、
+ * Web Components内部だけの変化は次の変化またはloadイベントで拾われます。
+ */
+
+import { detectImagesIncremental, LAZY_IMAGE_ATTRIBUTES, type DetectOptions } from './detector'
+import type { ImageCandidate } from '../shared/types'
+
+/**
+ * 変化を検知してから再検出するまでの間隔（ms）
+ */
+export const LIVE_BATCH_INTERVAL_MS = 1000
+
+/**
+ * 画像URLの変化につながる属性
+ */
+const OBSERVED_ATTRIBUTES = ['src', 'srcset', 'poster', 'style', 'class', ...LAZY_IMAGE_ATTRIBUTES]
+
+/**
+ * ライブ検出オプション
+ */
+export interface LiveDetectionOptions {
+  detectOptions?: DetectOptions
+  knownUrls?: Iterable<string> // 初回検出で送信済みのURL
+  intervalMs?: number
+  onBatch: (candidates: ImageCandidate[]) => void
+}
+
+/**
+ * ライブ検出を開始します
+ *
+ * @param options - 検出オプションとバッチ通知コールバック
+ * @returns 監視を停止する関数
+ *
+ * @example
+ * const stop = startLiveDetection({
+ *   knownUrls: initial.map((c) => c.url),
+ *   onBatch: (candidates) => sendImagesAdded(candidates),
+ * })
+ * // ...
+ * stop()
+ */
+export const startLiveDetection = (options: LiveDetectionOptions): (() => void) => {
+  const { detectOptions = {}, intervalMs = LIVE_BATCH_INTERVAL_MS, onBatch } = options
+  const liveDetectOptions: DetectOptions = {
+    ...detectOptions,
+    captureCanvas: false,
+    captureVideoFrames: false,
+  }
+  const seenUrls = new Set(options.knownUrls)
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let running = false // 検出中
+  let pending = false // 検出中に変化を検知した
+  let stopped = false
+
+  const flush = async () => {
+    timer = undefined
+    if (stopped) return
+
+    running = true
+    try {
+      const detected = await detectImagesIncremental(liveDetectOptions)
+      if (stopped) return
+
+      const added = detected.filter((candidate) => !seenUrls.has(candidate.url))
+      if (added.length === 0) return
+
+      for (const candidate of added) {
+        seenUrls.add(candidate.url)
+      }
+      onBatch(added)
+    } finally {
+      running = false
+      if (pending) {
+        pending = false
+        schedule()
+      }
+    }
+  }
+
+  const schedule = () => {
+    if (stopped || timer) return
+    // 検出中の変化は検出の完了後にまとめて拾う
+    if (running) {
+      pending = true
+      return
+    }
+    timer = setTimeout(() => {
+      flush().catch((error: unknown) => {
+        console.warn('[startLiveDetection] Detection failed:', error)
+      })
+    }, intervalMs)
+  }
+
+  // 画像のloadイベントはバブリングしないためキャプチャフェーズで受ける
+  const handleLoad = (event: Event) => {
+    if (event.target instanceof HTMLImageElement) {
+      schedule()
+    }
+  }
+
+  const observer = new MutationObserver(schedule)
+  observer.observe(document.documentElement, {
+    childList: true,
+    subtree: true,
+    attributes: true,
+    attributeFilter: OBSERVED_ATTRIBUTES,
+  })
+  document.addEventListener('load', handleLoad, true)
+
+  return () => {
+    if (stopped) return
+    stopped = true
+    observer.disconnect()
+    document.removeEventListener('load', handleLoad, true)
+    if (timer) {
+      clearTimeout(timer)
+      timer = undefined
+    }
+  }
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { fetchImageInPage, handlePageFetchPort, PAGE_FETCH_CHUNK_BYTES } from './page-fetcher'
+import { PAGE_FETCH_PORT, type PageFetchRequest, type PageFetchResponse } from '../shared/types'
+
+/**
+ * Backgroundから接続されたポートのモック
+ */
+const createMockPort = (name = PAGE_FETCH_PORT) => {
+  const messageListeners: Array<(message: PageFetchRequest) => void> = []
+  const posted: PageFetchResponse[] = []
+
+  return {
+    port: {
+      name,
+      postMessage: vi.fn((message: PageFetchResponse) => posted.push(message)),
+      onMessage: {
+        addListener: (listener: (message: PageFetchRequest) => void) =>
+          messageListeners.push(listener),
+      },
+      onDisconnect: { addListener: vi.fn() },
+    } as unknown as chrome.runtime.Port,
+    request: (url: string) =>
+      messageListeners.forEach((listener) => listener({ type: 'PAGE_FETCH', url })),
+    posted,
+  }
+}
+
+describe('page-fetcher', () => {
+  const originalFetch = global.fetch
+
+  afterEach(() => {
+    global.fetch = originalFetch
+    vi.restoreAllMocks()
+    document.body.innerHTML = ''
+  })
+
+  describe('fetchImageInPage', () => {
+    it('ページのCookie付きでfetchする', async () => {
+      global.fetch = vi.fn(async () => new Response('members-only', { status: 200 }))
+
+      const image = await fetchImageInPage('https://example.com/private.jpg')
+
+      expect(global.fetch).toHaveBeenCalledWith('https://example.com/private.jpg', {
+        credentials: 'include',
+      })
+      expect(new TextDecoder().decode(image.bytes)).toBe('members-only')
+      expect(image.via).toBe('fetch')
+    })
+
+    it('fetchできない同一オリジンの画像は描画済みの<img>をcanvas経由で読み取る', async () => {
+      global.fetch = vi.fn(async () => new Response(null, { status: 403 }))
+      const url = `${window.location.origin}/private.jpg`
+
+      const img = document.createElement('img')
+      img.src = url
+      Object.defineProperty(img, 'complete', { value: true })
+      Object.defineProperty(img, 'naturalWidth', { value: 40 })
+      Object.defineProperty(img, 'naturalHeight', { value: 30 })
+      document.body.appendChild(img)
+
+      vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue({
+        drawImage: vi.fn(),
+      } as unknown as CanvasRenderingContext2D)
+      const png = await new Response('png-bytes').blob()
+      vi.spyOn(HTMLCanvasElement.prototype, 'toBlob').mockImplementation((callback) =>
+        callback(png)
+      )
+
+      const image = await fetchImageInPage(url)
+
+      expect(image.via).toBe('canvas')
+      expect(image.contentType).toBe('image/png')
+      expect(new TextDecoder().decode(image.bytes)).toBe('png-bytes')
+    })
+
+    it('別オリジンの画像はcanvasで読み取らず、fetchのエラーを返す', async () => {
+      global.fetch = vi.fn(async () => new Response(null, { status: 403 }))
+      const getContext = vi.spyOn(HTMLCanvasElement.prototype, 'getContext')
+
+      await expect(fetchImageInPage('https://cdn.example.net/a.jpg')).rejects.toThrow('HTTP 403')
+      expect(getContext).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('handlePageFetchPort', () => {
+    it('バイト列を分割して送信し、完了を通知する', async () => {
+      const bytes = new Uint8Array(PAGE_FETCH_CHUNK_BYTES + 10).map((_, i) => i % 256)
+      global.fetch = vi.fn(
+        async () => new Response(bytes, { status: 200, headers: { 'Content-Type': 'image/webp' } })
+      )
+      const { port, request, posted } = createMockPort()
+
+      handlePageFetchPort(port)
+      request('https://example.com/large.webp')
+
+      await vi.waitFor(() => {
+        expect(posted[posted.length - 1]?.type).toBe('PAGE_FETCH_DONE')
+      })
+
+      const chunks = posted.filter((message) => message.type === 'PAGE_FETCH_CHUNK')
+      expect(chunks).toHaveLength(2)
+      const received = chunks.flatMap((chunk) =>
+        Array.from(atob(chunk.data), (char) => char.charCodeAt(0))
+      )
+      expect(received).toEqual(Array.from(bytes))
+      expect(posted[posted.length - 1]).toEqual({
+        type: 'PAGE_FETCH_DONE',
+        contentType: 'image/webp',
+        via: 'fetch',
+      })
+    })
+
+    it('取得できない場合はエラーを送信する', async () => {
+      global.fetch = vi.fn(async () => {
+        throw new TypeError('Failed to fetch')
+      })
+      const { port, request, posted } = createMockPort()
+
+      handlePageFetchPort(port)
+      request('https://cdn.example.net/a.jpg')
+
+      await vi.waitFor(() => {
+        expect(posted).toEqual([{ type: 'PAGE_FETCH_ERROR', message: 'Failed to fetch' }])
+      })
+    })
+
+    it('他の名前のポートは処理しない', () => {
+      const { port } = createMockPort('other')
+      const addListener = vi.spyOn(port.onMessage, 'addListener')
+
+      handlePageFetchPort(port)
+
+      expect(addListener).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,155 @@
+/**
+ * ページ内での画像取得（Backgroundでの取得に失敗した画像のフォールバック）
+ *
+ * Service Workerからのfetchはページのオリジン・Refererを伴わないため、ログインが必要な
+ * サイトやReferer制限・CORS制限のある画像は取得できません。Content Scriptからページの
+ * Cookie付きで取得し直し、バイト列をポートで分割してBackgroundへ返します
+ * （Backgroundでハッシュ化・ZIP化されます）。
+ *
+ * 取得順:
+ * 1. ページのコンテキストでfetch（Cookie・Referer付き）
+ * 2. 失敗した場合、同一オリジンの描画済み<img>をcanvas経由でPNG化
+ */
+
+import { querySelectorAllDeep } from './dom-walker'
+import { PAGE_FETCH_PORT, type PageFetchRequest, type PageFetchResponse } from '../shared/types'
+
+/**
+ * 1メッセージで送るバイト数（Base64化前）
+ */
+export const PAGE_FETCH_CHUNK_BYTES = 256 * 1024
+
+/**
+ * 取得したバイト列と形式
+ */
+interface PageImage {
+  bytes: Uint8Array
+  contentType: string
+  via: 'fetch' | 'canvas'
+}
+
+/**
+ * バイト列をBase64文字列に変換
+ */
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = ''
+  // String.fromCharCodeの引数上限を避けるため分割して変換
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000))
+  }
+  return btoa(binary)
+}
+
+/**
+ * ページのコンテキストでfetch（Cookie・Referer付き）
+ *
+ * @throws HTTPエラー、CORS・ネットワークエラーの場合
+ */
+const fetchWithPageCredentials = async (url: string): Promise<PageImage> => {
+  const response = await fetch(url, { credentials: 'include' })
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`)
+  }
+
+  const blob = await response.blob()
+  return {
+    bytes: new Uint8Array(await blob.arrayBuffer()),
+    contentType: blob.type || 'image/unknown',
+    via: 'fetch',
+  }
+}
+
+/**
+ * 同一オリジンの描画済み<img>をcanvasに描画してPNG化
+ *
+ * 別オリジンの画像はcanvasが汚染（tainted）され読み取れないため対象外です。
+ *
+ * @returns PNGのバイト列、該当する<img>がない場合はnull
+ */
+const captureSameOriginImage = async (url: string): Promise<PageImage | null> => {
+  let origin: string
+  try {
+    origin = new URL(url, document.baseURI).origin
+  } catch {
+    return null
+  }
+  if (origin !== window.location.origin) return null
+
+  const img = querySelectorAllDeep<HTMLImageElement>('img').find(
+    (el) => (el.currentSrc || el.src) === url && el.complete && el.naturalWidth > 0
+  )
+  if (!img) return null
+
+  const canvas = document.createElement('canvas')
+  canvas.width = img.naturalWidth
+  canvas.height = img.naturalHeight
+
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return null
+  ctx.drawImage(img, 0, 0)
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'))
+  if (!blob) return null
+
+  return {
+    bytes: new Uint8Array(await blob.arrayBuffer()),
+    contentType: 'image/png',
+    via: 'canvas',
+  }
+}
+
+/**
+ * 画像をページ内で取得します
+ *
+ * @param url - 画像URL
+ * @returns 取得したバイト列と形式
+ * @throws fetch・canvasのいずれでも取得できなかった場合
+ */
+export const fetchImageInPage = async (url: string): Promise<PageImage> => {
+  try {
+    return await fetchWithPageCredentials(url)
+  } catch (error) {
+    const captured = await captureSameOriginImage(url).catch(() => null)
+    if (captured) return captured
+    throw error
+  }
+}
+
+/**
+ * Backgroundからのページ内取得ポートを処理します
+ *
+ * PAGE_FETCH要求ごとにバイト列をPAGE_FETCH_CHUNKで分割送信し、PAGE_FETCH_DONEで終えます。
+ * Backgroundが切断した（中止・タイムアウト）場合は送信をやめます。
+ */
+export const handlePageFetchPort = (port: chrome.runtime.Port): void => {
+  if (port.name !== PAGE_FETCH_PORT) return
+
+  let disconnected = false
+  port.onDisconnect.addListener(() => {
+    disconnected = true
+  })
+
+  const send = (message: PageFetchResponse): void => {
+    if (!disconnected) port.postMessage(message)
+  }
+
+  port.onMessage.addListener((message: PageFetchRequest) => {
+    if (message.type !== 'PAGE_FETCH') return
+
+    fetchImageInPage(message.url)
+      .then(({ bytes, contentType, via }) => {
+        for (let offset = 0; offset < bytes.length && !disconnected; ) {
+          const end = offset + PAGE_FETCH_CHUNK_BYTES
+          send({ type: 'PAGE_FETCH_CHUNK', data: toBase64(bytes.subarray(offset, end)) })
+          offset = end
+        }
+        send({ type: 'PAGE_FETCH_DONE', contentType, via })
+      })
+      .catch((error: unknown) => {
+        send({
+          type: 'PAGE_FETCH_ERROR',
+          message: error instanceof Error ? error.message : String(error),
+        })
+      })
+  })
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { findNextPageUrl, incrementPageNumber } from './pagination'
+
+describe('pagination', () => {
+  afterEach(() => {
+    document.head.innerHTML = ''
+    document.body.innerHTML = ''
+    window.history.replaceState({}, '', '/')
+    vi.restoreAllMocks()
+  })
+
+  describe('findNextPageUrl', () => {
+    it('link rel="next"のURLを絶対URLで返す', () => {
+      document.head.innerHTML =
+        '<link rel="prev" href="/list?page=1"><link rel="next" href="/list?page=3">'
+
+      expect(findNextPageUrl()).toBe(`${window.location.origin}/list?page=3`)
+    })
+
+    it('「次へ」セレクタをrel="next"より優先し、リンク内の要素からリンク先を辿る', () => {
+      document.head.innerHTML = '<link rel="next" href="/wrong">'
+      document.body.innerHTML = `
+        <nav class="pager"><a href="/list?p=2"><span class="icon-next"></span></a></nav>
+      `
+
+      expect(findNextPageUrl({ nextPageSelector: '.pager .icon-next' })).toBe(
+        `${window.location.origin}/list?p=2`
+      )
+    })
+
+    it('リンクがない場合はURLパターンのページ番号を進める', () => {
+      window.history.replaceState({}, '', '/search?q=cat&page=9#results')
+
+      expect(findNextPageUrl({ pageUrlPattern: '[?&]page=(\\d+)' })).toBe(
+        `${window.location.origin}/search?q=cat&page=10`
+      )
+    })
+
+    it('現在のページと同じURL・ページ内リンクは次ページとみなさない', () => {
+      window.history.replaceState({}, '', '/list')
+      document.body.innerHTML = '<a rel="next" href="#more">More</a>'
+
+      expect(findNextPageUrl()).toBeNull()
+    })
+
+    it('無効なセレクタは警告して他の方法で探す', () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+      document.body.innerHTML = '<a rel="next" href="/page/2">Next</a>'
+
+      expect(findNextPageUrl({ nextPageSelector: '[' })).toBe(`${window.location.origin}/page/2`)
+      expect(console.warn).toHaveBeenCalled()
+    })
+  })
+
+  describe('incrementPageNumber', () => {
+    it('ゼロ埋めの桁数を保つ', () => {
+      expect(incrementPageNumber('https://example.com/gallery/p009.html', '/p(\\d+)\\.html')).toBe(
+        'https://example.com/gallery/p010.html'
+      )
+    })
+
+    it('パターンに一致しない場合はnullを返す', () => {
+      expect(incrementPageNumber('https://example.com/list', '[?&]page=(\\d+)')).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,121 @@
+/**
+ * ページ送り（次ページURL検出）モジュール
+ *
+ * 検索結果やカテゴリ一覧のように複数ページにまたがる一覧を収集するため、
+ * 現在のページから次ページのURLを探します。
+ *
+ * 探索順:
+ * 1. ドメインプロファイルの「次へ」セレクタ（ユーザー設定を優先）
+ * 2. <link rel="next"> / <a rel="next">
+ * 3. ページ番号を含むURLパターン（現在のURLのページ番号を1つ進める）
+ */
+
+import type { PaginationRule } from '../shared/types'
+import { closestComposed, querySelectorAllDeep } from './dom-walker'
+
+/**
+ * href属性を絶対URLに解決（http(s)以外・現在のページと同じURLはnull）
+ */
+const resolvePageUrl = (href: string | null): string | null => {
+  if (!href) return null
+
+  let url: URL
+  try {
+    url = new URL(href, document.baseURI)
+  } catch {
+    return null
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return null
+
+  // ページ内リンク（#以降のみ異なる）は次ページとみなさない
+  url.hash = ''
+  const current = new URL(window.location.href)
+  current.hash = ''
+  return url.href === current.href ? null : url.href
+}
+
+/**
+ * 「次へ」セレクタに一致する要素のリンク先を取得
+ *
+ * セレクタがリンク内の要素（アイコン等）を指す場合は囲んでいるリンクを使用します。
+ */
+const findBySelector = (selector: string): string | null => {
+  let elements: Element[]
+  try {
+    elements = querySelectorAllDeep(selector)
+  } catch (error) {
+    console.warn('[pagination] Invalid next page selector:', selector, error)
+    return null
+  }
+
+  for (const element of elements) {
+    const link = closestComposed(element, 'a[href]')
+    const url = resolvePageUrl(link?.getAttribute('href') ?? null)
+    if (url) return url
+  }
+  return null
+}
+
+/**
+ * rel="next"のリンクを取得
+ */
+const findByRelNext = (): string | null => {
+  for (const link of document.querySelectorAll('link[rel~="next" i], a[rel~="next" i]')) {
+    const url = resolvePageUrl(link.getAttribute('href'))
+    if (url) return url
+  }
+  return null
+}
+
+/**
+ * URLパターンのページ番号を1つ進めたURLを作成
+ *
+ * @param url - 現在のURL
+ * @param pattern - 正規表現文字列（1つ目のキャプチャグループがページ番号）
+ * @returns 次ページのURL（パターンに一致しない場合はnull）
+ *
+ * @example
+ * incrementPageNumber('https://example.com/list?page=2', '[?&]page=(\\d+)')
+ * // => 'https://example.com/list?page=3'
+ */
+export const incrementPageNumber = (url: string, pattern: string): string | null => {
+  let regex: RegExp
+  try {
+    regex = new RegExp(pattern)
+  } catch (error) {
+    console.warn('[pagination] Invalid page URL pattern:', pattern, error)
+    return null
+  }
+
+  const match = regex.exec(url)
+  const [matched, page] = match ?? []
+  if (!match || matched === undefined || page === undefined || !/^\d+$/.test(page)) return null
+
+  // キャプチャの位置（マッチ内の最後の出現）を置き換える
+  const start = match.index + matched.lastIndexOf(page)
+  const next = String(Number(page) + 1).padStart(page.length, '0')
+  return url.slice(0, start) + next + url.slice(start + page.length)
+}
+
+/**
+ * 次ページのURLを検出します
+ *
+ * @param rule - ドメインプロファイルの「次へ」セレクタ・URLパターン
+ * @returns 次ページのURL、見つからない場合はnull
+ */
+export const findNextPageUrl = (rule: PaginationRule = {}): string | null => {
+  if (rule.nextPageSelector) {
+    const url = findBySelector(rule.nextPageSelector)
+    if (url) return url
+  }
+
+  const relNext = findByRelNext()
+  if (relNext) return relNext
+
+  if (rule.pageUrlPattern) {
+    return resolvePageUrl(incrementPageNumber(window.location.href, rule.pageUrlPattern))
+  }
+
+  return null
+}
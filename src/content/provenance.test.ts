@@ -0,0 +1,116 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import {
+  buildProvenance,
+  compareDocumentOrder,
+  createSelectorPathResolver,
+  findNearestHeading,
+  getSelectorPath,
+} from './provenance'
+
+describe('provenance', () => {
+  afterEach(() => {
+    document.body.innerHTML = ''
+  })
+
+  describe('getSelectorPath', () => {
+    it('idを持つ祖先を起点にnth-of-typeでパスを作る', () => {
+      document.body.innerHTML = `
+        <ul id="gallery">
+          <li><img></li>
+          <li><img id="target-parent-sibling"><span><img class="target"></span></li>
+        </ul>
+      `
+      const target = document.querySelector('.target') as Element
+
+      expect(getSelectorPath(target)).toBe('#gallery > li:nth-of-type(2) > span > img')
+      expect(document.querySelector(getSelectorPath(target))).toBe(target)
+    })
+
+    it('shadow root内の要素はホストのパスと" >>> "で連結する', () => {
+      document.body.innerHTML = '<div id="host"></div>'
+      const host = document.getElementById('host') as HTMLElement
+      const shadow = host.attachShadow({ mode: 'open' })
+      shadow.innerHTML = '<figure><img></figure>'
+      const img = shadow.querySelector('img') as Element
+
+      expect(getSelectorPath(img)).toBe('#host >>> figure > img')
+    })
+  })
+
+  describe('createSelectorPathResolver', () => {
+    it('getSelectorPathと同じパスを返す', () => {
+      document.body.innerHTML = `
+        <ul id="gallery">
+          <li><img><img></li>
+          <li><span><img></span><p></p></li>
+        </ul>
+        <div id="host"></div>
+      `
+      const host = document.getElementById('host') as HTMLElement
+      host.attachShadow({ mode: 'open' }).innerHTML = '<figure><img><img></figure>'
+      const images = [
+        ...Array.from(document.querySelectorAll('img')),
+        ...Array.from(host.shadowRoot?.querySelectorAll('img') ?? []),
+      ]
+
+      const resolve = createSelectorPathResolver()
+
+      expect(images.map(resolve)).toEqual(images.map(getSelectorPath))
+    })
+  })
+
+  describe('findNearestHeading', () => {
+    it('手前にある直近の見出しを返す', () => {
+      document.body.innerHTML = `
+        <h1>Site</h1>
+        <section>
+          <h2>First</h2>
+          <div><h3>  Second
+            section </h3></div>
+          <p><img></p>
+        </section>
+      `
+      const img = document.querySelector('img') as Element
+
+      expect(findNearestHeading(img)).toBe('Second section')
+    })
+
+    it('見出しがない場合はundefinedを返す', () => {
+      document.body.innerHTML = '<div><img></div>'
+
+      expect(findNearestHeading(document.querySelector('img') as Element)).toBeUndefined()
+    })
+  })
+
+  describe('buildProvenance', () => {
+    it('囲んでいるリンクと検出ソースを記録する', () => {
+      document.body.innerHTML = '<a href="https://example.com/full.jpg"><img></a>'
+      const img = document.querySelector('img') as Element
+
+      const provenance = buildProvenance(img, ['img', 'srcset'])
+
+      expect(provenance).toEqual({
+        selector: 'html > body > a > img',
+        linkHref: 'https://example.com/full.jpg',
+        sources: ['img', 'srcset'],
+      })
+    })
+  })
+
+  describe('compareDocumentOrder', () => {
+    it('shadow root内の要素はホストの位置で比較する', () => {
+      document.body.innerHTML = '<img id="first"><div id="host"></div><img id="last">'
+      const shadow = (document.getElementById('host') as HTMLElement).attachShadow({
+        mode: 'open',
+      })
+      shadow.innerHTML = '<img>'
+      const first = document.getElementById('first') as Element
+      const last = document.getElementById('last') as Element
+      const inner = shadow.querySelector('img') as Element
+
+      const sorted = [last, inner, first].sort(compareDocumentOrder)
+
+      expect(sorted).toEqual([first, inner, last])
+    })
+  })
+})
@@ -0,0 +1,244 @@
+/**
+ * 画像の出自情報（provenance）抽出ユーティリティ
+ *
+ * 検出した画像がページ上のどこにあったかを構造化して記録します。
+ * - CSSセレクタパス（id優先、なければnth-of-type。shadow境界は" >>> "で連結）
+ * - ドキュメント座標のバウンディングボックス
+ * - 直近の見出し（h1〜h6）
+ * - 囲んでいるリンクのhref
+ */
+
+import type { ImageProvenance, ImageSource } from '../shared/types'
+import { closestComposed, querySelectorAllDeep } from './dom-walker'
+
+const HEADING_SELECTOR = 'h1, h2, h3, h4, h5, h6'
+
+/**
+ * 見出しテキストの最大文字数
+ */
+const MAX_HEADING_LENGTH = 100
+
+/**
+ * shadow境界を表すセレクタ区切り
+ */
+const SHADOW_SEPARATOR = ' >>> '
+
+/**
+ * 同一ツリー内で要素を一意に指すセレクタ片を作成
+ */
+const getSelectorSegment = (element: Element): string => {
+  const tag = element.tagName.toLowerCase()
+  if (!element.parentElement) return tag
+
+  // 兄弟を辿って同じタグの位置を数える（HTMLCollectionの配列化は大きなリストで遅い）
+  let position = 1
+  for (
+    let sibling = element.previousElementSibling;
+    sibling;
+    sibling = sibling.previousElementSibling
+  ) {
+    if (sibling.tagName === element.tagName) position++
+  }
+
+  let hasLaterSameTag = false
+  for (let sibling = element.nextElementSibling; sibling; sibling = sibling.nextElementSibling) {
+    if (sibling.tagName === element.tagName) {
+      hasLaterSameTag = true
+      break
+    }
+  }
+
+  if (position === 1 && !hasLaterSameTag) return tag
+
+  return `${tag}:nth-of-type(${position})`
+}
+
+/**
+ * セレクタ片の取得関数を使ってセレクタパスを組み立てます
+ */
+const buildSelectorPath = (element: Element, getSegment: (element: Element) => string): string => {
+  const segments: string[] = []
+  let current: Element | null = element
+
+  while (current) {
+    if (current.id && /^[A-Za-z][\w-]*$/.test(current.id)) {
+      segments.unshift(`#${current.id}`)
+      break
+    }
+
+    segments.unshift(getSegment(current))
+
+    const parentNode: ParentNode | null = current.parentNode
+    if (parentNode instanceof ShadowRoot) {
+      // ホスト側のパスに続けてshadow root内のパスを連結
+      return `${buildSelectorPath(parentNode.host, getSegment)}${SHADOW_SEPARATOR}${segments.join(' > ')}`
+    }
+
+    current = current.parentElement
+    if (current === document.documentElement) {
+      segments.unshift('html')
+      break
+    }
+  }
+
+  return segments.join(' > ')
+}
+
+/**
+ * 要素を指す安定したCSSセレクタパスを生成します
+ *
+ * idを持つ祖先で打ち切るため、ページの無関係な部分が変化してもパスは変わりにくくなります。
+ *
+ * @param element - 対象要素
+ * @returns セレクタパス（例: "#gallery > li:nth-of-type(2) > img"）
+ */
+export const getSelectorPath = (element: Element): string =>
+  buildSelectorPath(element, getSelectorSegment)
+
+/**
+ * セレクタパスを生成する関数を作成します
+ *
+ * 兄弟要素のセレクタ片を親ごとに一度だけ計算して使い回すため、同じ親を持つ多数の要素
+ * （ギャラリーの<img>等）のパスを生成する場合にgetSelectorPathより高速です。
+ *
+ * @returns getSelectorPathと同じパスを返す関数
+ */
+export const createSelectorPathResolver = (): ((element: Element) => string) => {
+  const segments = new Map<Element, string>()
+
+  const getSegment = (element: Element): string => {
+    const parent = element.parentElement
+    if (!parent) return getSelectorSegment(element)
+
+    if (!segments.has(element)) {
+      // 兄弟全体を1回走査し、タグごとの位置と個数を求める
+      const positions: [Element, number][] = []
+      const counts = new Map<string, number>()
+      for (let child = parent.firstElementChild; child; child = child.nextElementSibling) {
+        const position = (counts.get(child.tagName) ?? 0) + 1
+        counts.set(child.tagName, position)
+        positions.push([child, position])
+      }
+
+      for (const [child, position] of positions) {
+        const tag = child.tagName.toLowerCase()
+        const isOnly = position === 1 && counts.get(child.tagName) === 1
+        segments.set(child, isOnly ? tag : `${tag}:nth-of-type(${position})`)
+      }
+    }
+
+    return segments.get(element) ?? getSelectorSegment(element)
+  }
+
+  return (element) => buildSelectorPath(element, getSegment)
+}
+
+/**
+ * 2つの要素をドキュメント順で比較します（Array.prototype.sort用）
+ *
+ * 別ツリー（shadow root内）の要素はcomposed tree上のホストで比較します。
+ */
+export const compareDocumentOrder = (a: Element, b: Element): number => {
+  if (a === b) return 0
+
+  const position = a.compareDocumentPosition(b)
+  if (position & Node.DOCUMENT_POSITION_DISCONNECTED) {
+    const hostA = a.getRootNode() instanceof ShadowRoot ? (a.getRootNode() as ShadowRoot).host : a
+    const hostB = b.getRootNode() instanceof ShadowRoot ? (b.getRootNode() as ShadowRoot).host : b
+    return hostA === a && hostB === b ? 0 : compareDocumentOrder(hostA, hostB)
+  }
+
+  return position & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1
+}
+
+/**
+ * 見出し要素のテキストを正規化して取得
+ */
+const getHeadingText = (heading: Element): string | undefined =>
+  heading.textContent?.replace(/\s+/g, ' ').trim().slice(0, MAX_HEADING_LENGTH) || undefined
+
+/**
+ * 直近の見出しを検索する関数を作成します
+ *
+ * ページ内の見出し（h1〜h6、shadow root内を含む）を一度だけ列挙してドキュメント順に並べ、
+ * 要素ごとに二分探索します。多数の候補に出自情報を付与する場合に使用します。
+ *
+ * @returns 要素より前（または要素を含む）直近の見出しテキストを返す関数
+ */
+export const createHeadingLocator = (): ((element: Element) => string | undefined) => {
+  const headings = querySelectorAllDeep(HEADING_SELECTOR).sort(compareDocumentOrder)
+
+  return (element) => {
+    // element以前にある見出しの個数を二分探索
+    let low = 0
+    let high = headings.length
+    while (low < high) {
+      const mid = (low + high) >> 1
+      const heading = headings[mid]
+      if (heading && compareDocumentOrder(heading, element) < 0) {
+        low = mid + 1
+      } else {
+        high = mid
+      }
+    }
+
+    // テキストが空の見出しは飛ばして遡る
+    for (let i = low - 1; i >= 0; i--) {
+      const heading = headings[i]
+      const text = heading ? getHeadingText(heading) : undefined
+      if (text) return text
+    }
+    return undefined
+  }
+}
+
+/**
+ * 要素より前にある直近の見出しテキストを取得します
+ *
+ * ドキュメント順で要素より前にある最後の見出し（要素を含む見出し自身を含む）を返します。
+ *
+ * @param element - 対象要素
+ * @returns 見出しテキスト、見つからない場合はundefined
+ */
+export const findNearestHeading = (element: Element): string | undefined =>
+  createHeadingLocator()(element)
+
+/**
+ * 要素の出自情報を作成します
+ *
+ * @param element - 画像を描画している要素
+ * @param sources - このURLを検出した画像ソース
+ * @param locateHeading - 見出しの検索関数（複数要素で使い回す場合はcreateHeadingLocatorで作成）
+ * @param resolveSelectorPath - セレクタパスの生成関数（複数要素で使い回す場合は
+ *   createSelectorPathResolverで作成）
+ * @returns 出自情報（documentIndexは検出結果全体の順序確定後に付与）
+ */
+export const buildProvenance = (
+  element: Element,
+  sources: ImageSource[],
+  locateHeading: (element: Element) => string | undefined = findNearestHeading,
+  resolveSelectorPath: (element: Element) => string = getSelectorPath
+): ImageProvenance => {
+  const provenance: ImageProvenance = {
+    selector: resolveSelectorPath(element),
+    sources,
+  }
+
+  const box = element.getBoundingClientRect()
+  if (box.width > 0 || box.height > 0) {
+    provenance.rect = {
+      x: Math.round(box.left + window.scrollX),
+      y: Math.round(box.top + window.scrollY),
+      width: Math.round(box.width),
+      height: Math.round(box.height),
+    }
+  }
+
+  const heading = locateHeading(element)
+  if (heading) provenance.heading = heading
+
+  const link = closestComposed(element, 'a[href]')
+  if (link instanceof HTMLAnchorElement && link.href) provenance.linkHref = link.href
+
+  return provenance
+}
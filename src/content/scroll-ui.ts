@@ -253,3 +253,15 @@ export const hideScrollProgress = (): void => {
     progress.remove()
   }
 }
+
+/**
+ * 画像検出の進捗をインジケーターに表示
+ *
+ * スクロール進捗と同じインジケーターを使用し、hideScrollProgress()で削除されます。
+ *
+ * @param percent - 進捗率（0〜100）
+ */
+export const showDetectionProgress = (percent: number): void => {
+  const progress = document.getElementById('diffsnap-scroll-progress') ?? showScrollProgress(0, 0)
+  progress.textContent = `画像を検出中... ${Math.round(percent)}%`
+}
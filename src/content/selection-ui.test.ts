@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+  collectSelectedCandidates,
+  findImageElements,
+  selectElementsInRect,
+  showSelectionOverlay,
+} from './selection-ui'
+
+const mockRect = (el: Element, left: number, top: number, width: number, height: number) => {
+  vi.spyOn(el, 'getBoundingClientRect').mockReturnValue({
+    left,
+    top,
+    width,
+    height,
+    right: left + width,
+    bottom: top + height,
+    x: left,
+    y: top,
+    toJSON: () => ({}),
+  })
+}
+
+const getShadow = (): ShadowRoot => {
+  const shadow = document.getElementById('diffsnap-selection-host')?.shadowRoot
+  if (!shadow) throw new Error('overlay not shown')
+  return shadow
+}
+
+const clickAction = (action: string) => {
+  getShadow().querySelector<HTMLButtonElement>(`button[data-action="${action}"]`)?.click()
+}
+
+describe('selection-ui', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+    document.body.innerHTML = ''
+  })
+
+  describe('findImageElements', () => {
+    it('メディア要素と背景画像を持つ要素を列挙する', () => {
+      document.body.innerHTML = `
+        <div id="gallery">
+          <img src="https://example.com/a.jpg">
+          <svg><svg></svg></svg>
+          <div class="hero" style="background-image: url('https://example.com/bg.jpg')"></div>
+          <p>text</p>
+        </div>
+      `
+      const gallery = document.getElementById('gallery') as HTMLElement
+
+      const elements = findImageElements(gallery)
+
+      expect(elements.map((el) => el.tagName.toLowerCase())).toEqual(['img', 'svg', 'div'])
+    })
+  })
+
+  describe('selectElementsInRect', () => {
+    it('中心が矩形内にある要素のみ返す', () => {
+      document.body.innerHTML = '<img id="inside"><img id="outside"><img id="hidden">'
+      const inside = document.getElementById('inside') as HTMLElement
+      const outside = document.getElementById('outside') as HTMLElement
+      const hidden = document.getElementById('hidden') as HTMLElement
+      mockRect(inside, 10, 10, 100, 100)
+      mockRect(outside, 400, 400, 100, 100)
+      mockRect(hidden, 0, 0, 0, 0)
+
+      const result = selectElementsInRect([inside, outside, hidden], {
+        left: 0,
+        top: 0,
+        right: 200,
+        bottom: 200,
+      })
+
+      expect(result).toEqual([inside])
+    })
+  })
+
+  describe('collectSelectedCandidates', () => {
+    it('選択要素の部分木の画像のみ検出する', () => {
+      document.body.innerHTML = `
+        <header><img src="https://example.com/logo.png"></header>
+        <div id="gallery">
+          <img src="https://example.com/item-1.jpg">
+          <img src="https://example.com/item-2.jpg">
+        </div>
+        <img id="single" src="https://example.com/single.jpg">
+      `
+      const gallery = document.getElementById('gallery') as HTMLElement
+      const single = document.getElementById('single') as HTMLElement
+
+      const urls = collectSelectedCandidates([gallery, single]).map((c) => c.url)
+
+      expect(urls).toEqual([
+        'https://example.com/item-1.jpg',
+        'https://example.com/item-2.jpg',
+        'https://example.com/single.jpg',
+      ])
+    })
+  })
+
+  describe('showSelectionOverlay', () => {
+    it('shadow root内にUIを描画し、キャンセルでnullを返す', async () => {
+      const promise = showSelectionOverlay()
+
+      expect(getShadow().querySelector('.toolbar')).not.toBeNull()
+      clickAction('cancel')
+
+      await expect(promise).resolves.toBeNull()
+      expect(document.getElementById('diffsnap-selection-host')).toBeNull()
+    })
+
+    it('クリックしたコンテナの画像を選択し、バッジで個別に除外できる', async () => {
+      document.body.innerHTML = `
+        <div id="gallery">
+          <img id="first" src="https://example.com/1.jpg">
+          <img id="second" src="https://example.com/2.jpg">
+        </div>
+      `
+      const gallery = document.getElementById('gallery') as HTMLElement
+      Object.defineProperty(document, 'elementFromPoint', {
+        configurable: true,
+        value: vi.fn().mockReturnValue(gallery),
+      })
+
+      const promise = showSelectionOverlay()
+      const shadow = getShadow()
+
+      clickAction('container')
+      shadow.querySelector('.layer')?.dispatchEvent(new MouseEvent('click', { bubbles: true }))
+
+      const badges = shadow.querySelectorAll<HTMLButtonElement>('.badge')
+      expect(badges).toHaveLength(2)
+
+      // 2枚目を除外
+      badges[1]?.click()
+      expect(badges[1]?.dataset.included).toBe('false')
+
+      clickAction('confirm')
+
+      await expect(promise).resolves.toEqual([document.getElementById('first')])
+    })
+  })
+})
@@ -0,0 +1,451 @@
+/**
+ * 選択モード用オーバーレイUI
+ *
+ * ページ上で収集範囲を指定するためのオーバーレイを提供します。
+ * ページ側のCSSの影響を受けないよう、UIはすべてshadow root内に描画します。
+ *
+ * 操作:
+ * - 範囲モード: ドラッグした矩形内の画像を選択
+ * - コンテナモード: クリックした要素（ギャラリー等）の部分木内の画像を選択
+ * - バッジ: 選択済みの各画像に表示され、クリックで個別に含める/外すを切替
+ * - Enterで確定、Escでキャンセル
+ */
+
+import { DEFAULT_CSS_SCAN_BUDGET, detectImages, type DetectOptions } from './detector'
+import { querySelectorAllDeep } from './dom-walker'
+import type { ImageCandidate } from '../shared/types'
+
+/**
+ * 選択方法
+ */
+export type SelectionMode = 'region' | 'container'
+
+/**
+ * ビューポート座標の矩形
+ */
+export interface SelectionRect {
+  left: number
+  top: number
+  right: number
+  bottom: number
+}
+
+/**
+ * 画像を描画する要素のタグ
+ */
+const MEDIA_SELECTOR = 'img, video, canvas, svg'
+
+/**
+ * ドラッグとみなす最小移動量（px）
+ */
+const MIN_DRAG_SIZE = 4
+
+const HOST_ID = 'diffsnap-selection-host'
+
+/**
+ * shadow root内のスタイル定義
+ */
+const SHADOW_STYLES = `
+  :host {
+    all: initial;
+    position: fixed;
+    inset: 0;
+    z-index: 2147483647;
+    font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+  }
+  .layer {
+    position: fixed;
+    inset: 0;
+    cursor: crosshair;
+    background: rgba(0, 0, 0, 0.15);
+  }
+  .rect, .highlight {
+    position: fixed;
+    pointer-events: none;
+    display: none;
+  }
+  .rect {
+    border: 2px dashed #2563eb;
+    background: rgba(37, 99, 235, 0.1);
+  }
+  .highlight {
+    outline: 2px solid #f59e0b;
+    background: rgba(245, 158, 11, 0.1);
+  }
+  .badge {
+    position: fixed;
+    width: 22px;
+    height: 22px;
+    padding: 0;
+    border: 2px solid white;
+    border-radius: 50%;
+    font-size: 12px;
+    line-height: 18px;
+    color: white;
+    cursor: pointer;
+    box-shadow: 0 1px 4px rgba(0, 0, 0, 0.4);
+  }
+  .badge[data-included="true"] { background: #16a34a; }
+  .badge[data-included="false"] { background: #9ca3af; }
+  .toolbar {
+    position: fixed;
+    top: 12px;
+    left: 50%;
+    transform: translateX(-50%);
+    display: flex;
+    align-items: center;
+    gap: 8px;
+    padding: 8px 12px;
+    background: white;
+    border-radius: 8px;
+    box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);
+    font-size: 13px;
+    color: #1a1a1a;
+  }
+  .toolbar button {
+    padding: 6px 10px;
+    font-size: 13px;
+    border: 1px solid #d1d5db;
+    border-radius: 4px;
+    background: #f3f4f6;
+    color: #1a1a1a;
+    cursor: pointer;
+  }
+  .toolbar button[aria-pressed="true"] {
+    background: #dbeafe;
+    border-color: #2563eb;
+  }
+  .toolbar button.primary {
+    background: #2563eb;
+    border-color: #2563eb;
+    color: white;
+  }
+`
+
+/**
+ * 部分木内で画像を描画している要素を列挙します
+ *
+ * img/video/canvas/svgに加え、背景画像を持つ要素も対象です。
+ * 背景画像の判定は計算済みスタイルを使うため、走査数に上限を設けます。
+ *
+ * @param root - 走査起点の要素
+ * @param budget - 背景画像を調べる要素数の上限
+ * @returns 画像要素の配列（ネストしたsvgは親のみ）
+ */
+export const findImageElements = (root: Element, budget = DEFAULT_CSS_SCAN_BUDGET): Element[] => {
+  const elements: Element[] = []
+  let inspected = 0
+
+  for (const el of querySelectorAllDeep('*', root)) {
+    if (el.matches(MEDIA_SELECTOR)) {
+      // 入れ子のsvgは親svgと一緒に出力されるため除外
+      if (!(el.tagName.toLowerCase() === 'svg' && el.parentElement?.closest('svg'))) {
+        elements.push(el)
+      }
+      continue
+    }
+
+    if (inspected >= budget) continue
+    inspected++
+
+    if (/url\(/i.test(window.getComputedStyle(el).backgroundImage)) {
+      elements.push(el)
+    }
+  }
+
+  return elements
+}
+
+/**
+ * 矩形内に中心がある要素を返します
+ *
+ * @param elements - 判定対象の要素
+ * @param rect - ビューポート座標の選択矩形
+ * @returns 矩形内の要素
+ */
+export const selectElementsInRect = (elements: Element[], rect: SelectionRect): Element[] =>
+  elements.filter((el) => {
+    const box = el.getBoundingClientRect()
+    if (box.width === 0 && box.height === 0) return false
+
+    const centerX = box.left + box.width / 2
+    const centerY = box.top + box.height / 2
+    return (
+      centerX >= rect.left && centerX <= rect.right && centerY >= rect.top && centerY <= rect.bottom
+    )
+  })
+
+/**
+ * 選択された要素の画像候補を検出します
+ *
+ * 要素ごとに部分木を対象とした検出を行い、URLで重複を除外します。
+ *
+ * @param elements - 選択された要素
+ * @param options - 検出オプション（rootは要素ごとに上書き）
+ * @returns 画像候補の配列
+ */
+export const collectSelectedCandidates = (
+  elements: Element[],
+  options: DetectOptions = {}
+): ImageCandidate[] => {
+  const unique = new Map<string, ImageCandidate>()
+
+  for (const element of elements) {
+    for (const candidate of detectImages({ ...options, root: element })) {
+      if (!unique.has(candidate.url)) {
+        unique.set(candidate.url, candidate)
+      }
+    }
+  }
+
+  return Array.from(unique.values())
+}
+
+/**
+ * 2点から正規化した矩形を作成
+ */
+const toRect = (x1: number, y1: number, x2: number, y2: number): SelectionRect => ({
+  left: Math.min(x1, x2),
+  top: Math.min(y1, y2),
+  right: Math.max(x1, x2),
+  bottom: Math.max(y1, y2),
+})
+
+/**
+ * 要素のビューポート上の位置にボックスを合わせる
+ */
+const placeBox = (box: HTMLElement, rect: DOMRect | SelectionRect) => {
+  box.style.left = `${rect.left}px`
+  box.style.top = `${rect.top}px`
+  box.style.width = `${rect.right - rect.left}px`
+  box.style.height = `${rect.bottom - rect.top}px`
+}
+
+/**
+ * 選択オーバーレイを表示して、ユーザーが選んだ画像要素を待つ
+ *
+ * @returns 選択された画像要素（キャンセル時はnull）
+ */
+export const showSelectionOverlay = (): Promise<Element[] | null> => {
+  return new Promise((resolve) => {
+    document.getElementById(HOST_ID)?.remove()
+
+    const host = document.createElement('div')
+    host.id = HOST_ID
+    const shadow = host.attachShadow({ mode: 'open' })
+
+    const style = document.createElement('style')
+    style.textContent = SHADOW_STYLES
+
+    const layer = document.createElement('div')
+    layer.className = 'layer'
+
+    const rectBox = document.createElement('div')
+    rectBox.className = 'rect'
+
+    const highlight = document.createElement('div')
+    highlight.className = 'highlight'
+
+    const badgeContainer = document.createElement('div')
+
+    // ツールバー
+    const toolbar = document.createElement('div')
+    toolbar.className = 'toolbar'
+
+    const createButton = (label: string, action: string) => {
+      const button = document.createElement('button')
+      button.type = 'button'
+      button.textContent = label
+      button.dataset.action = action
+      toolbar.appendChild(button)
+      return button
+    }
+
+    const regionButton = createButton('範囲をドラッグ', 'region')
+    const containerButton = createButton('要素をクリック', 'container')
+    const countLabel = document.createElement('span')
+    toolbar.appendChild(countLabel)
+    createButton('クリア', 'clear')
+    const confirmButton = createButton('選択した画像を収集', 'confirm')
+    confirmButton.className = 'primary'
+    createButton('キャンセル', 'cancel')
+
+    shadow.append(style, layer, rectBox, highlight, badgeContainer, toolbar)
+
+    // 選択状態（要素 → 収集に含めるか）
+    const selection = new Map<Element, boolean>()
+    const badges = new Map<Element, HTMLButtonElement>()
+    let mode: SelectionMode = 'region'
+    let dragStart: { x: number; y: number } | null = null
+
+    /**
+     * オーバーレイを透過してページ側の要素を取得
+     */
+    const elementAt = (x: number, y: number): Element | null => {
+      host.style.pointerEvents = 'none'
+      const el = document.elementFromPoint(x, y)
+      host.style.pointerEvents = ''
+      return el && el !== host ? el : null
+    }
+
+    const positionBadges = () => {
+      for (const [el, badge] of badges) {
+        const box = el.getBoundingClientRect()
+        badge.style.left = `${box.right - 26}px`
+        badge.style.top = `${box.top + 4}px`
+      }
+    }
+
+    const render = () => {
+      for (const [el, included] of selection) {
+        let badge = badges.get(el)
+        if (!badge) {
+          badge = document.createElement('button')
+          badge.type = 'button'
+          badge.className = 'badge'
+          badge.addEventListener('click', (event) => {
+            event.stopPropagation()
+            selection.set(el, !selection.get(el))
+            render()
+          })
+          badges.set(el, badge)
+          badgeContainer.appendChild(badge)
+        }
+        badge.dataset.included = String(included)
+        badge.textContent = included ? '✓' : '✕'
+        badge.setAttribute('aria-label', included ? '収集から外す' : '収集に含める')
+      }
+
+      for (const [el, badge] of badges) {
+        if (!selection.has(el)) {
+          badge.remove()
+          badges.delete(el)
+        }
+      }
+
+      positionBadges()
+
+      const count = Array.from(selection.values()).filter(Boolean).length
+      countLabel.textContent = `${count}件選択中`
+      confirmButton.disabled = count === 0
+      regionButton.setAttribute('aria-pressed', String(mode === 'region'))
+      containerButton.setAttribute('aria-pressed', String(mode === 'container'))
+    }
+
+    const addToSelection = (elements: Element[]) => {
+      for (const el of elements) {
+        if (!selection.has(el)) {
+          selection.set(el, true)
+        }
+      }
+      render()
+    }
+
+    const setMode = (next: SelectionMode) => {
+      mode = next
+      highlight.style.display = 'none'
+      render()
+    }
+
+    // マウス操作
+    const handleMouseDown = (event: MouseEvent) => {
+      if (mode !== 'region' || event.button !== 0) return
+      dragStart = { x: event.clientX, y: event.clientY }
+      placeBox(rectBox, toRect(event.clientX, event.clientY, event.clientX, event.clientY))
+      rectBox.style.display = 'block'
+    }
+
+    const handleMouseMove = (event: MouseEvent) => {
+      if (mode === 'region' && dragStart) {
+        placeBox(rectBox, toRect(dragStart.x, dragStart.y, event.clientX, event.clientY))
+        return
+      }
+
+      if (mode === 'container') {
+        const target = elementAt(event.clientX, event.clientY)
+        if (target) {
+          placeBox(highlight, target.getBoundingClientRect())
+          highlight.style.display = 'block'
+        } else {
+          highlight.style.display = 'none'
+        }
+      }
+    }
+
+    const handleMouseUp = (event: MouseEvent) => {
+      if (mode !== 'region' || !dragStart) return
+
+      const rect = toRect(dragStart.x, dragStart.y, event.clientX, event.clientY)
+      dragStart = null
+      rectBox.style.display = 'none'
+
+      if (rect.right - rect.left < MIN_DRAG_SIZE || rect.bottom - rect.top < MIN_DRAG_SIZE) return
+
+      addToSelection(selectElementsInRect(findImageElements(document.documentElement), rect))
+    }
+
+    const handleClick = (event: MouseEvent) => {
+      if (mode !== 'container') return
+
+      const target = elementAt(event.clientX, event.clientY)
+      if (target) {
+        addToSelection(findImageElements(target))
+      }
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        event.preventDefault()
+        finish(null)
+      } else if (event.key === 'Enter' && !confirmButton.disabled) {
+        event.preventDefault()
+        finish(getIncluded())
+      }
+    }
+
+    const getIncluded = () =>
+      Array.from(selection.entries())
+        .filter(([, included]) => included)
+        .map(([el]) => el)
+
+    toolbar.addEventListener('click', (event) => {
+      const action = (event.target as HTMLElement).closest('button')?.dataset.action
+      switch (action) {
+        case 'region':
+        case 'container':
+          setMode(action)
+          break
+        case 'clear':
+          selection.clear()
+          render()
+          break
+        case 'confirm':
+          finish(getIncluded())
+          break
+        case 'cancel':
+          finish(null)
+          break
+      }
+    })
+
+    layer.addEventListener('mousedown', handleMouseDown)
+    layer.addEventListener('mousemove', handleMouseMove)
+    layer.addEventListener('mouseup', handleMouseUp)
+    layer.addEventListener('click', handleClick)
+    document.addEventListener('keydown', handleKeyDown, true)
+    window.addEventListener('scroll', positionBadges, true)
+    window.addEventListener('resize', positionBadges)
+
+    // クリーンアップ関数
+    const finish = (result: Element[] | null) => {
+      document.removeEventListener('keydown', handleKeyDown, true)
+      window.removeEventListener('scroll', positionBadges, true)
+      window.removeEventListener('resize', positionBadges)
+      host.remove()
+      resolve(result)
+    }
+
+    render()
+    document.documentElement.appendChild(host)
+  })
+}
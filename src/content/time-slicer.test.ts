@@ -0,0 +1,49 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { createTimeSlicer, yieldToMain } from './time-slicer'
+
+describe('time-slicer', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.unstubAllGlobals()
+  })
+
+  describe('yieldToMain', () => {
+    it('scheduler.yield()が利用可能ならそれを使う', async () => {
+      const schedulerYield = vi.fn().mockResolvedValue(undefined)
+      vi.stubGlobal('scheduler', { yield: schedulerYield })
+
+      await yieldToMain()
+
+      expect(schedulerYield).toHaveBeenCalledOnce()
+    })
+
+    it('requestIdleCallbackにタイムアウトを指定する', async () => {
+      const idle = vi.fn((callback: () => void) => {
+        callback()
+        return 1
+      })
+      vi.stubGlobal('requestIdleCallback', idle)
+
+      await yieldToMain()
+
+      expect(idle).toHaveBeenCalledWith(expect.any(Function), { timeout: 50 })
+    })
+  })
+
+  describe('createTimeSlicer', () => {
+    it('時間予算を超えるとshouldYieldがtrueになり、yield後にリセットされる', async () => {
+      let now = 0
+      vi.spyOn(performance, 'now').mockImplementation(() => now)
+      const slicer = createTimeSlicer(8)
+
+      now = 5
+      expect(slicer.shouldYield()).toBe(false)
+
+      now = 8
+      expect(slicer.shouldYield()).toBe(true)
+
+      await slicer.yield()
+      expect(slicer.shouldYield()).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,90 @@
+/**
+ * タイムスライス実行ユーティリティ
+ *
+ * 大量の要素を走査する処理（getComputedStyleやcanvasの読み出し等）で
+ * メインスレッドを長時間占有しないよう、1フレームあたりの時間予算を超えたら
+ * ブラウザに制御を返します。
+ *
+ * 制御の返し方（利用可能なものを優先）:
+ * 1. scheduler.yield()（タスクキューの先頭に再開を予約）
+ * 2. requestIdleCallback（タイムアウト付き。非表示タブでも必ず再開する）
+ * 3. setTimeout(0)
+ */
+
+/**
+ * 1フレームあたりの既定の時間予算（ms）
+ *
+ * 60fpsの1フレーム（約16ms）の半分を検出に使い、残りを描画・入力処理に残します。
+ */
+export const DEFAULT_FRAME_BUDGET_MS = 8
+
+/**
+ * requestIdleCallbackのタイムアウト（ms）
+ */
+const IDLE_CALLBACK_TIMEOUT_MS = 50
+
+/**
+ * scheduler.yield()を持つScheduler API（型定義が未提供の環境向け）
+ */
+interface YieldingScheduler {
+  yield: () => Promise<void>
+}
+
+/**
+ * メインスレッドに制御を返します
+ *
+ * @returns 再開時に解決されるPromise
+ */
+export const yieldToMain = (): Promise<void> => {
+  const scheduler = (globalThis as { scheduler?: Partial<YieldingScheduler> }).scheduler
+  if (typeof scheduler?.yield === 'function') {
+    return scheduler.yield()
+  }
+
+  if (typeof requestIdleCallback === 'function') {
+    return new Promise((resolve) => {
+      requestIdleCallback(() => resolve(), { timeout: IDLE_CALLBACK_TIMEOUT_MS })
+    })
+  }
+
+  return new Promise((resolve) => setTimeout(resolve, 0))
+}
+
+/**
+ * 時間予算の管理
+ */
+export interface TimeSlicer {
+  /**
+   * 現在のスライスで時間予算を使い切ったか
+   */
+  shouldYield: () => boolean
+  /**
+   * 制御を返し、再開後に新しいスライスを開始する
+   */
+  yield: () => Promise<void>
+}
+
+/**
+ * 時間予算を管理するTimeSlicerを作成します
+ *
+ * @param budgetMs - 1スライスあたりの時間予算（ms）
+ * @returns TimeSlicer
+ *
+ * @example
+ * const slicer = createTimeSlicer()
+ * for (const el of elements) {
+ *   scan(el)
+ *   if (slicer.shouldYield()) await slicer.yield()
+ * }
+ */
+export const createTimeSlicer = (budgetMs = DEFAULT_FRAME_BUDGET_MS): TimeSlicer => {
+  let sliceStart = performance.now()
+
+  return {
+    shouldYield: () => performance.now() - sliceStart >= budgetMs,
+    yield: async () => {
+      await yieldToMain()
+      sliceStart = performance.now()
+    },
+  }
+}
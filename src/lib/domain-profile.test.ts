@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+  filterExcludedSources,
+  findDomainProfile,
+  loadDomainProfile,
+  meetsMinWidth,
+} from './domain-profile'
+import type { DomainProfile, ImageCandidate } from '../shared/types'
+
+describe('findDomainProfile', () => {
+  const profiles: DomainProfile[] = [
+    { domain: 'example.com', minWidth: 100 },
+    { domain: 'shop.example.com', minWidth: 800 },
+    { domain: ' *.Gallery.org ' },
+  ]
+
+  it('ホスト名が完全一致するプロファイルを返す', () => {
+    expect(findDomainProfile(profiles, 'https://example.com/page')?.minWidth).toBe(100)
+  })
+
+  it('サブドメインにも一致する', () => {
+    expect(findDomainProfile(profiles, 'https://www.example.com/')?.domain).toBe('example.com')
+  })
+
+  it('複数一致した場合は最も具体的なドメインを優先する', () => {
+    expect(findDomainProfile(profiles, 'https://shop.example.com/item')?.minWidth).toBe(800)
+  })
+
+  it('ドメイン表記の空白・ワイルドカード・大文字を正規化する', () => {
+    expect(findDomainProfile(profiles, 'https://img.gallery.org/')?.domain).toBe(' *.Gallery.org ')
+  })
+
+  it('部分一致のホスト名には一致しない', () => {
+    expect(findDomainProfile(profiles, 'https://notexample.com/')).toBeUndefined()
+  })
+
+  it('無効なURLではundefinedを返す', () => {
+    expect(findDomainProfile(profiles, 'not a url')).toBeUndefined()
+  })
+})
+
+describe('loadDomainProfile', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('chrome.storage.syncのconfigからプロファイルを読み込む', async () => {
+    global.chrome = {
+      storage: {
+        sync: {
+          get: vi.fn().mockResolvedValue({
+            config: { domainProfiles: [{ domain: 'example.com', harvestStylesheets: false }] },
+          }),
+        },
+      },
+    } as unknown as typeof chrome
+
+    const profile = await loadDomainProfile('https://example.com/')
+
+    expect(chrome.storage.sync.get).toHaveBeenCalledWith(['config'])
+    expect(profile?.harvestStylesheets).toBe(false)
+  })
+
+  it('設定が未保存ならundefinedを返す', async () => {
+    global.chrome = {
+      storage: { sync: { get: vi.fn().mockResolvedValue({}) } },
+    } as unknown as typeof chrome
+
+    await expect(loadDomainProfile('https://example.com/')).resolves.toBeUndefined()
+  })
+
+  it('読み込み失敗時はundefinedを返す', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    global.chrome = {
+      storage: { sync: { get: vi.fn().mockRejectedValue(new Error('quota')) } },
+    } as unknown as typeof chrome
+
+    await expect(loadDomainProfile('https://example.com/')).resolves.toBeUndefined()
+  })
+})
+
+describe('filterExcludedSources', () => {
+  const candidates: ImageCandidate[] = [
+    { url: 'https://example.com/a.jpg', source: 'img' },
+    { url: 'https://example.com/og.jpg', source: 'meta' },
+    { url: 'https://example.com/bg.jpg', source: 'css-bg' },
+  ]
+
+  it('除外指定されたソースの候補を取り除く', () => {
+    const result = filterExcludedSources(candidates, {
+      domain: 'example.com',
+      excludeSources: ['meta', 'css-bg'],
+    })
+
+    expect(result.map((c) => c.url)).toEqual(['https://example.com/a.jpg'])
+  })
+
+  it('プロファイルや除外指定がなければそのまま返す', () => {
+    expect(filterExcludedSources(candidates, undefined)).toBe(candidates)
+    expect(filterExcludedSources(candidates, { domain: 'example.com' })).toBe(candidates)
+  })
+})
+
+describe('meetsMinWidth', () => {
+  const profile: DomainProfile = { domain: 'example.com', minWidth: 400 }
+
+  it('最小幅未満の画像を除外する', () => {
+    expect(meetsMinWidth(399, profile)).toBe(false)
+    expect(meetsMinWidth(400, profile)).toBe(true)
+  })
+
+  it('実寸不明またはminWidth未指定なら除外しない', () => {
+    expect(meetsMinWidth(0, profile)).toBe(true)
+    expect(meetsMinWidth(10, undefined)).toBe(true)
+    expect(meetsMinWidth(10, { domain: 'example.com' })).toBe(true)
+  })
+})
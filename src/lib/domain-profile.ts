@@ -0,0 +1,114 @@
+/**
+ * ドメインプロファイル解決ユーティリティ
+ *
+ * 設定画面で登録されたドメインプロファイル（chrome.storage.syncの`config`キー）から、
+ * 収集対象ページに適用するプロファイルを選択します。
+ */
+
+import type { DomainProfile, ImageCandidate, UserConfig } from '../shared/types'
+
+/**
+ * プロファイルのドメイン表記を正規化します
+ *
+ * 前後の空白、先頭の"*."、末尾の"."を除去し、小文字化します。
+ */
+const normalizeProfileDomain = (domain: string): string =>
+  domain.trim().toLowerCase().replace(/^\*\./, '').replace(/\.$/, '')
+
+/**
+ * ページURLに一致するドメインプロファイルを検索します
+ *
+ * - ホスト名の完全一致、またはサブドメイン一致（"example.com" は "www.example.com" にも一致）
+ * - 複数一致した場合は最も具体的な（長い）ドメインを優先
+ *
+ * @param profiles - 登録済みプロファイル
+ * @param pageUrl - 収集対象ページのURL
+ * @returns 一致したプロファイル、見つからない場合はundefined
+ *
+ * @example
+ * findDomainProfile([{ domain: 'example.com' }, { domain: 'shop.example.com' }], 'https://shop.example.com/item')
+ * // => { domain: 'shop.example.com' }
+ */
+export const findDomainProfile = (
+  profiles: DomainProfile[],
+  pageUrl: string
+): DomainProfile | undefined => {
+  let hostname: string
+  try {
+    hostname = new URL(pageUrl).hostname.toLowerCase()
+  } catch {
+    return undefined
+  }
+
+  let best: DomainProfile | undefined
+  let bestLength = -1
+
+  for (const profile of profiles) {
+    const domain = normalizeProfileDomain(profile.domain)
+    if (!domain) continue
+
+    const matches = hostname === domain || hostname.endsWith(`.${domain}`)
+    if (matches && domain.length > bestLength) {
+      best = profile
+      bestLength = domain.length
+    }
+  }
+
+  return best
+}
+
+/**
+ * chrome.storage.syncの設定からページURLに一致するドメインプロファイルを読み込みます
+ *
+ * 設定の読み込みに失敗した場合はプロファイルなしとして扱います。
+ *
+ * @param pageUrl - 収集対象ページのURL
+ * @returns 一致したプロファイル、見つからない場合はundefined
+ */
+export const loadDomainProfile = async (pageUrl: string): Promise<DomainProfile | undefined> => {
+  try {
+    const result = await chrome.storage.sync.get(['config'])
+    const config = result.config as Partial<UserConfig> | undefined
+    return findDomainProfile(config?.domainProfiles ?? [], pageUrl)
+  } catch (error) {
+    console.warn('[domain-profile] Failed to load domain profiles:', error)
+    return undefined
+  }
+}
+
+/**
+ * プロファイルで除外指定された画像ソースの候補を取り除きます
+ *
+ * @param candidates - 検出された画像候補
+ * @param profile - 適用するプロファイル（未指定なら全件を返す）
+ * @returns 除外後の候補
+ *
+ * @example
+ * filterExcludedSources(candidates, { domain: 'example.com', excludeSources: ['meta'] })
+ * // => source: 'meta' 以外の候補
+ */
+export const filterExcludedSources = (
+  candidates: ImageCandidate[],
+  profile: DomainProfile | undefined
+): ImageCandidate[] => {
+  const excluded = profile?.excludeSources
+  if (!excluded || excluded.length === 0) {
+    return candidates
+  }
+
+  return candidates.filter((candidate) => !excluded.includes(candidate.source))
+}
+
+/**
+ * 画像幅がプロファイルの最小幅を満たすか判定します
+ *
+ * 幅はデコード済みの実寸を渡してください。実寸不明（0）の画像は除外しません。
+ *
+ * @param width - 画像の幅（ピクセル）
+ * @param profile - 適用するプロファイル
+ * @returns 最小幅以上、または判定不能ならtrue
+ */
+export const meetsMinWidth = (width: number, profile: DomainProfile | undefined): boolean => {
+  const minWidth = profile?.minWidth ?? 0
+  return minWidth <= 0 || width <= 0 || width >= minWidth
+}
@@ -99,6 +99,12 @@ describe('guessExtension', () => {
     expect(result).toBe('gif')
   })
 
+  it('data URLからMIMEタイプを読み取る: image/svg+xml', () => {
+    const url = 'data:image/svg+xml;base64,PHN2Zz48L3N2Zz4='
+    const result = guessExtension(url)
+    expect(result).toBe('svg')
+  })
+
   it('.jpegを.jpgに正規化する', () => {
     const url = 'https://example.com/images/photo.jpeg'
     const result = guessExtension(url)
@@ -256,6 +262,25 @@ describe('makeFilename', () => {
     expect(result).toBe('Image-Name.jpg')
   })
 
+  it('出自情報から{heading}{source}{order}が展開される', () => {
+    const imageWithProvenance: ImageSnapshot = {
+      ...mockImage,
+      provenance: {
+        heading: 'Top Stories: Today',
+        documentIndex: 4,
+        sources: ['picture', 'img'],
+      },
+    }
+
+    const result = makeFilename('{heading}-{source}-{order}', imageWithProvenance, 1, pageUrl)
+    expect(result).toBe('Top-Stories-Today-picture-005.jpg')
+  })
+
+  it('出自情報がない場合はデフォルト値と連番が使用される', () => {
+    const result = makeFilename('{heading}-{source}-{order}', mockImage, 3, pageUrl)
+    expect(result).toBe('noheading-unknown-003.jpg')
+  })
+
   it('data URLの画像は正しく拡張子が推測される', () => {
     const imageWithDataUrl: ImageSnapshot = {
       ...mockImage,
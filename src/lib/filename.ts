@@ -33,6 +33,9 @@ export interface FilenameContext {
   h: number
   alt: string
   index: string
+  heading: string // 直近の見出し
+  source: string // 検出ソース（img, css等）
+  order: string // ページ上の出現順
 }
 
 /**
@@ -77,7 +80,7 @@ export const sanitize = (text: string, maxLength = 50): string => {
 export const guessExtension = (url: string): string => {
   // data URLの場合
   if (url.startsWith('data:')) {
-    const match = url.match(/^data:image\/([a-z]+);/)
+    const match = url.match(/^data:image\/([a-z]+)(?:\+xml)?;/)
     if (match?.[1]) {
       const mime = match[1]
       // MIME to extension mapping
@@ -192,6 +195,10 @@ export const makeFilename = (
     h: image.height,
     alt: image.alt ? sanitize(image.alt) : 'noalt',
     index: String(index).padStart(3, '0'), // 001, 002, ...
+    heading: image.provenance?.heading ? sanitize(image.provenance.heading) : 'noheading',
+    source: image.provenance?.sources[0] ?? 'unknown',
+    // ドキュメント順が不明な場合は連番で代用
+    order: String((image.provenance?.documentIndex ?? index - 1) + 1).padStart(3, '0'),
   }
 
   // テンプレート変数を置換
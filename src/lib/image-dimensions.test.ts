@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest'
+import { getImageDimensions, parseImageDimensions, parseSvgDimensions } from './image-dimensions'
+
+/**
+ * 指定長のゼロ埋めバッファにバイト列を書き込む
+ */
+const makeBytes = (length: number, writes: [number, number[]][]): Uint8Array<ArrayBuffer> => {
+  const bytes = new Uint8Array(length)
+  for (const [offset, values] of writes) {
+    bytes.set(values, offset)
+  }
+  return bytes
+}
+
+const ascii = (text: string): number[] => Array.from(text, (c) => c.charCodeAt(0))
+
+const uint16BE = (value: number): number[] => [(value >> 8) & 0xff, value & 0xff]
+const uint16LE = (value: number): number[] => [value & 0xff, (value >> 8) & 0xff]
+const uint32BE = (value: number): number[] => [...uint16BE(value >>> 16), ...uint16BE(value)]
+const uint32LE = (value: number): number[] => [...uint16LE(value), ...uint16LE(value >>> 16)]
+
+const PNG_1920x1080 = makeBytes(32, [
+  [0, [0x89, ...ascii('PNG'), 0x0d, 0x0a, 0x1a, 0x0a]],
+  [12, ascii('IHDR')],
+  [16, uint32BE(1920)],
+  [20, uint32BE(1080)],
+])
+
+describe('parseImageDimensions', () => {
+  it('PNGのIHDRから寸法を取得する', () => {
+    expect(parseImageDimensions(PNG_1920x1080)).toEqual({ width: 1920, height: 1080 })
+  })
+
+  it('GIFの論理スクリーンサイズを取得する', () => {
+    const gif = makeBytes(32, [
+      [0, ascii('GIF89a')],
+      [6, uint16LE(320)],
+      [8, uint16LE(240)],
+    ])
+    expect(parseImageDimensions(gif)).toEqual({ width: 320, height: 240 })
+  })
+
+  it('JPEGのAPPセグメントを読み飛ばしてSOFから寸法を取得する', () => {
+    const jpeg = makeBytes(64, [
+      [0, [0xff, 0xd8]],
+      // APP1（長さ16）
+      [2, [0xff, 0xe1, ...uint16BE(16)]],
+      // SOF2（プログレッシブ）
+      [20, [0xff, 0xc2, ...uint16BE(17), 8, ...uint16BE(600), ...uint16BE(800)]],
+    ])
+    expect(parseImageDimensions(jpeg)).toEqual({ width: 800, height: 600 })
+  })
+
+  it('WebP（VP8 / VP8L / VP8X）の寸法を取得する', () => {
+    const riff = (chunk: string, writes: [number, number[]][]) =>
+      makeBytes(40, [[0, ascii('RIFF')], [8, ascii('WEBP')], [12, ascii(chunk)], ...writes])
+
+    expect(
+      parseImageDimensions(riff('VP8 ', [[26, [...uint16LE(1024), ...uint16LE(768)]]]))
+    ).toEqual({ width: 1024, height: 768 })
+
+    // VP8L: 幅-1=399, 高さ-1=299 を14bitずつパック
+    const packed = 399 | (299 << 14)
+    expect(parseImageDimensions(riff('VP8L', [[21, uint32LE(packed)]]))).toEqual({
+      width: 400,
+      height: 300,
+    })
+
+    // VP8X: 24bitの(幅-1, 高さ-1)
+    expect(
+      parseImageDimensions(
+        riff('VP8X', [[24, [...uint32LE(4095).slice(0, 3), ...uint32LE(2159).slice(0, 3)]]])
+      )
+    ).toEqual({ width: 4096, height: 2160 })
+  })
+
+  it('BMPのトップダウン（負の高さ）を処理する', () => {
+    const bmp = makeBytes(32, [
+      [0, ascii('BM')],
+      [18, uint32LE(640)],
+      [22, uint32LE(-480 >>> 0)],
+    ])
+    expect(parseImageDimensions(bmp)).toEqual({ width: 640, height: 480 })
+  })
+
+  it('未対応の形式や途中で切れたデータはnullを返す', () => {
+    expect(parseImageDimensions(new Uint8Array(64))).toBeNull()
+    expect(parseImageDimensions(PNG_1920x1080.subarray(0, 20))).toBeNull()
+  })
+})
+
+describe('parseSvgDimensions', () => {
+  it('width/height属性を優先する', () => {
+    expect(
+      parseSvgDimensions(
+        '<svg xmlns="http://www.w3.org/2000/svg" width="120px" height="80" viewBox="0 0 12 8"></svg>'
+      )
+    ).toEqual({ width: 120, height: 80 })
+  })
+
+  it('%指定の場合はviewBoxを使用する', () => {
+    expect(parseSvgDimensions('<svg width="100%" viewBox="0 0 300 150"><rect/></svg>')).toEqual({
+      width: 300,
+      height: 150,
+    })
+  })
+
+  it('寸法がない場合はnullを返す', () => {
+    expect(parseSvgDimensions('<svg><rect/></svg>')).toBeNull()
+    expect(parseSvgDimensions('not svg')).toBeNull()
+  })
+})
+
+describe('getImageDimensions', () => {
+  it('Blobのヘッダーから寸法を取得する', async () => {
+    const blob = new Blob([PNG_1920x1080], { type: 'image/png' })
+    await expect(getImageDimensions(blob)).resolves.toEqual({ width: 1920, height: 1080 })
+  })
+
+  it('SVGのBlobから寸法を取得する', async () => {
+    const blob = new Blob(['<svg width="64" height="32"></svg>'], { type: 'image/svg+xml' })
+    await expect(getImageDimensions(blob)).resolves.toEqual({ width: 64, height: 32 })
+  })
+
+  it('判定できないデータはnullを返す', async () => {
+    const blob = new Blob(['not an image at all, just some text'], { type: 'image/avif' })
+    await expect(getImageDimensions(blob)).resolves.toBeNull()
+  })
+})
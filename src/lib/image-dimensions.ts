@@ -0,0 +1,244 @@
+/**
+ * 画像の実寸（ピクセルサイズ）取得ユーティリティ
+ *
+ * DOM由来のwidth/height（表示サイズ、CSS背景の要素サイズ等）ではなく、
+ * 取得済みBlobのデータから画像本来の寸法を求めます。
+ *
+ * - PNG / GIF / JPEG / WebP / BMP: ヘッダーを直接パース（デコード不要で高速）
+ * - SVG: width/height属性またはviewBox
+ * - その他（AVIF等）: createImageBitmapでデコード（Service Workerでも利用可能）
+ */
+
+/**
+ * 画像の寸法
+ */
+export interface ImageDimensions {
+  width: number
+  height: number
+}
+
+/**
+ * ヘッダーパースで読み込む最大バイト数
+ * JPEGはEXIF等のAPPセグメントの後にSOFが来るため余裕を持たせる
+ */
+const HEADER_READ_BYTES = 512 * 1024
+
+/**
+ * JPEGのSOF（Start Of Frame）マーカー
+ * DHT(C4), JPG(C8), DAC(CC)はSOFではないため除外
+ */
+const JPEG_SOF_MARKERS = new Set([
+  0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf,
+])
+
+const readAscii = (bytes: Uint8Array, offset: number, length: number): string =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length))
+
+const toDimensions = (width: number, height: number): ImageDimensions | null =>
+  width > 0 && height > 0 ? { width, height } : null
+
+/**
+ * JPEGのセグメントを走査してSOFから寸法を取得します
+ */
+const parseJpeg = (bytes: Uint8Array, view: DataView): ImageDimensions | null => {
+  let offset = 2
+
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) return null
+
+    const marker = bytes[offset + 1] ?? 0
+
+    // フィルバイト
+    if (marker === 0xff) {
+      offset++
+      continue
+    }
+
+    if (JPEG_SOF_MARKERS.has(marker)) {
+      return toDimensions(view.getUint16(offset + 7), view.getUint16(offset + 5))
+    }
+
+    // 長さを持たないマーカー（SOI, RST0-7, TEM）
+    if (marker === 0xd8 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2
+      continue
+    }
+
+    offset += 2 + view.getUint16(offset + 2)
+  }
+
+  return null
+}
+
+/**
+ * WebP（VP8 / VP8L / VP8X）のヘッダーから寸法を取得します
+ */
+const parseWebp = (bytes: Uint8Array, view: DataView): ImageDimensions | null => {
+  const chunk = readAscii(bytes, 12, 4)
+
+  switch (chunk) {
+    case 'VP8 ':
+      // 非可逆: キーフレームヘッダーの14bit幅/高さ
+      return toDimensions(view.getUint16(26, true) & 0x3fff, view.getUint16(28, true) & 0x3fff)
+    case 'VP8L': {
+      // 可逆: 14bitずつパックされた(幅-1, 高さ-1)
+      const b0 = bytes[21] ?? 0
+      const b1 = bytes[22] ?? 0
+      const b2 = bytes[23] ?? 0
+      const b3 = bytes[24] ?? 0
+      return toDimensions(
+        1 + (((b1 & 0x3f) << 8) | b0),
+        1 + (((b3 & 0x0f) << 10) | (b2 << 2) | ((b1 & 0xc0) >> 6))
+      )
+    }
+    case 'VP8X':
+      // 拡張: 24bitの(キャンバス幅-1, キャンバス高さ-1)
+      return toDimensions(
+        1 + (view.getUint16(24, true) | ((bytes[26] ?? 0) << 16)),
+        1 + (view.getUint16(27, true) | ((bytes[29] ?? 0) << 16))
+      )
+    default:
+      return null
+  }
+}
+
+/**
+ * 画像ファイルのヘッダーから寸法を取得します
+ *
+ * @param bytes - 画像データの先頭部分
+ * @returns 寸法、未対応の形式または不正なデータの場合はnull
+ *
+ * @example
+ * parseImageDimensions(new Uint8Array(await blob.slice(0, 1024).arrayBuffer()))
+ * // => { width: 1920, height: 1080 }
+ */
+export const parseImageDimensions = (bytes: Uint8Array): ImageDimensions | null => {
+  if (bytes.length < 26) return null
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+
+  try {
+    // PNG: シグネチャ + IHDRチャンク
+    if (bytes[0] === 0x89 && readAscii(bytes, 1, 3) === 'PNG') {
+      return toDimensions(view.getUint32(16), view.getUint32(20))
+    }
+
+    // GIF: 論理スクリーンサイズ（リトルエンディアン）
+    if (readAscii(bytes, 0, 4) === 'GIF8') {
+      return toDimensions(view.getUint16(6, true), view.getUint16(8, true))
+    }
+
+    // JPEG
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+      return parseJpeg(bytes, view)
+    }
+
+    // WebP: RIFFコンテナ
+    if (readAscii(bytes, 0, 4) === 'RIFF' && readAscii(bytes, 8, 4) === 'WEBP') {
+      return bytes.length >= 30 ? parseWebp(bytes, view) : null
+    }
+
+    // BMP: 高さは負値（トップダウン）の場合がある
+    if (readAscii(bytes, 0, 2) === 'BM') {
+      return toDimensions(view.getInt32(18, true), Math.abs(view.getInt32(22, true)))
+    }
+  } catch {
+    // データが途中で切れている場合（RangeError）
+    return null
+  }
+
+  return null
+}
+
+/**
+ * SVGのwidth/height属性またはviewBoxから寸法を取得します
+ *
+ * width/heightは単位なしまたはpxのみ対応（%やemは表示環境依存のためviewBoxを使用）
+ *
+ * @param svgText - SVGのマークアップ
+ * @returns 寸法、取得できない場合はnull
+ */
+export const parseSvgDimensions = (svgText: string): ImageDimensions | null => {
+  const rootTag = /<svg\b[^>]*>/i.exec(svgText)?.[0]
+  if (!rootTag) return null
+
+  const readLength = (name: string): number => {
+    const match = new RegExp(`\\s${name}\\s*=\\s*["']\\s*([\\d.]+)(?:px)?\\s*["']`, 'i').exec(
+      rootTag
+    )
+    return match?.[1] ? Math.round(Number.parseFloat(match[1])) : 0
+  }
+
+  const width = readLength('width')
+  const height = readLength('height')
+  if (width > 0 && height > 0) {
+    return { width, height }
+  }
+
+  const viewBox = /\sviewBox\s*=\s*["']([^"']+)["']/i.exec(rootTag)?.[1]
+  if (viewBox) {
+    const [, , vbWidth, vbHeight] = viewBox
+      .trim()
+      .split(/[\s,]+/)
+      .map(Number)
+    return toDimensions(Math.round(vbWidth ?? 0), Math.round(vbHeight ?? 0))
+  }
+
+  return null
+}
+
+/**
+ * BlobをArrayBufferとして読み込みます
+ *
+ * テスト環境（jsdom）のBlobはarrayBuffer()を持たないためFileReaderにフォールバック
+ */
+const readArrayBuffer = async (blob: Blob): Promise<ArrayBuffer> => {
+  if (typeof blob.arrayBuffer === 'function') {
+    return blob.arrayBuffer()
+  }
+
+  return new Promise<ArrayBuffer>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as ArrayBuffer)
+    reader.onerror = () => {
+      reader.abort()
+      reject(new Error(`FileReader error: ${reader.error?.message ?? 'Unknown error'}`))
+    }
+    reader.readAsArrayBuffer(blob)
+  })
+}
+
+/**
+ * Blobから画像の実寸を取得します
+ *
+ * ヘッダーパース → SVGパース → createImageBitmapの順に試行します。
+ *
+ * @param blob - 取得済みの画像データ
+ * @returns 寸法、取得できない場合はnull
+ */
+export const getImageDimensions = async (blob: Blob): Promise<ImageDimensions | null> => {
+  try {
+    const head = new Uint8Array(await readArrayBuffer(blob.slice(0, HEADER_READ_BYTES)))
+
+    const parsed = parseImageDimensions(head)
+    if (parsed) return parsed
+
+    if (blob.type.includes('svg') || readAscii(head, 0, 64).trimStart().startsWith('<')) {
+      const svgText = new TextDecoder().decode(await readArrayBuffer(blob))
+      const svgDimensions = parseSvgDimensions(svgText)
+      if (svgDimensions) return svgDimensions
+    }
+
+    if (typeof createImageBitmap === 'function') {
+      const bitmap = await createImageBitmap(blob)
+      const decoded = toDimensions(bitmap.width, bitmap.height)
+      bitmap.close()
+      return decoded
+    }
+  } catch (error) {
+    // デコード不能なデータ（破損、未対応形式）
+    console.debug('[image-dimensions] Failed to read dimensions:', error)
+  }
+
+  return null
+}
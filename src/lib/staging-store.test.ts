@@ -0,0 +1,101 @@
+/**
+ * @vitest-environment jsdom
+ */
+
+import { describe, it, expect, afterEach } from 'vitest'
+import {
+  stageImage,
+  getStagedImages,
+  clearStagedImages,
+  stageCandidates,
+  getStagedCandidates,
+} from './staging-store'
+import type { ImageCandidate } from '../shared/types'
+
+const candidate = (url: string): ImageCandidate => ({ url, source: 'img' })
+
+describe('staging-store', () => {
+  afterEach(async () => {
+    await clearStagedImages(1)
+    await clearStagedImages(2)
+  })
+
+  it('画像データをArrayBufferとして保存し、タブごとに取得できること', async () => {
+    const blob = await new Response('image-data').blob()
+
+    await stageImage(1, 0, {
+      candidate: candidate('https://example.com/a.jpg'),
+      blob,
+      hash: 'hash-a',
+      contentType: 'image/jpeg',
+    })
+    await stageImage(2, 0, {
+      candidate: candidate('https://example.com/b.jpg'),
+      blob,
+      hash: 'hash-b',
+      contentType: 'image/png',
+    })
+
+    const staged = await getStagedImages(1)
+    expect(staged).toHaveLength(1)
+    expect(staged[0]).toMatchObject({
+      tabId: 1,
+      index: 0,
+      hash: 'hash-a',
+      contentType: 'image/jpeg',
+      candidate: { url: 'https://example.com/a.jpg' },
+    })
+    expect(new TextDecoder().decode(staged[0]?.data)).toBe('image-data')
+  })
+
+  it('同じ添字の保存は上書きされること', async () => {
+    const blob = await new Response('x').blob()
+    const image = {
+      candidate: candidate('https://example.com/a.jpg'),
+      blob,
+      contentType: 'image/jpeg',
+    }
+
+    await stageImage(1, 3, { ...image, hash: 'first' })
+    await stageImage(1, 3, { ...image, hash: 'second' })
+
+    const staged = await getStagedImages(1)
+    expect(staged.map((image) => image.hash)).toEqual(['second'])
+  })
+
+  it('指定したタブの画像のみ削除されること', async () => {
+    const blob = await new Response('x').blob()
+    const image = {
+      candidate: candidate('https://example.com/a.jpg'),
+      blob,
+      hash: 'h',
+      contentType: 'image/jpeg',
+    }
+
+    await stageImage(1, 0, image)
+    await stageImage(1, 1, image)
+    await stageImage(2, 0, image)
+
+    await clearStagedImages(1)
+
+    expect(await getStagedImages(1)).toHaveLength(0)
+    expect(await getStagedImages(2)).toHaveLength(1)
+  })
+
+  it('候補一覧をタブごとに保存し、画像とあわせて削除されること', async () => {
+    const candidates = [
+      candidate('https://example.com/a.jpg'),
+      candidate('data:image/png;base64,AAAA'),
+    ]
+
+    await stageCandidates(1, candidates)
+    await stageCandidates(2, [candidate('https://example.com/b.jpg')])
+
+    expect(await getStagedCandidates(1)).toEqual(candidates)
+
+    await clearStagedImages(1)
+
+    expect(await getStagedCandidates(1)).toBeUndefined()
+    expect(await getStagedCandidates(2)).toHaveLength(1)
+  })
+})
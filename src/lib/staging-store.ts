@@ -0,0 +1,160 @@
+/**
+ * IndexedDB: DiffSnapStaging
+ * 収集途中で取得済みの画像データを一時保存するデータベース
+ *
+ * Service Workerが停止しても取得済みの画像を再取得せずに収集を再開できるよう、
+ * 画像ごとに（タブID, 候補の添字）をキーとして保存します。収集の完了・中止時に削除します。
+ * 候補の一覧（data: URLを含む）もタブごとに保存し、chrome.storage.sessionの容量を圧迫しないようにします。
+ */
+
+import { openDB, type IDBPDatabase } from 'idb'
+import type { ImageCandidate } from '../shared/types'
+
+const DB_NAME = 'DiffSnapStaging'
+const DB_VERSION = 2
+const STORE_NAME = 'images'
+const CANDIDATES_STORE_NAME = 'candidates'
+
+/**
+ * 一時保存した画像
+ *
+ * Blobは環境によって構造化複製できないため、ArrayBufferで保存します。
+ */
+export interface StagedImage {
+  tabId: number
+  index: number // チェックポイントのcandidates内の添字
+  candidate: ImageCandidate
+  data: ArrayBuffer
+  hash: string
+  contentType: string
+}
+
+/**
+ * 一時保存した候補の一覧
+ */
+export interface StagedCandidates {
+  tabId: number
+  candidates: ImageCandidate[] // チェックポイントのcandidatesと同じ順序
+}
+
+export interface DiffSnapStagingDB {
+  images: {
+    key: [number, number]
+    value: StagedImage
+    indexes: {
+      tabId: number
+    }
+  }
+  candidates: {
+    key: number
+    value: StagedCandidates
+  }
+}
+
+/**
+ * IndexedDBを開く
+ */
+export const openStagingDB = async (): Promise<IDBPDatabase<DiffSnapStagingDB>> => {
+  return openDB<DiffSnapStagingDB>(DB_NAME, DB_VERSION, {
+    upgrade(db) {
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: ['tabId', 'index'] })
+        store.createIndex('tabId', 'tabId', { unique: false })
+      }
+      if (!db.objectStoreNames.contains(CANDIDATES_STORE_NAME)) {
+        db.createObjectStore(CANDIDATES_STORE_NAME, { keyPath: 'tabId' })
+      }
+    },
+  })
+}
+
+/**
+ * 取得済みの画像を保存
+ *
+ * @param tabId - 収集を実行しているタブID
+ * @param index - チェックポイントのcandidates内の添字
+ * @param image - 取得結果（候補・Blob・ハッシュ・Content-Type）
+ */
+export const stageImage = async (
+  tabId: number,
+  index: number,
+  image: { candidate: ImageCandidate; blob: Blob; hash: string; contentType: string }
+): Promise<void> => {
+  const data = await image.blob.arrayBuffer()
+  const db = await openStagingDB()
+  try {
+    await db.put(STORE_NAME, {
+      tabId,
+      index,
+      candidate: image.candidate,
+      data,
+      hash: image.hash,
+      contentType: image.contentType,
+    })
+  } finally {
+    db.close()
+  }
+}
+
+/**
+ * タブの一時保存画像を取得
+ */
+export const getStagedImages = async (tabId: number): Promise<StagedImage[]> => {
+  const db = await openStagingDB()
+  try {
+    return await db.getAllFromIndex(STORE_NAME, 'tabId', tabId)
+  } finally {
+    db.close()
+  }
+}
+
+/**
+ * 収集の候補一覧を保存（同じタブの一覧は上書き）
+ *
+ * @param tabId - 収集を実行しているタブID
+ * @param candidates - 全ページの候補（チェックポイントのcandidatesと同じ順序）
+ */
+export const stageCandidates = async (
+  tabId: number,
+  candidates: ImageCandidate[]
+): Promise<void> => {
+  const db = await openStagingDB()
+  try {
+    await db.put(CANDIDATES_STORE_NAME, { tabId, candidates })
+  } finally {
+    db.close()
+  }
+}
+
+/**
+ * タブの一時保存した候補一覧を取得
+ *
+ * @returns 候補一覧、保存されていない場合はundefined
+ */
+export const getStagedCandidates = async (tabId: number): Promise<ImageCandidate[] | undefined> => {
+  const db = await openStagingDB()
+  try {
+    return (await db.get(CANDIDATES_STORE_NAME, tabId))?.candidates
+  } finally {
+    db.close()
+  }
+}
+
+/**
+ * タブの一時保存データ（画像・候補一覧）を削除
+ */
+export const clearStagedImages = async (tabId: number): Promise<void> => {
+  const db = await openStagingDB()
+  try {
+    const tx = db.transaction([STORE_NAME, CANDIDATES_STORE_NAME], 'readwrite')
+    const images = tx.objectStore(STORE_NAME)
+    const keys = await images.index('tabId').getAllKeys(tabId)
+    await Promise.all([
+      ...keys.map((key) => images.delete(key)),
+      tx.objectStore(CANDIDATES_STORE_NAME).delete(tabId),
+    ])
+    await tx.done
+  } finally {
+    db.close()
+  }
+}
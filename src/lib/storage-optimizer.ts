@@ -21,6 +21,7 @@ const VALID_IMAGE_SOURCES: readonly ImageSource[] = [
   'svg',
   'video',
   'iframe',
+  'meta',
 ] as const
 
 /**
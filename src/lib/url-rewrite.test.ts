@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { applyUrlRewrites, rewriteImageUrl } from './url-rewrite'
+import type { DomainProfile, ImageCandidate } from '../shared/types'
+
+describe('rewriteImageUrl', () => {
+  it.each([
+    [
+      'Cloudinaryの変換指定を取り除く',
+      'https://res.cloudinary.com/demo/image/upload/w_300,h_200,c_fill/q_auto/v1690000000/sample.jpg',
+      'https://res.cloudinary.com/demo/image/upload/v1690000000/sample.jpg',
+    ],
+    [
+      'imgixのリサイズ用クエリを取り除く',
+      'https://assets.imgix.net/photo.jpg?w=300&h=200&fit=crop&auto=format',
+      'https://assets.imgix.net/photo.jpg?auto=format',
+    ],
+    [
+      'Shopifyのサイズ指定サフィックスを取り除く',
+      'https://cdn.shopify.com/s/files/1/0001/products/shirt_300x300_crop_center@2x.jpg?v=123',
+      'https://cdn.shopify.com/s/files/1/0001/products/shirt.jpg?v=123',
+    ],
+    [
+      'WordPressのサムネイルを元画像にする',
+      'https://example.com/wp-content/uploads/2024/01/photo-150x150.jpg',
+      'https://example.com/wp-content/uploads/2024/01/photo.jpg',
+    ],
+    [
+      'Cloudinaryのバージョンがない場合は/upload/直後の変換指定のみ取り除く',
+      'https://res.cloudinary.com/demo/image/upload/c_thumb,w_200/sample.jpg',
+      'https://res.cloudinary.com/demo/image/upload/sample.jpg',
+    ],
+    [
+      'Fastly Image Optimizerのクエリを取り除く',
+      'https://images.example.com/hero.jpg?width=640&height=360&optimize=medium',
+      'https://images.example.com/hero.jpg?optimize=medium',
+    ],
+    [
+      'Akamai Image Managerのクエリを取り除く',
+      'https://images.example.com/hero.jpg?imwidth=640',
+      'https://images.example.com/hero.jpg',
+    ],
+  ])('%s', (_, url, expected) => {
+    expect(rewriteImageUrl(url, undefined)).toBe(expected)
+  })
+
+  it('対象外のURLはそのまま返す', () => {
+    const url = 'https://example.com/images/photo-2024.jpg'
+    expect(rewriteImageUrl(url, undefined)).toBe(url)
+  })
+
+  it('Cloudinaryの公開IDのフォルダは変換指定として扱わない', () => {
+    const url = 'https://res.cloudinary.com/demo/image/upload/my_photos/sample.jpg'
+    expect(rewriteImageUrl(url, undefined)).toBe(url)
+  })
+
+  it('Fastly以外のホストのwidth・heightクエリは取り除かない', () => {
+    const url = 'https://example.com/api/image?id=42&width=640&height=360'
+    expect(rewriteImageUrl(url, undefined)).toBe(url)
+  })
+
+  it('ユーザー定義ルールを組み込みルールより先に適用する', () => {
+    const profile: DomainProfile = {
+      domain: 'example.com',
+      urlRewriteRules: [{ pattern: '/thumbs/(.*)_s\\.jpg$', replacement: '/images/$1.jpg' }],
+    }
+
+    expect(rewriteImageUrl('https://example.com/thumbs/cat_s.jpg', profile)).toBe(
+      'https://example.com/images/cat.jpg'
+    )
+  })
+
+  it('builtinUrlRewrites: falseでは組み込みルールを適用しない', () => {
+    const url = 'https://example.com/wp-content/uploads/2024/01/photo-150x150.jpg'
+    expect(rewriteImageUrl(url, { domain: 'example.com', builtinUrlRewrites: false })).toBe(url)
+  })
+})
+
+describe('applyUrlRewrites', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('書き換えた候補は元のURLをfallbackUrlに持つ', () => {
+    const candidates: ImageCandidate[] = [
+      { url: 'https://example.com/wp-content/uploads/a-300x200.jpg', source: 'img', alt: 'A' },
+      { url: 'https://example.com/b.jpg', source: 'img' },
+    ]
+
+    expect(applyUrlRewrites(candidates, undefined)).toEqual([
+      {
+        url: 'https://example.com/wp-content/uploads/a.jpg',
+        fallbackUrl: 'https://example.com/wp-content/uploads/a-300x200.jpg',
+        urlRewritten: true,
+        source: 'img',
+        alt: 'A',
+      },
+      { url: 'https://example.com/b.jpg', source: 'img' },
+    ])
+  })
+
+  it('既にfallbackUrlを持つ候補とdata URLは書き換えない', () => {
+    const candidates: ImageCandidate[] = [
+      {
+        url: 'https://example.com/wp-content/uploads/full-1024x768.jpg',
+        fallbackUrl: 'https://example.com/wp-content/uploads/thumb-150x150.jpg',
+        source: 'img',
+      },
+      { url: 'data:image/png;base64,AAAA?w=1', source: 'canvas' },
+    ]
+
+    expect(applyUrlRewrites(candidates, undefined)).toEqual(candidates)
+  })
+
+  it('書き換え後に重複したURLは先頭の候補のみ残す', () => {
+    const candidates: ImageCandidate[] = [
+      { url: 'https://example.com/wp-content/uploads/a-300x200.jpg', source: 'img' },
+      { url: 'https://example.com/wp-content/uploads/a-1024x768.jpg', source: 'srcset' },
+    ]
+
+    const result = applyUrlRewrites(candidates, undefined)
+
+    expect(result).toHaveLength(1)
+    expect(result[0]?.source).toBe('img')
+  })
+
+  it('無効なユーザー定義ルールは無視する', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const profile: DomainProfile = {
+      domain: 'example.com',
+      urlRewriteRules: [{ pattern: '(', replacement: '' }],
+    }
+    const candidates: ImageCandidate[] = [{ url: 'https://example.com/a.jpg', source: 'img' }]
+
+    expect(applyUrlRewrites(candidates, profile)).toEqual(candidates)
+  })
+})
@@ -0,0 +1,242 @@
+/**
+ * 画像URL書き換えユーティリティ
+ *
+ * 多くのCDNはリサイズ指定をURLに含めます（Cloudinaryの"w_300"、imgixの"?w="、
+ * Shopifyの"_300x"、WordPressの"-150x150.jpg"等）。検出した候補のURLから
+ * リサイズ指定を取り除き、最大サイズ／元画像のURLに書き換えてから取得します。
+ *
+ * 書き換えた候補は元のURLをfallbackUrlに持つため、書き換え先の取得に失敗した場合や
+ * 元の画像より小さい・画像でない内容が返った場合は、ImageCollectorが元のURLで再取得します。
+ */
+
+import type { DomainProfile, ImageCandidate, UrlRewriteRule } from '../shared/types'
+
+/**
+ * 組み込みのCDN書き換えルール
+ */
+export interface BuiltinRewriteRule {
+  name: string
+  /**
+   * 書き換え後のURLを返す（対象外ならnull）
+   */
+  rewrite: (url: URL) => string | null
+}
+
+/**
+ * 指定したクエリパラメータを取り除いたURLを返します（該当なしならnull）
+ */
+const deleteParams = (url: URL, params: string[]): string | null => {
+  const next = new URL(url.href)
+  for (const param of params) {
+    next.searchParams.delete(param)
+  }
+  return next.href === url.href ? null : next.href
+}
+
+/**
+ * Cloudinaryの変換パラメータ名（"w_300"の"w"等）
+ */
+const CLOUDINARY_PARAMS =
+  'a|ac|af|ar|b|bo|br|c|co|cs|d|dl|dn|dpr|du|e|eo|f|fl|fn|fps|g|h|if|ki|l|o|p|pg|q|r|so|sp|t|u|vc|vs|w|x|y|z'
+
+/**
+ * Cloudinaryの変換指定セグメント（"w_300,h_200,c_fill"等）
+ *
+ * 公開IDのフォルダ（"my_photos"等）と区別するため、既知のパラメータ名のみ対象にします。
+ */
+const CLOUDINARY_TRANSFORMATION = new RegExp(
+  `^(?:${CLOUDINARY_PARAMS})_[^/,]+(?:,(?:${CLOUDINARY_PARAMS})_[^/,]+)*$`
+)
+
+/**
+ * Cloudinaryのバージョンセグメント（"v1690000000"）
+ */
+const CLOUDINARY_VERSION = /^v\d+$/
+
+/**
+ * Shopifyのサイズ指定サフィックス（"_300x", "_300x300_crop_center", "_x300@2x"等）
+ */
+const SHOPIFY_SIZE_SUFFIX = /_(?:\d+x\d*|x\d+)(?:_crop_[a-z]+)?(?:@\dx)?(\.[a-z0-9]+)$/i
+
+/**
+ * WordPressが生成するサムネイルのサフィックス（"-150x150.jpg"等）
+ */
+const WORDPRESS_SIZE_SUFFIX = /-\d+x\d+(\.[a-z0-9]+)$/i
+
+/**
+ * 組み込みルール一覧（上から順に適用）
+ */
+export const BUILTIN_REWRITE_RULES: BuiltinRewriteRule[] = [
+  {
+    name: 'cloudinary',
+    rewrite: (url) => {
+      const marker = '/upload/'
+      const index = url.pathname.indexOf(marker)
+      if (url.hostname !== 'res.cloudinary.com' || index < 0) return null
+
+      // "/upload/"直後の変換セグメントを取り除く（バージョン"v123"や公開IDは残す）
+      // バージョンがあればその手前までが変換指定（連鎖した変換）、なければ直後の1セグメントのみ
+      const segments = url.pathname.slice(index + marker.length).split('/')
+      const version = segments.findIndex((segment) => CLOUDINARY_VERSION.test(segment))
+      const transformations = version > 0 ? segments.slice(0, version) : segments.slice(0, 1)
+      if (!transformations.every((segment) => CLOUDINARY_TRANSFORMATION.test(segment))) {
+        return null
+      }
+      const firstKept = transformations.length
+      if (firstKept >= segments.length) return null
+
+      const next = new URL(url.href)
+      next.pathname =
+        url.pathname.slice(0, index + marker.length) + segments.slice(firstKept).join('/')
+      return next.href
+    },
+  },
+  {
+    name: 'imgix',
+    rewrite: (url) =>
+      url.hostname.endsWith('.imgix.net')
+        ? deleteParams(url, ['w', 'h', 'fit', 'crop', 'dpr', 'max-w', 'max-h', 'q'])
+        : null,
+  },
+  {
+    name: 'shopify',
+    rewrite: (url) => {
+      if (url.hostname !== 'cdn.shopify.com' && !url.pathname.startsWith('/cdn/shop/')) {
+        return null
+      }
+
+      const next = new URL(url.href)
+      next.pathname = url.pathname.replace(SHOPIFY_SIZE_SUFFIX, '$1')
+      next.searchParams.delete('width')
+      next.searchParams.delete('height')
+      next.searchParams.delete('crop')
+      return next.href === url.href ? null : next.href
+    },
+  },
+  {
+    name: 'wordpress',
+    rewrite: (url) => {
+      // Jetpack/WordPress.comの画像CDN（i0.wp.com等）はクエリでリサイズ
+      if (/^i\d\.wp\.com$/.test(url.hostname) || url.hostname.endsWith('.files.wordpress.com')) {
+        return deleteParams(url, ['w', 'h', 'resize', 'fit'])
+      }
+
+      if (!url.pathname.includes('/wp-content/uploads/')) return null
+
+      const next = new URL(url.href)
+      next.pathname = url.pathname.replace(WORDPRESS_SIZE_SUFFIX, '$1')
+      return next.href === url.href ? null : next.href
+    },
+  },
+  {
+    // Akamai Image Manager（独自ドメインで配信されるためクエリのみで判定）
+    name: 'akamai',
+    rewrite: (url) => deleteParams(url, ['imwidth', 'imheight', 'impolicy']),
+  },
+  {
+    // Fastly Image Optimizer（Fastlyのホスト、またはIO固有の"optimize"クエリがある場合のみ）
+    // "width"・"height"は汎用的なクエリ名のため、それだけでは判定しない
+    name: 'fastly',
+    rewrite: (url) =>
+      url.hostname.endsWith('.fastly.net') || url.searchParams.has('optimize')
+        ? deleteParams(url, ['width', 'height', 'dpr', 'fit', 'crop', 'resize-filter'])
+        : null,
+  },
+]
+
+/**
+ * ユーザー定義ルールをコンパイルします（無効な正規表現は警告して無視）
+ */
+const compileUserRules = (rules: UrlRewriteRule[]): Array<[RegExp, string]> =>
+  rules.flatMap((rule): Array<[RegExp, string]> => {
+    if (!rule.pattern) return []
+    try {
+      return [[new RegExp(rule.pattern), rule.replacement]]
+    } catch (error) {
+      console.warn('[url-rewrite] Invalid rewrite pattern:', rule.pattern, error)
+      return []
+    }
+  })
+
+/**
+ * コンパイル済みのユーザー定義ルールと組み込みルールを順に適用
+ */
+const rewriteWith = (
+  url: string,
+  userRules: Array<[RegExp, string]>,
+  profile: DomainProfile | undefined
+): string => {
+  let result = url
+  for (const [pattern, replacement] of userRules) {
+    result = result.replace(pattern, replacement)
+  }
+
+  if (profile?.builtinUrlRewrites === false) {
+    return result
+  }
+
+  for (const rule of BUILTIN_REWRITE_RULES) {
+    let parsed: URL
+    try {
+      parsed = new URL(result)
+    } catch {
+      return url
+    }
+    result = rule.rewrite(parsed) ?? result
+  }
+
+  return result
+}
+
+/**
+ * URLに書き換えルールを適用します
+ *
+ * ユーザー定義ルールを先に適用し、続けて組み込みルールを適用します。
+ *
+ * @param url - 画像URL
+ * @param profile - 適用するドメインプロファイル
+ * @returns 書き換え後のURL（書き換えなしなら元のURL）
+ *
+ * @example
+ * rewriteImageUrl('https://example.com/wp-content/uploads/2024/01/photo-150x150.jpg', undefined)
+ * // => 'https://example.com/wp-content/uploads/2024/01/photo.jpg'
+ */
+export const rewriteImageUrl = (url: string, profile: DomainProfile | undefined): string =>
+  rewriteWith(url, compileUserRules(profile?.urlRewriteRules ?? []), profile)
+
+/**
+ * 候補のURLを最大サイズ／元画像のURLに書き換えます
+ *
+ * - 書き換えた候補は元のURLをfallbackUrlに持ち、urlRewrittenを付ける（取得に失敗した場合や
+ *   内容が元の画像と合わない場合に元のURLで再取得）
+ * - data: URLと、既にfallbackUrlを持つ候補（リンク先の元画像等）は対象外
+ * - 書き換えの結果URLが重複した候補は先頭のみ残す
+ *
+ * @param candidates - 検出された画像候補
+ * @param profile - 適用するドメインプロファイル
+ * @returns 書き換え後の候補
+ */
+export const applyUrlRewrites = (
+  candidates: ImageCandidate[],
+  profile: DomainProfile | undefined
+): ImageCandidate[] => {
+  const userRules = compileUserRules(profile?.urlRewriteRules ?? [])
+  const seenUrls = new Set<string>()
+  const results: ImageCandidate[] = []
+
+  for (const candidate of candidates) {
+    let rewritten = candidate
+    if (!candidate.url.startsWith('data:') && !candidate.fallbackUrl) {
+      const url = rewriteWith(candidate.url, userRules, profile)
+      if (url !== candidate.url) {
+        rewritten = { ...candidate, url, fallbackUrl: candidate.url, urlRewritten: true }
+      }
+    }
+
+    if (seenUrls.has(rewritten.url)) continue
+    seenUrls.add(rewritten.url)
+    results.push(rewritten)
+  }
+
+  return results
+}
@@ -1,4 +1,4 @@
-import { useEffect } from 'react'
+import { useEffect, useState } from 'react'
 import { Header } from './components/Header'
 import { Footer } from './components/Footer'
 import { PreviewGrid } from './components/PreviewGrid'
@@ -6,24 +6,53 @@ import { ProgressBar, type ProgressStatus } from './components/ProgressBar'
 import { usePopupStore, setupBackgroundListener } from './store'
 import type { MessageResponse } from '../shared/types'
 
+// ページ送りで巡回できる最大ページ数
+const MAX_PAGES_LIMIT = 50
+
 export const App = () => {
   const status = usePopupStore((state) => state.status)
   const total = usePopupStore((state) => state.total)
   const completed = usePopupStore((state) => state.completed)
   const failed = usePopupStore((state) => state.failed)
+  const tabId = usePopupStore((state) => state.tabId)
   const candidates = usePopupStore((state) => state.candidates)
   const errorMessage = usePopupStore((state) => state.errorMessage)
+  const live = usePopupStore((state) => state.live)
   const reset = usePopupStore((state) => state.reset)
   const setError = usePopupStore((state) => state.setError)
+  const [liveMode, setLiveMode] = useState(false)
+  const [maxPages, setMaxPages] = useState(1)
+  const [backgroundTab, setBackgroundTab] = useState(true)
 
   useEffect(() => {
     // Backgroundからのメッセージリスナーをセットアップ
     const cleanup = setupBackgroundListener()
+
+    // 進行中の収集があれば状態を復元（ライブ検出中はページ操作でPopupが閉じられるため）
+    const restoreCollectionState = async () => {
+      try {
+        const [currentTab] = await chrome.tabs.query({ active: true, currentWindow: true })
+        if (!currentTab?.id) return
+
+        const response = (await chrome.runtime.sendMessage({
+          type: 'GET_COLLECTION_STATE',
+          tabId: currentTab.id,
+        })) as MessageResponse
+
+        if (response?.state) {
+          usePopupStore.getState().restoreState(response.state)
+        }
+      } catch (error) {
+        console.error('Failed to send GET_COLLECTION_STATE:', error)
+      }
+    }
+    void restoreCollectionState()
+
     // コンポーネントのアンマウント時にリスナーを削除（メモリリーク防止）
     return cleanup
   }, [])
 
-  const handleDownload = async () => {
+  const startCollection = async (selectionMode: boolean) => {
     try {
       // 現在のタブを取得
       const [currentTab] = await chrome.tabs.query({ active: true, currentWindow: true })
@@ -41,6 +70,10 @@ export const App = () => {
           enableScroll: false, // MVP: 自動スクロールは手動トリガー
           maxScrollDepth: 20,
           scrollTimeout: 15000,
+          liveMode,
+          selectionMode,
+          maxPages,
+          paginationTab: backgroundTab ? 'background' : 'same',
         },
       })) as MessageResponse
 
@@ -56,6 +89,62 @@ export const App = () => {
     }
   }
 
+  const handleDownload = () => startCollection(false)
+
+  // ページ上のオーバーレイで範囲を選んでから収集（ページ操作のためPopupは閉じる）
+  const handleSelectOnPage = async () => {
+    await startCollection(true)
+    window.close()
+  }
+
+  const handleStopLive = async () => {
+    try {
+      const [currentTab] = await chrome.tabs.query({ active: true, currentWindow: true })
+
+      if (!currentTab?.id) {
+        setError('No active tab found')
+        return
+      }
+
+      // ライブ検出を停止し、蓄積した候補で収集を開始
+      const response = (await chrome.runtime.sendMessage({
+        type: 'STOP_LIVE_COLLECTION',
+        tabId: currentTab.id,
+      })) as MessageResponse
+
+      if (response?.status !== 'OK') {
+        console.error('Stop live collection failed:', response)
+      }
+    } catch (error) {
+      console.error('Failed to send STOP_LIVE_COLLECTION:', error)
+    }
+  }
+
+  const handleCancel = async () => {
+    try {
+      const [currentTab] = await chrome.tabs.query({ active: true, currentWindow: true })
+
+      if (!currentTab?.id) {
+        setError('No active tab found')
+        return
+      }
+
+      // 検出・取得・ZIP生成を中止（ダウンロードは行われない）
+      const response = (await chrome.runtime.sendMessage({
+        type: 'CANCEL_COLLECTION',
+        tabId: currentTab.id,
+      })) as MessageResponse
+
+      if (response?.status === 'OK') {
+        reset()
+      } else {
+        console.error('Cancel collection failed:', response)
+      }
+    } catch (error) {
+      console.error('Failed to send CANCEL_COLLECTION:', error)
+    }
+  }
+
   const handleRetry = async (url: string) => {
     // 単一URLの再試行
     const failedImage = failed.find((f) => f.url === url)
@@ -64,6 +153,7 @@ export const App = () => {
     try {
       const response = (await chrome.runtime.sendMessage({
         type: 'RETRY_FAILED',
+        tabId,
         failedImages: [failedImage],
       })) as MessageResponse
 
@@ -84,6 +174,7 @@ export const App = () => {
     try {
       const response = (await chrome.runtime.sendMessage({
         type: 'RETRY_FAILED',
+        tabId,
         failedImages: failed,
       })) as MessageResponse
 
@@ -100,7 +191,7 @@ export const App = () => {
   const getStatusMessage = () => {
     switch (status) {
       case 'detecting':
-        return '画像を検出中...'
+        return live ? 'ページの変化を監視中...' : '画像を検出中...'
       case 'fetching':
         return '画像を取得中...'
       case 'zipping':
@@ -142,6 +233,51 @@ export const App = () => {
         {status === 'idle' && candidates.length === 0 && (
           <div className="text-center py-12">
             <p className="text-gray-600 mb-2">{getStatusMessage()}</p>
+            <label className="inline-flex items-center gap-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={liveMode}
+                onChange={(e) => setLiveMode(e.target.checked)}
+                data-testid="live-mode-toggle"
+              />
+              ライブ検出（停止するまで追加画像を収集）
+            </label>
+            <div className="mt-2 flex items-center justify-center gap-2 text-sm text-gray-600">
+              <label htmlFor="max-pages">ページ送りで収集するページ数</label>
+              <input
+                id="max-pages"
+                type="number"
+                min={1}
+                max={MAX_PAGES_LIMIT}
+                value={maxPages}
+                onChange={(e) =>
+                  setMaxPages(Math.min(MAX_PAGES_LIMIT, Math.max(1, Number(e.target.value) || 1)))
+                }
+                disabled={liveMode}
+                className="w-16 px-2 py-1 border border-gray-300 rounded"
+                data-testid="max-pages-input"
+              />
+            </div>
+            {maxPages > 1 && !liveMode && (
+              <label className="mt-1 inline-flex items-center gap-2 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={backgroundTab}
+                  onChange={(e) => setBackgroundTab(e.target.checked)}
+                  data-testid="background-tab-toggle"
+                />
+                次のページはバックグラウンドタブで開く
+              </label>
+            )}
+            <div className="mt-4">
+              <button
+                onClick={handleSelectOnPage}
+                data-testid="select-on-page-button"
+                className="px-4 py-2 text-sm text-blue-600 border border-blue-300 rounded hover:bg-blue-50"
+              >
+                ページ上で範囲を選択
+              </button>
+            </div>
           </div>
         )}
 
@@ -161,6 +297,26 @@ export const App = () => {
                 {completed} / {total}
               </p>
             </div>
+            {live && status === 'detecting' && (
+              <div className="text-center">
+                <button
+                  onClick={handleStopLive}
+                  data-testid="stop-live-button"
+                  className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
+                >
+                  監視を停止してダウンロード
+                </button>
+              </div>
+            )}
+            <div className="text-center">
+              <button
+                onClick={handleCancel}
+                data-testid="cancel-collection-button"
+                className="px-4 py-2 text-sm text-gray-600 border border-gray-300 rounded hover:bg-gray-100"
+              >
+                中止
+              </button>
+            </div>
           </div>
         )}
 
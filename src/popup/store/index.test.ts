@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
-import { usePopupStore } from './index'
+import { usePopupStore, setupBackgroundListener } from './index'
 import type { ImageCandidate } from '../../shared/types'
 
 describe('Popup Store', () => {
@@ -93,6 +93,22 @@ describe('Popup Store', () => {
       expect(usePopupStore.getState().status).toBe('complete')
     })
 
+    it('失敗画像のretryで再取得に戻れる: complete -> fetching', () => {
+      usePopupStore.getState().updateProgress({ status: 'fetching' })
+      usePopupStore.getState().updateProgress({ status: 'zipping' })
+      usePopupStore.getState().updateProgress({ status: 'complete' })
+      usePopupStore.getState().updateProgress({ status: 'fetching' })
+
+      expect(usePopupStore.getState().status).toBe('fetching')
+    })
+
+    it('収集の中止でidleに戻れる: fetching -> idle', () => {
+      usePopupStore.getState().updateProgress({ status: 'fetching' })
+      usePopupStore.getState().updateProgress({ status: 'idle' })
+
+      expect(usePopupStore.getState().status).toBe('idle')
+    })
+
     it('無効な状態遷移を拒否する: detecting -> complete', () => {
       const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
 
@@ -208,6 +224,62 @@ describe('Popup Store', () => {
     })
   })
 
+  describe('restoreState', () => {
+    it('Popupを開き直したときに進行中の収集の状態を復元する', () => {
+      usePopupStore.getState().restoreState({
+        tabId: 123,
+        status: 'fetching',
+        total: 10,
+        completed: 4,
+        failed: [],
+        zipSize: 0,
+      })
+
+      const state = usePopupStore.getState()
+      expect(state.status).toBe('fetching')
+      expect(state.completed).toBe(4)
+      expect(state.live).toBe(false)
+    })
+
+    it('ライブ検出中の状態を復元する', () => {
+      usePopupStore.getState().restoreState({
+        tabId: 123,
+        status: 'detecting',
+        total: 3,
+        completed: 0,
+        failed: [],
+        zipSize: 0,
+        live: true,
+      })
+
+      expect(usePopupStore.getState().live).toBe(true)
+    })
+  })
+
+  describe('setupBackgroundListener', () => {
+    it('liveを含まないSTATE_UPDATEでライブ検出中の表示を解除する', () => {
+      const addListener = vi.fn()
+      global.chrome = {
+        runtime: { onMessage: { addListener, removeListener: vi.fn() } },
+      } as unknown as typeof chrome
+      const cleanup = setupBackgroundListener()
+      const listener = addListener.mock.calls[0]?.[0] as (message: unknown) => void
+      const state = { tabId: 123, completed: 0, failed: [], zipSize: 0 }
+
+      listener({
+        type: 'STATE_UPDATE',
+        state: { ...state, status: 'detecting', total: 2, live: true },
+      })
+      expect(usePopupStore.getState().live).toBe(true)
+
+      listener({ type: 'STATE_UPDATE', state: { ...state, status: 'fetching', total: 2 } })
+      expect(usePopupStore.getState().live).toBe(false)
+      expect(usePopupStore.getState().status).toBe('fetching')
+
+      cleanup()
+    })
+  })
+
   describe('setErrorMessage', () => {
     it('エラーメッセージを設定する（statusは変更しない）', () => {
       usePopupStore.getState().setErrorMessage('Test error message')
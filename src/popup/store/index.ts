@@ -13,6 +13,8 @@ interface PopupActions {
   startCollection: (tabId: number, candidates: ImageCandidate[]) => void
   // 進捗更新（BackgroundからのSTATE_UPDATEメッセージ受信時）
   updateProgress: (update: Partial<RunState>) => void
+  // 進行中の収集の状態を復元（Popupを開き直したとき、状態遷移の検証なし）
+  restoreState: (state: RunState) => void
   // ステータス設定
   setStatus: (status: RunState['status']) => void
   // エラーメッセージ設定（statusは変更しない）
@@ -35,6 +37,7 @@ const initialState: PopupState = {
   completed: 0,
   failed: [],
   zipSize: 0,
+  live: false,
   candidates: [],
   errorMessage: undefined,
 }
@@ -76,6 +79,11 @@ export const usePopupStore = create<PopupStore>((set) => ({
     })
   },
 
+  // 状態復元
+  restoreState: (state) => {
+    set({ ...state, live: state.live ?? false, errorMessage: undefined })
+  },
+
   // ステータス設定（updateProgressのラッパー）
   setStatus: (status) => {
     usePopupStore.getState().updateProgress({ status })
@@ -113,10 +121,10 @@ export const usePopupStore = create<PopupStore>((set) => ({
 const validateStatusTransition = (from: RunState['status'], to: RunState['status']): boolean => {
   const transitions: Record<RunState['status'], RunState['status'][]> = {
     idle: ['detecting'],
-    detecting: ['fetching', 'error'],
-    fetching: ['zipping', 'error'],
-    zipping: ['complete', 'error'],
-    complete: ['idle'],
+    detecting: ['fetching', 'error', 'idle'], // idle: 中止
+    fetching: ['zipping', 'error', 'idle'],
+    zipping: ['complete', 'error', 'idle'],
+    complete: ['idle', 'fetching'], // 失敗画像のretry
     error: ['idle', 'fetching'], // retry可能
   }
 
@@ -135,6 +143,9 @@ const validateStatusTransition = (from: RunState['status'], to: RunState['status
  *         error ←----←----------←
  *         ↓
  *         idle (retry)
+ *
+ * complete / error → fetching: 失敗画像のretry
+ * detecting / fetching / zipping → idle: 収集の中止
  */
 export const setupBackgroundListener = () => {
   const listener = (message: BackgroundToPopupMessage) => {
@@ -142,7 +153,8 @@ export const setupBackgroundListener = () => {
 
     switch (message.type) {
       case 'STATE_UPDATE':
-        store.updateProgress(message.state)
+        // liveはライブ検出中の通知にのみ含まれる
+        store.updateProgress({ ...message.state, live: message.state.live ?? false })
         break
       case 'DIFF_RESULT':
         // Pro機能: 差分結果を反映
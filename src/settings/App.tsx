@@ -72,6 +72,10 @@ export const App = () => {
     setConfig((prev) => ({ ...prev, namingTemplate: template }))
   }
 
+  const updateIncludeManifest = (includeManifest: boolean) => {
+    setConfig((prev) => ({ ...prev, includeManifest }))
+  }
+
   const updateDomainProfiles = (profiles: DomainProfile[]) => {
     setConfig((prev) => ({ ...prev, domainProfiles: profiles }))
   }
@@ -173,7 +177,9 @@ export const App = () => {
               {activeSection === 'naming' && (
                 <NamingTemplateSection
                   template={config.namingTemplate}
+                  includeManifest={config.includeManifest ?? false}
                   onTemplateChange={updateNamingTemplate}
+                  onIncludeManifestChange={updateIncludeManifest}
                 />
               )}
 
@@ -131,6 +131,97 @@ export const DomainProfilesSection = ({
                       </div>
                     )}
 
+                    {profile.excludeSources && profile.excludeSources.length > 0 && (
+                      <div className="flex items-center gap-2">
+                        <span className="text-gray-500 w-20">除外ソース:</span>
+                        <span className="text-gray-700">{profile.excludeSources.join(', ')}</span>
+                      </div>
+                    )}
+
+                    {profile.scrollContainer && (
+                      <div className="flex items-center gap-2">
+                        <span className="text-gray-500 w-20">スクロール:</span>
+                        <code className="text-gray-700 bg-gray-50 px-2 py-0.5 rounded font-mono text-xs">
+                          {profile.scrollContainer}
+                        </code>
+                      </div>
+                    )}
+
+                    {profile.scrollMode === 'stepped' && (
+                      <div className="flex items-center gap-2">
+                        <span className="text-gray-500 w-20">方式:</span>
+                        <span className="text-gray-700">1画面ずつスクロール</span>
+                      </div>
+                    )}
+
+                    {(profile.nextPageSelector ?? profile.pageUrlPattern) && (
+                      <div className="flex items-center gap-2">
+                        <span className="text-gray-500 w-20">次ページ:</span>
+                        <code className="text-gray-700 bg-gray-50 px-2 py-0.5 rounded font-mono text-xs">
+                          {profile.nextPageSelector ?? profile.pageUrlPattern}
+                        </code>
+                      </div>
+                    )}
+
+                    {profile.interactionRecipes && profile.interactionRecipes.length > 0 && (
+                      <div className="flex items-center gap-2">
+                        <span className="text-gray-500 w-20">操作:</span>
+                        <span className="text-gray-700">
+                          {profile.interactionRecipes.length} 件
+                        </span>
+                      </div>
+                    )}
+
+                    {profile.urlRewriteRules && profile.urlRewriteRules.length > 0 && (
+                      <div className="flex items-center gap-2">
+                        <span className="text-gray-500 w-20">URL書換:</span>
+                        <span className="text-gray-700">{profile.urlRewriteRules.length} 件</span>
+                      </div>
+                    )}
+
+                    {profile.pageContextFetch && (
+                      <div className="flex items-center gap-2">
+                        <span className="text-gray-500 w-20">取得:</span>
+                        <span className="text-gray-700">失敗時にページ内で再取得</span>
+                      </div>
+                    )}
+
+                    {profile.requestHeaders && (
+                      <div className="flex items-center gap-2">
+                        <span className="text-gray-500 w-20">ヘッダー:</span>
+                        <span className="text-gray-700">
+                          {[
+                            profile.requestHeaders.referer === false ? 'Refererなし' : 'Referer',
+                            profile.requestHeaders.origin && 'Origin',
+                            profile.requestHeaders.userAgent && 'User-Agent',
+                          ]
+                            .filter(Boolean)
+                            .join('・')}
+                        </span>
+                      </div>
+                    )}
+
+                    {profile.cssScanBudget && (
+                      <div className="flex items-center gap-2">
+                        <span className="text-gray-500 w-20">CSS走査:</span>
+                        <span className="text-gray-700">{profile.cssScanBudget} 要素まで</span>
+                      </div>
+                    )}
+
+                    {profile.captureVideoFrames && (
+                      <div className="flex items-center gap-2">
+                        <span className="text-gray-500 w-20">動画:</span>
+                        <span className="text-gray-700">現在のフレームも収集</span>
+                      </div>
+                    )}
+
+                    {profile.harvestStylesheets === false && (
+                      <div className="flex items-center gap-2">
+                        <span className="text-gray-500 w-20">CSS:</span>
+                        <span className="text-gray-700">スタイルシートの画像を収集しない</span>
+                      </div>
+                    )}
+
                     {!profile.includePattern && !profile.excludePattern && !profile.minWidth && (
                       <p className="text-gray-400 italic">フィルタ設定なし</p>
                     )}
@@ -4,7 +4,9 @@ import { evaluateTemplate } from '@/shared/utils/template'
 
 interface NamingTemplateSectionProps {
   template: string
+  includeManifest: boolean
   onTemplateChange: (template: string) => void
+  onIncludeManifestChange: (includeManifest: boolean) => void
 }
 
 // Template presets
@@ -45,6 +47,9 @@ const VARIABLES = [
   { name: '{h}', description: '画像高さ (px)', example: '600' },
   { name: '{alt}', description: 'Alt テキスト', example: 'sample-image' },
   { name: '{index}', description: '連番 (001, 002...)', example: '001' },
+  { name: '{order}', description: 'ページ上の出現順 (001, 002...)', example: '001' },
+  { name: '{heading}', description: '直近の見出し', example: 'gallery' },
+  { name: '{source}', description: '検出ソース (img, css...)', example: 'img' },
 ]
 
 // Sample data for preview
@@ -61,6 +66,9 @@ const SAMPLE_DATA: Array<Record<string, string>> = [
     h: '600',
     alt: 'sample-image',
     index: '001',
+    order: '001',
+    heading: 'gallery',
+    source: 'img',
   },
   {
     date: getTodayDate(),
@@ -70,6 +78,9 @@ const SAMPLE_DATA: Array<Record<string, string>> = [
     h: '1080',
     alt: 'hero-banner',
     index: '002',
+    order: '003',
+    heading: 'top-stories',
+    source: 'css-bg',
   },
   {
     date: getTodayDate(),
@@ -79,12 +90,17 @@ const SAMPLE_DATA: Array<Record<string, string>> = [
     h: '800',
     alt: '',
     index: '003',
+    order: '002',
+    heading: '',
+    source: 'picture',
   },
 ]
 
 export const NamingTemplateSection = ({
   template,
+  includeManifest,
   onTemplateChange,
+  onIncludeManifestChange,
 }: NamingTemplateSectionProps) => {
   const [customTemplate, setCustomTemplate] = useState(template)
   const [selectedPreset, setSelectedPreset] = useState<string | null>(null)
@@ -195,6 +211,24 @@ export const NamingTemplateSection = ({
         )}
       </div>
 
+      {/* Manifest */}
+      <div>
+        <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+          <input
+            id="includeManifest"
+            type="checkbox"
+            checked={includeManifest}
+            onChange={(e) => onIncludeManifestChange(e.target.checked)}
+            className="w-4 h-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+            aria-describedby="includeManifestHelp"
+          />
+          ZIPに manifest.json を含める
+        </label>
+        <p id="includeManifestHelp" className="text-xs text-gray-500 mt-1">
+          各ファイルの元URL・ハッシュ・サイズ・ページ上の位置（セレクタ、見出し）を記録します
+        </p>
+      </div>
+
       {/* Variable Reference */}
       <div>
         <div className="flex items-center gap-2 mb-3">
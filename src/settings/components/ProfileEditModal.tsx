@@ -1,6 +1,15 @@
 import { useState, useEffect } from 'react'
 import { X, TestTube, CheckCircle, XCircle } from 'lucide-react'
-import type { DomainProfile } from '@/shared/types'
+import type {
+  DomainProfile,
+  ImageSource,
+  InteractionAction,
+  InteractionRecipe,
+  InteractionWait,
+  RequestHeaderOverrides,
+  ScrollMode,
+  UrlRewriteRule,
+} from '@/shared/types'
 
 interface ProfileEditModalProps {
   profile: DomainProfile | null
@@ -8,11 +17,152 @@ interface ProfileEditModalProps {
   onCancel: () => void
 }
 
+// 収集対象を選択できる画像ソース
+const SOURCE_OPTIONS: { value: ImageSource; label: string }[] = [
+  { value: 'img', label: '<img>要素' },
+  { value: 'picture', label: '<picture>要素' },
+  { value: 'srcset', label: 'srcset（高解像度）' },
+  { value: 'css-bg', label: 'CSS背景画像' },
+  { value: 'canvas', label: 'Canvas' },
+  { value: 'svg', label: 'SVG' },
+  { value: 'video', label: '動画（poster・フレーム）' },
+  { value: 'iframe', label: 'iframe内の画像' },
+  { value: 'meta', label: 'メタデータ（OGP・アイコン・JSON-LD）' },
+]
+
+// URL書き換えルールのテキスト表現（1行1ルール: "正規表現 => 置換"）
+const RULE_SEPARATOR = ' => '
+
+const formatRewriteRules = (rules: UrlRewriteRule[] | undefined): string =>
+  (rules ?? []).map((rule) => `${rule.pattern}${RULE_SEPARATOR}${rule.replacement}`).join('\n')
+
+const parseRewriteRules = (text: string): UrlRewriteRule[] =>
+  text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const index = line.indexOf(RULE_SEPARATOR)
+      return index < 0
+        ? { pattern: line, replacement: '' }
+        : {
+            pattern: line.slice(0, index).trim(),
+            replacement: line.slice(index + RULE_SEPARATOR.length).trim(),
+          }
+    })
+
+// 操作レシピのテキスト表現（1行1レシピ: "操作 | セレクタ | 回数 | 待機条件 | タイミング"）
+// 待機条件: 数値=待機時間(ms)、"dom"=DOM変化、それ以外=要素が増えるまで待つセレクタ
+// タイミング: "before"=スクロール前（既定）、"each"=各スクロールの間
+const RECIPE_SEPARATOR = ' | '
+const RECIPE_ACTIONS: InteractionAction[] = ['click', 'hover', 'focus']
+
+const formatWait = (wait: InteractionWait | undefined): string => {
+  if (!wait) return ''
+  switch (wait.type) {
+    case 'delay':
+      return String(wait.ms)
+    case 'dom-change':
+      return 'dom'
+    case 'selector':
+      return wait.selector
+  }
+}
+
+const parseWait = (text: string): InteractionWait | undefined => {
+  if (!text) return undefined
+  if (/^\d+$/.test(text)) return { type: 'delay', ms: Number(text) }
+  if (text === 'dom') return { type: 'dom-change' }
+  return { type: 'selector', selector: text }
+}
+
+const formatInteractionRecipes = (recipes: InteractionRecipe[] | undefined): string =>
+  (recipes ?? [])
+    .map((recipe) =>
+      [
+        recipe.action,
+        recipe.selector,
+        String(recipe.repeat ?? 1),
+        formatWait(recipe.waitFor),
+        recipe.timing === 'each-scroll' ? 'each' : '',
+      ]
+        .join(RECIPE_SEPARATOR)
+        .replace(/(?: \| )+$/, '')
+    )
+    .join('\n')
+
+const parseInteractionRecipes = (
+  text: string
+): { recipes: InteractionRecipe[]; error?: string } => {
+  const recipes: InteractionRecipe[] = []
+
+  for (const line of text
+    .split('\n')
+    .map((l) => l.trim())
+    .filter(Boolean)) {
+    const [action = '', selector = '', repeat = '', wait = '', timing = ''] = line
+      .split(RECIPE_SEPARATOR.trim())
+      .map((field) => field.trim())
+
+    if (!RECIPE_ACTIONS.includes(action as InteractionAction)) {
+      return { recipes, error: `操作は ${RECIPE_ACTIONS.join(' / ')} のいずれかです: ${line}` }
+    }
+    if (!selector) {
+      return { recipes, error: `セレクタを入力してください: ${line}` }
+    }
+    if (repeat && (!/^\d+$/.test(repeat) || Number(repeat) < 1)) {
+      return { recipes, error: `回数は1以上の整数で入力してください: ${line}` }
+    }
+    if (timing && timing !== 'before' && timing !== 'each') {
+      return { recipes, error: `タイミングは before / each のいずれかです: ${line}` }
+    }
+
+    const waitFor = parseWait(wait)
+    for (const query of [selector, waitFor?.type === 'selector' ? waitFor.selector : '']) {
+      if (!query) continue
+      try {
+        document.createDocumentFragment().querySelector(query)
+      } catch {
+        return { recipes, error: `無効なセレクタです: ${query}` }
+      }
+    }
+
+    recipes.push({
+      selector,
+      action: action as InteractionAction,
+      repeat: repeat ? Number(repeat) : undefined,
+      waitFor,
+      timing: timing === 'each' ? 'each-scroll' : undefined,
+    })
+  }
+
+  return { recipes }
+}
+
 export const ProfileEditModal = ({ profile, onSave, onCancel }: ProfileEditModalProps) => {
   const [domain, setDomain] = useState(profile?.domain ?? '')
   const [includePattern, setIncludePattern] = useState(profile?.includePattern ?? '')
   const [excludePattern, setExcludePattern] = useState(profile?.excludePattern ?? '')
   const [minWidth, setMinWidth] = useState(profile?.minWidth?.toString() ?? '')
+  const [cssScanBudget, setCssScanBudget] = useState(profile?.cssScanBudget?.toString() ?? '')
+  const [harvestStylesheets, setHarvestStylesheets] = useState(profile?.harvestStylesheets ?? true)
+  const [captureVideoFrames, setCaptureVideoFrames] = useState(profile?.captureVideoFrames ?? false)
+  const [excludeSources, setExcludeSources] = useState<ImageSource[]>(profile?.excludeSources ?? [])
+  const [scrollContainer, setScrollContainer] = useState(profile?.scrollContainer ?? '')
+  const [scrollMode, setScrollMode] = useState<ScrollMode>(profile?.scrollMode ?? 'jump')
+  const [builtinUrlRewrites, setBuiltinUrlRewrites] = useState(profile?.builtinUrlRewrites ?? true)
+  const [pageContextFetch, setPageContextFetch] = useState(profile?.pageContextFetch ?? false)
+  const [sendReferer, setSendReferer] = useState(profile?.requestHeaders?.referer ?? true)
+  const [sendOrigin, setSendOrigin] = useState(profile?.requestHeaders?.origin ?? false)
+  const [userAgent, setUserAgent] = useState(profile?.requestHeaders?.userAgent ?? '')
+  const [rewriteRulesText, setRewriteRulesText] = useState(
+    formatRewriteRules(profile?.urlRewriteRules)
+  )
+  const [nextPageSelector, setNextPageSelector] = useState(profile?.nextPageSelector ?? '')
+  const [pageUrlPattern, setPageUrlPattern] = useState(profile?.pageUrlPattern ?? '')
+  const [recipesText, setRecipesText] = useState(
+    formatInteractionRecipes(profile?.interactionRecipes)
+  )
 
   // Test URL and result
   const [testUrl, setTestUrl] = useState('')
@@ -54,10 +204,65 @@ export const ProfileEditModal = ({ profile, onSave, onCancel }: ProfileEditModal
       }
     }
 
+    for (const line of rewriteRulesText.split('\n').filter((l) => l.trim())) {
+      if (!line.includes(RULE_SEPARATOR)) {
+        newErrors.urlRewriteRules = `"正規表現${RULE_SEPARATOR}置換" の形式で入力してください`
+        break
+      }
+    }
+
+    if (!newErrors.urlRewriteRules) {
+      for (const rule of parseRewriteRules(rewriteRulesText)) {
+        try {
+          new RegExp(rule.pattern)
+        } catch {
+          newErrors.urlRewriteRules = `無効な正規表現です: ${rule.pattern}`
+          break
+        }
+      }
+    }
+
+    if (scrollContainer.trim()) {
+      try {
+        document.createDocumentFragment().querySelector(scrollContainer)
+      } catch {
+        newErrors.scrollContainer = '無効なセレクタです'
+      }
+    }
+
+    if (nextPageSelector.trim()) {
+      try {
+        document.createDocumentFragment().querySelector(nextPageSelector)
+      } catch {
+        newErrors.nextPageSelector = '無効なセレクタです'
+      }
+    }
+
+    if (pageUrlPattern.trim()) {
+      try {
+        // 空文字に一致する選択肢を足してexecし、キャプチャグループの数を数える
+        if (new RegExp(`${pageUrlPattern}|`).exec('')?.length !== 2) {
+          newErrors.pageUrlPattern =
+            'ページ番号を1つのキャプチャグループ "(\\d+)" で指定してください'
+        }
+      } catch {
+        newErrors.pageUrlPattern = '無効な正規表現です'
+      }
+    }
+
+    const recipesError = parseInteractionRecipes(recipesText).error
+    if (recipesError) {
+      newErrors.interactionRecipes = recipesError
+    }
+
     if (minWidth && (isNaN(Number(minWidth)) || Number(minWidth) < 0)) {
       newErrors.minWidth = '有効な数値を入力してください'
     }
 
+    if (cssScanBudget && (!Number.isInteger(Number(cssScanBudget)) || Number(cssScanBudget) <= 0)) {
+      newErrors.cssScanBudget = '1以上の整数を入力してください'
+    }
+
     setErrors(newErrors)
     return Object.keys(newErrors).length === 0
   }
@@ -68,16 +273,44 @@ export const ProfileEditModal = ({ profile, onSave, onCancel }: ProfileEditModal
       return
     }
 
+    const urlRewriteRules = parseRewriteRules(rewriteRulesText)
+    const { recipes: interactionRecipes } = parseInteractionRecipes(recipesText)
+    // 既定値（Refererのみ設定）から変更した項目のみ保存
+    const requestHeaders: RequestHeaderOverrides = {
+      referer: sendReferer ? undefined : false,
+      origin: sendOrigin || undefined,
+      userAgent: userAgent.trim() || undefined,
+    }
     const newProfile: DomainProfile = {
       domain: domain.trim(),
       includePattern: includePattern.trim() || undefined,
       excludePattern: excludePattern.trim() || undefined,
       minWidth: minWidth ? Number(minWidth) : undefined,
+      harvestStylesheets,
+      captureVideoFrames: captureVideoFrames || undefined,
+      cssScanBudget: cssScanBudget ? Number(cssScanBudget) : undefined,
+      excludeSources: excludeSources.length > 0 ? excludeSources : undefined,
+      scrollContainer: scrollContainer.trim() || undefined,
+      scrollMode: scrollMode === 'stepped' ? scrollMode : undefined,
+      interactionRecipes: interactionRecipes.length > 0 ? interactionRecipes : undefined,
+      nextPageSelector: nextPageSelector.trim() || undefined,
+      pageUrlPattern: pageUrlPattern.trim() || undefined,
+      builtinUrlRewrites,
+      urlRewriteRules: urlRewriteRules.length > 0 ? urlRewriteRules : undefined,
+      pageContextFetch: pageContextFetch || undefined,
+      requestHeaders: Object.values(requestHeaders).some((value) => value !== undefined)
+        ? requestHeaders
+        : undefined,
     }
 
     onSave(newProfile)
   }
 
+  // Toggle image source
+  const toggleSource = (source: ImageSource, included: boolean) => {
+    setExcludeSources((prev) => (included ? prev.filter((s) => s !== source) : [...prev, source]))
+  }
+
   // Test patterns
   const handleTest = () => {
     if (!testUrl.trim()) {
@@ -284,6 +517,330 @@ export const ProfileEditModal = ({ profile, onSave, onCancel }: ProfileEditModal
               {errors.minWidth && <p className="text-xs text-red-600 mt-1">{errors.minWidth}</p>}
             </div>
 
+            {/* Scroll Container */}
+            <div>
+              <label
+                htmlFor="scrollContainer"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                スクロール対象 (CSSセレクタ)
+              </label>
+              <input
+                id="scrollContainer"
+                type="text"
+                value={scrollContainer}
+                onChange={(e) => setScrollContainer(e.target.value)}
+                placeholder="main .feed"
+                className={`w-full px-3 py-2 border rounded-lg font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent ${
+                  errors.scrollContainer ? 'border-red-300 bg-red-50' : 'border-gray-300'
+                }`}
+                aria-invalid={!!errors.scrollContainer}
+                aria-describedby="scrollContainerHelp"
+              />
+              <p id="scrollContainerHelp" className="text-xs text-gray-500 mt-1">
+                空欄の場合、ページ全体または最も大きいスクロール領域を自動で選びます
+              </p>
+              {errors.scrollContainer && (
+                <p className="text-xs text-red-600 mt-1">{errors.scrollContainer}</p>
+              )}
+            </div>
+
+            {/* Scroll Mode */}
+            <div>
+              <label htmlFor="scrollMode" className="block text-sm font-medium text-gray-700 mb-1">
+                スクロール方式
+              </label>
+              <select
+                id="scrollMode"
+                value={scrollMode}
+                onChange={(e) => setScrollMode(e.target.value as ScrollMode)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                aria-describedby="scrollModeHelp"
+              >
+                <option value="jump">最下部まで一気にスクロール</option>
+                <option value="stepped">1画面ずつスクロールして都度検出</option>
+              </select>
+              <p id="scrollModeHelp" className="text-xs text-gray-500 mt-1">
+                画面外の要素が取り除かれる仮想化リストや、表示時に読み込む画像が多いページでは「1画面ずつ」を選びます
+              </p>
+            </div>
+
+            {/* Interaction Recipes */}
+            <div>
+              <label
+                htmlFor="interactionRecipes"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                操作レシピ
+              </label>
+              <textarea
+                id="interactionRecipes"
+                value={recipesText}
+                onChange={(e) => setRecipesText(e.target.value)}
+                placeholder={
+                  'click | .load-more | 5 | .gallery-item\nclick | .carousel-next | 10 | dom | each'
+                }
+                rows={3}
+                className={`w-full px-3 py-2 border rounded-lg font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent ${
+                  errors.interactionRecipes ? 'border-red-300 bg-red-50' : 'border-gray-300'
+                }`}
+                aria-invalid={!!errors.interactionRecipes}
+                aria-describedby="interactionRecipesHelp"
+              />
+              <p id="interactionRecipesHelp" className="text-xs text-gray-500 mt-1">
+                1行に1レシピ（click/hover/focus | セレクタ | 回数 | 待機: ミリ秒・dom・セレクタ |
+                each=各スクロールの間）。操作のたびに画像を検出します
+              </p>
+              {errors.interactionRecipes && (
+                <p className="text-xs text-red-600 mt-1">{errors.interactionRecipes}</p>
+              )}
+            </div>
+
+            {/* Pagination */}
+            <div>
+              <label
+                htmlFor="nextPageSelector"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                次ページのリンク (CSSセレクタ)
+              </label>
+              <input
+                id="nextPageSelector"
+                type="text"
+                value={nextPageSelector}
+                onChange={(e) => setNextPageSelector(e.target.value)}
+                placeholder=".pagination .next"
+                className={`w-full px-3 py-2 border rounded-lg font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent ${
+                  errors.nextPageSelector ? 'border-red-300 bg-red-50' : 'border-gray-300'
+                }`}
+                aria-invalid={!!errors.nextPageSelector}
+                aria-describedby="nextPageSelectorHelp"
+              />
+              <p id="nextPageSelectorHelp" className="text-xs text-gray-500 mt-1">
+                ページ送り収集で使用します。空欄の場合は rel="next" のリンクを探します
+              </p>
+              {errors.nextPageSelector && (
+                <p className="text-xs text-red-600 mt-1">{errors.nextPageSelector}</p>
+              )}
+            </div>
+
+            <div>
+              <label
+                htmlFor="pageUrlPattern"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                ページ番号のURLパターン (正規表現)
+              </label>
+              <input
+                id="pageUrlPattern"
+                type="text"
+                value={pageUrlPattern}
+                onChange={(e) => setPageUrlPattern(e.target.value)}
+                placeholder="[?&]page=(\d+)"
+                className={`w-full px-3 py-2 border rounded-lg font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent ${
+                  errors.pageUrlPattern ? 'border-red-300 bg-red-50' : 'border-gray-300'
+                }`}
+                aria-invalid={!!errors.pageUrlPattern}
+                aria-describedby="pageUrlPatternHelp"
+              />
+              <p id="pageUrlPatternHelp" className="text-xs text-gray-500 mt-1">
+                リンクが見つからない場合、キャプチャしたページ番号を1つ進めたURLを次ページとします
+              </p>
+              {errors.pageUrlPattern && (
+                <p className="text-xs text-red-600 mt-1">{errors.pageUrlPattern}</p>
+              )}
+            </div>
+
+            {/* Harvest Stylesheets */}
+            <div>
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                <input
+                  id="harvestStylesheets"
+                  type="checkbox"
+                  checked={harvestStylesheets}
+                  onChange={(e) => setHarvestStylesheets(e.target.checked)}
+                  className="w-4 h-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+                  aria-describedby="harvestStylesheetsHelp"
+                />
+                スタイルシート内の画像も収集
+              </label>
+              <p id="harvestStylesheetsHelp" className="text-xs text-gray-500 mt-1">
+                hover時やブレークポイント違いなど、現在表示されていない背景画像も対象にします
+              </p>
+            </div>
+
+            {/* CSS Scan Budget */}
+            <div>
+              <label
+                htmlFor="cssScanBudget"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                CSS背景の走査上限 (要素数)
+              </label>
+              <input
+                id="cssScanBudget"
+                type="number"
+                value={cssScanBudget}
+                onChange={(e) => setCssScanBudget(e.target.value)}
+                placeholder="500"
+                min="1"
+                className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent ${
+                  errors.cssScanBudget ? 'border-red-300 bg-red-50' : 'border-gray-300'
+                }`}
+                aria-invalid={!!errors.cssScanBudget}
+                aria-describedby="cssScanBudgetHelp"
+              />
+              <p id="cssScanBudgetHelp" className="text-xs text-gray-500 mt-1">
+                空欄の場合は500要素まで調べます。背景画像の多いページで取りこぼす場合に増やします
+              </p>
+              {errors.cssScanBudget && (
+                <p className="text-xs text-red-600 mt-1">{errors.cssScanBudget}</p>
+              )}
+            </div>
+
+            {/* Capture Video Frames */}
+            <div>
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                <input
+                  id="captureVideoFrames"
+                  type="checkbox"
+                  checked={captureVideoFrames}
+                  onChange={(e) => setCaptureVideoFrames(e.target.checked)}
+                  className="w-4 h-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+                  aria-describedby="captureVideoFramesHelp"
+                />
+                動画の現在のフレームも収集
+              </label>
+              <p id="captureVideoFramesHelp" className="text-xs text-gray-500 mt-1">
+                ポスター画像に加え、再生中・一時停止中の動画に表示されているフレームをPNGとして保存します
+              </p>
+            </div>
+
+            {/* Page Context Fetch */}
+            <div>
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                <input
+                  id="pageContextFetch"
+                  type="checkbox"
+                  checked={pageContextFetch}
+                  onChange={(e) => setPageContextFetch(e.target.checked)}
+                  className="w-4 h-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+                  aria-describedby="pageContextFetchHelp"
+                />
+                取得できない画像をページ内で再取得
+              </label>
+              <p id="pageContextFetchHelp" className="text-xs text-gray-500 mt-1">
+                ログインが必要なサイトやCORS・Referer制限のある画像を、ページのCookie付きで取得し直します
+              </p>
+            </div>
+
+            {/* Request Headers */}
+            <fieldset>
+              <legend className="block text-sm font-medium text-gray-700 mb-1">
+                画像取得時のリクエストヘッダー
+              </legend>
+              <div className="space-y-2">
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    id="sendReferer"
+                    type="checkbox"
+                    checked={sendReferer}
+                    onChange={(e) => setSendReferer(e.target.checked)}
+                    className="w-4 h-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+                  />
+                  Refererを収集元ページに設定
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    id="sendOrigin"
+                    type="checkbox"
+                    checked={sendOrigin}
+                    onChange={(e) => setSendOrigin(e.target.checked)}
+                    className="w-4 h-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+                  />
+                  Originを収集元ページに設定
+                </label>
+                <input
+                  id="userAgent"
+                  type="text"
+                  value={userAgent}
+                  onChange={(e) => setUserAgent(e.target.value)}
+                  placeholder="User-Agent（空欄なら変更しない）"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  aria-label="User-Agent"
+                  aria-describedby="requestHeadersHelp"
+                />
+              </div>
+              <p id="requestHeadersHelp" className="text-xs text-gray-500 mt-1">
+                ホットリンク対策でHTTP 403になる画像ホストに対し、収集中のみヘッダーを書き換えます
+              </p>
+            </fieldset>
+
+            {/* Image Sources */}
+            <fieldset>
+              <legend className="block text-sm font-medium text-gray-700 mb-1">
+                収集する画像ソース
+              </legend>
+              <div className="grid grid-cols-2 gap-2">
+                {SOURCE_OPTIONS.map(({ value, label }) => (
+                  <label key={value} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={!excludeSources.includes(value)}
+                      onChange={(e) => toggleSource(value, e.target.checked)}
+                      className="w-4 h-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+
+            {/* URL Rewrites */}
+            <div>
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                <input
+                  id="builtinUrlRewrites"
+                  type="checkbox"
+                  checked={builtinUrlRewrites}
+                  onChange={(e) => setBuiltinUrlRewrites(e.target.checked)}
+                  className="w-4 h-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+                  aria-describedby="builtinUrlRewritesHelp"
+                />
+                CDNの元画像URLに書き換える
+              </label>
+              <p id="builtinUrlRewritesHelp" className="text-xs text-gray-500 mt-1">
+                Cloudinary・imgix・Shopify・WordPress等のリサイズ指定を外して取得します（失敗時は元のURL）
+              </p>
+            </div>
+
+            <div>
+              <label
+                htmlFor="urlRewriteRules"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                URL書き換えルール
+              </label>
+              <textarea
+                id="urlRewriteRules"
+                value={rewriteRulesText}
+                onChange={(e) => setRewriteRulesText(e.target.value)}
+                placeholder={'/thumbs/(.*)_s\\.jpg$ => /images/$1.jpg'}
+                rows={3}
+                className={`w-full px-3 py-2 border rounded-lg font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent ${
+                  errors.urlRewriteRules ? 'border-red-300 bg-red-50' : 'border-gray-300'
+                }`}
+                aria-invalid={!!errors.urlRewriteRules}
+                aria-describedby="urlRewriteRulesHelp"
+              />
+              <p id="urlRewriteRulesHelp" className="text-xs text-gray-500 mt-1">
+                1行に1ルール（正規表現 =&gt; 置換）。組み込みルールより先に適用されます
+              </p>
+              {errors.urlRewriteRules && (
+                <p className="text-xs text-red-600 mt-1">{errors.urlRewriteRules}</p>
+              )}
+            </div>
+
             {/* Pattern Test */}
             <div className="border-t border-gray-200 pt-4">
               <div className="flex items-center gap-2 mb-3">
@@ -6,6 +6,21 @@ export interface ImageCandidate {
   width?: number
   height?: number
   alt?: string
+  frameUrl?: string // 検出元フレームのURL（マルチフレーム収集時にBackgroundが付与）
+  notRendered?: boolean // スタイルシートにのみ存在し、現在は描画されていない画像
+  fallbackUrl?: string // urlが取得できない場合に使う代替URL（ギャラリーのサムネイル、書き換え前のURL等）
+  urlRewritten?: boolean // urlはURL書き換えルールで生成したもの（fallbackUrlが検出時のURL）
+  provenance?: ImageProvenance // ページ上の出自情報（detectImagesが付与）
+}
+
+// 画像の出自情報（検出時のページ上の位置・周辺情報）
+export interface ImageProvenance {
+  selector?: string // 安定したCSSセレクタパス（要素を持たないソースでは未設定）
+  rect?: { x: number; y: number; width: number; height: number } // ドキュメント座標のバウンディングボックス
+  documentIndex?: number // 検出結果内のドキュメント順（0始まり）
+  heading?: string // 直近の見出しテキスト
+  linkHref?: string // 囲んでいるリンクのhref
+  sources: ImageSource[] // このURLを検出した全ソース
 }
 
 export type ImageSource =
@@ -17,6 +32,7 @@ export type ImageSource =
   | 'svg'
   | 'video'
   | 'iframe'
+  | 'meta' // Open Graph / Twitterカード / アイコン / JSON-LD
 
 // スクロール関連の型定義
 export type UserChoice = 'continue' | 'stop' | 'cancel'
@@ -28,6 +44,10 @@ export type ScrollState =
   | 'MAX_DEPTH_REACHED' // 最大深度到達（ユーザー選択待ち）
   | 'CANCELLED' // ユーザーによるキャンセル
 
+export type ScrollMode =
+  | 'jump' // 最下部へ一気にスクロールし、最後に1度だけ検出
+  | 'stepped' // 1画面ずつスクロールし、各ステップで検出（仮想化リスト向け）
+
 export interface ScrollResult {
   state: ScrollState
   scrollCount: number
@@ -46,6 +66,13 @@ export interface DetectionResult {
 export interface ImagesDetectedMessage {
   type: 'IMAGES_DETECTED'
   candidates: ImageCandidate[]
+  nextPageUrl?: string // ページ送り収集時、トップフレームが見つけた次ページのURL
+}
+
+// ライブ検出モードで初回検出後に見つかった候補（差分のみ）
+export interface ImagesAddedMessage {
+  type: 'IMAGES_ADDED'
+  candidates: ImageCandidate[]
 }
 
 export interface ScrollCompleteMessage {
@@ -64,6 +91,7 @@ export interface DetectionErrorMessage {
 
 export type ContentToBackgroundMessage =
   | ImagesDetectedMessage
+  | ImagesAddedMessage
   | ScrollCompleteMessage
   | ScrollTimeoutMessage
   | DetectionErrorMessage
@@ -97,9 +125,28 @@ export interface StartCollectionMessage {
 
 export interface RetryFailedMessage {
   type: 'RETRY_FAILED'
+  tabId: number // 失敗した収集を実行したタブ
   failedImages: FailedImage[]
 }
 
+// ライブ検出を停止し、蓄積した候補で収集を開始
+export interface StopLiveCollectionMessage {
+  type: 'STOP_LIVE_COLLECTION'
+  tabId: number
+}
+
+// 進行中の収集の状態を取得（Popupを開き直したときの復元用）
+export interface GetCollectionStateMessage {
+  type: 'GET_COLLECTION_STATE'
+  tabId: number
+}
+
+// 進行中の収集を中止（ダウンロードせずidleに戻る）
+export interface CancelCollectionMessage {
+  type: 'CANCEL_COLLECTION'
+  tabId: number
+}
+
 export interface CheckDiffMessage {
   type: 'CHECK_DIFF'
   url: string
@@ -119,6 +166,9 @@ export interface CleanupDataMessage {
 export type PopupToBackgroundMessage =
   | StartCollectionMessage
   | RetryFailedMessage
+  | StopLiveCollectionMessage
+  | GetCollectionStateMessage
+  | CancelCollectionMessage
   | CheckDiffMessage
   | VerifyLicenseMessage
   | CleanupDataMessage
@@ -141,6 +191,7 @@ export interface MessageResponse {
   message?: string
   retryCount?: number
   received?: number
+  state?: RunState // GET_COLLECTION_STATEの応答（進行中の収集がない場合は未設定）
 }
 
 // コレクションオプション
@@ -148,6 +199,12 @@ export interface CollectionOptions {
   enableScroll: boolean // 自動スクロール有効化
   maxScrollDepth: number // デフォルト20画面
   scrollTimeout: number // デフォルト15000ms
+  captureVideoFrames?: boolean // <video>の現在フレームをPNGとして取得（未指定ならドメインプロファイルの設定）
+  cssScanBudget?: number // CSS背景走査の要素数上限（未指定ならドメインプロファイルの設定）
+  liveMode?: boolean // 初回検出後もDOMの変化を監視し、停止するまで候補を追加（デフォルトfalse）
+  selectionMode?: boolean // ページ上のオーバーレイで選択した範囲・画像のみ収集（デフォルトfalse）
+  maxPages?: number // ページ送りで収集する最大ページ数（デフォルト1 = ページ送りなし）
+  paginationTab?: 'same' | 'background' // 次ページを開くタブ（デフォルト'background'）
 }
 
 // 実行状態
@@ -159,6 +216,7 @@ export interface RunState {
   completed: number // fetch完了数
   failed: FailedImage[] // 失敗リスト
   zipSize: number // 累積ZIPサイズ（バイト）
+  live?: boolean // ライブ検出中（停止を要求するまでページの変化を監視）
 }
 
 // 画像スナップショット（差分台帳用）
@@ -170,6 +228,7 @@ export interface ImageSnapshot {
   height: number // 画像の自然高
   alt?: string // altテキスト
   context?: string // 周辺テキスト（50文字）
+  provenance?: ImageProvenance // ページ上の出自情報
   firstSeenAt: number // 初回検出時刻
 }
 
@@ -181,10 +240,51 @@ export interface StartScrollMessage {
     maxDepth?: number
     timeout?: number
     scrollDelay?: number
+    captureVideoFrames?: boolean
+    cssScanBudget?: number
+    harvestStylesheets?: boolean
+    liveMode?: boolean
+    selectionMode?: boolean
+    scrollContainer?: string
+    scrollMode?: ScrollMode
+    interactionRecipes?: InteractionRecipe[]
+    pagination?: PaginationRule // 指定時は次ページのURLを検出結果に含める
   }
 }
 
-export type BackgroundToContentMessage = StartScrollMessage
+export interface StopLiveDetectionMessage {
+  type: 'STOP_LIVE_DETECTION'
+}
+
+// 実行中のスクロール・検出・ライブ検出を中止（結果は送信しない）
+export interface CancelDetectionMessage {
+  type: 'CANCEL_DETECTION'
+}
+
+// Content Scriptの注入確認（ページ送りで開いたページへの検出依頼前）
+export interface ContentPingMessage {
+  type: 'PING'
+}
+
+export type BackgroundToContentMessage =
+  | StartScrollMessage
+  | StopLiveDetectionMessage
+  | CancelDetectionMessage
+  | ContentPingMessage
+
+// Background ⇄ Content: ページ内での画像取得（トップフレームへのポートPAGE_FETCH_PORTで送受信）
+// Backgroundでの取得に失敗した画像を、ページのCookie・Referer付きで取得し直す
+export const PAGE_FETCH_PORT = 'page-fetch'
+
+export interface PageFetchRequest {
+  type: 'PAGE_FETCH'
+  url: string
+}
+
+export type PageFetchResponse =
+  | { type: 'PAGE_FETCH_CHUNK'; data: string } // Base64エンコードしたバイト列の一部（順に連結）
+  | { type: 'PAGE_FETCH_DONE'; contentType: string; via: 'fetch' | 'canvas' }
+  | { type: 'PAGE_FETCH_ERROR'; message: string }
 
 // Keep-Alive & Checkpoint 型定義
 export type ErrorType = 'CORS' | 'TIMEOUT' | 'HTTP_ERROR' | 'NETWORK' | 'UNKNOWN'
@@ -198,16 +298,24 @@ export interface FailedImage {
   width?: number // 画像サイズ（あれば）
   height?: number
   alt?: string // 代替テキスト（あれば）
+  fallbackUrl?: string // 代替URL（ImageCandidate.fallbackUrlを保持）
+  urlRewritten?: boolean // ImageCandidate.urlRewrittenを保持
 }
 
 export interface ProcessingCheckpoint {
   tabId: number
   url: string
-  candidates: ImageCandidate[]
+  candidates: ImageCandidate[] // 全ページの候補（ページ順に連結、completedIndicesはこの添字）
   completedIndices: number[]
   failedCandidates: FailedImage[]
   lastCheckpointAt: number
   phase: 'fetching' | 'zipping'
+  pages?: CheckpointPage[] // ページ送り収集のページ区切り（未設定なら1ページ）
+}
+
+export interface CheckpointPage {
+  url: string
+  candidateCount: number // candidates内のこのページの候補数
 }
 
 // IndexedDB: DiffSnapDB データ型定義
@@ -230,6 +338,58 @@ export interface DomainProfile {
   includePattern?: string // 正規表現文字列（空なら全許可）
   excludePattern?: string // 正規表現文字列（空なら除外なし）
   minWidth?: number // 最小幅ピクセル（未指定なら0）
+  harvestStylesheets?: boolean // スタイルシート内の未描画画像も収集（未指定ならtrue）
+  captureVideoFrames?: boolean // <video>の現在フレームもPNGとして収集（未指定ならfalse）
+  cssScanBudget?: number // CSS背景走査で調べる要素数の上限（未指定なら500）
+  excludeSources?: ImageSource[] // 収集対象外の画像ソース（未指定なら全ソース対象）
+  builtinUrlRewrites?: boolean // 組み込みのCDN書き換えルールを適用（未指定ならtrue）
+  urlRewriteRules?: UrlRewriteRule[] // ユーザー定義の画像URL書き換えルール
+  scrollContainer?: string // 自動スクロール対象のCSSセレクタ（未指定なら自動判定）
+  scrollMode?: ScrollMode // 自動スクロールの方式（未指定なら'jump'）
+  interactionRecipes?: InteractionRecipe[] // 検出前に実行するページ操作（もっと見る、カルーセル送り等）
+  nextPageSelector?: string // ページ送り収集で「次へ」リンクを指すCSSセレクタ
+  pageUrlPattern?: string // ページ番号を含むURLの正規表現（1つ目のキャプチャがページ番号）
+  pageContextFetch?: boolean // 取得に失敗した画像をページ内（Cookie・Referer付き）で再取得（未指定ならfalse）
+  requestHeaders?: RequestHeaderOverrides // 画像取得時のリクエストヘッダー（未指定ならRefererのみ設定）
+}
+
+// 収集中の画像取得に付与するリクエストヘッダー（ホットリンク対策の回避）
+export interface RequestHeaderOverrides {
+  referer?: boolean // Refererを収集元ページのURLに設定（未指定ならtrue）
+  origin?: boolean // Originを収集元ページのオリジンに設定（未指定ならfalse）
+  userAgent?: string // User-Agentを上書き（未指定なら変更しない）
+}
+
+// 次ページの探し方（rel="next"は常に参照）
+export interface PaginationRule {
+  nextPageSelector?: string
+  pageUrlPattern?: string
+}
+
+// 操作レシピ（クリック等でしか表示されない画像を出現させる）
+export type InteractionAction = 'click' | 'hover' | 'focus'
+
+// 操作後の待機条件
+export type InteractionWait =
+  | { type: 'delay'; ms: number } // 指定時間待機
+  | { type: 'selector'; selector: string } // セレクタに一致する要素が増えるまで待機
+  | { type: 'dom-change' } // DOMの変化（要素の追加・削除、属性変更）まで待機
+
+// 実行タイミング: 自動スクロール前に1度だけ / 各スクロールの間
+export type InteractionTiming = 'before-scroll' | 'each-scroll'
+
+export interface InteractionRecipe {
+  selector: string // 操作対象のCSSセレクタ（shadow root内も検索）
+  action: InteractionAction
+  repeat?: number // 最大繰り返し回数（未指定なら1。対象が見つからなくなったら終了）
+  waitFor?: InteractionWait // 未指定なら一定時間待機
+  timing?: InteractionTiming // 未指定なら'before-scroll'
+}
+
+// 画像URL書き換えルール（CDNのリサイズ指定を外して元画像を取得する等）
+export interface UrlRewriteRule {
+  pattern: string // 正規表現文字列（画像URLに対して評価）
+  replacement: string // 置換文字列（$1等の後方参照可）
 }
 
 // data-models.md:55-62 準拠
@@ -237,6 +397,7 @@ export interface UserConfig {
   tier: 'free' | 'pro'
   licenseKey?: string // Pro購入時のライセンスキー
   namingTemplate: string // デフォルト: "{date}-{domain}-{w}x{h}-{index}"
+  includeManifest?: boolean // ZIPに出自情報のmanifest.jsonを含める（未指定ならfalse）
   domainProfiles: DomainProfile[]
   monthlyCount?: number // Free制限用カウンタ（オプショナル - 初回は未設定）
   monthlyResetAt?: number // 次回リセット日時（オプショナル - 初回は未設定）
@@ -5,12 +5,14 @@
  * - 100枚処理時間: P50 ≤10秒、P95 ≤15秒
  * - プレビュー表示時間: P50 ≤1秒
  * - メモリ使用量: <500MB (1000枚処理時)
+ * - 大規模DOMの検出: 最長ブロック時間がフレーム予算の範囲に収まる（段階的検出）
  *
  * @module tests/benchmark
  */
 
 import { describe, it, expect, beforeEach } from 'vitest'
 import { ImageCollector } from '@/background/collector'
+import { detectImagesIncremental } from '@/content/detector'
 import type { ImageCandidate } from '@/shared/types'
 
 /**
@@ -294,6 +296,62 @@ describe('Performance Benchmarks', () => {
     }, 300_000) // タイムアウト: 5分
   })
 
+  /**
+   * 大規模DOMでの画像検出
+   *
+   * 目標: 検出中もメインスレッドを長時間占有しない（最長ブロック時間 ≤100ms、RAILの応答基準）
+   * 計測: setTimeout(0)のハートビートの最大間隔を最長ブロック時間とみなす
+   */
+  describe('Large DOM Detection', () => {
+    const ROWS = 200
+    const TARGET_MAX_BLOCKING_MS = 100
+
+    it('should yield to the main thread while detecting on a large DOM', async () => {
+      const rows = Array.from(
+        { length: ROWS },
+        (_, i) => `
+          <li>
+            <a href="/item/${i}"><span>Item ${i}</span><img src="/image-${i}.jpg"></a>
+            <div style="background-image: url('/bg-${i}.jpg')"></div>
+          </li>`
+      ).join('')
+      document.body.innerHTML = `<h1>Catalog</h1><ul>${rows}</ul>`
+
+      // jsdomのgetComputedStyleは初回呼び出し時にモジュールの読み込み等の初期化を行うため、計測前に済ませる
+      const warmUp = document.querySelector('li div') ?? document.body
+      window.getComputedStyle(warmUp)
+      window.getComputedStyle(warmUp, '::before')
+
+      // ハートビートで最長ブロック時間を計測
+      let running = true
+      let lastBeat = performance.now()
+      let maxBlockingMs = 0
+      const beat = () => {
+        const now = performance.now()
+        maxBlockingMs = Math.max(maxBlockingMs, now - lastBeat)
+        lastBeat = now
+        if (running) setTimeout(beat, 0)
+      }
+      setTimeout(beat, 0)
+
+      const startTime = performance.now()
+      const candidates = await detectImagesIncremental()
+      const totalMs = performance.now() - startTime
+      running = false
+
+      console.log(`\n🧱 Large DOM Detection (${document.querySelectorAll('*').length} nodes)`)
+      console.log(`   Total: ${totalMs.toFixed(0)}ms`)
+      console.log(
+        `   Max blocking: ${maxBlockingMs.toFixed(0)}ms (target: ≤${TARGET_MAX_BLOCKING_MS}ms) ${maxBlockingMs <= TARGET_MAX_BLOCKING_MS ? '✅' : '❌'}`
+      )
+
+      expect(candidates).toHaveLength(ROWS * 2)
+      expect(maxBlockingMs).toBeLessThanOrEqual(TARGET_MAX_BLOCKING_MS)
+
+      document.body.innerHTML = ''
+    }, 120_000) // タイムアウト: 2分
+  })
+
   /**
    * 統計計算のユニットテスト
    */
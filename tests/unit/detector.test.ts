@@ -4,14 +4,23 @@
  * JSDOM環境でモックDOMを使用してテストします。
  */
 
-import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 import {
   detectCanvasElements,
   detectCSSBackgrounds,
   detectImages,
+  detectImagesIncremental,
   detectImgElements,
+  detectLazyBackgrounds,
+  detectMetadataImages,
+  detectNoscriptImages,
   detectPictureElements,
+  detectStylesheetImages,
+  detectSvgElements,
+  detectVideoElements,
+  extractCssImageUrls,
   extractSrcset,
+  serializeInlineSvg,
 } from '../../src/content/detector'
 
 describe('画像検出エンジン', () => {
@@ -149,6 +158,151 @@ describe('画像検出エンジン', () => {
     })
   })
 
+  describe('遅延読み込み属性', () => {
+    it('data-srcをプレースホルダーのsrcより優先する', () => {
+      document.body.innerHTML = `
+        <img src="data:image/gif;base64,R0lGODlhAQABAAAAACw=" data-src="/real.jpg" width="640" height="480" alt="Lazy">
+      `
+
+      const img = document.querySelector('img')
+      if (!img) throw new Error('img element not found')
+      // プレースホルダー（1x1 GIF）の読み込み済みサイズ
+      Object.defineProperty(img, 'naturalWidth', { value: 1 })
+      Object.defineProperty(img, 'naturalHeight', { value: 1 })
+
+      const candidates = detectImgElements(baseUrl)
+
+      expect(candidates).toHaveLength(1)
+      expect(candidates[0]).toMatchObject({
+        url: 'http://localhost:3000/real.jpg',
+        width: 640,
+        height: 480,
+        alt: 'Lazy',
+      })
+    })
+
+    it('data-srcsetの最大解像度をdata-srcより優先する', () => {
+      document.body.innerHTML = `
+        <img data-src="/small.jpg" data-srcset="/small.jpg 400w, /large.jpg 1600w">
+      `
+
+      const candidates = detectImgElements(baseUrl)
+
+      expect(candidates[0]?.url).toBe('http://localhost:3000/large.jpg')
+    })
+
+    it('data-lazy-src / data-originalを認識する', () => {
+      document.body.innerHTML = `
+        <img src="/spacer.gif" data-lazy-src="/lazy.jpg">
+        <img data-original="/original.jpg">
+      `
+
+      const urls = detectImgElements(baseUrl).map((c) => c.url)
+
+      expect(urls).toEqual(['http://localhost:3000/lazy.jpg', 'http://localhost:3000/original.jpg'])
+    })
+
+    it('<picture>内のdata-srcsetを検出する', () => {
+      document.body.innerHTML = `
+        <picture>
+          <source data-srcset="/photo.webp 1x, /photo@2x.webp 2x">
+          <img src="/placeholder.gif" data-src="/photo.jpg">
+        </picture>
+      `
+
+      const urls = detectPictureElements(baseUrl).map((c) => c.url)
+
+      expect(urls).toEqual([
+        'http://localhost:3000/photo.jpg',
+        'http://localhost:3000/photo@2x.webp',
+      ])
+    })
+
+    it('<noscript>内のフォールバック<img>を検出する', () => {
+      document.body.innerHTML = `
+        <figure>
+          <img src="/placeholder.gif" class="lazyload">
+          <noscript><img src="/fallback.jpg" width="1200" height="800"></noscript>
+          <figcaption>Gallery Photo</figcaption>
+        </figure>
+      `
+
+      const candidates = detectNoscriptImages(baseUrl)
+
+      expect(candidates).toHaveLength(1)
+      expect(candidates[0]).toMatchObject({
+        url: 'http://localhost:3000/fallback.jpg',
+        source: 'img',
+        width: 1200,
+        height: 800,
+        alt: 'Gallery Photo',
+      })
+    })
+
+    it('data-bg属性から背景画像を検出する', () => {
+      document.body.innerHTML = `
+        <div data-bg="/hero.jpg"></div>
+        <div data-background-image="url('/banner.png')"></div>
+      `
+
+      const candidates = detectLazyBackgrounds(baseUrl)
+
+      expect(candidates.map((c) => c.url)).toEqual([
+        'http://localhost:3000/hero.jpg',
+        'http://localhost:3000/banner.png',
+      ])
+      expect(candidates.every((c) => c.source === 'css-bg')).toBe(true)
+    })
+  })
+
+  describe('原寸画像へのリンク', () => {
+    it('画像ファイルを指す<a href>を原寸として優先し、サムネイルをfallbackUrlに保持する', () => {
+      document.body.innerHTML = `
+        <a href="/photos/original.jpg"><img src="/photos/thumb.jpg" alt="Photo" width="150" height="100"></a>
+      `
+
+      const candidates = detectImgElements(baseUrl)
+
+      expect(candidates).toEqual([
+        {
+          url: 'http://localhost:3000/photos/original.jpg',
+          source: 'img',
+          alt: 'Photo',
+          fallbackUrl: 'http://localhost:3000/photos/thumb.jpg',
+        },
+      ])
+    })
+
+    it('画像以外を指すリンクは無視する', () => {
+      document.body.innerHTML = `
+        <a href="/products/123"><img src="/thumb.jpg"></a>
+        <a href="/download.pdf"><img src="/pdf-icon.png"></a>
+      `
+
+      const candidates = detectImgElements(baseUrl)
+
+      expect(candidates.map((c) => c.url)).toEqual([
+        'http://localhost:3000/thumb.jpg',
+        'http://localhost:3000/pdf-icon.png',
+      ])
+      expect(candidates.every((c) => c.fallbackUrl === undefined)).toBe(true)
+    })
+
+    it('data-zoom-image / data-full属性を原寸として使う', () => {
+      document.body.innerHTML = `
+        <img src="/zoom-small.jpg" data-zoom-image="https://cdn.example.com/zoom-large">
+        <a href="/gallery" data-full="/full.png"><img src="/full-thumb.png"></a>
+      `
+
+      const candidates = detectImgElements(baseUrl)
+
+      expect(candidates.map((c) => [c.url, c.fallbackUrl])).toEqual([
+        ['https://cdn.example.com/zoom-large', 'http://localhost:3000/zoom-small.jpg'],
+        ['http://localhost:3000/full.png', 'http://localhost:3000/full-thumb.png'],
+      ])
+    })
+  })
+
   describe('extractSrcset', () => {
     it('幅ディスクリプタから最大解像度を選択する', () => {
       const srcset = 'image-320w.jpg 320w, image-640w.jpg 640w, image-1280w.jpg 1280w'
@@ -240,18 +394,123 @@ describe('画像検出エンジン', () => {
       expect(candidates).toHaveLength(0)
     })
 
-    it('主要セレクタのみを走査する', () => {
-      // 501個の要素を作成（最大500まで走査）
-      const elements = Array.from({ length: 501 }, (_, i) => {
-        return `<section style="background-image: url('/bg-${i}.jpg');"></section>`
+    it('走査要素数の上限（cssScanBudget）を守る', () => {
+      const elements = Array.from({ length: 20 }, (_, i) => {
+        return `<div style="background-image: url('/bg-${i}.jpg');"></div>`
       }).join('')
 
       document.body.innerHTML = elements
 
+      const candidates = detectCSSBackgrounds(baseUrl, { cssScanBudget: 10 })
+
+      expect(candidates.length).toBeLessThanOrEqual(10)
+      expect(candidates.some((c) => c.url === 'http://localhost:3000/bg-19.jpg')).toBe(false)
+    })
+
+    it('クラス名に関係なく全要素を走査する', () => {
+      document.body.innerHTML = `
+        <div class="jumbotron-x1"><span style="background-image: url('/plain-hero.jpg');"></span></div>
+      `
+
       const candidates = detectCSSBackgrounds(baseUrl)
 
-      // 最大500要素まで
-      expect(candidates.length).toBeLessThanOrEqual(500)
+      expect(candidates.map((c) => c.url)).toEqual(['http://localhost:3000/plain-hero.jpg'])
+    })
+
+    it('script/style等の描画されない要素をスキップする', () => {
+      document.body.innerHTML = `
+        <script style="background-image: url('/script.jpg');"></script>
+        <div style="background-image: url('/visible.jpg');"></div>
+      `
+
+      const candidates = detectCSSBackgrounds(baseUrl)
+
+      expect(candidates.map((c) => c.url)).toEqual(['http://localhost:3000/visible.jpg'])
+    })
+
+    it('::before / ::after 疑似要素の背景画像とcontent: url()を検出する', () => {
+      document.body.innerHTML = `
+        <style>
+          .badge::before { background-image: url('/before.png'); content: ''; }
+          .badge::after { content: url('/after.svg'); }
+        </style>
+        <div class="badge"></div>
+      `
+
+      // JSDOMは疑似要素の計算済みスタイルに未対応のためモック
+      const originalGetComputedStyle = window.getComputedStyle
+      const spy = vi
+        .spyOn(window, 'getComputedStyle')
+        .mockImplementation((el: Element, pseudo?: string | null) => {
+          if (!el.classList.contains('badge')) return originalGetComputedStyle(el)
+          if (pseudo === '::before') {
+            return { backgroundImage: 'url("/before.png")', content: '""' } as CSSStyleDeclaration
+          }
+          if (pseudo === '::after') {
+            return { backgroundImage: 'none', content: 'url("/after.svg")' } as CSSStyleDeclaration
+          }
+          return originalGetComputedStyle(el)
+        })
+
+      const candidates = detectCSSBackgrounds(baseUrl)
+      spy.mockRestore()
+
+      expect(candidates.map((c) => c.url)).toEqual([
+        'http://localhost:3000/before.png',
+        'http://localhost:3000/after.svg',
+      ])
+    })
+
+    it('content: none の疑似要素は無視する', () => {
+      document.body.innerHTML = `
+        <style>div::before { background-image: url('/hidden.png'); }</style>
+        <div></div>
+      `
+
+      const originalGetComputedStyle = window.getComputedStyle
+      const spy = vi
+        .spyOn(window, 'getComputedStyle')
+        .mockImplementation((el: Element, pseudo?: string | null) => {
+          if (pseudo) {
+            return { backgroundImage: 'url("/hidden.png")', content: 'none' } as CSSStyleDeclaration
+          }
+          return originalGetComputedStyle(el)
+        })
+
+      const candidates = detectCSSBackgrounds(baseUrl)
+      spy.mockRestore()
+
+      expect(candidates).toHaveLength(0)
+    })
+
+    it('スタイルシートのルールで指定された背景画像を検出する', () => {
+      document.body.innerHTML = `
+        <style>.hero { background-image: url('/rule-hero.jpg'); }</style>
+        <div class="hero"></div>
+      `
+
+      const candidates = detectCSSBackgrounds(baseUrl)
+
+      expect(candidates.map((c) => c.url)).toEqual(['http://localhost:3000/rule-hero.jpg'])
+    })
+
+    it('画像を指定するルールに一致しない要素のスタイルは計算しない', () => {
+      document.body.innerHTML = `
+        <style>.badge::before { content: url('/badge.svg'); }</style>
+        <p>text</p>
+        <span class="badge"></span>
+      `
+
+      const spy = vi.spyOn(window, 'getComputedStyle')
+      detectCSSBackgrounds(baseUrl)
+      const calls = spy.mock.calls.map(([el, pseudo]) => [el.tagName, pseudo])
+      spy.mockRestore()
+
+      // <p>は対象外、.badgeは疑似要素のみ調べる
+      expect(calls).toEqual([
+        ['SPAN', '::before'],
+        ['SPAN', '::after'],
+      ])
     })
 
     it('引用符のバリエーションを処理する', () => {
@@ -270,6 +529,146 @@ describe('画像検出エンジン', () => {
     })
   })
 
+  describe('detectStylesheetImages', () => {
+    afterEach(() => {
+      document.head.innerHTML = ''
+    })
+
+    /**
+     * <style>要素を追加してスタイルシートを返す
+     */
+    const addStyle = (css: string): CSSStyleSheet => {
+      const style = document.createElement('style')
+      style.textContent = css
+      document.head.appendChild(style)
+      if (!style.sheet) throw new Error('stylesheet not created')
+      return style.sheet
+    }
+
+    it('未適用のルール（hover・@media・@supports）からURLを収集する', () => {
+      addStyle(`
+        .btn:hover { background-image: url('/hover.png'); }
+        @media (min-width: 4000px) {
+          .hero { background-image: url("/wide.jpg"); }
+        }
+        @supports (display: grid) {
+          @media print {
+            .logo { list-style-image: url(/print-logo.png); }
+          }
+        }
+      `)
+
+      const candidates = detectStylesheetImages(baseUrl)
+
+      expect(candidates.map((c) => c.url)).toEqual([
+        'http://localhost:3000/hover.png',
+        'http://localhost:3000/wide.jpg',
+        'http://localhost:3000/print-logo.png',
+      ])
+      expect(candidates.every((c) => c.source === 'css-bg' && c.notRendered)).toBe(true)
+    })
+
+    it('相対URLをスタイルシートのhrefを基準に解決する', () => {
+      const sheet = addStyle(`.icon { background-image: url('../img/icon.png'); }`)
+      Object.defineProperty(sheet, 'href', { value: 'https://cdn.example.com/css/main.css' })
+
+      const candidates = detectStylesheetImages(baseUrl)
+
+      expect(candidates[0]?.url).toBe('https://cdn.example.com/img/icon.png')
+    })
+
+    it('フォントやSVG内部参照は対象外', () => {
+      addStyle(`
+        @font-face { font-family: X; src: url('/font.woff2'); }
+        .masked { mask-image: url(#mask); }
+      `)
+
+      expect(detectStylesheetImages(baseUrl)).toHaveLength(0)
+    })
+
+    it('クロスオリジンのスタイルシートをスキップする', () => {
+      const sheet = addStyle(`.a { background-image: url('/a.png'); }`)
+      Object.defineProperty(sheet, 'cssRules', {
+        get: () => {
+          throw new DOMException('Cannot access rules', 'SecurityError')
+        },
+      })
+
+      expect(detectStylesheetImages(baseUrl)).toHaveLength(0)
+    })
+
+    it('shadow rootのadoptedStyleSheetsも走査する', () => {
+      // パース後に<style>を外してdocument.styleSheetsから除外する
+      const sheet = addStyle(`.thumb:hover { background-image: url('/shadow-hover.png'); }`)
+      document.head.innerHTML = ''
+
+      const host = document.createElement('x-widget')
+      document.body.appendChild(host)
+      const shadowRoot = host.attachShadow({ mode: 'open' })
+      Object.defineProperty(shadowRoot, 'adoptedStyleSheets', { value: [sheet] })
+
+      const candidates = detectStylesheetImages(baseUrl)
+
+      expect(candidates.map((c) => c.url)).toEqual(['http://localhost:3000/shadow-hover.png'])
+    })
+
+    it('detectImagesでは描画中の候補が優先され、無効化もできる', () => {
+      addStyle(`.card:hover { background-image: url('/rendered.jpg'); }`)
+      document.body.innerHTML = `<img src="/rendered.jpg">`
+
+      const candidates = detectImages()
+      expect(candidates).toHaveLength(1)
+      expect(candidates[0]?.notRendered).toBeUndefined()
+
+      addStyle(`.other:hover { background-image: url('/only-css.jpg'); }`)
+      expect(detectImages().map((c) => c.url)).toContain('http://localhost:3000/only-css.jpg')
+      expect(detectImages({ harvestStylesheets: false }).map((c) => c.url)).not.toContain(
+        'http://localhost:3000/only-css.jpg'
+      )
+    })
+  })
+
+  describe('extractCssImageUrls', () => {
+    it('image-set()から最大密度のURLを選択する', () => {
+      const result = extractCssImageUrls(
+        'image-set(url("/hero.jpg") 1x, url("/hero@3x.jpg") 3x, url("/hero@2x.jpg") 2x)',
+        baseUrl
+      )
+
+      expect(result).toEqual(['http://localhost:3000/hero@3x.jpg'])
+    })
+
+    it('-webkit-image-set()と文字列形式のURLを処理する', () => {
+      const result = extractCssImageUrls("-webkit-image-set('/a.png' 1x, '/a-hd.png' 2x)", baseUrl)
+
+      expect(result).toEqual(['http://localhost:3000/a-hd.png'])
+    })
+
+    it('dppx/dpi単位とtype()を解釈する', () => {
+      const result = extractCssImageUrls(
+        'image-set(url("/a.avif") type("image/avif") 192dpi, url("/b.jpg") 1.5dppx)',
+        baseUrl
+      )
+
+      // 192dpi = 2x > 1.5dppx
+      expect(result).toEqual(['http://localhost:3000/a.avif'])
+    })
+
+    it('複数レイヤーとグラデーションを処理する', () => {
+      const result = extractCssImageUrls(
+        'linear-gradient(rgba(0, 0, 0, 0.5), transparent), image-set(url("/x.jpg") 1x, url("/x@2x.jpg") 2x), url("/y.png")',
+        baseUrl
+      )
+
+      expect(result).toEqual(['http://localhost:3000/x@2x.jpg', 'http://localhost:3000/y.png'])
+    })
+
+    it('noneや空文字列では空配列を返す', () => {
+      expect(extractCssImageUrls('none', baseUrl)).toEqual([])
+      expect(extractCssImageUrls('', baseUrl)).toEqual([])
+    })
+  })
+
   describe('detectCanvasElements', () => {
     it.skip('<canvas>要素をtoDataURLで検出する (JSDOM未対応)', () => {
       // JSDOMではcanvasが完全に実装されていないためスキップ
@@ -327,6 +726,312 @@ describe('画像検出エンジン', () => {
     })
   })
 
+  describe('detectSvgElements', () => {
+    const decodeSvg = (url: string | undefined): string => {
+      const base64 = (url ?? '').replace('data:image/svg+xml;base64,', '')
+      const binary = atob(base64)
+      return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)))
+    }
+
+    it('インラインSVGをdata URLとして検出する', () => {
+      document.body.innerHTML = `
+        <svg viewBox="0 0 24 24"><title>Cart</title><path d="M0 0h24v24H0z"/></svg>
+      `
+
+      const candidates = detectSvgElements(baseUrl)
+
+      expect(candidates).toHaveLength(1)
+      expect(candidates[0]).toMatchObject({
+        source: 'svg',
+        width: 24,
+        height: 24,
+        alt: 'Cart',
+      })
+      expect(candidates[0]?.url).toMatch(/^data:image\/svg\+xml;base64,/)
+      expect(decodeSvg(candidates[0]?.url)).toContain('xmlns="http://www.w3.org/2000/svg"')
+    })
+
+    it('<use>が参照する<symbol>をインライン化する', () => {
+      document.body.innerHTML = `
+        <svg style="display:none">
+          <symbol id="icon-star" viewBox="0 0 10 10"><path d="M5 0L10 10H0z"/></symbol>
+        </svg>
+        <svg width="10" height="10"><use href="#icon-star"></use></svg>
+      `
+
+      const candidates = detectSvgElements(baseUrl)
+
+      // スプライトシート自体はスキップされる
+      expect(candidates).toHaveLength(1)
+      const markup = decodeSvg(candidates[0]?.url)
+      expect(markup).toContain('<defs>')
+      expect(markup).toContain('id="icon-star"')
+      expect(markup).toContain('M5 0L10 10H0z')
+    })
+
+    it('参照先の参照（グラデーション等）も再帰的に解決する', () => {
+      document.body.innerHTML = `
+        <svg style="display:none">
+          <defs><linearGradient id="grad"><stop offset="0" stop-color="red"/></linearGradient></defs>
+          <symbol id="logo"><rect width="4" height="4" fill="url(#grad)"/></symbol>
+        </svg>
+        <svg width="4" height="4"><use xlink:href="#logo"></use></svg>
+      `
+
+      const svg = document.querySelectorAll('svg')[1]
+      if (!svg) throw new Error('svg element not found')
+
+      const markup = serializeInlineSvg(svg)
+
+      expect(markup).toContain('id="logo"')
+      expect(markup).toContain('id="grad"')
+    })
+
+    it('計算済みのfill/stroke色を属性として固定する', () => {
+      document.body.innerHTML = `
+        <svg width="10" height="10" style="fill: rgb(255, 0, 0); stroke: rgb(0, 0, 255)">
+          <circle cx="5" cy="5" r="4"></circle>
+        </svg>
+      `
+
+      const svg = document.querySelector('svg')
+      if (!svg) throw new Error('svg element not found')
+
+      const markup = serializeInlineSvg(svg)
+
+      expect(markup).toContain('fill="rgb(255, 0, 0)"')
+      expect(markup).toContain('stroke="rgb(0, 0, 255)"')
+    })
+
+    it('ネストされた<svg>は親と一緒に出力する', () => {
+      document.body.innerHTML = `
+        <svg width="20" height="20"><svg width="10" height="10"><rect width="1" height="1"/></svg></svg>
+      `
+
+      const candidates = detectSvgElements(baseUrl)
+
+      expect(candidates).toHaveLength(1)
+      expect(candidates[0]?.width).toBe(20)
+    })
+
+    it('<img src="*.svg">をsvgソースとして検出する', () => {
+      document.body.innerHTML = `<img src="/icons/logo.svg" alt="Logo">`
+
+      const candidates = detectImgElements(baseUrl)
+
+      expect(candidates[0]).toMatchObject({
+        url: 'http://localhost:3000/icons/logo.svg',
+        source: 'svg',
+      })
+    })
+  })
+
+  describe('detectVideoElements', () => {
+    const mockVideoState = (
+      video: HTMLVideoElement,
+      state: { readyState: number; videoWidth: number; videoHeight: number }
+    ) => {
+      Object.defineProperty(video, 'readyState', { value: state.readyState })
+      Object.defineProperty(video, 'videoWidth', { value: state.videoWidth })
+      Object.defineProperty(video, 'videoHeight', { value: state.videoHeight })
+    }
+
+    it('<video poster>を検出する', () => {
+      document.body.innerHTML = `
+        <video poster="/poster.jpg" width="640" height="360" aria-label="Hero loop"></video>
+      `
+
+      const candidates = detectVideoElements(baseUrl)
+
+      expect(candidates).toHaveLength(1)
+      expect(candidates[0]).toMatchObject({
+        url: 'http://localhost:3000/poster.jpg',
+        source: 'video',
+        width: 640,
+        height: 360,
+        alt: 'Hero loop',
+      })
+    })
+
+    it('poster属性がないvideoはデフォルトではスキップする', () => {
+      document.body.innerHTML = `<video src="/clip.mp4"></video>`
+
+      expect(detectVideoElements(baseUrl)).toHaveLength(0)
+    })
+
+    it('captureVideoFrames有効時に現在フレームをPNGとして取得する', () => {
+      document.body.innerHTML = `<video src="/clip.mp4"></video>`
+      const video = document.querySelector('video')
+      if (!video) throw new Error('video element not found')
+      mockVideoState(video, { readyState: 4, videoWidth: 1920, videoHeight: 1080 })
+
+      const drawImage = vi.fn()
+      vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue({
+        drawImage,
+      } as unknown as CanvasRenderingContext2D)
+      vi.spyOn(HTMLCanvasElement.prototype, 'toDataURL').mockReturnValue(
+        'data:image/png;base64,iVBORw0KGgo='
+      )
+
+      const candidates = detectVideoElements(baseUrl, { captureVideoFrames: true })
+
+      expect(drawImage).toHaveBeenCalledWith(video, 0, 0, 1920, 1080)
+      expect(candidates).toHaveLength(1)
+      expect(candidates[0]).toMatchObject({
+        url: 'data:image/png;base64,iVBORw0KGgo=',
+        source: 'video',
+        width: 1920,
+        height: 1080,
+      })
+
+      vi.restoreAllMocks()
+    })
+
+    it('CORS汚染されたvideoはposterのみにフォールバックする', () => {
+      document.body.innerHTML = `<video poster="/poster.jpg" src="https://other.example.com/clip.mp4"></video>`
+      const video = document.querySelector('video')
+      if (!video) throw new Error('video element not found')
+      mockVideoState(video, { readyState: 4, videoWidth: 1280, videoHeight: 720 })
+
+      vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue({
+        drawImage: vi.fn(),
+      } as unknown as CanvasRenderingContext2D)
+      vi.spyOn(HTMLCanvasElement.prototype, 'toDataURL').mockImplementation(() => {
+        throw new Error('SecurityError: The canvas has been tainted by cross-origin data.')
+      })
+
+      const candidates = detectVideoElements(baseUrl, { captureVideoFrames: true })
+
+      expect(candidates).toHaveLength(1)
+      expect(candidates[0]?.url).toBe('http://localhost:3000/poster.jpg')
+
+      vi.restoreAllMocks()
+    })
+
+    it('フレーム未読込のvideoはキャプチャしない', () => {
+      document.body.innerHTML = `<video src="/clip.mp4"></video>`
+      const video = document.querySelector('video')
+      if (!video) throw new Error('video element not found')
+      mockVideoState(video, { readyState: 1, videoWidth: 0, videoHeight: 0 })
+
+      const toDataURL = vi.spyOn(HTMLCanvasElement.prototype, 'toDataURL')
+
+      expect(detectVideoElements(baseUrl, { captureVideoFrames: true })).toHaveLength(0)
+      expect(toDataURL).not.toHaveBeenCalled()
+
+      vi.restoreAllMocks()
+    })
+  })
+
+  describe('detectMetadataImages', () => {
+    afterEach(() => {
+      document.head.innerHTML = ''
+      document.title = ''
+    })
+
+    it('og:imageと構造化プロパティを検出する', () => {
+      document.head.innerHTML = `
+        <meta property="og:image" content="/share.jpg">
+        <meta property="og:image:secure_url" content="/share.jpg">
+        <meta property="og:image:width" content="1200">
+        <meta property="og:image:height" content="630">
+        <meta property="og:image:alt" content="Share Image">
+        <meta property="og:image" content="https://cdn.example.com/second.png">
+      `
+
+      const candidates = detectMetadataImages(baseUrl)
+
+      expect(candidates).toEqual([
+        {
+          url: 'http://localhost:3000/share.jpg',
+          source: 'meta',
+          width: 1200,
+          height: 630,
+          alt: 'Share Image',
+        },
+        { url: 'https://cdn.example.com/second.png', source: 'meta', alt: undefined },
+      ])
+    })
+
+    it('twitter:imageを検出し、ページタイトルをaltに使う', () => {
+      document.title = 'Product Page'
+      document.head.innerHTML += `<meta name="twitter:image" content="/card.jpg">`
+
+      const candidates = detectMetadataImages(baseUrl)
+
+      expect(candidates).toEqual([
+        { url: 'http://localhost:3000/card.jpg', source: 'meta', alt: 'Product Page' },
+      ])
+    })
+
+    it('アイコンをsizes属性の最大サイズ付きで検出する', () => {
+      document.head.innerHTML = `
+        <link rel="icon" href="/favicon.ico">
+        <link rel="icon" href="/icon.png" sizes="16x16 192x192">
+        <link rel="apple-touch-icon" href="/apple-touch-icon.png" sizes="180x180">
+        <link rel="stylesheet" href="/style.css">
+      `
+
+      const candidates = detectMetadataImages(baseUrl)
+
+      expect(candidates.map((c) => [c.url, c.width])).toEqual([
+        ['http://localhost:3000/favicon.ico', undefined],
+        ['http://localhost:3000/icon.png', 192],
+        ['http://localhost:3000/apple-touch-icon.png', 180],
+      ])
+    })
+
+    it('JSON-LDのProduct.image / Article.image / ImageObjectを検出する', () => {
+      document.body.innerHTML = `
+        <script type="application/ld+json">
+          {
+            "@context": "https://schema.org",
+            "@graph": [
+              { "@type": "Product", "name": "Sneaker", "image": ["/p1.jpg", "/p2.jpg"] },
+              {
+                "@type": "Article",
+                "headline": "News",
+                "image": { "@type": "ImageObject", "url": "/hero.jpg", "width": "1600", "height": { "@type": "QuantitativeValue", "value": 900 } },
+                "publisher": { "@type": "Organization", "logo": "/logo.png" }
+              }
+            ]
+          }
+        </script>
+        <script type="application/ld+json">{ invalid json</script>
+      `
+
+      const candidates = detectMetadataImages(baseUrl)
+
+      expect(candidates).toEqual([
+        { url: 'http://localhost:3000/p1.jpg', source: 'meta', alt: 'Sneaker' },
+        { url: 'http://localhost:3000/p2.jpg', source: 'meta', alt: 'Sneaker' },
+        {
+          url: 'http://localhost:3000/hero.jpg',
+          source: 'meta',
+          width: 1600,
+          height: 900,
+          alt: 'News',
+        },
+        { url: 'http://localhost:3000/logo.png', source: 'meta', alt: undefined },
+      ])
+    })
+
+    it('detectImagesではページ上の表示画像のソースを優先する', () => {
+      document.head.innerHTML = `
+        <meta property="og:image" content="/product.jpg">
+        <meta property="og:image" content="/share-only.jpg">
+      `
+      document.body.innerHTML = `<img src="/product.jpg" alt="Product">`
+
+      const candidates = detectImages({ harvestStylesheets: false })
+
+      expect(candidates.map((c) => [c.url, c.source])).toEqual([
+        ['http://localhost:3000/product.jpg', 'img'],
+        ['http://localhost:3000/share-only.jpg', 'meta'],
+      ])
+    })
+  })
+
   describe('detectImages (統合テスト)', () => {
     it('全種類の画像ソースを統合的に検出する', () => {
       document.body.innerHTML = `
@@ -401,7 +1106,8 @@ describe('画像検出エンジン', () => {
     })
 
     it('data URLを正しく処理する', () => {
-      const dataUrl = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg=='
+      const dataUrl =
+        'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg=='
 
       document.body.innerHTML = `
         <img src="${dataUrl}">
@@ -413,6 +1119,46 @@ describe('画像検出エンジン', () => {
       expect(candidates[0]?.url).toBe(dataUrl)
     })
 
+    it('rootを指定すると部分木内の画像のみ検出する', () => {
+      document.head.innerHTML = '<meta property="og:image" content="https://example.com/og.jpg">'
+      document.body.innerHTML = `
+        <header><img src="/logo.png"></header>
+        <section id="gallery">
+          <img src="/item.jpg">
+          <div style="background-image: url('/item-bg.jpg')"></div>
+        </section>
+      `
+      const gallery = document.getElementById('gallery') as HTMLElement
+
+      const urls = detectImages({ root: gallery }).map((c) => c.url)
+
+      expect(urls).toEqual(['http://localhost:3000/item.jpg', 'http://localhost:3000/item-bg.jpg'])
+      document.head.innerHTML = ''
+    })
+
+    it('検出ソースを統合した出自情報を付与する', () => {
+      document.body.innerHTML = `
+        <h2>Gallery</h2>
+        <a href="/detail">
+          <img src="/photo.jpg" srcset="/photo.jpg 1x">
+        </a>
+        <div style="background-image: url('/bg.jpg')"></div>
+      `
+
+      const candidates = detectImages()
+      const photo = candidates.find((c) => c.url === 'http://localhost:3000/photo.jpg')
+      const bg = candidates.find((c) => c.url === 'http://localhost:3000/bg.jpg')
+
+      expect(photo?.provenance).toMatchObject({
+        selector: 'html > body > a > img',
+        heading: 'Gallery',
+        linkHref: 'http://localhost:3000/detail',
+        documentIndex: 0,
+        sources: ['img', 'srcset'],
+      })
+      expect(bg?.provenance).toMatchObject({ documentIndex: 1, sources: ['css-bg'] })
+    })
+
     it('大量の画像を効率的に処理する', () => {
       // 100個の画像要素を作成
       const elements = Array.from(
@@ -432,6 +1178,71 @@ describe('画像検出エンジン', () => {
     })
   })
 
+  describe('detectImagesIncremental', () => {
+    const setupPage = () => {
+      document.body.innerHTML = `
+        <img src="/a.jpg" srcset="/a-2x.jpg 2x">
+        <div style="background-image: url('/bg.jpg')"></div>
+        <picture><source srcset="/p.webp"><img src="/p.jpg"></picture>
+      `
+    }
+
+    it('detectImagesと同じ結果を返す', async () => {
+      setupPage()
+
+      const expected = detectImages().map((c) => [c.url, c.source])
+      const result = await detectImagesIncremental()
+
+      expect(result.map((c) => [c.url, c.source])).toEqual(expected)
+    })
+
+    it('時間予算を使い切るたびに制御を返し、進捗を通知する', async () => {
+      setupPage()
+      const onProgress = vi.fn()
+
+      await detectImagesIncremental({ frameBudgetMs: 0, onProgress })
+
+      const phases = onProgress.mock.calls.map(([progress]) => progress.phase)
+      expect(phases).toContain('css-bg')
+      expect(onProgress).toHaveBeenCalledWith(
+        expect.objectContaining({ phase: 'img', phaseIndex: 0, phaseCount: 11 })
+      )
+      // 予算0msのため要素ごとに制御を返し、フェーズ内の進捗を通知する
+      const cssProgress = onProgress.mock.calls
+        .map(([progress]) => progress)
+        .filter((progress) => progress.phase === 'css-bg' && progress.processed > 0)
+      expect(cssProgress.length).toBeGreaterThan(0)
+    })
+
+    it('全フェーズを要素単位で分割する', async () => {
+      document.body.innerHTML = `
+        <svg viewBox="0 0 10 10"><rect width="10" height="10"></rect></svg>
+        <svg viewBox="0 0 10 10"><circle r="5"></circle></svg>
+        <noscript><img src="/ns.jpg"></noscript>
+        <div data-bg="/lazy-1.jpg"></div>
+        <div data-bg="/lazy-2.jpg"></div>
+      `
+      const onProgress = vi.fn()
+
+      await detectImagesIncremental({ frameBudgetMs: 0, onProgress })
+
+      const progressOf = (phase: string) =>
+        onProgress.mock.calls
+          .map(([progress]) => progress)
+          .filter((progress) => progress.phase === phase && progress.processed > 0)
+          .map((progress) => [progress.processed, progress.total])
+      expect(progressOf('svg')).toEqual([
+        [1, 2],
+        [2, 2],
+      ])
+      expect(progressOf('lazy-bg')).toEqual([
+        [1, 2],
+        [2, 2],
+      ])
+      expect(progressOf('noscript')).toEqual([[1, 1]])
+    })
+  })
+
   describe('コンテキスト抽出', () => {
     it('alt属性が優先される', () => {
       document.body.innerHTML = `
@@ -504,4 +1315,81 @@ describe('画像検出エンジン', () => {
       expect(candidates[0]?.alt?.length).toBeLessThanOrEqual(50)
     })
   })
+
+  describe('Shadow DOM対応', () => {
+    /**
+     * openなshadow rootを持つカスタム要素を作成
+     */
+    const createHost = (tag: string, shadowHtml: string): HTMLElement => {
+      const host = document.createElement(tag)
+      document.body.appendChild(host)
+      host.attachShadow({ mode: 'open' }).innerHTML = shadowHtml
+      return host
+    }
+
+    it('shadow root内の<img>を検出する', () => {
+      createHost('x-gallery', '<img src="/shadow.jpg" alt="Shadow Image" width="320" height="240">')
+
+      const candidates = detectImgElements(baseUrl)
+
+      expect(candidates).toHaveLength(1)
+      expect(candidates[0]).toMatchObject({
+        url: 'http://localhost:3000/shadow.jpg',
+        source: 'img',
+        alt: 'Shadow Image',
+      })
+    })
+
+    it('ネストしたshadow root内の<picture>とsrcsetを検出する', () => {
+      const outer = createHost('x-outer', '<div class="slot"></div>')
+      const inner = document.createElement('x-inner')
+      outer.shadowRoot?.querySelector('.slot')?.appendChild(inner)
+      inner.attachShadow({ mode: 'open' }).innerHTML = `
+        <picture>
+          <source srcset="/deep.webp 1x, /deep@2x.webp 2x">
+          <img src="/deep.jpg" srcset="/deep-small.jpg 400w, /deep-large.jpg 1200w">
+        </picture>
+      `
+
+      const urls = detectImages().map((c) => c.url)
+
+      expect(urls).toContain('http://localhost:3000/deep@2x.webp')
+      expect(urls).toContain('http://localhost:3000/deep-large.jpg')
+    })
+
+    it('shadow root内のCSS背景画像を検出する', () => {
+      createHost('x-hero', '<div class="hero" style="background-image: url(\'/hero.jpg\')"></div>')
+
+      const candidates = detectCSSBackgrounds(baseUrl)
+
+      expect(candidates.map((c) => c.url)).toContain('http://localhost:3000/hero.jpg')
+    })
+
+    it('slot経由でshadow root内のfigcaptionからコンテキストを抽出する', () => {
+      const host = createHost(
+        'x-figure',
+        '<figure><slot></slot><figcaption>Slotted Caption</figcaption></figure>'
+      )
+      const img = document.createElement('img')
+      img.src = '/slotted.jpg'
+      img.alt = ''
+      host.appendChild(img)
+
+      const candidates = detectImgElements(baseUrl)
+
+      expect(candidates[0]?.alt).toBe('Slotted Caption')
+    })
+
+    it('Shadow境界を越えて祖先のテキストを抽出する', () => {
+      document.body.innerHTML = '<div class="card">Card Title Text</div>'
+      const card = document.querySelector('.card')
+      const host = document.createElement('x-thumb')
+      card?.appendChild(host)
+      host.attachShadow({ mode: 'open' }).innerHTML = '<img src="/thumb.jpg" alt="">'
+
+      const candidates = detectImgElements(baseUrl)
+
+      expect(candidates[0]?.alt).toContain('Card Title')
+    })
+  })
 })